@@ -0,0 +1,36 @@
+import { CancelledError, isCancellation, sleep } from '../cancellation';
+
+describe('isCancellation', () => {
+  it('recognizes our own, fetch and simple-git cancellations', () => {
+    const abortError = Object.assign(new Error('This operation was aborted'), { name: 'AbortError' });
+    const gitAbort = Object.assign(new Error('git killed'), { plugin: 'abort' });
+
+    expect(isCancellation(new CancelledError())).toBe(true);
+    expect(isCancellation(abortError)).toBe(true);
+    expect(isCancellation(gitAbort)).toBe(true);
+  });
+
+  it('treats any error after the signal aborted as a cancellation', () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    expect(isCancellation(new Error('socket hang up'), controller.signal)).toBe(true);
+  });
+
+  it('rejects other errors and non-objects', () => {
+    expect(isCancellation(new Error('HTTP 500'))).toBe(false);
+    expect(isCancellation('AbortError')).toBe(false);
+    expect(isCancellation(undefined)).toBe(false);
+    expect(isCancellation(null)).toBe(false);
+  });
+});
+
+describe('sleep', () => {
+  it('rejects with CancelledError when the signal aborts', async () => {
+    const controller = new AbortController();
+    const pending = sleep(10_000, controller.signal);
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(CancelledError);
+  });
+});
@@ -0,0 +1,102 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { paymentCaseFile } from '../agents/__tests__/fixtures/caseFile';
+import { CaseFile, CommitInfo, InvestigationResult } from '../agents/types';
+import { CaseFileStore } from '../caseFileStore';
+
+function caseFile(id: string, startedAt: string, filePath: string = 'src/payments/processor.py'): CaseFile {
+  const fixture = paymentCaseFile();
+  return {
+    ...fixture,
+    id,
+    startedAt: new Date(startedAt),
+    codeSelection: { ...fixture.codeSelection, filePath }
+  };
+}
+
+function result(summary: string): InvestigationResult {
+  return {
+    narrative: `SUMMARY\n${summary}`,
+    summary,
+    confidence: 80,
+    sources: [],
+    recommendations: [],
+    timeline: [],
+    thoughtChain: { signatures: [], totalSteps: 0 }
+  };
+}
+
+describe('CaseFileStore', () => {
+  let root: string;
+  let store: CaseFileStore;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'cases-'));
+    store = new CaseFileStore(root);
+  });
+
+  afterEach(() => fs.rmSync(root, { recursive: true, force: true }));
+
+  it('round-trips a case with its dates, and leaves timestamp-like text alone', () => {
+    const saved = caseFile('case-1', '2026-01-01T00:00:00Z');
+    (saved.evidence[0].data as CommitInfo).message = '2019-11-30T09:12:00.000Z';
+    store.save(saved, result('2026-01-01T00:00:00.000Z'));
+
+    const loaded = store.get('case-1')!;
+    const commit = loaded.caseFile.evidence[0].data as CommitInfo;
+
+    expect(loaded.savedAt).toBeInstanceOf(Date);
+    expect(loaded.caseFile.startedAt).toEqual(new Date('2026-01-01T00:00:00Z'));
+    expect(loaded.caseFile.evidence[0].timestamp).toBeInstanceOf(Date);
+    expect(commit.date).toEqual(new Date('2019-11-30T09:12:00Z'));
+    expect(commit.message).toBe('2019-11-30T09:12:00.000Z');
+    expect(loaded.result.summary).toBe('2026-01-01T00:00:00.000Z');
+  });
+
+  it('lists summaries newest first and filters by file, author and date', () => {
+    store.save(caseFile('case-old', '2025-01-01T00:00:00Z'), result('Old'));
+    store.save(caseFile('case-new', '2026-03-01T00:00:00Z', 'src/billing/invoice.py'), result('New'));
+
+    expect(store.list().map(s => s.id)).toEqual(['case-new', 'case-old']);
+    expect(store.list()[0]).toMatchObject({ filePath: 'src/billing/invoice.py', lineStart: 142, authors: ['Dana Reyes'] });
+    expect(store.list()[0].startedAt).toEqual(new Date('2026-03-01T00:00:00Z'));
+    expect(store.list({ file: 'payments' }).map(s => s.id)).toEqual(['case-old']);
+    expect(store.list({ author: 'dana' })).toHaveLength(2);
+    expect(store.list({ author: 'nobody' })).toHaveLength(0);
+    expect(store.list({ since: new Date('2026-01-01') }).map(s => s.id)).toEqual(['case-new']);
+    expect(store.list({ limit: 1 }).map(s => s.id)).toEqual(['case-new']);
+  });
+
+  it('replaces a case saved again under the same id', () => {
+    store.save(caseFile('case-1', '2026-01-01T00:00:00Z'), result('First'));
+    store.save(caseFile('case-1', '2026-01-01T00:00:00Z'), result('Second'));
+
+    expect(store.list().map(s => s.summary)).toEqual(['Second']);
+  });
+
+  it('gets and deletes by a unique id prefix only', () => {
+    store.save(caseFile('case-abc', '2026-01-01T00:00:00Z'), result('A'));
+    store.save(caseFile('case-abd', '2026-01-02T00:00:00Z'), result('B'));
+
+    expect(store.get('case-ab')).toBeNull();
+    expect(store.get('case-abc')?.result.summary).toBe('A');
+    expect(store.delete('case-ab')).toBe(false);
+    expect(store.delete('case-abd')).toBe(true);
+    expect(store.get('case-abd')).toBeNull();
+    expect(store.list().map(s => s.id)).toEqual(['case-abc']);
+    expect(fs.readdirSync(path.join(root, 'cases')).sort()).toEqual(['case-abc.json', 'index.json']);
+  });
+
+  it('prunes by age and by count', () => {
+    store.save(caseFile('case-1', '2024-01-01T00:00:00Z'), result('1'));
+    store.save(caseFile('case-2', '2025-01-01T00:00:00Z'), result('2'));
+    store.save(caseFile('case-3', '2026-01-01T00:00:00Z'), result('3'));
+    store.save(caseFile('case-4', '2026-02-01T00:00:00Z'), result('4'));
+
+    expect(store.prune({ olderThan: new Date('2025-06-01') })).toBe(2);
+    expect(store.prune({ keep: 1 })).toBe(1);
+    expect(store.list().map(s => s.id)).toEqual(['case-4']);
+    expect(store.get('case-3')).toBeNull();
+  });
+});
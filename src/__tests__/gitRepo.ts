@@ -0,0 +1,64 @@
+/**
+ * Throwaway git repositories for tests that need real history: blame,
+ * log, merges and rebases
+ */
+
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export interface GitRepo {
+  dir: string;
+  git(...args: string[]): string;                 // Trimmed stdout; throws when git exits non-zero
+  write(file: string, content: string): void;     // Repo-relative; parent directories are created
+  read(file: string): string;
+  commit(message: string, date?: string): string; // Stages everything; returns the new hash
+  remove(): void;
+}
+
+// Fixed identity and no user or system config, so results do not depend on the machine
+const GIT_ENV = {
+  GIT_AUTHOR_NAME: 'Dana Reyes',
+  GIT_AUTHOR_EMAIL: 'dana@example.com',
+  GIT_COMMITTER_NAME: 'Dana Reyes',
+  GIT_COMMITTER_EMAIL: 'dana@example.com',
+  GIT_CONFIG_NOSYSTEM: '1',
+  GIT_CONFIG_GLOBAL: os.devNull,
+  GIT_EDITOR: 'true'
+};
+
+export function createRepo(): GitRepo {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-repo-'));
+
+  const run = (args: string[], env: Record<string, string> = {}): string =>
+    execFileSync('git', args, {
+      cwd: dir,
+      env: { ...process.env, ...GIT_ENV, ...env },
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'pipe']
+    }).trim();
+
+  run(['init', '-q', '-b', 'main']);
+  // Also for git run by the code under test, which does not get GIT_ENV
+  run(['config', 'user.name', GIT_ENV.GIT_AUTHOR_NAME]);
+  run(['config', 'user.email', GIT_ENV.GIT_AUTHOR_EMAIL]);
+  run(['config', 'commit.gpgsign', 'false']);
+
+  return {
+    dir,
+    git: (...args) => run(args),
+    write(file, content) {
+      const fullPath = path.join(dir, file);
+      fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+      fs.writeFileSync(fullPath, content);
+    },
+    read: file => fs.readFileSync(path.join(dir, file), 'utf-8'),
+    commit(message, date = '2024-01-01T12:00:00Z') {
+      run(['add', '-A']);
+      run(['commit', '-q', '--allow-empty', '-m', message], { GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date });
+      return run(['rev-parse', 'HEAD']);
+    },
+    remove: () => fs.rmSync(dir, { recursive: true, force: true })
+  };
+}
@@ -0,0 +1,142 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LeadDetectiveAgent } from '../agents/leadDetective';
+import { InvestigationResult } from '../agents/types';
+import { CacheKeyParts, InvestigationCache, investigationCacheKey, snippetHash } from '../investigationCache';
+import { Investigator } from '../investigator';
+import { LLMProvider } from '../llm';
+import { createRepo, GitRepo } from './gitRepo';
+
+const parts: CacheKeyParts = {
+  filePath: 'src/payments/processor.py',
+  snippet: 'if amount > 9999.99:\n    return legacy(amount)',
+  commits: ['a1b2c3d', 'e4f5a6b'],
+  model: 'gemini-3-pro-preview',
+  thinkingLevel: 'high',
+  contextBudget: 24000
+};
+
+function result(summary: string): InvestigationResult {
+  return {
+    narrative: summary,
+    summary,
+    confidence: 70,
+    sources: [],
+    recommendations: [],
+    timeline: [],
+    thoughtChain: { signatures: [], totalSteps: 0 }
+  };
+}
+
+describe('investigationCacheKey', () => {
+  const key = investigationCacheKey(parts);
+
+  it('ignores cosmetic differences in the snippet, commit order and path separators', () => {
+    expect(snippetHash('a  \r\nb\n')).toBe(snippetHash('a\nb'));
+    expect(investigationCacheKey({
+      ...parts,
+      filePath: 'src\\payments\\processor.py',
+      snippet: 'if amount > 9999.99:   \r\n    return legacy(amount)\n',
+      commits: ['e4f5a6b', 'a1b2c3d', 'a1b2c3d']
+    })).toBe(key);
+  });
+
+  it('changes with the blamed commits, model, thinking level and context budget', () => {
+    expect(investigationCacheKey({ ...parts, commits: ['a1b2c3d', '9f8e7d6'] })).not.toBe(key);
+    expect(investigationCacheKey({ ...parts, model: 'qwen3-32b' })).not.toBe(key);
+    expect(investigationCacheKey({ ...parts, thinkingLevel: 'low' })).not.toBe(key);
+    expect(investigationCacheKey({ ...parts, contextBudget: 48000 })).not.toBe(key);
+    expect(investigationCacheKey({ ...parts, snippet: 'if amount > 0:' })).not.toBe(key);
+  });
+});
+
+describe('InvestigationCache', () => {
+  let dir: string;
+
+  beforeEach(() => { dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cache-')); });
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('returns a stored result only for the same key parts', () => {
+    const cache = new InvestigationCache(dir);
+    cache.set(parts, result('Cached'));
+
+    expect(cache.get(parts)?.summary).toBe('Cached');
+    expect(cache.get({ ...parts, commits: ['a1b2c3d'] })).toBeNull();
+    expect(cache.clear()).toBe(1);
+    expect(cache.get(parts)).toBeNull();
+  });
+});
+
+describe('Investigator with a cache', () => {
+  let repo: GitRepo;
+  let cacheDir: string;
+  let investigate: jest.SpyInstance;
+
+  const provider: LLMProvider = {
+    name: 'fake',
+    model: 'gemini-3-pro-preview',
+    async generate() { throw new Error('not used'); },
+    async *stream() { yield ''; },
+    async countTokens(text) { return text.length; }
+  };
+
+  const selection = () => ({
+    text: 'def charge(amount):\n    return gateway.charge(amount)',
+    filePath: 'processor.py',
+    lineStart: 1,
+    lineEnd: 2,
+    repoPath: repo.dir
+  });
+
+  const run = (options: { cache?: boolean; refresh?: boolean } = {}) => new Investigator({
+    provider,
+    cache: options.cache === false ? undefined : new InvestigationCache(cacheDir),
+    refreshCache: options.refresh
+  }).investigate(selection());
+
+  beforeEach(() => {
+    repo = createRepo();
+    repo.write('processor.py', 'def charge(amount):\n    return gateway.charge(amount)\n');
+    repo.commit('Add the payment processor');
+    cacheDir = path.join(repo.dir, '.codedetective', 'cache');
+
+    let runs = 0;
+    investigate = jest.spyOn(LeadDetectiveAgent.prototype, 'investigate')
+      .mockImplementation(async () => result(`Run ${++runs}`));
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    repo.remove();
+  });
+
+  it('reuses the result for unchanged lines', async () => {
+    expect((await run()).summary).toBe('Run 1');
+    expect(fs.readdirSync(cacheDir)).toHaveLength(1);
+    expect((await run()).summary).toBe('Run 1');
+    expect(investigate).toHaveBeenCalledTimes(1);
+  });
+
+  it('misses once a line is blamed to a new commit', async () => {
+    await run();
+    repo.write('processor.py', 'def charge(amount):\n    return gateway.charge(amount)  \n');
+    repo.commit('Touch the charge line');
+
+    expect((await run()).summary).toBe('Run 2');
+  });
+
+  it('skips a cached result with --refresh but stores the new one', async () => {
+    await run();
+
+    expect((await run({ refresh: true })).summary).toBe('Run 2');
+    expect((await run()).summary).toBe('Run 2');
+  });
+
+  it('neither reads nor writes the cache with --no-cache', async () => {
+    expect((await run({ cache: false })).summary).toBe('Run 1');
+    expect(fs.existsSync(cacheDir)).toBe(false);
+    expect((await run({ cache: false })).summary).toBe('Run 2');
+  });
+});
@@ -0,0 +1,56 @@
+import * as path from 'path';
+import { LeadDetectiveAgent } from '../agents';
+import { paymentCaseFile } from '../agents/__tests__/fixtures/caseFile';
+import { generateMarkdownExport } from '../investigator';
+import { CassetteProvider } from '../llm';
+
+describe('generateMarkdownExport', () => {
+  async function replayedResult() {
+    const provider = new CassetteProvider({
+      mode: 'replay',
+      dir: path.join(__dirname, '../agents/__tests__/cassettes/investigation'),
+      model: 'gemini-3-pro-preview'
+    });
+    return new LeadDetectiveAgent(provider).investigate(paymentCaseFile());
+  }
+
+  it('renders a replayed investigation as a report', async () => {
+    const result = await replayedResult();
+    const { content, filename } = generateMarkdownExport(result);
+
+    expect(filename).toMatch(/^investigation-\d+\.md$/);
+    expect(content).toContain(`**Confidence:** ${result.confidence}%`);
+    expect(content).toContain(`## Summary\n\n${result.summary}`);
+    expect(content).toContain(`## Investigation Narrative\n\n${result.narrative}`);
+    expect(content).toContain('## Confidence Breakdown');
+    expect(content).toContain('| 2019-11-29 | Issue #411: Payments above 9999.99 fail | support-bot | [Issue#411](https://github.com/acme/payments/issues/411) |');
+    expect(content).toContain('- **PR** [PR#412](https://github.com/acme/payments/pull/412): Hotfix pull request [E2]');
+    expect(content).toContain('- **DOCUMENT** (high priority): Explain the overflow and link issue #411 next to the threshold.');
+  });
+
+  it('lists failed lookups and omitted evidence', async () => {
+    const result = await replayedResult();
+    const { content } = generateMarkdownExport({
+      ...result,
+      failures: [{ service: 'forge:github', operation: 'find PR for commit a1b2c3d', kind: 'rate_limited', status: 429, message: 'slow down' }],
+      contextPacking: {
+        budgetTokens: 1000,
+        usedTokens: 900,
+        dropped: [{ evidenceId: 'E2', kind: 'PR review', label: 'PR #412 review by mkhan', tokens: 40 }]
+      }
+    });
+
+    expect(content).toContain('## Evidence Not Retrieved');
+    expect(content).toContain('- find PR for commit a1b2c3d: rate limited 429 (forge:github) - slow down');
+    expect(content).toContain('## Evidence Omitted\n\n1 lower-relevance pieces of evidence (~40 tokens) did not fit the 1000-token context budget:');
+    expect(content).toContain('- [E2] PR review: PR #412 review by mkhan (~40 tokens)');
+  });
+
+  it('leaves out sections for data the result does not have', async () => {
+    const { content } = generateMarkdownExport({ ...(await replayedResult()), confidenceBreakdown: undefined });
+
+    expect(content).not.toContain('## Confidence Breakdown');
+    expect(content).not.toContain('## Evidence Not Retrieved');
+    expect(content).not.toContain('## Evidence Omitted');
+  });
+});
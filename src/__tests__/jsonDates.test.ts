@@ -0,0 +1,18 @@
+import { reviveDates, reviveDatesAt } from '../jsonDates';
+
+describe('reviveDates', () => {
+  it('turns ISO timestamps back into dates', () => {
+    const parsed = JSON.parse(JSON.stringify({ at: new Date('2024-05-01T12:30:00.000Z'), name: '2024' }), reviveDates);
+
+    expect(parsed.at).toEqual(new Date('2024-05-01T12:30:00.000Z'));
+    expect(parsed.name).toBe('2024');
+  });
+
+  it('limits reviving to the given keys', () => {
+    const text = JSON.stringify({ appliedAt: '2024-05-01T12:30:00Z', original: '2024-05-01T12:30:00Z' });
+    const parsed = JSON.parse(text, reviveDatesAt('appliedAt'));
+
+    expect(parsed.appliedAt).toBeInstanceOf(Date);
+    expect(parsed.original).toBe('2024-05-01T12:30:00Z');
+  });
+});
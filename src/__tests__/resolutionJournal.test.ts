@@ -0,0 +1,156 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ConflictResolverAgent } from '../agents/conflictResolver';
+import { LLMProvider } from '../llm';
+import { JournalEntry, ResolutionJournal } from '../resolutionJournal';
+import { createRepo, GitRepo } from './gitRepo';
+
+describe('ResolutionJournal', () => {
+  let repo: GitRepo;
+  let journal: ResolutionJournal;
+
+  const entry = (overrides: Partial<JournalEntry> = {}): JournalEntry => ({
+    file: 'notes.txt',
+    appliedAt: new Date('2024-05-01T12:00:00Z'),
+    original: 'a\n<<<<<<< HEAD\nb\n=======\nc\n>>>>>>> feature\n',
+    applied: 'a\nb\nc\n',
+    blocks: [{
+      startLine: 2,
+      endLine: 6,
+      markers: '<<<<<<< HEAD\nb\n=======\nc\n>>>>>>> feature',
+      resolution: 'b\nc',
+      strategy: 'merge',
+      confidence: 90
+    }],
+    ...overrides
+  });
+
+  beforeEach(() => {
+    repo = createRepo();
+    journal = ResolutionJournal.forRepo(repo.dir);
+  });
+
+  afterEach(() => repo.remove());
+
+  it('keeps the journal inside the git directory', () => {
+    journal.record(entry());
+
+    expect(fs.readdirSync(path.join(repo.dir, '.git', 'codedetective', 'resolutions'))).toHaveLength(1);
+    expect(journal.entries('notes.txt')[0].appliedAt).toEqual(new Date('2024-05-01T12:00:00Z'));
+  });
+
+  it('restores the file and steps back through earlier applications', async () => {
+    journal.record(entry({ original: 'first', applied: 'second' }));
+    journal.record(entry({ original: 'second', applied: 'third', appliedAt: new Date('2024-05-02T12:00:00Z') }));
+    repo.write('notes.txt', 'third');
+
+    await expect(journal.undo(repo.dir, 'notes.txt')).resolves.toMatchObject({ restored: true, blocks: 1 });
+    expect(repo.read('notes.txt')).toBe('second');
+    await expect(journal.undo(repo.dir, 'notes.txt')).resolves.toMatchObject({ restored: true });
+    expect(repo.read('notes.txt')).toBe('first');
+    await expect(journal.undo(repo.dir, 'notes.txt')).resolves.toMatchObject({
+      restored: false,
+      reason: 'No applied resolutions recorded for this file'
+    });
+  });
+
+  it('refuses a file edited since the apply unless forced', async () => {
+    journal.record(entry());
+    repo.write('notes.txt', 'a\nb\nc\nd\n');
+
+    await expect(journal.undo(repo.dir, 'notes.txt')).resolves.toMatchObject({
+      restored: false,
+      edited: true,
+      reason: 'File changed after the resolutions were applied'
+    });
+    expect(repo.read('notes.txt')).toBe('a\nb\nc\nd\n');
+
+    await expect(journal.undo(repo.dir, 'notes.txt', true)).resolves.toMatchObject({ restored: true });
+    expect(repo.read('notes.txt')).toBe(entry().original);
+    expect(journal.entries('notes.txt')).toEqual([]);
+  });
+
+  it('refuses a file deleted since the apply unless forced', async () => {
+    journal.record(entry({ file: 'docs/notes.txt' }));
+
+    await expect(journal.undo(repo.dir, 'docs/notes.txt')).resolves.toMatchObject({
+      restored: false,
+      edited: true,
+      reason: 'File was deleted after the resolutions were applied'
+    });
+    await expect(journal.undo(repo.dir, 'docs/notes.txt', true)).resolves.toMatchObject({ restored: true });
+    expect(repo.read('docs/notes.txt')).toBe(entry().original);
+  });
+
+  it('undoes every file, most recent first', async () => {
+    journal.record(entry({ file: 'a.txt' }));
+    journal.record(entry({ file: 'b.txt', appliedAt: new Date('2024-05-02T12:00:00Z') }));
+    repo.write('a.txt', entry().applied);
+    repo.write('b.txt', 'edited');
+
+    const results = await journal.undoAll(repo.dir);
+
+    expect(results.map(r => [r.file, r.restored])).toEqual([['b.txt', false], ['a.txt', true]]);
+    expect(journal.latest().map(e => e.file)).toEqual(['b.txt']);
+  });
+
+  describe('after the resolver applied a merge conflict', () => {
+    const provider: LLMProvider = {
+      name: 'fake',
+      model: 'gemini-3-pro-preview',
+      async generate() { throw new Error('not used'); },
+      async *stream() { yield ''; },
+      async countTokens(text) { return text.length; }
+    };
+
+    const base = 'one\ntwo\nthree\nfour\n';
+    let conflicted: string;
+    let stages: string;
+
+    // Adjacent edits conflict in git but are settled by the pre-pass
+    beforeEach(async () => {
+      repo.write('notes.txt', base);
+      repo.commit('Base');
+      repo.git('checkout', '-q', '-b', 'feature');
+      repo.write('notes.txt', base.replace('three', 'THREE'));
+      repo.commit('Their change');
+      repo.git('checkout', '-q', 'main');
+      repo.write('notes.txt', base.replace('two', 'TWO'));
+      repo.commit('Our change');
+      expect(() => repo.git('merge', 'feature')).toThrow();
+      conflicted = repo.read('notes.txt');
+      stages = repo.git('ls-files', '-s', '--', 'notes.txt');
+
+      const report = await new ConflictResolverAgent(repo.dir, { provider, autoApply: true }).resolveAll();
+      expect(report.resolutions[0].appliedAt).toBeDefined();
+    });
+
+    it('journals HEAD and the conflict stages', () => {
+      expect(journal.entries('notes.txt')[0]).toMatchObject({
+        head: repo.git('rev-parse', 'HEAD'),
+        index: `${stages}\n`
+      });
+    });
+
+    it('restores the conflict stages of a file staged since', async () => {
+      repo.git('add', 'notes.txt');
+      expect(repo.git('ls-files', '-s', '--', 'notes.txt')).toMatch(/ 0\tnotes\.txt$/);
+
+      await expect(journal.undo(repo.dir, 'notes.txt')).resolves.toMatchObject({ restored: true });
+
+      expect(repo.read('notes.txt')).toBe(conflicted);
+      expect(repo.git('ls-files', '-s', '--', 'notes.txt')).toBe(stages);
+    });
+
+    it('refuses once the merge was committed, even when forced', async () => {
+      repo.git('add', 'notes.txt');
+      repo.git('commit', '-q', '--no-edit');
+
+      const result = await journal.undo(repo.dir, 'notes.txt', true);
+
+      expect(result).toMatchObject({ restored: false, reason: expect.stringContaining('HEAD moved') });
+      expect(result.edited).toBeUndefined();
+      expect(repo.read('notes.txt')).toBe('one\nTWO\nTHREE\nfour\n');
+    });
+  });
+});
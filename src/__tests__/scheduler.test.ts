@@ -0,0 +1,152 @@
+import { CancelledError } from '../cancellation';
+import { RequestScheduler, ServiceError } from '../scheduler';
+
+// Shaped like the errors our providers and Octokit throw
+function httpError(status: number, headers: Record<string, string> = {}): Error {
+  return Object.assign(new Error(`HTTP ${status}`), { status, headers });
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function deferred<T>(): { promise: Promise<T>; resolve: (value: T) => void } {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(r => { resolve = r; });
+  return { promise, resolve };
+}
+
+async function failWith(scheduler: RequestScheduler, error: unknown): Promise<ServiceError> {
+  return scheduler.run('test', () => Promise.reject(error)).catch(e => e);
+}
+
+describe('RequestScheduler', () => {
+  it('retries transient failures until the call succeeds', async () => {
+    const scheduler = new RequestScheduler({ baseDelayMs: 1 });
+    let calls = 0;
+
+    const result = await scheduler.run('test', async () => {
+      if (++calls < 3) throw httpError(503);
+      return 'ok';
+    });
+
+    expect(result).toBe('ok');
+    expect(calls).toBe(3);
+  });
+
+  it('does not retry rejected requests and passes other errors through', async () => {
+    const scheduler = new RequestScheduler({ baseDelayMs: 1 });
+
+    const rejected = await failWith(scheduler, httpError(404));
+    expect(rejected).toBeInstanceOf(ServiceError);
+    expect(rejected).toMatchObject({ kind: 'rejected', status: 404, attempts: 1 });
+
+    const plain = new Error('bad prompt');
+    await expect(scheduler.run('test', () => Promise.reject(plain))).rejects.toBe(plain);
+  });
+
+  it('honors rate-limit headers from fetch responses and Octokit errors', async () => {
+    const options = { baseDelayMs: 1, maxRetries: 0, maxDelayMs: 1000 };
+
+    const fetchError = httpError(429);
+    Object.assign(fetchError, { headers: new Headers({ 'Retry-After': '120' }) });
+    expect(await failWith(new RequestScheduler(options), fetchError)).toMatchObject({ kind: 'rate_limited', status: 429 });
+
+    const octokitError = Object.assign(new Error('API rate limit exceeded'), {
+      status: 403,
+      response: { status: 403, headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '0' } }
+    });
+    expect(await failWith(new RequestScheduler(options), octokitError)).toMatchObject({ kind: 'rate_limited', status: 403 });
+  });
+
+  it('retries network errors reported through the error cause', async () => {
+    const scheduler = new RequestScheduler({ baseDelayMs: 1 });
+    let calls = 0;
+
+    const result = await scheduler.run('test', async () => {
+      if (++calls === 1) throw new TypeError('fetch failed', { cause: { code: 'ECONNRESET' } });
+      return 'ok';
+    });
+
+    expect(result).toBe('ok');
+    expect(calls).toBe(2);
+  });
+
+  it('opens the circuit after repeated failures', async () => {
+    const scheduler = new RequestScheduler({ baseDelayMs: 1, maxRetries: 0, failureThreshold: 2, cooldownMs: 1000 });
+
+    expect(await failWith(scheduler, httpError(503))).toMatchObject({ kind: 'unavailable' });
+    expect(await failWith(scheduler, httpError(503))).toMatchObject({ kind: 'unavailable' });
+
+    const call = jest.fn(async () => 'ok');
+    await expect(scheduler.run('test', call)).rejects.toMatchObject({ kind: 'circuit_open' });
+    expect(call).not.toHaveBeenCalled();
+  });
+
+  describe('half-open circuit', () => {
+    const options = { baseDelayMs: 1, maxRetries: 0, failureThreshold: 1, cooldownMs: 20, maxDelayMs: 50 };
+
+    it('lets a single trial call through once the cooldown is over', async () => {
+      const scheduler = new RequestScheduler(options);
+      await failWith(scheduler, httpError(503));
+      await wait(30);
+
+      const trial = deferred<string>();
+      const probe = scheduler.run('test', () => trial.promise);
+      await expect(scheduler.run('test', async () => 'other')).rejects.toMatchObject({ kind: 'circuit_open' });
+
+      trial.resolve('recovered');
+      await expect(probe).resolves.toBe('recovered');
+      await expect(scheduler.run('test', async () => 'closed')).resolves.toBe('closed');
+    });
+
+    it('reopens the circuit when the trial call fails', async () => {
+      const scheduler = new RequestScheduler(options);
+      await failWith(scheduler, httpError(503));
+      await wait(30);
+
+      expect(await failWith(scheduler, httpError(502))).toMatchObject({ kind: 'unavailable' });
+      await expect(scheduler.run('test', async () => 'ok')).rejects.toMatchObject({ kind: 'circuit_open' });
+    });
+
+    it('frees the probe when the trial is refused before it runs', async () => {
+      const scheduler = new RequestScheduler(options);
+      // Blocked for longer than maxDelayMs, so the trial fails fast as rate limited
+      await failWith(scheduler, httpError(503, { 'retry-after': '0.1' }));
+      await wait(30);
+
+      await expect(scheduler.run('test', async () => 'ok')).rejects.toMatchObject({ kind: 'rate_limited' });
+
+      await wait(80);
+      await expect(scheduler.run('test', async () => 'recovered')).resolves.toBe('recovered');
+    });
+
+    it('frees the probe when the trial is cancelled before it runs', async () => {
+      const scheduler = new RequestScheduler(options);
+      await failWith(scheduler, httpError(503));
+      await wait(30);
+
+      const controller = new AbortController();
+      controller.abort();
+      const call = jest.fn(async () => 'ok');
+      await expect(scheduler.run('test', call, controller.signal)).rejects.toBeInstanceOf(CancelledError);
+      expect(call).not.toHaveBeenCalled();
+
+      await expect(scheduler.run('test', async () => 'recovered')).resolves.toBe('recovered');
+    });
+
+    it('frees the probe when the trial is cancelled while waiting out a rate limit', async () => {
+      const scheduler = new RequestScheduler(options);
+      await failWith(scheduler, httpError(503, { 'retry-after': '0.04' }));
+      await wait(25);
+
+      const controller = new AbortController();
+      const trial = scheduler.run('test', async () => 'ok', controller.signal);
+      controller.abort();
+      await expect(trial).rejects.toBeInstanceOf(CancelledError);
+
+      await wait(30);
+      await expect(scheduler.run('test', async () => 'recovered')).resolves.toBe('recovered');
+    });
+  });
+});
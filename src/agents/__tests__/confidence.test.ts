@@ -0,0 +1,104 @@
+import { explainsIntent, scoreConfidence } from '../confidence';
+import { BlameRange, CaseFile, Claim } from '../types';
+import { paymentCaseFile } from './fixtures/caseFile';
+
+const CITING_ALL: Claim[] = [
+  { text: 'Added as a hotfix.', category: 'discovery', evidenceIds: ['E1', 'E3'] },
+  { text: 'Approved as a stopgap.', category: 'evolution', evidenceIds: ['E2'] }
+];
+
+function withBlame(caseFile: CaseFile, commits: string[], skipped: number = 0): CaseFile {
+  const range: BlameRange = {
+    filePath: caseFile.codeSelection.filePath,
+    lineStart: 142,
+    lineEnd: 143,
+    lines: [],
+    commits: commits.map(commitHash => ({
+      commitHash,
+      author: 'Dana Reyes',
+      authorEmail: 'dana@example.com',
+      timestamp: new Date('2019-11-30T09:12:00Z'),
+      summary: 'Route large payments to the legacy handler (#412)',
+      lineCount: 1,
+      lineNumbers: [142]
+    })),
+    skipped: Array.from({ length: skipped }, (_, i) => ({
+      commitHash: `f${i}`,
+      summary: 'Run black',
+      reason: 'mass-format' as const,
+      detail: '40 files touched'
+    }))
+  };
+  caseFile.evidence.push({ id: 'E4', type: 'blame_range', source: 'git blame', timestamp: new Date(), data: range });
+  return caseFile;
+}
+
+describe('scoreConfidence', () => {
+  it('takes 70% of the score from the evidence and 30% from the model', () => {
+    // Intent 0.3 + PR and issue 0.25 + three verified sources 0.2; no blame data
+    const breakdown = scoreConfidence(paymentCaseFile(), CITING_ALL, 88);
+
+    expect(breakdown).toMatchObject({ evidenceScore: 75, modelScore: 88, evidenceWeight: 0.7 });
+    expect(breakdown.score).toBe(Math.round(75 * 0.7 + 88 * 0.3));
+  });
+
+  it('weights the factors to a total of one', () => {
+    const { factors } = scoreConfidence(paymentCaseFile(), CITING_ALL, 50);
+
+    expect(factors.reduce((sum, f) => sum + f.weight, 0)).toBeCloseTo(1);
+  });
+
+  it('clamps and rounds the model score before blending', () => {
+    expect(scoreConfidence(paymentCaseFile(), CITING_ALL, 140)).toMatchObject({ modelScore: 100, score: 83 });
+    expect(scoreConfidence(paymentCaseFile(), CITING_ALL, -20)).toMatchObject({ modelScore: 0, score: 53 });
+    expect(scoreConfidence(paymentCaseFile(), CITING_ALL, 87.6).modelScore).toBe(88);
+  });
+
+  it('stays within 0 to 100 at either extreme', () => {
+    const empty = { ...paymentCaseFile(), evidence: [] };
+    expect(scoreConfidence(empty, [], 0)).toMatchObject({ score: 0, evidenceScore: 0 });
+
+    const full = withBlame(paymentCaseFile(), ['a1b2c3d4e5f60718293a4b5c6d7e8f9012345678']);
+    expect(scoreConfidence(full, CITING_ALL, 100)).toMatchObject({ score: 100, evidenceScore: 100 });
+  });
+
+  it('dilutes the spread score per extra commit, ignoring uncommitted lines', () => {
+    const caseFile = withBlame(paymentCaseFile(), ['a1', 'b2', 'c3', 'd4', '0000000000000000000000000000000000000000']);
+    const spread = scoreConfidence(caseFile, CITING_ALL, 50).factors.find(f => f.name === 'Distinct commits in range');
+
+    expect(spread).toMatchObject({ score: 0.5, detail: '4 commits shaped the selection' });
+  });
+
+  it('takes a quarter off the blame factor per mechanical commit walked past', () => {
+    const mechanical = (skipped: number) => scoreConfidence(withBlame(paymentCaseFile(), ['a1'], skipped), CITING_ALL, 50)
+      .factors.find(f => f.name === 'Blame free of mechanical commits');
+
+    expect(mechanical(0)).toMatchObject({ score: 1, detail: 'Blame landed on logic changes directly' });
+    expect(mechanical(2)).toMatchObject({ score: 0.5, detail: 'Walked past 2 mechanical commits' });
+    expect(mechanical(5)?.score).toBe(0);
+  });
+
+  it('scales verified sources by the share of supported findings', () => {
+    const claims: Claim[] = [
+      { text: 'Added as a hotfix.', category: 'discovery', evidenceIds: ['E1'] },
+      { text: 'Load tested in 2018.', category: 'evolution', evidenceIds: [], unsupported: true }
+    ];
+    const verified = scoreConfidence(paymentCaseFile(), claims, 50).factors.find(f => f.name === 'Cited sources verify');
+
+    expect(verified?.score).toBeCloseTo(1 / 3 * 1 / 2);
+  });
+});
+
+describe('explainsIntent', () => {
+  it('accepts a body, a ticket reference or intent wording', () => {
+    expect(explainsIntent('Cap charges\n\nThe gateway rejects anything above 9999.99 since March.')).toBe(true);
+    expect(explainsIntent('Cap charges (PAY-7)')).toBe(true);
+    expect(explainsIntent('Cap charges to avoid gateway rejections')).toBe(true);
+  });
+
+  it('rejects generic subjects and trailer-only bodies', () => {
+    expect(explainsIntent('wip')).toBe(false);
+    expect(explainsIntent('Updates')).toBe(false);
+    expect(explainsIntent('Cap charges\n\nCo-authored-by: Sam Ortiz <sam@example.com>\nReviewed-by: Lee Park <lee@example.com>')).toBe(false);
+  });
+});
@@ -0,0 +1,356 @@
+import { GenerateRequest, LLMProvider } from '../../llm';
+import { createRepo, GitRepo } from '../../__tests__/gitRepo';
+import { ConflictResolverAgent, substituteConflicts } from '../conflictResolver';
+import { ValidationConfig } from '../conflicts/validation';
+
+const content = [
+  'import a from "a";',
+  '<<<<<<< HEAD',
+  'import b from "b";',
+  '=======',
+  '>>>>>>> feature',
+  'run();',
+  '<<<<<<< HEAD',
+  'left();',
+  '=======',
+  'right();',
+  '>>>>>>> feature',
+  ''
+].join('\n');
+
+describe('substituteConflicts', () => {
+  it('replaces the chosen blocks and keeps the others', () => {
+    expect(substituteConflicts(content, new Map([[2, 'import b from "b";\nimport c from "c";']]))).toBe([
+      'import a from "a";',
+      'import b from "b";',
+      'import c from "c";',
+      'run();',
+      '<<<<<<< HEAD',
+      'left();',
+      '=======',
+      'right();',
+      '>>>>>>> feature',
+      ''
+    ].join('\n'));
+  });
+
+  it('removes a block resolved to nothing without leaving a blank line', () => {
+    expect(substituteConflicts(content, new Map([[2, ''], [7, 'left();']])))
+      .toBe('import a from "a";\nrun();\nleft();\n');
+  });
+});
+
+describe('ConflictResolverAgent', () => {
+  let repo: GitRepo;
+  let replies: string[];
+  let prompts: string[];
+
+  const provider: LLMProvider = {
+    name: 'fake',
+    model: 'gemini-3-pro-preview',
+    async generate(request: GenerateRequest) {
+      prompts.push(request.prompt);
+      const text = replies.shift();
+      if (text === undefined) throw new Error('no reply left');
+      return { text, model: 'gemini-3-pro-preview' };
+    },
+    async *stream() { yield ''; },
+    async countTokens(text) { return text.length; }
+  };
+
+  const resolve = (validation?: ValidationConfig) =>
+    new ConflictResolverAgent(repo.dir, { provider, autoApply: true, validation }).resolveAll();
+
+  // Merge feature (theirs) into main (ours), both branching from base,
+  // with the default conflict style so the base comes from the index
+  const merge = (base: string, ours: string, theirs: string, file = 'notes.txt') => {
+    repo.write(file, base);
+    repo.commit('Base');
+    repo.git('checkout', '-q', '-b', 'feature');
+    repo.write(file, theirs);
+    repo.commit('Their change');
+    repo.git('checkout', '-q', 'main');
+    repo.write(file, ours);
+    repo.commit('Our change');
+    expect(() => repo.git('merge', 'feature')).toThrow();
+  };
+
+  const base = 'one\ntwo\nthree\nfour\nfive\nsix\nseven\n';
+  const adjacentEdits = () => merge(base, base.replace('two', 'TWO'), base.replace('three', 'THREE'));
+
+  beforeEach(() => {
+    repo = createRepo();
+    replies = [];
+    prompts = [];
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    repo.remove();
+  });
+
+  describe('base mapped from the index', () => {
+    it('applies a pre-pass merge when the sides map to one base region', async () => {
+      adjacentEdits();
+
+      const report = await resolve();
+
+      expect(report.resolutions).toHaveLength(1);
+      expect(report.resolutions[0]).toMatchObject({
+        conflict: { baseContent: 'two\nthree' },
+        resolution: 'TWO\nTHREE',
+        confidence: 95,
+        deterministic: true
+      });
+      expect(report.resolutions[0].conflict.baseAmbiguous).toBeUndefined();
+      expect(report.resolutions[0].appliedAt).toBeDefined();
+      expect(repo.read('notes.txt')).toBe(base.replace('two', 'TWO').replace('three', 'THREE'));
+      expect(prompts).toHaveLength(0);
+    });
+
+    it('keeps a pre-pass merge for review when a side repeats in its stage', async () => {
+      merge(base, base.replace('two', 'TWO') + 'TWO\nthree\n', base.replace('three', 'THREE'));
+      const conflicted = repo.read('notes.txt');
+
+      const report = await resolve();
+
+      expect(report.resolutions[0]).toMatchObject({
+        conflict: { baseContent: 'two\nthree', baseAmbiguous: true },
+        resolution: 'TWO\nTHREE',
+        confidence: 60,
+        deterministic: true
+      });
+      expect(report.resolutions[0].reasoning).toContain('may be the wrong region');
+      expect(report.resolutions[0].appliedAt).toBeUndefined();
+      expect(repo.read('notes.txt')).toBe(conflicted);
+    });
+
+    it('keeps a pre-pass merge for review when a side is not in its stage', async () => {
+      adjacentEdits();
+      // Edited by hand after the merge stopped
+      repo.write('notes.txt', repo.read('notes.txt').replace('TWO', 'TWO!'));
+      const conflicted = repo.read('notes.txt');
+
+      const report = await resolve();
+
+      expect(report.resolutions[0]).toMatchObject({
+        conflict: { baseContent: 'two\nthree', baseAmbiguous: true },
+        resolution: 'TWO!\nTHREE',
+        confidence: 60
+      });
+      expect(repo.read('notes.txt')).toBe(conflicted);
+    });
+
+    it('flags a base when the sides map to regions apart from each other', async () => {
+      adjacentEdits();
+      // Their side now reads like the end of the file, which maps elsewhere in the base
+      repo.write('notes.txt', repo.read('notes.txt').replace('two\nTHREE', 'six\nseven'));
+      replies = ['{"strategy": "ours", "resolution": "TWO\\nthree", "reasoning": "Keep ours.", "confidence": 80}'];
+
+      const report = await resolve();
+
+      expect(report.resolutions[0].conflict).toMatchObject({ baseAmbiguous: true });
+      expect(report.resolutions[0].deterministic).toBeUndefined();
+      expect(prompts[0]).toContain('mapped from the index and may be the wrong region');
+    });
+
+    it('still settles sides that agree without needing the base', async () => {
+      merge(base, base.replace('two', 'TWO') + 'TWO\nthree\n', base.replace('three', 'THREE'));
+      repo.write('notes.txt', repo.read('notes.txt').replace('two\nTHREE', 'TWO\nthree  '));
+
+      const report = await resolve();
+
+      expect(report.resolutions[0]).toMatchObject({
+        conflict: { baseAmbiguous: true },
+        resolution: 'TWO\nthree',
+        confidence: 90
+      });
+    });
+  });
+
+  describe('model resolutions', () => {
+    const conflictingEdits = () => merge(base, base.replace('two', 'two = 2'), base.replace('two', 'two = 3'));
+    const reply = (fields: Record<string, unknown>) => JSON.stringify({
+      strategy: 'merge',
+      resolution: 'two = 5',
+      reasoning: 'Both sides bumped the value.',
+      confidence: 85,
+      ...fields
+    });
+
+    it('applies a resolution that matches the schema', async () => {
+      conflictingEdits();
+      replies = [reply({})];
+
+      const report = await resolve();
+
+      expect(report).toMatchObject({ resolved: 1, failed: 0 });
+      expect(report.resolutions[0]).toMatchObject({ resolution: 'two = 5', strategy: 'merge', confidence: 85 });
+      expect(repo.read('notes.txt')).toBe(base.replace('two', 'two = 5'));
+    });
+
+    it('asks once for a repair when the reply does not match the schema', async () => {
+      conflictingEdits();
+      replies = ['Here you go: {"resolution": "two = 5"}', reply({})];
+
+      const report = await resolve();
+
+      expect(report).toMatchObject({ resolved: 1, failed: 0 });
+      expect(prompts).toHaveLength(2);
+      expect(prompts[1]).toContain('## Correction Required');
+      expect(prompts[1]).toContain('response is not valid JSON');
+    });
+
+    it.each([
+      ['a resolution that is not a string', { resolution: ['two = 5'] }],
+      ['a confidence that is not a number', { confidence: 'high' }],
+      ['an unknown strategy', { strategy: 'both' }]
+    ])('fails the conflict on %s after the repair', async (_, fields) => {
+      conflictingEdits();
+      const conflicted = repo.read('notes.txt');
+      replies = [reply(fields), reply(fields)];
+
+      const report = await resolve();
+
+      expect(report).toMatchObject({ resolved: 0, failed: 1, resolutions: [] });
+      expect(report.failures[0].message).toContain('did not match the schema');
+      expect(repo.read('notes.txt')).toBe(conflicted);
+    });
+
+    describe('validation', () => {
+      const source = 'export function fee(amount: number): number {\n  return amount * RATE;\n}\n';
+      const typeScriptEdits = () => {
+        repo.write('tsconfig.json', JSON.stringify({ compilerOptions: { strict: true } }));
+        merge(
+          `const RATE = 0.02;\n${source}`,
+          `const RATE = 0.025;\n${source}`,
+          `const RATE = 0.03;\n${source}`,
+          'fee.ts'
+        );
+      };
+
+      it('holds back a resolution that breaks the TS syntax', async () => {
+        typeScriptEdits();
+        const conflicted = repo.read('fee.ts');
+        replies = [reply({ resolution: 'const RATE = ;' })];
+
+        const report = await resolve();
+
+        expect(report.resolutions[0].appliedAt).toBeUndefined();
+        expect(report.resolutions[0].diagnostics).toEqual([expect.objectContaining({ check: 'syntax', line: 1 })]);
+        expect(repo.read('fee.ts')).toBe(conflicted);
+      });
+
+      it('holds back a resolution with a type error when type-checking', async () => {
+        typeScriptEdits();
+        const conflicted = repo.read('fee.ts');
+        replies = [reply({ resolution: 'const RATE = "0.03";' })];
+
+        const report = await resolve({ typeCheck: true });
+
+        expect(report.resolutions[0].appliedAt).toBeUndefined();
+        expect(report.resolutions[0].diagnostics).toEqual([expect.objectContaining({ check: 'types', line: 3 })]);
+        expect(repo.read('fee.ts')).toBe(conflicted);
+      });
+    });
+  });
+
+  describe('stepThrough', () => {
+    const lines = 'one\ntwo\nthree\nfour\nfive\nsix\nseven\neight\nnine\nten\n';
+    const step = () => new ConflictResolverAgent(repo.dir, { provider }).stepThrough();
+    const stages = (file: string) => repo.git('ls-files', '-s', '--', file).split('\n').map(line => line.split(/\s/)[2]);
+
+    // Rebase feature onto main: each feature commit edits `files` with one
+    // of `edits`, main edited them first with `upstream`
+    const rebase = (files: string[], upstream: (text: string) => string, edits: Array<(text: string) => string>) => {
+      files.forEach(file => repo.write(file, lines));
+      repo.commit('Base');
+      repo.git('checkout', '-q', '-b', 'feature');
+      const hashes = edits.map((edit, i) => {
+        files.forEach(file => repo.write(file, edit(repo.read(file))));
+        return repo.commit(`Feature step ${i + 1}`);
+      });
+      repo.git('checkout', '-q', 'main');
+      files.forEach(file => repo.write(file, upstream(repo.read(file))));
+      repo.commit('Upstream change');
+      repo.git('checkout', '-q', 'feature');
+      expect(() => repo.git('rebase', 'main')).toThrow();
+      return hashes;
+    };
+
+    it('resolves, stages and continues at each stop until the rebase is done', async () => {
+      rebase(
+        ['notes.txt'],
+        text => text.replace('two', 'TWO').replace('eight', 'EIGHT'),
+        [text => text.replace('three', 'THREE'), text => text.replace('five', 'FIVE'), text => text.replace('nine', 'NINE')]
+      );
+
+      const report = await step();
+
+      expect(report).toMatchObject({ completed: true, operation: { kind: 'rebase', step: { current: 1, total: 3 } } });
+      // The second commit applied cleanly, so only the first and third stopped
+      expect(report.stops.map(stop => stop.operation?.step)).toEqual([{ current: 1, total: 3 }, { current: 3, total: 3 }]);
+      expect(repo.read('notes.txt')).toBe('one\nTWO\nTHREE\nfour\nFIVE\nsix\nseven\nEIGHT\nNINE\nten\n');
+      expect(repo.git('log', '--format=%s', 'main..feature').split('\n')).toEqual(['Feature step 3', 'Feature step 2', 'Feature step 1']);
+      expect(prompts).toHaveLength(0);
+    });
+
+    it('stops before continuing when a file in the step is below the confidence threshold', async () => {
+      const [replaying] = rebase(
+        ['a.txt', 'b.txt'],
+        text => text.replace('two', 'two = 2').replace('six', 'SIX'),
+        [text => text.replace('two', 'two = 3').replace('seven', 'SEVEN')]
+      );
+      replies = [
+        '{"strategy": "theirs", "resolution": "two = 3", "reasoning": "Take the replayed value.", "confidence": 50}',
+        '{"strategy": "theirs", "resolution": "two = 3", "reasoning": "Take the replayed value.", "confidence": 90}'
+      ];
+
+      const report = await step();
+
+      expect(report.completed).toBe(false);
+      expect(report.stops).toHaveLength(1);
+      expect(report.halted).toContain('a.txt line 2 at 50% confidence, below 70%');
+      expect(report.halted).not.toContain('b.txt');
+      // b.txt was resolved and written, but nothing at the stop was staged
+      expect(repo.read('b.txt')).not.toContain('<<<<<<<');
+      expect(stages('a.txt')).toEqual(['1', '2', '3']);
+      expect(stages('b.txt')).toEqual(['1', '2', '3']);
+      expect(repo.git('rev-parse', 'REBASE_HEAD')).toBe(replaying);
+    });
+
+    it('stops before continuing when a resolution fails validation', async () => {
+      const source = 'export function fee(amount: number): number {\n  return amount * 2;\n}\n';
+      repo.write('fee.ts', `const RATE = 1;\n${source}`);
+      repo.commit('Base');
+      repo.git('checkout', '-q', '-b', 'feature');
+      repo.write('fee.ts', `const RATE = 3;\n${source}`);
+      repo.commit('Raise the rate');
+      repo.git('checkout', '-q', 'main');
+      repo.write('fee.ts', `const RATE = 2;\n${source}`);
+      repo.commit('Upstream rate');
+      repo.git('checkout', '-q', 'feature');
+      expect(() => repo.git('rebase', 'main')).toThrow();
+      replies = ['{"strategy": "merge", "resolution": "const RATE = ;", "reasoning": "Combine.", "confidence": 90}'];
+
+      const report = await step();
+
+      expect(report.completed).toBe(false);
+      expect(report.halted).toContain('fee.ts line 1 failed validation ([syntax] line 1:');
+      expect(stages('fee.ts')).toEqual(['1', '2', '3']);
+    });
+
+    it('stops when the model fails a conflict', async () => {
+      rebase(['notes.txt'], text => text.replace('two', 'two = 2'), [text => text.replace('two', 'two = 3')]);
+      replies = ['not json', 'still not json'];
+
+      const report = await step();
+
+      expect(report.completed).toBe(false);
+      expect(report.halted).toContain('resolve notes.txt:2 failed');
+      expect(stages('notes.txt')).toEqual(['1', '2', '3']);
+    });
+  });
+});
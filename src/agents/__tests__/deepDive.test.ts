@@ -0,0 +1,98 @@
+import { createRepo, GitRepo } from '../../__tests__/gitRepo';
+import { DeepDiveCheckpointStore } from '../../deepDiveCheckpoints';
+import { BudgetExceededError, GenerateRequest, LLMProvider } from '../../llm';
+import { DeepDiveAgent } from '../deepDive';
+
+/**
+ * Answers investigations for any file (recording which) and synthesis
+ * prompts; refuses files listed in `exhausted` as if the budget ran out
+ */
+function fakeProvider(investigated: string[], exhausted: string[] = []): LLMProvider {
+  return {
+    name: 'fake',
+    model: 'gemini-3-pro-preview',
+    async generate(request: GenerateRequest) {
+      if (!request.responseSchema) {
+        return { text: 'The helpers feed main.', model: 'gemini-3-pro-preview' };
+      }
+
+      const file = request.prompt.match(/^File: (.+)$/m)![1];
+      if (exhausted.includes(file)) throw new BudgetExceededError(9000, 10000, 4000);
+      investigated.push(file);
+
+      return {
+        model: 'gemini-3-pro-preview',
+        text: JSON.stringify({
+          summary: `Explains ${file}`,
+          confidence: 70,
+          confidenceRationale: 'Blame only',
+          findings: [{ claim: `${file} was added in one commit.`, category: 'discovery', evidenceIds: ['E1'] }],
+          sources: [],
+          recommendations: []
+        })
+      };
+    },
+    async *stream() { yield ''; },
+    async countTokens(text) { return Math.ceil(text.length / 4); }
+  };
+}
+
+describe('DeepDiveAgent.resume', () => {
+  let repo: GitRepo;
+
+  beforeEach(() => {
+    repo = createRepo();
+    repo.write('src/main.ts', [
+      "import { helper } from './helper';",
+      "import { util } from './util';",
+      '',
+      'export function main() {',
+      '  return helper() + util();',
+      '}',
+      ''
+    ].join('\n'));
+    repo.write('src/helper.ts', 'export function helper() {\n  return 1;\n}\n');
+    repo.write('src/util.ts', 'export function util() {\n  return 2;\n}\n');
+    repo.commit('Add main and its helpers');
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    repo.remove();
+  });
+
+  it('picks up after the last checkpoint without investigating finished files again', async () => {
+    const checkpoints = DeepDiveCheckpointStore.forRepo(repo.dir);
+    const selection = { text: '  return helper() + util();', filePath: 'src/main.ts', lineStart: 5, lineEnd: 5, repoPath: repo.dir };
+
+    const firstAttempt: string[] = [];
+    const stopped = await new DeepDiveAgent({ provider: fakeProvider(firstAttempt, ['src/util.ts']), checkpoints, maxFilesToExplore: 3 })
+      .deepDive(selection, repo.dir);
+
+    expect(firstAttempt).toEqual(['src/main.ts', 'src/helper.ts']);
+    expect(stopped.budgetExceeded).toMatch(/^Token budget exceeded/);
+    expect(checkpoints.get(stopped.runId!)?.relatedInvestigations.map(([file]) => file)).toEqual(['src/helper.ts']);
+
+    const secondAttempt: string[] = [];
+    const resumed = await new DeepDiveAgent({ provider: fakeProvider(secondAttempt), checkpoints })
+      .resume(stopped.runId!);
+
+    expect(secondAttempt).toEqual(['src/util.ts']);
+    expect(resumed.resumed).toBe(true);
+    expect(resumed.mainInvestigation.summary).toMatch(/^Explains src\/main.ts/);
+    expect([...resumed.relatedInvestigations.keys()]).toEqual(['src/helper.ts', 'src/util.ts']);
+    expect(resumed.dependencyTree.children.map(c => [c.file, c.investigated])).toEqual([
+      ['src/helper.ts', true],
+      ['src/util.ts', true]
+    ]);
+    // A finished run leaves nothing to resume
+    expect(checkpoints.get(stopped.runId!)).toBeNull();
+  });
+
+  it('refuses an unknown run', async () => {
+    const agent = new DeepDiveAgent({ provider: fakeProvider([]), checkpoints: DeepDiveCheckpointStore.forRepo(repo.dir) });
+
+    await expect(agent.resume('missing')).rejects.toThrow('No deep dive checkpoint found for run missing');
+  });
+});
@@ -0,0 +1,134 @@
+import { buildDeepDiveGraph, toDot, toMermaid } from '../deepDiveGraph';
+import { UsageMeter } from '../../llm';
+import { DeepDiveResult, DependencyNode } from '../deepDive';
+import { InvestigationResult } from '../types';
+
+function investigation(summary: string, confidence: number): InvestigationResult {
+  return {
+    narrative: summary,
+    summary,
+    confidence,
+    sources: [],
+    recommendations: [],
+    timeline: [],
+    thoughtChain: { signatures: [], totalSteps: 0 }
+  };
+}
+
+function deepDiveResult(): DeepDiveResult {
+  const dependencyTree: DependencyNode = {
+    file: 'src/checkout.ts',
+    type: 'root',
+    package: '@acme/shop',
+    investigated: true,
+    children: [
+      {
+        file: 'packages/payments/src/charge.ts',
+        type: 'import',
+        package: '@acme/payments',
+        unresolved: ['stripe'],
+        investigated: true,
+        children: [{ file: 'src/checkout.ts', type: 'import', investigated: false, children: [] }]
+      },
+      { file: 'src/money.ts', type: 'import', investigated: false, children: [] }
+    ]
+  };
+
+  return {
+    mainInvestigation: investigation('Checks out the "cart"\nand charges it.', 82),
+    codebaseReferences: [
+      { file: 'src/api/orders.ts', line: 12, context: 'checkout(cart)', type: 'call' },
+      { file: 'src/api/orders.ts', line: 40, context: 'checkout(retry)', type: 'call' },
+      { file: 'src/api/orders.ts', line: 1, context: "import { checkout } from '../checkout'", type: 'import' },
+      { file: 'src/checkout.ts', line: 3, context: 'checkout()', type: 'call' }
+    ],
+    relatedInvestigations: new Map([['packages/payments/src/charge.ts', investigation('Charges cards', 64)]]),
+    dependencyTree,
+    verificationReport: { claimsVerified: 0, claimsFailed: 0, linksChecked: [], overallConfidence: 82 },
+    totalFilesExplored: 2,
+    totalTimeMs: 1000,
+    thoughtChainLength: 0,
+    usage: new UsageMeter().summary(),
+    failures: []
+  };
+}
+
+describe('buildDeepDiveGraph', () => {
+  it('flattens the dependency tree and folds references per file and type', () => {
+    const graph = buildDeepDiveGraph(deepDiveResult());
+
+    expect(graph.root).toBe('src/checkout.ts');
+    expect(graph.nodes.map(n => [n.id, n.role, n.investigated, n.confidence])).toEqual([
+      ['src/checkout.ts', 'root', true, 82],
+      ['packages/payments/src/charge.ts', 'dependency', true, 64],
+      ['src/money.ts', 'dependency', false, undefined],
+      ['src/api/orders.ts', 'referrer', false, undefined]
+    ]);
+    expect(graph.nodes[1]).toMatchObject({ package: '@acme/payments', unresolved: ['stripe'], summary: 'Charges cards' });
+    expect(graph.edges).toEqual([
+      { from: 'src/checkout.ts', to: 'packages/payments/src/charge.ts', kind: 'dependency', type: 'import', count: 1 },
+      { from: 'packages/payments/src/charge.ts', to: 'src/checkout.ts', kind: 'dependency', type: 'import', count: 1 },
+      { from: 'src/checkout.ts', to: 'src/money.ts', kind: 'dependency', type: 'import', count: 1 },
+      { from: 'src/api/orders.ts', to: 'src/checkout.ts', kind: 'reference', type: 'call', count: 2, lines: [12, 40] },
+      { from: 'src/api/orders.ts', to: 'src/checkout.ts', kind: 'reference', type: 'import', count: 1, lines: [1] }
+    ]);
+  });
+});
+
+describe('graph rendering', () => {
+  const graph = buildDeepDiveGraph(deepDiveResult());
+
+  it('renders Mermaid', () => {
+    expect(toMermaid(graph)).toBe([
+      'graph LR',
+      '  n0["src/checkout.ts<br/>@acme/shop<br/>82% confidence"]:::root',
+      '  n1["packages/payments/src/charge.ts<br/>@acme/payments<br/>64% confidence<br/>1 unresolved import(s)"]:::investigated',
+      '  n2["src/money.ts"]:::dependency',
+      '  n3["src/api/orders.ts"]:::referrer',
+      '  n0 --> n1',
+      '  n1 --> n0',
+      '  n0 --> n2',
+      '  n3 -. "call ×2" .-> n0',
+      '  n3 -. "import" .-> n0',
+      '  classDef root fill:#f9d56e,stroke:#b58900,font-weight:bold',
+      '  classDef investigated fill:#b8e0c8,stroke:#2e7d4f',
+      '  classDef dependency fill:#eeeeee,stroke:#999999',
+      '  classDef referrer fill:#d6e4f5,stroke:#3d6fa8'
+    ].join('\n'));
+  });
+
+  it('renders DOT', () => {
+    expect(toDot(graph)).toBe([
+      'digraph deepDive {',
+      '  rankdir=LR;',
+      '  node [shape=box, style="rounded,filled", fontname="Helvetica", fontsize=10];',
+      '  edge [fontname="Helvetica", fontsize=9];',
+      '  "src/checkout.ts" [label="src/checkout.ts\\n@acme/shop\\n82% confidence", fillcolor="#f9d56e", penwidth=2, tooltip="Checks out the \\"cart\\" and charges it."];',
+      '  "packages/payments/src/charge.ts" [label="packages/payments/src/charge.ts\\n@acme/payments\\n64% confidence\\n1 unresolved import(s)", fillcolor="#b8e0c8", tooltip="Charges cards"];',
+      '  "src/money.ts" [label="src/money.ts", fillcolor="#eeeeee"];',
+      '  "src/api/orders.ts" [label="src/api/orders.ts", fillcolor="#d6e4f5"];',
+      '  "src/checkout.ts" -> "packages/payments/src/charge.ts";',
+      '  "packages/payments/src/charge.ts" -> "src/checkout.ts";',
+      '  "src/checkout.ts" -> "src/money.ts";',
+      '  "src/api/orders.ts" -> "src/checkout.ts" [label="call ×2", style=dashed];',
+      '  "src/api/orders.ts" -> "src/checkout.ts" [label="import", style=dashed];',
+      '}'
+    ].join('\n'));
+  });
+
+  it('escapes quotes, angle brackets, backslashes and line breaks in labels', () => {
+    const result = deepDiveResult();
+    const odd = 'docs/"draft"\r\n<notes>\\v2.md';
+    result.dependencyTree.children = [{ file: odd, type: 'import', investigated: true, children: [] }];
+    result.relatedInvestigations = new Map([[odd, investigation('Line one\nLine "two"', 50)]]);
+    result.codebaseReferences = [];
+    const escaped = buildDeepDiveGraph(result);
+
+    expect(toMermaid(escaped).split('\n')[2]).toBe(
+      '  n1["docs/#quot;draft#quot; #lt;notes#gt;\\v2.md<br/>50% confidence"]:::investigated'
+    );
+    expect(toDot(escaped).split('\n')[5]).toBe(
+      '  "docs/\\"draft\\" <notes>\\\\v2.md" [label="docs/\\"draft\\" <notes>\\\\v2.md\\n50% confidence", fillcolor="#b8e0c8", tooltip="Line one Line \\"two\\""];'
+    );
+  });
+});
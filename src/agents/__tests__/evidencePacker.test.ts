@@ -0,0 +1,143 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { GenerateRequest, LLMProvider } from '../../llm';
+import {
+  estimateTokens,
+  extractIdentifiers,
+  hunkRelevance,
+  packEvidence,
+  PackCandidate,
+  RelevanceContext,
+  splitDiffHunks
+} from '../evidencePacker';
+import { LeadDetectiveAgent } from '../leadDetective';
+import { CommitInfo } from '../types';
+import { paymentCaseFile } from './fixtures/caseFile';
+
+function candidate(key: string, tokens: number, relevance: number): PackCandidate {
+  return {
+    key,
+    evidenceId: 'E1',
+    kind: 'diff hunk',
+    label: `hunk ${key}`,
+    text: 'x'.repeat(tokens * 4),
+    relevance
+  };
+}
+
+describe('packEvidence', () => {
+  it('packs by relevance, keeping the original order for ties', () => {
+    const result = packEvidence([
+      candidate('low', 10, 1),
+      candidate('first-tie', 10, 3),
+      candidate('high', 10, 5),
+      candidate('second-tie', 10, 3)
+    ], 30);
+
+    expect([...result.included]).toEqual(['high', 'first-tie', 'second-tie']);
+    expect(result.dropped.map(d => d.label)).toEqual(['hunk low']);
+    expect(result.usedTokens).toBe(30);
+  });
+
+  it('drops a piece whole rather than truncating it, and keeps filling with smaller ones', () => {
+    const result = packEvidence([
+      candidate('relevant', 40, 6),
+      candidate('large', 80, 5),
+      candidate('small', 20, 1)
+    ], 100);
+
+    expect([...result.included]).toEqual(['relevant', 'small']);
+    expect(result.dropped).toEqual([{ evidenceId: 'E1', kind: 'diff hunk', label: 'hunk large', tokens: 80 }]);
+    expect(result.usedTokens).toBe(60);
+  });
+
+  it('reports dropped pieces in rank order and packs nothing into a zero budget', () => {
+    const result = packEvidence([candidate('a', 1, 1), candidate('b', 1, 2)], 0);
+
+    expect(result.included.size).toBe(0);
+    expect(result.dropped.map(d => d.label)).toEqual(['hunk b', 'hunk a']);
+    expect(result.usedTokens).toBe(0);
+  });
+});
+
+describe('relevance', () => {
+  const context: RelevanceContext = {
+    filePath: 'src/payments/processor.py',
+    lineStart: 142,
+    lineEnd: 143,
+    identifiers: ['amount', 'legacy_overflow_handler', 'account_id']
+  };
+  const hunk = (file: string, newStart: number, text: string = '') => ({ file, newStart, newLines: 5, text });
+
+  it('ranks hunks over the selected lines above the rest of the file, and the file above others', () => {
+    const overlapping = hunkRelevance(hunk('src/payments/processor.py', 140), context);
+    const sameFile = hunkRelevance(hunk('src/payments/processor.py', 10), context);
+    const otherFile = hunkRelevance(hunk('src/payments/refunds.py', 140), context);
+
+    expect([overlapping, sameFile, otherFile]).toEqual([7, 4, 1]);
+  });
+
+  it('caps the identifier bonus', () => {
+    const mentions = 'amount legacy_overflow_handler account_id '.repeat(10);
+    const crowded: RelevanceContext = { ...context, identifiers: [...context.identifiers, 'a1', 'b2', 'c3', 'd4', 'e5'] };
+
+    expect(hunkRelevance(hunk('other.py', 1, mentions), context)).toBe(2.5);
+    expect(hunkRelevance(hunk('other.py', 1, `${mentions} a1 b2 c3 d4 e5`), crowded)).toBe(4);
+  });
+
+  it('extracts distinctive identifiers, most frequent first', () => {
+    expect(extractIdentifiers('if amount > limit:\n    return handler(amount, self.limit, amount)'))
+      .toEqual(['amount', 'limit', 'handler']);
+  });
+
+  it('splits a diff into hunks that carry their file header', () => {
+    const hunks = splitDiffHunks((paymentCaseFile().evidence[0].data as CommitInfo).diff);
+
+    expect(hunks).toHaveLength(1);
+    expect(hunks[0]).toMatchObject({ file: 'src/payments/processor.py', newStart: 140, newLines: 5 });
+    expect(hunks[0].text).toMatch(/^diff --git .*\n--- a\/.*\n\+\+\+ b\/.*\n@@ -140,3 \+140,5 @@/);
+  });
+});
+
+describe('LeadDetectiveAgent prompt packing', () => {
+  const recording = path.join(__dirname, 'cassettes', 'investigation');
+  const reply = JSON.parse(fs.readFileSync(path.join(recording, fs.readdirSync(recording)[0]), 'utf-8')).response;
+
+  function capturingProvider(prompts: string[]): LLMProvider {
+    return {
+      name: 'fake',
+      model: 'gemini-3-pro-preview',
+      async generate(request: GenerateRequest) {
+        prompts.push(request.prompt);
+        return { text: reply.text, model: 'gemini-3-pro-preview', usage: reply.usage };
+      },
+      async *stream() { yield ''; },
+      async countTokens(text) { return estimateTokens(text); }
+    };
+  }
+
+  it('always keeps evidence metadata and drops optional pieces that do not fit', async () => {
+    const prompts: string[] = [];
+
+    const result = await new LeadDetectiveAgent(capturingProvider(prompts), { contextBudget: 1 })
+      .investigate(paymentCaseFile());
+
+    const [prompt] = prompts;
+    expect(prompt).toContain('- Hash: a1b2c3d4e5f60718293a4b5c6d7e8f9012345678');
+    expect(prompt).toContain('- Title: Hotfix: overflow in payment processor');
+    expect(prompt).toContain('(1 hunk omitted to fit the context budget)');
+    expect(prompt).not.toContain('+        return legacy_overflow_handler(amount, account_id)');
+    expect(result.contextPacking?.dropped.map(d => d.kind).sort()).toEqual([
+      'PR description', 'PR review', 'diff hunk', 'issue description'
+    ]);
+  });
+
+  it('packs everything when the budget allows', async () => {
+    const prompts: string[] = [];
+
+    const result = await new LeadDetectiveAgent(capturingProvider(prompts)).investigate(paymentCaseFile());
+
+    expect(prompts[0]).toContain('+        return legacy_overflow_handler(amount, account_id)');
+    expect(result.contextPacking).toEqual({ budgetTokens: 200000, usedTokens: estimateTokens(prompts[0]), dropped: [] });
+  });
+});
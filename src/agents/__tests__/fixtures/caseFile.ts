@@ -0,0 +1,97 @@
+/**
+ * Case file fixture: a legacy payment guard with its blame, commit, PR and
+ * issue, as the Investigator would have gathered them
+ */
+
+import { CaseFile } from '../../types';
+
+export function paymentCaseFile(): CaseFile {
+  return {
+    id: 'case-fixture',
+    codeSelection: {
+      text: "if amount > 9999.99:\n    return legacy_overflow_handler(amount, account_id)",
+      filePath: 'src/payments/processor.py',
+      lineStart: 142,
+      lineEnd: 143,
+      repoPath: '/repo',
+      repoOwner: 'acme',
+      repoName: 'payments'
+    },
+    evidence: [
+      {
+        id: 'E1',
+        type: 'commit',
+        source: 'git log',
+        timestamp: new Date('2019-11-30T10:00:00Z'),
+        data: {
+          hash: 'a1b2c3d4e5f60718293a4b5c6d7e8f9012345678',
+          author: 'Dana Reyes',
+          authorEmail: 'dana@example.com',
+          date: new Date('2019-11-30T09:12:00Z'),
+          message: 'Route large payments to the legacy handler (#412)\n\nThe new processor overflows above 9999.99.',
+          diff: [
+            'diff --git a/src/payments/processor.py b/src/payments/processor.py',
+            '--- a/src/payments/processor.py',
+            '+++ b/src/payments/processor.py',
+            '@@ -140,3 +140,5 @@ def process_payment(amount, account_id):',
+            ' def process_payment(amount, account_id):',
+            '+    if amount > 9999.99:',
+            '+        return legacy_overflow_handler(amount, account_id)',
+            '     return modern_processor.charge(amount, account_id)'
+          ].join('\n'),
+          changedFiles: ['src/payments/processor.py']
+        }
+      },
+      {
+        id: 'E2',
+        type: 'pr',
+        source: 'GitHub API',
+        timestamp: new Date('2019-11-30T10:00:01Z'),
+        data: {
+          number: 412,
+          title: 'Hotfix: overflow in payment processor',
+          body: 'Black Friday payments above 9999.99 failed in the new processor. Fixes #411.',
+          author: 'dreyes',
+          state: 'merged',
+          url: 'https://github.com/acme/payments/pull/412',
+          createdAt: new Date('2019-11-29T22:40:00Z'),
+          mergedAt: new Date('2019-11-30T09:15:00Z'),
+          comments: [],
+          reviews: [
+            {
+              id: 1,
+              author: 'mkhan',
+              state: 'approved',
+              body: 'Ship it; remove once the processor supports large amounts.',
+              createdAt: new Date('2019-11-30T09:00:00Z')
+            }
+          ],
+          linkedIssues: [411]
+        }
+      },
+      {
+        id: 'E3',
+        type: 'issue',
+        source: 'GitHub API',
+        timestamp: new Date('2019-11-30T10:00:02Z'),
+        data: {
+          number: 411,
+          title: 'Payments above 9999.99 fail',
+          body: 'Charges over 9999.99 throw an overflow error in modern_processor.',
+          author: 'support-bot',
+          state: 'closed',
+          url: 'https://github.com/acme/payments/issues/411',
+          createdAt: new Date('2019-11-29T21:05:00Z'),
+          closedAt: new Date('2019-11-30T09:15:00Z'),
+          labels: ['bug', 'incident'],
+          comments: []
+        }
+      }
+    ],
+    thoughtChain: { signatures: [], totalSteps: 0 },
+    status: 'investigating',
+    startedAt: new Date('2026-01-01T00:00:00Z'),
+    completedAt: null,
+    confidence: 0
+  };
+}
@@ -0,0 +1,170 @@
+import { createRepo, GitRepo } from '../../__tests__/gitRepo';
+import { HistorianAgent } from '../historian';
+
+const CHARGE = [
+  'def charge(amount):',
+  '    if amount > 9999.99:',
+  '        return legacy(amount)',
+  '    return gateway.charge(amount)',
+  ''
+].join('\n');
+
+describe('HistorianAgent.getBlameRange', () => {
+  let repo: GitRepo;
+
+  beforeEach(() => { repo = createRepo(); });
+  afterEach(() => repo.remove());
+
+  it('blames every line of the range and ranks commits by the lines they own', async () => {
+    repo.write('processor.py', CHARGE);
+    const added = repo.commit('Cap large charges', '2024-01-01T12:00:00Z');
+    repo.write('processor.py', CHARGE.replace('9999.99', '5000').replace('legacy(amount)', 'legacy(amount, retry=True)'));
+    const changed = repo.commit('Lower the legacy cap', '2024-02-01T12:00:00Z');
+
+    const { data } = await new HistorianAgent(repo.dir).getBlameRange('processor.py', 1, 4);
+
+    expect(data.lines.map(l => [l.lineNumber, l.commitHash])).toEqual([
+      [1, added], [2, changed], [3, changed], [4, added]
+    ]);
+    expect(data.commits).toEqual([
+      expect.objectContaining({ commitHash: changed, summary: 'Lower the legacy cap', lineCount: 2, lineNumbers: [2, 3] }),
+      expect.objectContaining({ commitHash: added, author: 'Dana Reyes', lineCount: 2, lineNumbers: [1, 4] })
+    ]);
+  });
+});
+
+describe('HistorianAgent.walkAncestry', () => {
+  let repo: GitRepo;
+  let historian: HistorianAgent;
+
+  beforeEach(() => {
+    repo = createRepo();
+    historian = new HistorianAgent(repo.dir);
+  });
+
+  afterEach(() => repo.remove());
+
+  it('follows lines through a pure rename to the commit that wrote them', async () => {
+    repo.write('processor.py', CHARGE);
+    const added = repo.commit('Cap large charges');
+    repo.git('mv', 'processor.py', 'payments.py');
+    const moved = repo.commit('Move the processor');
+
+    expect(await historian.classifyCommit(moved)).toEqual({
+      reason: 'rename',
+      detail: '1 file moved or renamed without edits'
+    });
+
+    const { data } = await historian.walkAncestry('payments.py', 2, 3);
+    expect(data.commits).toHaveLength(1);
+    expect(data.commits[0]).toMatchObject({ commitHash: added, originalPath: 'processor.py', lineCount: 2 });
+  });
+
+  it('skips a whitespace-only commit', async () => {
+    repo.write('processor.py', CHARGE);
+    const added = repo.commit('Cap large charges');
+    repo.write('processor.py', CHARGE.replace(/^ {4}/gm, '\t'));
+    const reindented = repo.commit('Use tabs');
+
+    const { data } = await historian.walkAncestry('processor.py', 2, 3);
+
+    expect(data.commits.map(c => c.commitHash)).toEqual([added]);
+    expect(data.skipped).toEqual([
+      { commitHash: reindented, summary: 'Use tabs', reason: 'whitespace', detail: '6 changed lines, all whitespace' }
+    ]);
+  });
+
+  it('skips a mass reformat but keeps the change to the logic after it', async () => {
+    for (let i = 0; i < 10; i++) {
+      repo.write(`module${i}.py`, `NAME = 'module${i}'\n`);
+    }
+    repo.write('processor.py', `LIMIT = 'legacy'\n${CHARGE}`);
+    const added = repo.commit('Cap large charges');
+
+    for (let i = 0; i < 10; i++) {
+      repo.write(`module${i}.py`, `NAME = "module${i}"\n`);
+    }
+    repo.write('processor.py', `LIMIT = "legacy"\n${CHARGE}`);
+    const formatted = repo.commit('Run black over the codebase');
+
+    repo.write('processor.py', `LIMIT = "legacy"\n${CHARGE.replace('9999.99', '5000')}`);
+    const lowered = repo.commit('Lower the legacy cap');
+
+    const { data } = await historian.walkAncestry('processor.py', 1, 4);
+
+    expect(data.skipped?.map(s => [s.commitHash, s.reason])).toEqual([[formatted, 'mass-format']]);
+    expect(data.lines.map(l => l.commitHash)).toEqual([added, added, lowered, added]);
+  });
+
+  it('keeps commits that change logic', async () => {
+    repo.write('processor.py', CHARGE);
+    repo.commit('Cap large charges');
+    repo.write('processor.py', CHARGE.replace('legacy(amount)', 'legacy(amount, retry=True)'));
+    const retried = repo.commit('Retry legacy charges');
+
+    const { data } = await historian.walkAncestry('processor.py', 3, 3);
+
+    expect(data.commits.map(c => c.commitHash)).toEqual([retried]);
+    expect(data.skipped).toEqual([]);
+  });
+});
+
+describe('HistorianAgent.getCommits', () => {
+  let repo: GitRepo;
+
+  beforeEach(() => { repo = createRepo(); });
+  afterEach(() => repo.remove());
+
+  it('parses message, trailers, changed files and patch from the batched log', async () => {
+    repo.write('processor.py', CHARGE);
+    repo.write('README.md', '# Payments\n');
+    const first = repo.commit([
+      'Cap large charges',
+      '',
+      'Field separators like | and blank lines in the body survive.',
+      '',
+      'Co-authored-by: Sam Ortiz <sam@example.com>',
+      'Reviewed-by: Lee Park <lee@example.com>'
+    ].join('\n'), '2024-03-05T09:30:00Z');
+    // Large enough that the log arrives in several chunks
+    repo.write('rates.csv', Array.from({ length: 5000 }, (_, i) => `rate-${i},${i / 100}`).join('\n'));
+    const second = repo.commit('Add rate table');
+
+    const { data } = await new HistorianAgent(repo.dir).getCommits([second, first.substring(0, 10)]);
+
+    expect(data.map(c => c.hash)).toEqual([second, first]);
+    expect(data[1]).toMatchObject({
+      author: 'Dana Reyes',
+      authorEmail: 'dana@example.com',
+      date: new Date('2024-03-05T09:30:00Z'),
+      message: expect.stringMatching(/^Cap large charges\n\nField separators like \| and blank lines/),
+      changedFiles: ['README.md', 'processor.py'],
+      coAuthors: ['Sam Ortiz <sam@example.com>'],
+      reviewers: ['Lee Park <lee@example.com>']
+    });
+    expect(data[1].diff).toMatch(/^diff --git a\/README.md/);
+    expect(data[1].diff).toContain('+        return legacy(amount)');
+    expect(data[0].changedFiles).toEqual(['rates.csv']);
+    expect(data[0].diff).toContain('+rate-4999,49.99');
+    expect(data[0].coAuthors).toBeUndefined();
+  });
+
+  it('keeps the diff of a merge commit', async () => {
+    repo.write('processor.py', CHARGE);
+    repo.commit('Cap large charges');
+    repo.git('checkout', '-q', '-b', 'refunds');
+    repo.write('refunds.py', 'def refund(charge):\n    return gateway.refund(charge)\n');
+    repo.commit('Add refunds');
+    repo.git('checkout', '-q', 'main');
+    repo.write('README.md', '# Payments\n');
+    repo.commit('Add a readme');
+    repo.git('merge', '-q', '--no-ff', 'refunds', '-m', 'Merge refunds');
+    const merge = repo.git('rev-parse', 'HEAD');
+
+    const { data } = await new HistorianAgent(repo.dir).getCommits([merge]);
+
+    expect(data).toHaveLength(1);
+    expect(data[0].changedFiles).toEqual(['refunds.py']);
+    expect(data[0].diff).toContain('+    return gateway.refund(charge)');
+  });
+});
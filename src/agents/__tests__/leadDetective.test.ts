@@ -0,0 +1,102 @@
+import * as path from 'path';
+import { CassetteProvider } from '../../llm';
+import { LeadDetectiveAgent } from '../leadDetective';
+import { paymentCaseFile } from './fixtures/caseFile';
+
+const cassettes = (name: string) => new CassetteProvider({
+  mode: 'replay',
+  dir: path.join(__dirname, 'cassettes', name),
+  model: 'gemini-3-pro-preview'
+});
+
+describe('LeadDetectiveAgent', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('parses a fenced JSON response into a structured result', async () => {
+    const result = await new LeadDetectiveAgent(cassettes('investigation')).investigate(paymentCaseFile());
+
+    expect(result.summary).toMatch(/^Routes payments above 9999\.99/);
+    expect(result.confidenceBreakdown?.modelScore).toBe(88);
+    expect(result.confidence).toBeGreaterThan(0);
+    expect(result.confidence).toBeLessThanOrEqual(100);
+    expect(result.claims).toEqual([
+      expect.objectContaining({ category: 'discovery', evidenceIds: ['E1', 'E3'] }),
+      expect.objectContaining({ category: 'evolution', evidenceIds: ['E2'] }),
+      expect.objectContaining({ category: 'assessment', evidenceIds: ['E1'] })
+    ]);
+    expect(result.sources.map(s => [s.type, s.id, s.evidenceId])).toEqual([
+      ['commit', 'a1b2c3d', 'E1'],
+      ['pr', 'PR#412', 'E2'],
+      ['issue', 'Issue#411', 'E3']
+    ]);
+    expect(result.recommendations.map(r => `${r.action}:${r.priority}`)).toEqual(['document:high', 'investigate:medium']);
+  });
+
+  it('renders the narrative from the structured fields', async () => {
+    const result = await new LeadDetectiveAgent(cassettes('investigation')).investigate(paymentCaseFile());
+
+    expect(result.narrative).toMatch(/^SUMMARY\nRoutes payments/);
+    expect(result.narrative).toContain(`CONFIDENCE: ${result.confidence}%`);
+    expect(result.narrative).toContain('Key Discoveries:\n• Added in a1b2c3d as a hotfix for payments over 9999.99 failing in modern_processor. [E1, E3]');
+    expect(result.narrative).toContain('• PR#412 - Hotfix pull request [E2]');
+    expect(result.narrative).toContain('RECOMMENDATION\n• DOCUMENT (high): Explain the overflow');
+  });
+
+  it('builds the timeline from the evidence in date order', async () => {
+    const result = await new LeadDetectiveAgent(cassettes('investigation')).investigate(paymentCaseFile());
+
+    expect(result.timeline.map(e => e.sourceId)).toEqual(['Issue#411', 'PR#412', 'a1b2c3d', 'PR#412']);
+  });
+
+  it('repairs output that fails schema validation once', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const result = await new LeadDetectiveAgent(cassettes('repair')).investigate(paymentCaseFile());
+
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('$.confidence: expected integer'));
+    expect(result.confidenceBreakdown?.modelScore).toBe(88);
+  });
+
+  it('asks for a repair when a finding cites no evidence', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const result = await new LeadDetectiveAgent(cassettes('uncited')).investigate(paymentCaseFile());
+
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('$.findings[2].evidenceIds: expected at least 1 item'));
+    expect(result.claims?.[2]).toEqual(expect.objectContaining({ category: 'assessment', evidenceIds: ['E1'] }));
+  });
+
+  it('drops citations of unknown evidence instead of failing the run', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const result = await new LeadDetectiveAgent(cassettes('unknown-citation')).investigate(paymentCaseFile());
+
+    expect(warn).toHaveBeenCalledWith('Investigation output cited unknown evidence, dropped: E7, E9, E8');
+    expect(result.claims).toEqual([
+      { text: 'Added in a1b2c3d as a hotfix for the overflow.', category: 'discovery', evidenceIds: ['E1'] },
+      { text: 'A load test in 2018 first hit the limit.', category: 'evolution', evidenceIds: [], unsupported: true }
+    ]);
+    expect(result.sources.map(s => s.evidenceId)).toEqual(['E1']);
+    expect(result.recommendations[0].evidenceIds).toEqual(['E2']);
+    expect(result.narrative).toContain('• A load test in 2018 first hit the limit. [unsupported]');
+  });
+
+  it('lowers the verified sources score for unsupported findings', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const result = await new LeadDetectiveAgent(cassettes('unknown-citation')).investigate(paymentCaseFile());
+    const verified = result.confidenceBreakdown?.factors.find(f => f.name === 'Cited sources verify');
+
+    // One verifiable source of three, and one of two findings unsupported
+    expect(verified?.score).toBeCloseTo(1 / 3 * 1 / 2);
+    expect(verified?.detail).toBe('1 commit/PR/issue source cited by findings; 1 finding cites only unknown evidence');
+  });
+
+  it('fails in replay mode when the prompt was never recorded', async () => {
+    const caseFile = paymentCaseFile();
+    caseFile.codeSelection.lineEnd = 150;
+
+    await expect(new LeadDetectiveAgent(cassettes('investigation')).investigate(caseFile))
+      .rejects.toThrow(/No cassette recording for prompt/);
+  });
+});
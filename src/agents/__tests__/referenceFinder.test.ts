@@ -0,0 +1,120 @@
+import { CancelledError } from '../../cancellation';
+import { removeRepo, writeRepo } from '../imports/__tests__/repoTree';
+import { TypeScriptReferenceFinder } from '../referenceFinder';
+import { CodebaseReference, CodeSelection } from '../types';
+
+const PAYMENTS = [
+  'export interface Receipt { id: string; }',                    // 1
+  '',                                                             // 2
+  'export class Gateway {',                                       // 3
+  '  send(amount: number): Receipt { return { id: `${amount}` }; }', // 4
+  '}',                                                            // 5
+  '',                                                             // 6
+  'export function charge(amount: number): Receipt {',            // 7
+  '  const gateway = new Gateway();',                             // 8
+  '  return gateway.send(amount);',                               // 9
+  '}',                                                            // 10
+  '',                                                             // 11
+  'export const retry = () => charge(0);',                        // 12
+  ''
+].join('\n');
+
+const CHECKOUT = [
+  "import { charge, Gateway } from './payments';",               // 1
+  "import type { Receipt } from './payments';",                  // 2
+  '',                                                             // 3
+  '// charge is called once per order',                          // 4
+  "const label = 'charge';",                                      // 5
+  '',                                                             // 6
+  'export class StripeGateway extends Gateway {}',                // 7
+  '',                                                             // 8
+  'export function checkout(total: number): Receipt {',           // 9
+  '  return charge(total);',                                      // 10
+  '}',                                                            // 11
+  ''
+].join('\n');
+
+const REFUNDS = [
+  "import * as payments from './payments';",                     // 1
+  '',                                                             // 2
+  'function charge() { return 0; }',                              // 3
+  '',                                                             // 4
+  'export const refund = (amount: number) => payments.charge(-amount) || charge();', // 5
+  'export const handlers = [payments.charge];',                   // 6
+  ''
+].join('\n');
+
+// Language service order depends on the program; compare in file order
+const byLocation = (references: CodebaseReference[] | null) =>
+  (references || []).slice().sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+
+function selection(root: string, filePath: string, lineStart: number, lineEnd: number): CodeSelection {
+  return { text: '', filePath, lineStart, lineEnd, repoPath: root };
+}
+
+describe('TypeScriptReferenceFinder', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = writeRepo({
+      'src/payments.ts': PAYMENTS,
+      'src/checkout.ts': CHECKOUT,
+      'src/refunds.ts': REFUNDS,
+      'node_modules/billing/index.ts': "import { charge } from '../../src/payments';\ncharge(1);\n"
+    });
+  });
+
+  afterEach(() => removeRepo(root));
+
+  it('finds and classifies references to the declarations in the selection', () => {
+    const references = new TypeScriptReferenceFinder(root).findReferences(selection(root, 'src/payments.ts', 7, 10));
+
+    // Not the comment, the string or refunds.ts's own charge()
+    expect(byLocation(references)).toEqual([
+      { file: 'src/checkout.ts', line: 1, context: "import { charge, Gateway } from './payments';", type: 'import', symbol: 'charge' },
+      { file: 'src/checkout.ts', line: 10, context: 'return charge(total);', type: 'call', symbol: 'charge' },
+      { file: 'src/refunds.ts', line: 5, context: 'export const refund = (amount: number) => payments.charge(-amount) || charge();', type: 'call', symbol: 'charge' },
+      { file: 'src/refunds.ts', line: 6, context: 'export const handlers = [payments.charge];', type: 'reference', symbol: 'charge' }
+    ]);
+  });
+
+  it('classifies heritage clauses and type-only imports', () => {
+    const finder = new TypeScriptReferenceFinder(root);
+
+    expect(byLocation(finder.findReferences(selection(root, 'src/payments.ts', 3, 5)))).toEqual([
+      expect.objectContaining({ file: 'src/checkout.ts', line: 1, type: 'import', symbol: 'Gateway' }),
+      expect.objectContaining({ file: 'src/checkout.ts', line: 7, type: 'extends', symbol: 'Gateway' })
+    ]);
+    expect(byLocation(finder.findReferences(selection(root, 'src/payments.ts', 1, 1)))).toEqual([
+      expect.objectContaining({ file: 'src/checkout.ts', line: 2, type: 'type-only', symbol: 'Receipt' }),
+      expect.objectContaining({ file: 'src/checkout.ts', line: 9, type: 'type-only', symbol: 'Receipt' })
+    ]);
+  });
+
+  it('searches for the project symbols a selection uses when it declares nothing', () => {
+    const references = new TypeScriptReferenceFinder(root).findReferences(selection(root, 'src/checkout.ts', 10, 10));
+
+    // Uses elsewhere, but not the declaration or the selected file
+    expect(byLocation(references).map(r => `${r.file}:${r.line}`)).toEqual([
+      'src/payments.ts:12', 'src/refunds.ts:5', 'src/refunds.ts:6'
+    ]);
+  });
+
+  it('returns null for a file outside any program', () => {
+    expect(new TypeScriptReferenceFinder(root).findReferences(selection(root, 'src/missing.ts', 1, 1))).toBeNull();
+  });
+
+  it('stops with a CancelledError once aborted', () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    expect(() => new TypeScriptReferenceFinder(root, controller.signal).findReferences(selection(root, 'src/payments.ts', 7, 10)))
+      .toThrow(CancelledError);
+  });
+
+  it('only handles TypeScript and JavaScript sources', () => {
+    expect(TypeScriptReferenceFinder.supports('src/app.tsx')).toBe(true);
+    expect(TypeScriptReferenceFinder.supports('lib/index.cjs')).toBe(true);
+    expect(TypeScriptReferenceFinder.supports('processor.py')).toBe(false);
+  });
+});
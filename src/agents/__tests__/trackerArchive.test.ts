@@ -0,0 +1,146 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TrackerArchiveAgent } from '../trackerArchive';
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'tracker');
+
+describe('TrackerArchiveAgent', () => {
+  const archive = new TrackerArchiveAgent([FIXTURES]);
+
+  it('loads every supported export in a directory tree', () => {
+    // 101, 102, 201, PAY-7, PAY-8, PAY-9, 412, OPS-3; notes.md has no ticket id
+    expect(archive.size).toBe(8);
+  });
+
+  it('reads GitHub REST dumps', () => {
+    const { issue, format } = archive.getTicket(101)!;
+
+    expect(format).toBe('github');
+    expect(issue).toEqual({
+      number: 101,
+      title: 'Large charges fail on the new gateway',
+      body: 'Charges above $9,999.99 are rejected with `amount_too_large`.',
+      author: 'mchen',
+      state: 'closed',
+      url: 'https://github.com/acme/payments/issues/101',
+      createdAt: new Date('2023-03-14T09:12:00Z'),
+      closedAt: new Date('2023-03-20T16:45:00Z'),
+      labels: ['bug', 'payments'],
+      comments: [{
+        id: 9001,
+        author: 'sortiz',
+        body: 'Routing them through the legacy processor for now.',
+        createdAt: new Date('2023-03-15T10:00:00Z')
+      }]
+    });
+    // REST dumps only carry a comment count
+    expect(archive.getTicket(102)!.issue).toMatchObject({ body: '', state: 'open', closedAt: null, comments: [] });
+  });
+
+  it('reads gh issue list output', () => {
+    expect(archive.getTicket(201)!.issue).toMatchObject({
+      author: 'dreyes',
+      state: 'open',
+      url: 'https://github.com/acme/payments/issues/201',
+      createdAt: new Date('2024-02-01T12:00:00Z'),
+      labels: ['docs'],
+      comments: [{ id: 1, author: 'mchen', body: 'The cap is in processor.py.' }]
+    });
+  });
+
+  it('reads Jira JSON exports and flattens document-format text', () => {
+    const { issue, format } = archive.getTicket('PAY-7')!;
+
+    expect(format).toBe('jira');
+    expect(issue).toMatchObject({
+      number: 7,
+      key: 'PAY-7',
+      title: 'Gateway rejects amounts over 9999.99',
+      body: 'Seen on every large invoice.\namount_too_large',
+      author: 'Mei Chen',
+      state: 'closed',
+      url: 'https://acme.atlassian.net/browse/PAY-7',
+      createdAt: new Date('2023-03-14T09:30:00Z'),
+      closedAt: new Date('2023-03-21T11:00:00Z'),
+      labels: ['gateway'],
+      comments: [{ id: 30001, author: 'Sam Ortiz', body: 'Workaround shipped.' }]
+    });
+  });
+
+  it('reads Jira CSV exports with repeated columns, quoted fields and month-name dates', () => {
+    const refunds = archive.getTicket('PAY-8')!.issue;
+
+    expect(refunds).toMatchObject({
+      title: 'Round refunds to cents',
+      author: 'Lee Park',
+      state: 'closed',
+      createdAt: new Date(2024, 2, 12, 15, 15),
+      closedAt: new Date(2024, 3, 5),
+      labels: ['refunds', 'rounding'],
+      comments: [{
+        id: 1,
+        author: 'Sam Ortiz',
+        body: 'Agreed; shipping today',
+        createdAt: new Date(2024, 2, 12, 16, 0)
+      }]
+    });
+    expect(refunds.body).toMatch(/^Refunds of 0.005 were rounded up, not to even.\r?\nUse "banker's" rounding.$/);
+
+    expect(archive.getTicket('PAY-9')!.issue).toMatchObject({
+      author: 'unknown',
+      state: 'open',
+      createdAt: new Date(2024, 0, 1, 0, 5),
+      closedAt: null,
+      labels: [],
+      comments: []
+    });
+  });
+
+  it('reads markdown tickets with and without front matter', () => {
+    const audit = archive.getTicket(412)!;
+    expect(audit.format).toBe('markdown');
+    expect(audit.issue).toMatchObject({
+      title: 'Audit the legacy processor',
+      author: 'dreyes',
+      state: 'closed',
+      createdAt: new Date('2024-05-02'),
+      labels: ['audit', 'payments']
+    });
+    expect(audit.issue.body).toMatch(/^# Ignored heading\n\nCheck every caller/);
+
+    expect(archive.getTicket('OPS-3')!.issue).toMatchObject({
+      number: 3,
+      title: 'Alert on legacy processor usage',
+      author: 'unknown',
+      state: 'open'
+    });
+  });
+
+  it('keeps keyed tickets apart from GitHub numbers', () => {
+    expect(archive.getTicket(7)).toBeNull();
+    expect(archive.getTicket(3)).toBeNull();
+  });
+
+  it('resolves the tickets a commit message refers to', async () => {
+    const { data } = await archive.resolveReferences('Cap large charges (#101)\n\nRefs: PAY-7, PAY-404, #999');
+
+    expect(data.map(t => t.issue.key || t.issue.number)).toEqual(['PAY-7', 101]);
+  });
+
+  it('skips exports it cannot parse', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tracker-'));
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    try {
+      fs.writeFileSync(path.join(dir, 'broken.json'), '{ "issues": [');
+      fs.writeFileSync(path.join(dir, 'other.json'), JSON.stringify({ items: [{ name: 'not an issue' }] }));
+      fs.copyFileSync(path.join(FIXTURES, 'gh-cli.json'), path.join(dir, 'gh-cli.json'));
+
+      expect(new TrackerArchiveAgent([dir, path.join(dir, 'missing')]).size).toBe(1);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('broken.json'), expect.any(SyntaxError));
+    } finally {
+      warn.mockRestore();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -1,27 +1,27 @@
 /**
- * Archivist Agent - GitHub API Specialist
- * Handles PR, Issue, and Discussion retrieval from GitHub
+ * Archivist Agent - Forge API Specialist
+ * Handles PR, Issue, and Discussion retrieval from GitHub, GitLab, Gitea and Bitbucket
  */
 
-import { Octokit } from '@octokit/rest';
 import {
   PRData,
-  PRComment,
-  PRReview,
   IssueData,
-  IssueComment,
   AgentResponse,
   ThoughtSignature,
 } from './types';
+import { ForgeProvider, ForgeType } from '../forges';
+import { toServiceFailure } from '../scheduler';
 
 export class ArchivistAgent {
-  private octokit: Octokit;
+  private forge: ForgeProvider;
   private stepCounter: number = 0;
 
-  constructor(githubToken?: string) {
-    this.octokit = new Octokit({
-      auth: githubToken
-    });
+  constructor(forge: ForgeProvider) {
+    this.forge = forge;
+  }
+
+  get forgeType(): ForgeType {
+    return this.forge.type;
   }
 
   /**
@@ -35,43 +35,12 @@ export class ArchivistAgent {
     const startTime = Date.now();
     
     try {
-      // Search for PRs containing this commit
-      const searchResult = await this.octokit.search.issuesAndPullRequests({
-        q: `${commitHash} repo:${owner}/${repo} is:pr`,
-        per_page: 5
-      });
-
-      if (searchResult.data.items.length === 0) {
-        // Try alternative: list PRs that contain commit
-        const prList = await this.octokit.repos.listPullRequestsAssociatedWithCommit({
-          owner,
-          repo,
-          commit_sha: commitHash
-        });
-
-        if (prList.data.length === 0) {
-          return {
-            data: null,
-            thoughtSignature: this.generateThoughtSignature(),
-            tokensUsed: 0,
-            latencyMs: Date.now() - startTime
-          };
-        }
-
-        const pr = prList.data[0];
-        const prData = await this.getPRDetails(owner, repo, pr.number);
-        
-        return {
-          data: prData,
-          thoughtSignature: this.generateThoughtSignature(),
-          tokensUsed: 0,
-          latencyMs: Date.now() - startTime
-        };
-      }
+      const prNumbers = await this.forge.findPullRequestsByCommit(owner, repo, commitHash);
 
       // Get first matching PR
-      const prNumber = searchResult.data.items[0].number;
-      const prData = await this.getPRDetails(owner, repo, prNumber);
+      const prData = prNumbers.length > 0
+        ? await this.getPRDetails(owner, repo, prNumbers[0])
+        : null;
 
       return {
         data: prData,
@@ -83,6 +52,7 @@ export class ArchivistAgent {
       console.error(`Failed to find PR for commit ${commitHash}:`, error);
       return {
         data: null,
+        error: toServiceFailure(error, `find PR for commit ${commitHash.substring(0, 7)}`, `forge:${this.forge.type}`),
         thoughtSignature: this.generateThoughtSignature(),
         tokensUsed: 0,
         latencyMs: Date.now() - startTime
@@ -99,94 +69,20 @@ export class ArchivistAgent {
     prNumber: number
   ): Promise<PRData> {
     const [pr, comments, reviews] = await Promise.all([
-      this.octokit.pulls.get({ owner, repo, pull_number: prNumber }),
-      this.getPRComments(owner, repo, prNumber),
-      this.getPRReviews(owner, repo, prNumber)
+      this.forge.getPullRequest(owner, repo, prNumber),
+      this.forge.getPullRequestComments(owner, repo, prNumber),
+      this.forge.getPullRequestReviews(owner, repo, prNumber)
     ]);
 
-    const linkedIssues = this.extractLinkedIssues(pr.data.body || '');
-
     return {
-      number: pr.data.number,
-      title: pr.data.title,
-      body: pr.data.body || '',
-      author: pr.data.user?.login || 'unknown',
-      state: pr.data.merged ? 'merged' : pr.data.state as 'open' | 'closed',
-      url: pr.data.html_url,
-      createdAt: new Date(pr.data.created_at),
-      mergedAt: pr.data.merged_at ? new Date(pr.data.merged_at) : null,
-      comments,
+      ...pr,
+      // Sort by date
+      comments: comments.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()),
       reviews,
-      linkedIssues
+      linkedIssues: this.extractLinkedIssues(pr.body)
     };
   }
 
-  /**
-   * Get PR comments (both issue comments and review comments)
-   */
-  private async getPRComments(
-    owner: string,
-    repo: string,
-    prNumber: number
-  ): Promise<PRComment[]> {
-    const [issueComments, reviewComments] = await Promise.all([
-      this.octokit.issues.listComments({
-        owner,
-        repo,
-        issue_number: prNumber,
-        per_page: 100
-      }),
-      this.octokit.pulls.listReviewComments({
-        owner,
-        repo,
-        pull_number: prNumber,
-        per_page: 100
-      })
-    ]);
-
-    const comments: PRComment[] = [
-      ...issueComments.data.map(c => ({
-        id: c.id,
-        author: c.user?.login || 'unknown',
-        body: c.body || '',
-        createdAt: new Date(c.created_at)
-      })),
-      ...reviewComments.data.map(c => ({
-        id: c.id,
-        author: c.user?.login || 'unknown',
-        body: c.body || '',
-        createdAt: new Date(c.created_at)
-      }))
-    ];
-
-    // Sort by date
-    return comments.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
-  }
-
-  /**
-   * Get PR reviews
-   */
-  private async getPRReviews(
-    owner: string,
-    repo: string,
-    prNumber: number
-  ): Promise<PRReview[]> {
-    const reviews = await this.octokit.pulls.listReviews({
-      owner,
-      repo,
-      pull_number: prNumber,
-      per_page: 100
-    });
-
-    return reviews.data.map(r => ({
-      id: r.id,
-      author: r.user?.login || 'unknown',
-      state: r.state.toLowerCase() as 'approved' | 'changes_requested' | 'commented',
-      body: r.body || '',
-      createdAt: new Date(r.submitted_at || '')
-    }));
-  }
-
   /**
    * Get issue details
    */
@@ -199,27 +95,12 @@ export class ArchivistAgent {
     
     try {
       const [issue, comments] = await Promise.all([
-        this.octokit.issues.get({ owner, repo, issue_number: issueNumber }),
-        this.getIssueComments(owner, repo, issueNumber)
+        this.forge.getIssue(owner, repo, issueNumber),
+        this.forge.getIssueComments(owner, repo, issueNumber)
       ]);
 
-      const issueData: IssueData = {
-        number: issue.data.number,
-        title: issue.data.title,
-        body: issue.data.body || '',
-        author: issue.data.user?.login || 'unknown',
-        state: issue.data.state as 'open' | 'closed',
-        url: issue.data.html_url,
-        createdAt: new Date(issue.data.created_at),
-        closedAt: issue.data.closed_at ? new Date(issue.data.closed_at) : null,
-        labels: issue.data.labels.map(l => 
-          typeof l === 'string' ? l : l.name || ''
-        ),
-        comments
-      };
-
       return {
-        data: issueData,
+        data: { ...issue, comments },
         thoughtSignature: this.generateThoughtSignature(),
         tokensUsed: 0,
         latencyMs: Date.now() - startTime
@@ -228,6 +109,7 @@ export class ArchivistAgent {
       console.error(`Failed to get issue #${issueNumber}:`, error);
       return {
         data: null,
+        error: toServiceFailure(error, `get issue #${issueNumber}`, `forge:${this.forge.type}`),
         thoughtSignature: this.generateThoughtSignature(),
         tokensUsed: 0,
         latencyMs: Date.now() - startTime
@@ -235,29 +117,6 @@ export class ArchivistAgent {
     }
   }
 
-  /**
-   * Get issue comments
-   */
-  private async getIssueComments(
-    owner: string,
-    repo: string,
-    issueNumber: number
-  ): Promise<IssueComment[]> {
-    const comments = await this.octokit.issues.listComments({
-      owner,
-      repo,
-      issue_number: issueNumber,
-      per_page: 100
-    });
-
-    return comments.data.map(c => ({
-      id: c.id,
-      author: c.user?.login || 'unknown',
-      body: c.body || '',
-      createdAt: new Date(c.created_at)
-    }));
-  }
-
   /**
    * Get multiple issues
    */
@@ -3,8 +3,8 @@
  * Uses Gemini to analyze staged changes and generate meaningful commit messages
  */
 
-import { GoogleGenAI } from '@google/genai';
 import simpleGit, { SimpleGit, DiffResult } from 'simple-git';
+import { LLMProvider } from '../llm';
 
 export interface CommitSuggestion {
   message: string;
@@ -22,14 +22,14 @@ export interface StagedChanges {
 }
 
 export class CommitAgent {
-  private genai: GoogleGenAI;
+  private provider: LLMProvider;
   private git: SimpleGit;
   private repoPath: string;
 
-  constructor(repoPath: string, apiKey: string) {
+  constructor(repoPath: string, provider: LLMProvider) {
     this.repoPath = repoPath;
     this.git = simpleGit(repoPath);
-    this.genai = new GoogleGenAI({ apiKey });
+    this.provider = provider;
   }
 
   /**
@@ -111,15 +111,10 @@ Return exactly 3 suggestions as a JSON array:
 • Confidence is 0-100 based on how clear the intent is`;
 
     try {
-      const response = await this.genai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: prompt,
-        config: {
-          temperature: 0.3,
-          thinkingConfig: {
-            thinkingBudget: 4096
-          }
-        }
+      const response = await this.provider.generate({
+        prompt,
+        temperature: 0.3,
+        thinkingBudget: 4096
       });
 
       const text = response.text || '[]';
@@ -0,0 +1,89 @@
+/**
+ * Commit Cache
+ * In-process LRU of parsed commits shared by every historian, so deep dives
+ * and repeated investigations do not re-read the same history from git.
+ * Commits are immutable, so entries never go stale; they are only evicted.
+ */
+
+import * as path from 'path';
+import { CommitInfo } from './types';
+
+export const DEFAULT_MAX_COMMITS = 2000;
+export const DEFAULT_MAX_DIFF_CHARS = 64 * 1024 * 1024; // Roughly 128 MB of UTF-16 patches
+
+export interface CommitCacheOptions {
+  maxCommits?: number;    // Entries kept before the least recently used is evicted
+  maxDiffChars?: number;  // Total patch text kept across all entries
+}
+
+export class CommitCache {
+  private entries = new Map<string, CommitInfo>();
+  private maxCommits: number;
+  private maxDiffChars: number;
+  private diffChars: number = 0;
+
+  constructor(options: CommitCacheOptions = {}) {
+    this.maxCommits = options.maxCommits ?? DEFAULT_MAX_COMMITS;
+    this.maxDiffChars = options.maxDiffChars ?? DEFAULT_MAX_DIFF_CHARS;
+  }
+
+  /**
+   * Look up a commit by its full hash, marking it most recently used
+   */
+  get(repoPath: string, hash: string): CommitInfo | undefined {
+    const key = this.key(repoPath, hash);
+    const commit = this.entries.get(key);
+    if (commit) {
+      this.entries.delete(key);
+      this.entries.set(key, commit);
+    }
+    return commit;
+  }
+
+  set(repoPath: string, commit: CommitInfo): void {
+    const key = this.key(repoPath, commit.hash);
+    this.remove(key);
+    this.entries.set(key, commit);
+    this.diffChars += commit.diff.length;
+
+    // Map iteration order is insertion order, so the first key is the oldest
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxCommits && this.diffChars <= this.maxDiffChars) break;
+      if (oldest === key) break; // Keep the commit just added even if it alone is over budget
+      this.remove(oldest);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.diffChars = 0;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private remove(key: string): void {
+    const existing = this.entries.get(key);
+    if (existing) {
+      this.diffChars -= existing.diff.length;
+      this.entries.delete(key);
+    }
+  }
+
+  private key(repoPath: string, hash: string): string {
+    return `${path.resolve(repoPath)}\0${hash}`;
+  }
+}
+
+let sharedCache: CommitCache | null = null;
+
+/**
+ * The process-wide commit cache every historian reads through
+ */
+export function getCommitCache(): CommitCache {
+  if (!sharedCache) {
+    sharedCache = new CommitCache();
+  }
+  return sharedCache;
+}
@@ -0,0 +1,42 @@
+/**
+ * Commit Message References
+ * Extracts issue/ticket references and people trailers from commit messages
+ */
+
+export interface CommitReferences {
+  issueNumbers: number[];   // "#123", "Fixes #123", "(#45)" from squash merges
+  ticketKeys: string[];     // Jira-style keys, e.g. "PROJ-456" from "Refs: PROJ-456"
+  coAuthors: string[];      // Co-authored-by trailers ("Name <email>")
+  reviewers: string[];      // Reviewed-by trailers
+}
+
+const ISSUE_NUMBER = /(?:^|[^\w&])#(\d+)\b/g;
+const TICKET_KEY = /\b([A-Z][A-Z0-9_]+-\d+)\b/g;
+const TRAILER = /^(Co-authored-by|Reviewed-by):\s*(.+?)\s*$/gim;
+
+export function parseCommitReferences(message: string): CommitReferences {
+  const issueNumbers = new Set<number>();
+  const ticketKeys = new Set<string>();
+  const coAuthors: string[] = [];
+  const reviewers: string[] = [];
+
+  for (const match of message.matchAll(ISSUE_NUMBER)) {
+    issueNumbers.add(parseInt(match[1], 10));
+  }
+
+  for (const match of message.matchAll(TICKET_KEY)) {
+    ticketKeys.add(match[1]);
+  }
+
+  for (const match of message.matchAll(TRAILER)) {
+    const list = match[1].toLowerCase() === 'co-authored-by' ? coAuthors : reviewers;
+    if (!list.includes(match[2])) list.push(match[2]);
+  }
+
+  return {
+    issueNumbers: [...issueNumbers],
+    ticketKeys: [...ticketKeys],
+    coAuthors,
+    reviewers
+  };
+}
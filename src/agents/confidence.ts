@@ -0,0 +1,159 @@
+/**
+ * Confidence Scoring
+ * Scores how well the gathered evidence explains the code, then blends that
+ * with the Lead Detective's own assessment
+ */
+
+import {
+  CaseFile,
+  Claim,
+  CommitInfo,
+  BlameRange,
+  ConfidenceBreakdown,
+  ConfidenceFactor,
+} from './types';
+
+const EVIDENCE_WEIGHT = 0.7; // Share of the final score taken by the evidence; the rest is the model's
+const VERIFIED_SOURCES_TARGET = 3; // Distinct cited sources needed for full marks
+
+// Subjects that say nothing about why the change was made
+const GENERIC_SUBJECT = /^(wip|update[sd]?|fix(es|ed)?|changes?|misc|cleanup|tmp|temp|minor|stuff|refactor(ing)?|initial commit|\.+)$/i;
+const INTENT_WORDS = /\b(because|so that|in order to|to (avoid|prevent|support|allow|handle|ensure|fix|work around)|otherwise|workaround|regression|caused|fix(es|ed)? (a |the )?\w+)/i;
+const TRAILER_LINE = /^[\w-]+:\s/;
+
+/**
+ * Score the evidence behind an investigation and blend it with the
+ * model's self-reported confidence
+ */
+export function scoreConfidence(
+  caseFile: CaseFile,
+  claims: Claim[],
+  modelScore: number
+): ConfidenceBreakdown {
+  const factors = [
+    commitIntentFactor(caseFile),
+    externalContextFactor(caseFile),
+    commitSpreadFactor(caseFile),
+    mechanicalBlameFactor(caseFile),
+    verifiedSourcesFactor(caseFile, claims),
+  ];
+
+  const evidenceScore = Math.round(factors.reduce((sum, f) => sum + f.score * f.weight, 0) * 100);
+  const model = Math.min(100, Math.max(0, Math.round(modelScore)));
+
+  return {
+    score: Math.round(evidenceScore * EVIDENCE_WEIGHT + model * (1 - EVIDENCE_WEIGHT)),
+    evidenceScore,
+    modelScore: model,
+    evidenceWeight: EVIDENCE_WEIGHT,
+    factors,
+  };
+}
+
+/**
+ * Whether a commit message explains why, not just what: a real body, a
+ * ticket reference, or intent wording in the subject
+ */
+export function explainsIntent(message: string): boolean {
+  const [subject, ...rest] = message.trim().split('\n');
+  const body = rest
+    .filter(line => !TRAILER_LINE.test(line.trim()))
+    .join(' ')
+    .trim();
+
+  if (body.length >= 40) return true;
+  if (GENERIC_SUBJECT.test(subject.trim())) return false;
+  return INTENT_WORDS.test(message) || /(#\d+|\b[A-Z][A-Z0-9_]+-\d+\b)/.test(subject);
+}
+
+function commitIntentFactor(caseFile: CaseFile): ConfidenceFactor {
+  const commits = caseFile.evidence
+    .filter(e => e.type === 'commit')
+    .map(e => e.data as CommitInfo);
+  const explained = commits.filter(c => explainsIntent(c.message)).length;
+
+  return {
+    name: 'Commit messages explain intent',
+    weight: 0.3,
+    score: commits.length > 0 ? explained / commits.length : 0,
+    detail: commits.length > 0
+      ? `${explained} of ${commits.length} commit message${commits.length === 1 ? ' explains' : 's explain'} why`
+      : 'No commits retrieved',
+  };
+}
+
+function externalContextFactor(caseFile: CaseFile): ConfidenceFactor {
+  const prs = caseFile.evidence.filter(e => e.type === 'pr').length;
+  const issues = caseFile.evidence.filter(e => e.type === 'issue').length;
+
+  return {
+    name: 'Pull request or issue found',
+    weight: 0.25,
+    score: (prs > 0 ? 0.6 : 0) + (issues > 0 ? 0.4 : 0),
+    detail: `${prs} PR${prs === 1 ? '' : 's'}, ${issues} issue${issues === 1 ? '' : 's'}`,
+  };
+}
+
+/**
+ * Lines shaped by one commit have one story; each extra commit dilutes it
+ */
+function commitSpreadFactor(caseFile: CaseFile): ConfidenceFactor {
+  const range = getBlameRange(caseFile);
+  const count = range ? range.commits.filter(c => !/^0+$/.test(c.commitHash)).length : 0;
+
+  return {
+    name: 'Distinct commits in range',
+    weight: 0.15,
+    score: count > 0 ? 1 / Math.sqrt(count) : 0,
+    detail: range ? `${count} commit${count === 1 ? '' : 's'} shaped the selection` : 'No blame data',
+  };
+}
+
+/**
+ * Walking past mechanical commits recovers the author, but each skip is
+ * a step of inference
+ */
+function mechanicalBlameFactor(caseFile: CaseFile): ConfidenceFactor {
+  const range = getBlameRange(caseFile);
+  const skipped = range?.skipped?.length || 0;
+
+  return {
+    name: 'Blame free of mechanical commits',
+    weight: 0.1,
+    score: range ? Math.max(0, 1 - skipped * 0.25) : 0,
+    detail: !range
+      ? 'No blame data'
+      : skipped > 0
+        ? `Walked past ${skipped} mechanical commit${skipped === 1 ? '' : 's'}`
+        : 'Blame landed on logic changes directly',
+  };
+}
+
+/**
+ * Claims count as verified when they cite commits, PRs or issues in the
+ * case file rather than only blame or file history; findings that cited
+ * only unknown evidence scale the score down
+ */
+function verifiedSourcesFactor(caseFile: CaseFile, claims: Claim[]): ConfidenceFactor {
+  const verifiable = new Set(
+    caseFile.evidence
+      .filter(e => e.type === 'commit' || e.type === 'pr' || e.type === 'issue')
+      .map(e => e.id)
+  );
+  const cited = new Set(claims.flatMap(c => c.evidenceIds).filter(id => verifiable.has(id)));
+  const unsupported = claims.filter(c => c.unsupported).length;
+  const supportedShare = claims.length > 0 ? 1 - unsupported / claims.length : 1;
+
+  return {
+    name: 'Cited sources verify',
+    weight: 0.2,
+    score: Math.min(1, cited.size / VERIFIED_SOURCES_TARGET) * supportedShare,
+    detail: `${cited.size} commit/PR/issue source${cited.size === 1 ? '' : 's'} cited by findings${
+      unsupported > 0 ? `; ${unsupported} finding${unsupported === 1 ? ' cites' : 's cite'} only unknown evidence` : ''}`,
+  };
+}
+
+function getBlameRange(caseFile: CaseFile): BlameRange | null {
+  const evidence = caseFile.evidence.find(e => e.type === 'blame_range');
+  return evidence ? evidence.data as BlameRange : null;
+}
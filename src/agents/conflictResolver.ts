@@ -4,20 +4,53 @@
  * Uses Gemini 3 to understand WHAT each side wanted and WHY
  */
 
-import { GoogleGenAI } from '@google/genai';
 import simpleGit, { SimpleGit } from 'simple-git';
 import * as fs from 'fs';
 import * as path from 'path';
+import { LLMProvider, MeteredProvider, UsageMeter, UsageSummary, BudgetExceededError, formatUsage } from '../llm';
+import { JsonSchema, parseJsonResponse, validateJson } from '../llm/schema';
+import { ServiceFailure, toServiceFailure, formatFailure } from '../scheduler';
+import { isCancellation } from '../cancellation';
+import { ResolutionJournal } from '../resolutionJournal';
+import { baseRangeFor, describeChanges, matchLines, toLines } from './conflicts/diff3';
+import { resolveTrivially } from './conflicts/prepass';
+import { formatCommand, isLockfile, lockfileCommand, regenerateLockfile } from './conflicts/lockfiles';
+import {
+  MAX_HUNK_COMBINATIONS,
+  TreeMerge,
+  describeTreeMerge,
+  hunkCandidates,
+  isStructuredFile,
+  maskConflicts,
+  mergeTrees,
+  parseStructured,
+  sameValue,
+  valueAt,
+} from './conflicts/structured';
+import {
+  CONTINUABLE_OPERATIONS,
+  ConflictOperation,
+  describeOperation,
+  detectOperation,
+} from './conflicts/operation';
+import {
+  ValidationConfig,
+  ValidationDiagnostic,
+  formatDiagnostic,
+  newDiagnostics,
+  validateResolvedFile,
+} from './conflicts/validation';
 
 export interface ConflictResolverConfig {
-  geminiApiKey: string;
+  provider: LLMProvider;
   autoApply?: boolean;  // Automatically apply resolutions
+  validation?: ValidationConfig; // Checks a file must pass before its resolutions are applied
   onProgress?: (update: ConflictProgress) => void;
   onResolved?: (result: ConflictResolution) => void;
 }
 
 export interface ConflictProgress {
-  phase: 'detecting' | 'analyzing' | 'resolving' | 'applying' | 'complete';
+  phase: 'detecting' | 'analyzing' | 'resolving' | 'validating' | 'applying' | 'continuing' | 'complete';
   file?: string;
   message: string;
   conflictsFound?: number;
@@ -30,7 +63,13 @@ export interface MergeConflict {
   endLine: number;
   oursContent: string;   // HEAD / current branch
   theirsContent: string; // Incoming changes
-  baseContent?: string;  // Common ancestor (if available)
+  baseContent?: string;  // Common ancestor: from diff3/zdiff3 markers, else mapped from index stage :1:
+  baseAmbiguous?: boolean; // The mapped base may be the wrong region: a side repeats in its stage, was not found, or the sides map apart
+  markers?: {            // Labels after <<<<<<< and >>>>>>>, e.g. "HEAD" and "feature"
+    ours: string;
+    theirs: string;
+  };
+  structured?: string;   // Key-level analysis of a JSON/YAML file, when this hunk touches keys both sides changed
   context: {
     before: string;      // Lines before conflict
     after: string;       // Lines after conflict
@@ -43,6 +82,8 @@ export interface ConflictResolution {
   strategy: 'ours' | 'theirs' | 'merge' | 'rewrite';
   reasoning: string;
   confidence: number;
+  deterministic?: boolean; // Settled by the pre-pass without a model call
+  diagnostics?: ValidationDiagnostic[]; // Why validation kept it pending
   appliedAt?: Date;
 }
 
@@ -51,36 +92,81 @@ export interface ResolverReport {
   resolved: number;
   failed: number;
   resolutions: ConflictResolution[];
+  failures: ServiceFailure[]; // Conflicts left unresolved because the model call failed
   timestamp: Date;
+  usage?: UsageSummary;
+  budgetExceeded?: string; // Set when the token budget stopped the run early
+  cancelled?: boolean;     // Stopped by the caller; later conflicts were not looked at
+  operation?: ConflictOperation; // Merge, rebase, cherry-pick, revert or stash apply that left the conflicts
+}
+
+export interface StepReport {
+  operation: ConflictOperation; // As detected before the first stop
+  stops: ResolverReport[];      // One per stop, in order
+  completed: boolean;           // The operation ran to the end
+  halted?: string;              // Why stepping stopped before the end
 }
 
+// Resolution fields as the model returns them
+type ModelResolution = Pick<ConflictResolution, 'resolution' | 'strategy' | 'reasoning' | 'confidence'>;
+
 // Conflict marker regex patterns
 const CONFLICT_START = /^<<<<<<<\s*(.*)$/;
+const CONFLICT_BASE = /^\|\|\|\|\|\|\|(\s.*)?$/; // diff3 and zdiff3 conflict styles
 const CONFLICT_MIDDLE = /^=======$/;
 const CONFLICT_END = /^>>>>>>>\s*(.*)$/;
 
+// Resolutions at or above this confidence are candidates for applying
+const APPLY_CONFIDENCE = 70;
+
+// Ceiling for a pre-pass result that relied on an ambiguous mapped base
+const AMBIGUOUS_BASE_CONFIDENCE = 60;
+
+// Shape of the model's resolution; validated before anything is applied
+const RESOLUTION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    strategy: { type: 'string', enum: ['ours', 'theirs', 'merge', 'rewrite'] },
+    resolution: { type: 'string', description: 'Code that replaces the conflict markers' },
+    reasoning: { type: 'string' },
+    confidence: { type: 'integer', minimum: 0, maximum: 100 }
+  },
+  required: ['strategy', 'resolution', 'reasoning', 'confidence']
+};
+
 export class ConflictResolverAgent {
-  private genai: GoogleGenAI;
+  private provider: LLMProvider;
   private git: SimpleGit;
   private config: ConflictResolverConfig;
   private repoPath: string;
+  private usage: UsageMeter = new UsageMeter();
+  private journal: ResolutionJournal;
+  private operation?: ConflictOperation; // Detected once per run
+  private structured = new Map<MergeConflict, ConflictResolution>(); // Hunks settled by a structured merge
 
   constructor(repoPath: string, config: ConflictResolverConfig) {
     this.repoPath = repoPath;
     this.config = config;
-    this.genai = new GoogleGenAI({ apiKey: config.geminiApiKey });
+    this.provider = new MeteredProvider(config.provider, this.usage);
     this.git = simpleGit(repoPath);
+    this.journal = ResolutionJournal.forRepo(repoPath);
   }
 
   /**
-   * Resolve all conflicts in the repository
+   * Resolve all conflicts in the repository. Aborting the signal stops the
+   * run after the conflict in progress; the report covers those handled.
    */
-  async resolveAll(): Promise<ResolverReport> {
+  async resolveAll(signal?: AbortSignal): Promise<ResolverReport> {
+    this.usage.reset();
+    this.git = simpleGit({ baseDir: this.repoPath, abort: signal });
+    this.operation = undefined;
+    this.structured.clear();
     const report: ResolverReport = {
       totalConflicts: 0,
       resolved: 0,
       failed: 0,
       resolutions: [],
+      failures: [],
       timestamp: new Date()
     };
 
@@ -95,6 +181,7 @@ export class ConflictResolverAgent {
         message: 'No conflicts found!',
         conflictsFound: 0 
       });
+      report.usage = this.usage.summary();
       return report;
     }
 
@@ -104,12 +191,41 @@ export class ConflictResolverAgent {
       conflictsFound: conflictedFiles.length
     });
 
-    // Process each file
-    for (const filePath of conflictedFiles) {
+    // Process each file, until the token budget runs out. Lockfiles come
+    // last: they are regenerated from the manifests resolved before them.
+    const ordered = [
+      ...conflictedFiles.filter(file => !isLockfile(file)),
+      ...conflictedFiles.filter(file => isLockfile(file))
+    ];
+    for (const filePath of ordered) {
+      if (report.budgetExceeded || report.cancelled) break;
+
+      if (isLockfile(filePath)) {
+        const conflicts = await this.parseConflictsInFile(filePath, false);
+        report.totalConflicts += conflicts.length;
+        try {
+          const resolutions = await this.resolveLockfile(filePath, conflicts, signal);
+          report.resolutions.push(...resolutions);
+          report.resolved += resolutions.length;
+          resolutions.forEach(resolution => this.config.onResolved?.(resolution));
+        } catch (error) {
+          if (isCancellation(error, signal)) {
+            report.cancelled = true;
+            continue;
+          }
+          report.failed += conflicts.length;
+          report.failures.push(toServiceFailure(error, `regenerate ${filePath}`, 'lockfile'));
+        }
+        continue;
+      }
+
       const conflicts = await this.parseConflictsInFile(filePath);
+      const fileResolutions: ConflictResolution[] = [];
       report.totalConflicts += conflicts.length;
+      await this.prepareStructured(filePath, conflicts);
 
       for (const conflict of conflicts) {
+        if (report.budgetExceeded || report.cancelled) break;
         try {
           this.emitProgress({
             phase: 'analyzing',
@@ -119,63 +235,307 @@ export class ConflictResolverAgent {
             conflictsResolved: report.resolved
           });
 
-          // Get git history context for both sides
-          const historyContext = await this.getHistoryContext(conflict);
-
-          // Use Gemini to resolve the conflict
-          const resolution = await this.resolveConflict(conflict, historyContext);
+          const resolution = await this.resolveOne(conflict, signal);
           report.resolutions.push(resolution);
-
-          if (resolution.confidence >= 70 && this.config.autoApply) {
-            this.emitProgress({
-              phase: 'applying',
-              file: filePath,
-              message: `Applying resolution (${resolution.confidence}% confidence)...`
-            });
-
-            await this.applyResolution(filePath, conflict, resolution);
-            resolution.appliedAt = new Date();
-          }
+          fileResolutions.push(resolution);
 
           report.resolved++;
           this.config.onResolved?.(resolution);
 
         } catch (error) {
+          if (error instanceof BudgetExceededError) {
+            report.budgetExceeded = error.message;
+            continue;
+          }
+          if (isCancellation(error, signal)) {
+            report.cancelled = true;
+            continue;
+          }
           console.error(`Failed to resolve conflict in ${filePath}:`, error);
           report.failed++;
+          report.failures.push(
+            toServiceFailure(error, `resolve ${filePath}:${conflict.startLine}`, `model:${this.provider.name}`)
+          );
+        }
+      }
+
+      try {
+        await this.validateAndApply(filePath, conflicts, fileResolutions, signal);
+      } catch (error) {
+        if (isCancellation(error, signal)) {
+          report.cancelled = true;
+          continue;
         }
+        console.error(`Failed to apply resolutions in ${filePath}:`, error);
+        report.failures.push(toServiceFailure(error, `apply resolutions to ${filePath}`, 'filesystem'));
       }
     }
 
     this.emitProgress({
       phase: 'complete',
-      message: `Resolved ${report.resolved}/${report.totalConflicts} conflicts`,
+      message: report.cancelled
+        ? `Cancelled after resolving ${report.resolved}/${report.totalConflicts} conflicts`
+        : `Resolved ${report.resolved}/${report.totalConflicts} conflicts`,
       conflictsFound: report.totalConflicts,
       conflictsResolved: report.resolved
     });
 
+    report.usage = this.usage.summary();
+    report.operation = this.operation;
     return report;
   }
 
   /**
    * Resolve conflicts in a specific file
    */
-  async resolveFile(filePath: string): Promise<ConflictResolution[]> {
+  async resolveFile(filePath: string, signal?: AbortSignal): Promise<ConflictResolution[]> {
+    this.git = simpleGit({ baseDir: this.repoPath, abort: signal });
+    this.operation = undefined;
+    this.structured.clear();
+
+    if (isLockfile(filePath)) {
+      return this.resolveLockfile(filePath, await this.parseConflictsInFile(filePath, false), signal);
+    }
+
     const conflicts = await this.parseConflictsInFile(filePath);
     const resolutions: ConflictResolution[] = [];
+    await this.prepareStructured(filePath, conflicts);
 
     for (const conflict of conflicts) {
-      const historyContext = await this.getHistoryContext(conflict);
-      const resolution = await this.resolveConflict(conflict, historyContext);
-      resolutions.push(resolution);
+      resolutions.push(await this.resolveOne(conflict, signal));
+    }
 
-      if (this.config.autoApply && resolution.confidence >= 70) {
-        await this.applyResolution(filePath, conflict, resolution);
-        resolution.appliedAt = new Date();
+    await this.validateAndApply(filePath, conflicts, resolutions, signal);
+    return resolutions;
+  }
+
+  /**
+   * Merge a JSON/YAML file as trees. When no key was changed differently on
+   * both sides, or a hunk does not touch such a key, the hunk is settled
+   * with the candidate text (diff3 merge, a side, both sides) that parses
+   * to the merged tree; the remaining hunks go to the model with the
+   * key-level analysis.
+   */
+  private async prepareStructured(filePath: string, conflicts: MergeConflict[]): Promise<void> {
+    if (!isStructuredFile(filePath) || conflicts.length === 0) return;
+
+    const [base, ours, theirs] = await Promise.all(
+      [1, 2, 3].map(stage => this.readStage(filePath, stage))
+    );
+    if (!ours || !theirs) return;
+
+    let merge: TreeMerge;
+    try {
+      merge = mergeTrees(
+        base ? parseStructured(filePath, base.join('\n')) : undefined,
+        parseStructured(filePath, ours.join('\n')),
+        parseStructured(filePath, theirs.join('\n'))
+      );
+    } catch {
+      // A side that does not parse is left to the text merge
+      return;
+    }
+
+    const content = fs.readFileSync(path.join(this.repoPath, filePath), 'utf-8');
+    const candidates = conflicts.map(conflict => hunkCandidates(filePath, conflict));
+    const parse = (texts: string[]): unknown => {
+      try {
+        return parseStructured(filePath, substituteConflicts(
+          content,
+          new Map(conflicts.map((conflict, i) => [conflict.startLine, texts[i]]))
+        ));
+      } catch {
+        return undefined;
       }
+    };
+
+    // Find the combination of hunk texts that reproduces the merged tree,
+    // disregarding keys both sides changed
+    const target = maskConflicts(merge.value, merge.conflicts);
+    const total = candidates.reduce((product, options) => product * options.length, 1);
+    let chosen: string[] | null = null;
+    for (let n = 0; n < Math.min(total, MAX_HUNK_COMBINATIONS) && !chosen; n++) {
+      let rest = n;
+      const texts = candidates.map(options => {
+        const text = options[rest % options.length];
+        rest = Math.floor(rest / options.length);
+        return text;
+      });
+      const tree = parse(texts);
+      if (tree !== undefined && sameValue(maskConflicts(tree, merge.conflicts), target)) chosen = texts;
     }
 
-    return resolutions;
+    const analysis = describeTreeMerge(merge);
+    const format = /\.ya?ml$/i.test(filePath) ? 'YAML' : 'JSON';
+
+    conflicts.forEach((conflict, i) => {
+      // A hunk touches a colliding key when taking our or their text for it
+      // changes that key
+      const collides = merge.conflicts.length > 0 && (!chosen || (() => {
+        const withSide = (text: string) => parse(chosen!.map((t, j) => (j === i ? text : t)));
+        const oursTree = withSide(conflict.oursContent);
+        const theirsTree = withSide(conflict.theirsContent);
+        return merge.conflicts.some(key => !sameValue(valueAt(oursTree, key.path), valueAt(theirsTree, key.path)));
+      })());
+
+      if (chosen && !collides) {
+        this.structured.set(conflict, {
+          conflict,
+          resolution: chosen[i],
+          strategy: 'merge',
+          reasoning: `Structured ${format} merge: ${merge.conflicts.length === 0
+            ? 'no key was changed differently on both sides'
+            : 'this hunk does not touch the keys both sides changed'}; the text reproduces the merged tree.`,
+          confidence: 95,
+          deterministic: true
+        });
+      } else {
+        conflict.structured = analysis;
+      }
+    });
+  }
+
+  /**
+   * Lockfiles are regenerated by the package manager from the resolved
+   * manifest, starting from our side's copy, instead of merging hunks.
+   * Nothing is written without autoApply, and nothing until every
+   * conflicted package.json is resolved.
+   */
+  private async resolveLockfile(
+    filePath: string,
+    conflicts: MergeConflict[],
+    signal?: AbortSignal
+  ): Promise<ConflictResolution[]> {
+    const command = formatCommand(lockfileCommand(this.repoPath, filePath));
+    const unresolvedManifests = (await this.findConflictedFiles()).filter(file =>
+      path.basename(file) === 'package.json' &&
+      fs.readFileSync(path.join(this.repoPath, file), 'utf-8').split('\n').some(line => CONFLICT_START.test(line))
+    );
+
+    const resolutions = (reasoning: string): ConflictResolution[] => conflicts.map(conflict => ({
+      conflict,
+      resolution: `(regenerated with ${command})`,
+      strategy: 'rewrite',
+      reasoning,
+      confidence: 100,
+      deterministic: true
+    }));
+
+    if (!this.config.autoApply) {
+      return resolutions(`Lockfiles are not merged hunk by hunk: on apply it is regenerated with \`${command}\` from our side's copy${
+        unresolvedManifests.length > 0 ? `, once ${unresolvedManifests.join(', ')} is resolved` : ''}.`);
+    }
+    if (unresolvedManifests.length > 0) {
+      throw new Error(`${unresolvedManifests.join(', ')} still has conflicts; the lockfile is regenerated once it is resolved`);
+    }
+
+    const ours = await this.readStage(filePath, 2);
+    if (!ours) {
+      throw new Error('Our side of the lockfile is not in the index');
+    }
+
+    this.emitProgress({ phase: 'applying', file: filePath, message: `Regenerating ${filePath} with ${command}...` });
+
+    const fullPath = path.join(this.repoPath, filePath);
+    const original = fs.readFileSync(fullPath, 'utf-8');
+    const lines = original.split('\n');
+    const state = await this.indexState(filePath);
+    try {
+      fs.writeFileSync(fullPath, ours.join('\n'));
+      await regenerateLockfile(this.repoPath, filePath, signal);
+
+      const appliedAt = new Date();
+      const applied = resolutions(`Regenerated with \`${command}\` from the resolved manifest instead of merging hunks.`);
+      this.journal.record({
+        file: filePath,
+        appliedAt,
+        ...state,
+        original,
+        applied: fs.readFileSync(fullPath, 'utf-8'),
+        blocks: applied.map(r => ({
+          startLine: r.conflict.startLine,
+          endLine: r.conflict.endLine,
+          markers: lines.slice(r.conflict.startLine - 1, r.conflict.endLine).join('\n'),
+          resolution: r.resolution,
+          strategy: r.strategy,
+          confidence: r.confidence,
+          deterministic: true
+        }))
+      });
+      for (const resolution of applied) resolution.appliedAt = appliedAt;
+      return applied;
+    } catch (error) {
+      // Leave the conflicted lockfile exactly as it was
+      fs.writeFileSync(fullPath, original);
+      throw error;
+    }
+  }
+
+  /**
+   * Step through a rebase (or cherry-pick, revert or merge): resolve and
+   * apply the conflicts at each stop, stage them and continue, until the
+   * operation finishes or a stop needs a person - a pending or failed
+   * resolution, a conflict without markers, or a stop that is not a conflict
+   */
+  async stepThrough(signal?: AbortSignal): Promise<StepReport> {
+    const originalAutoApply = this.config.autoApply;
+    this.config.autoApply = true;
+
+    try {
+      const operation = await detectOperation(simpleGit({ baseDir: this.repoPath, abort: signal }));
+      const stops: ResolverReport[] = [];
+      const halt = (halted: string): StepReport => ({ operation, stops, completed: false, halted });
+
+      if (!CONTINUABLE_OPERATIONS.includes(operation.kind)) {
+        return halt(operation.kind === 'none'
+          ? 'No merge, rebase, cherry-pick or revert is in progress'
+          : `A ${operation.kind} cannot be continued; resolve it without stepping`);
+      }
+
+      for (;;) {
+        const report = await this.resolveAll(signal);
+        stops.push(report);
+
+        if (report.cancelled) return halt('Cancelled');
+        if (report.budgetExceeded) return halt(report.budgetExceeded);
+        const held = heldBack(report);
+        if (held.length > 0) return halt(`This stop needs manual resolution: ${held.join('; ')}`);
+
+        const files = [...new Set(report.resolutions.map(r => r.conflict.file))];
+        if (files.length > 0) await this.git.add(files);
+        const conflicted = (await this.git.status()).conflicted;
+        if (conflicted.length > 0) {
+          return halt(`${conflicted.join(', ')} still conflicted without markers to resolve (e.g. deleted on one side)`);
+        }
+
+        const current = report.operation || operation;
+        this.emitProgress({
+          phase: 'continuing',
+          message: `Continuing ${operation.kind}${current.step ? ` after commit ${current.step.current}/${current.step.total}` : ''}...`
+        });
+
+        try {
+          // Keep the replayed commit messages instead of opening an editor
+          await this.git.env({ ...process.env, GIT_EDITOR: 'true' }).raw([operation.kind, '--continue']);
+        } catch (error) {
+          if (isCancellation(error, signal)) return halt('Cancelled');
+          if ((await this.git.status()).conflicted.length === 0) {
+            return halt(`git ${operation.kind} --continue failed: ${error instanceof Error ? error.message.trim() : error}`);
+          }
+          // Stopped at the next conflicting commit
+          continue;
+        }
+
+        if ((await detectOperation(this.git)).kind === 'none') {
+          return { operation, stops, completed: true };
+        }
+        if ((await this.git.status()).conflicted.length === 0) {
+          return halt(`The ${operation.kind} stopped without conflicts (e.g. an edit or break in the todo list)`);
+        }
+      }
+    } finally {
+      this.config.autoApply = originalAutoApply;
+    }
   }
 
   /**
@@ -225,32 +585,42 @@ export class ConflictResolverAgent {
   }
 
   /**
-   * Parse conflicts from a file
+   * Parse conflicts from a file. diff3/zdiff3 markers carry the base; for
+   * the default style it is recovered from the index stages unless
+   * `findBase` is off (lockfiles, which are never merged by hunk).
    */
-  private async parseConflictsInFile(filePath: string): Promise<MergeConflict[]> {
+  private async parseConflictsInFile(filePath: string, findBase = true): Promise<MergeConflict[]> {
     const fullPath = path.join(this.repoPath, filePath);
     const content = fs.readFileSync(fullPath, 'utf-8');
     const lines = content.split('\n');
     const conflicts: MergeConflict[] = [];
 
-    let inConflict = false;
+    let section: 'none' | 'ours' | 'base' | 'theirs' = 'none';
     let conflictStart = 0;
+    let oursMarker = '';
     let oursLines: string[] = [];
+    let baseLines: string[] | undefined;
     let theirsLines: string[] = [];
-    let inOurs = false;
 
     for (let i = 0; i < lines.length; i++) {
       const line = lines[i];
 
-      if (CONFLICT_START.test(line)) {
-        inConflict = true;
-        inOurs = true;
+      const start = line.match(CONFLICT_START);
+      const end = line.match(CONFLICT_END);
+
+      if (start) {
+        section = 'ours';
         conflictStart = i + 1;
+        oursMarker = start[1].trim();
         oursLines = [];
+        baseLines = undefined;
         theirsLines = [];
-      } else if (CONFLICT_MIDDLE.test(line) && inConflict) {
-        inOurs = false;
-      } else if (CONFLICT_END.test(line) && inConflict) {
+      } else if (CONFLICT_BASE.test(line) && section === 'ours') {
+        section = 'base';
+        baseLines = [];
+      } else if (CONFLICT_MIDDLE.test(line) && (section === 'ours' || section === 'base')) {
+        section = 'theirs';
+      } else if (end && section === 'theirs') {
         // Extract context (5 lines before/after)
         const contextBefore = lines.slice(Math.max(0, conflictStart - 6), conflictStart - 1).join('\n');
         const contextAfter = lines.slice(i + 1, i + 6).join('\n');
@@ -261,56 +631,174 @@ export class ConflictResolverAgent {
           endLine: i + 1,
           oursContent: oursLines.join('\n'),
           theirsContent: theirsLines.join('\n'),
+          baseContent: baseLines?.join('\n'),
+          markers: { ours: oursMarker, theirs: end[1].trim() },
           context: {
             before: contextBefore,
             after: contextAfter
           }
         });
 
-        inConflict = false;
-      } else if (inConflict) {
-        if (inOurs) {
-          oursLines.push(line);
-        } else {
-          theirsLines.push(line);
-        }
+        section = 'none';
+      } else if (section === 'ours') {
+        oursLines.push(line);
+      } else if (section === 'base') {
+        baseLines!.push(line);
+      } else if (section === 'theirs') {
+        theirsLines.push(line);
       }
     }
 
+    if (findBase && conflicts.some(c => c.baseContent === undefined)) {
+      await this.addBaseFromIndex(filePath, conflicts);
+    }
+
     return conflicts;
   }
 
+  /**
+   * Fill in each conflict's base from the index: find the conflicting lines
+   * in the ours (:2:) and theirs (:3:) stages and map both back through a
+   * diff onto the base stage (:1:). Files added on both sides have no base.
+   * The mapping is a heuristic; when it may have picked the wrong region
+   * the conflict is marked baseAmbiguous.
+   */
+  private async addBaseFromIndex(filePath: string, conflicts: MergeConflict[]): Promise<void> {
+    const [base, ours, theirs] = await Promise.all(
+      [1, 2, 3].map(stage => this.readStage(filePath, stage))
+    );
+    if (!base || !ours || !theirs) return;
+
+    const oursPairs = matchLines(base, ours);
+    const theirsPairs = matchLines(base, theirs);
+
+    for (const conflict of conflicts) {
+      if (conflict.baseContent !== undefined) continue;
+
+      const ranges: Array<[number, number]> = [];
+      let ambiguous = false;
+      const sides: Array<[string[], Array<[number, number]>, string]> = [
+        [ours, oursPairs, conflict.oursContent],
+        [theirs, theirsPairs, conflict.theirsContent]
+      ];
+      for (const [lines, pairs, text] of sides) {
+        const found = locateLines(lines, text, conflict.startLine - 1);
+        if (found) {
+          ranges.push(baseRangeFor(pairs, found.at, found.at + lineCount(text), base.length));
+          if (!found.unique) ambiguous = true;
+        } else if (text !== '') {
+          ambiguous = true;
+        }
+      }
+      if (ranges.length === 0) continue;
+
+      const start = Math.min(...ranges.map(r => r[0]));
+      const end = Math.max(...ranges.map(r => r[1]));
+      // Both sides replaced the same base region, so their ranges meet
+      if (ranges.length === 2 && (ranges[0][1] < ranges[1][0] || ranges[1][1] < ranges[0][0])) ambiguous = true;
+
+      conflict.baseContent = base.slice(start, end).join('\n');
+      if (ambiguous) conflict.baseAmbiguous = true;
+    }
+  }
+
+  /**
+   * HEAD and the file's conflict stages, journaled so an undo can put the
+   * stages back or see that the operation has gone on
+   */
+  private async indexState(filePath: string): Promise<{ head?: string; index?: string }> {
+    const [head, index] = await Promise.all([
+      this.git.revparse(['HEAD']),
+      this.git.raw(['ls-files', '-s', '--', filePath.split(path.sep).join('/')])
+    ].map(read => read.catch((error: unknown) => {
+      if (isCancellation(error)) throw error;
+      return undefined;
+    })));
+    return { head, index };
+  }
+
+  private async readStage(filePath: string, stage: number): Promise<string[] | null> {
+    try {
+      const content = await this.git.raw(['show', `:${stage}:${filePath.split(path.sep).join('/')}`]);
+      return content.split('\n');
+    } catch (error) {
+      if (isCancellation(error)) throw error;
+      return null;
+    }
+  }
+
+  /**
+   * Settle the conflict in the pre-pass when possible, otherwise ask the
+   * model with the history of both sides. A pre-pass result that needed an
+   * ambiguous base is kept below the apply threshold for review.
+   */
+  private async resolveOne(conflict: MergeConflict, signal?: AbortSignal): Promise<ConflictResolution> {
+    const operation = await this.getOperation(conflict);
+    const structured = this.structured.get(conflict);
+    if (structured) return structured;
+
+    const trivial = resolveTrivially(conflict.baseContent, conflict.oursContent, conflict.theirsContent);
+    if (trivial && conflict.baseAmbiguous) {
+      const withoutBase = resolveTrivially(undefined, conflict.oursContent, conflict.theirsContent);
+      return withoutBase ? { conflict, ...withoutBase, deterministic: true } : {
+        conflict,
+        ...trivial,
+        reasoning: `${trivial.reasoning} The base was mapped from the index and may be the wrong region, so this is left for review.`,
+        confidence: Math.min(trivial.confidence, AMBIGUOUS_BASE_CONFIDENCE),
+        deterministic: true
+      };
+    }
+    if (trivial) {
+      return { conflict, ...trivial, deterministic: true };
+    }
+
+    // Get git history context for both sides
+    const historyContext = await this.getHistoryContext(conflict, operation);
+
+    // Use Gemini to resolve the conflict
+    return this.resolveConflict(conflict, operation, historyContext, signal);
+  }
+
+  /**
+   * The operation that left the conflicts, detected on the first conflict
+   * of a run (a stash apply is only recognisable by its marker labels)
+   */
+  private async getOperation(conflict: MergeConflict): Promise<ConflictOperation> {
+    if (!this.operation) {
+      this.operation = await detectOperation(this.git, conflict.markers);
+    }
+    return this.operation;
+  }
+
   /**
    * Get git history context to understand intent of both sides
    */
-  private async getHistoryContext(conflict: MergeConflict): Promise<string> {
+  private async getHistoryContext(conflict: MergeConflict, operation: ConflictOperation): Promise<string> {
     let context = '';
 
     try {
-      // Get recent commits for this file on current branch
+      // Get recent commits for this file on the ours side
       const ourLog = await this.git.log({ file: conflict.file, maxCount: 3 });
-      context += 'Recent changes on current branch:\n';
+      context += `Recent changes on the ours side (${operation.ours}):\n`;
       for (const commit of ourLog.all) {
         context += `  - ${commit.hash.substring(0, 7)}: ${commit.message.split('\n')[0]}\n`;
       }
 
-      // Try to get incoming branch info
-      try {
-        const mergeHead = await this.git.raw(['rev-parse', 'MERGE_HEAD']);
-        if (mergeHead) {
-          const theirLog = await this.git.log({ 
-            from: 'HEAD', 
-            to: mergeHead.trim(), 
-            file: conflict.file,
-            maxCount: 3 
-          });
-          context += '\nIncoming changes:\n';
-          for (const commit of theirLog.all) {
-            context += `  - ${commit.hash.substring(0, 7)}: ${commit.message.split('\n')[0]}\n`;
-          }
+      // Commits on the theirs side that touched the file
+      const incoming = operation.kind === 'merge' && operation.commit
+        ? { from: 'HEAD', to: operation.commit.hash }
+        : operation.kind === 'rebase' && operation.range
+          ? { from: operation.range.split('..')[0], to: operation.range.split('..')[1] }
+          : null;
+      if (incoming) {
+        const theirLog = await this.git.log({ ...incoming, file: conflict.file, maxCount: 5 });
+        context += operation.kind === 'rebase'
+          ? `\nCommits being replayed that touch this file (${operation.range}):\n`
+          : '\nIncoming changes:\n';
+        for (const commit of theirLog.all) {
+          const current = commit.hash === operation.commit?.hash ? ' (replaying now)' : '';
+          context += `  - ${commit.hash.substring(0, 7)}: ${commit.message.split('\n')[0]}${current}\n`;
         }
-      } catch {
-        // MERGE_HEAD might not exist
       }
 
       // Get file history context
@@ -320,6 +808,7 @@ export class ConflictResolverAgent {
       context += `First line of their changes: ${blameTheirs}\n`;
 
     } catch (error) {
+      if (isCancellation(error)) throw error;
       context = 'Unable to retrieve full git history context.';
     }
 
@@ -331,7 +820,9 @@ export class ConflictResolverAgent {
    */
   private async resolveConflict(
     conflict: MergeConflict,
-    historyContext: string
+    operation: ConflictOperation,
+    historyContext: string,
+    signal?: AbortSignal
   ): Promise<ConflictResolution> {
     const prompt = `You are an expert at resolving git merge conflicts. Analyze this conflict and provide the best resolution.
 
@@ -342,17 +833,40 @@ export class ConflictResolverAgent {
 ${conflict.context.before}
 \`\`\`
 
-## OUR VERSION (current branch / HEAD):
+## Operation in Progress:
+${describeOperation(operation)}
+
+## OUR VERSION (${operation.ours}):
 \`\`\`
 ${conflict.oursContent}
 \`\`\`
 
-## THEIR VERSION (incoming changes):
+## THEIR VERSION (${operation.theirs}):
 \`\`\`
 ${conflict.theirsContent}
 \`\`\`
+${conflict.baseContent !== undefined ? `
+## BASE VERSION (common ancestor of both sides${conflict.baseAmbiguous ? '; mapped from the index and may be the wrong region' : ''}):
+\`\`\`
+${conflict.baseContent}
+\`\`\`
 
-## Context After Conflict:
+## What WE changed relative to the base:
+\`\`\`diff
+${describeChanges(toLines(conflict.baseContent), toLines(conflict.oursContent))}
+\`\`\`
+
+## What THEY changed relative to the base:
+\`\`\`diff
+${describeChanges(toLines(conflict.baseContent), toLines(conflict.theirsContent))}
+\`\`\`
+` : `
+(The common ancestor is not available, e.g. both sides added this file.)
+`}
+${conflict.structured ? `## Structured Analysis (whole file, parsed as a tree):
+${conflict.structured}
+
+` : ''}## Context After Conflict:
 \`\`\`
 ${conflict.context.after}
 \`\`\`
@@ -361,7 +875,7 @@ ${conflict.context.after}
 ${historyContext}
 
 ## Your Task:
-1. Analyze what EACH side was trying to accomplish
+1. Analyze what EACH side was trying to accomplish${conflict.baseContent !== undefined ? ' - the changes relative to the base show exactly what each side did' : ''}
 2. Determine if changes are:
    - Mutually exclusive (pick one)
    - Complementary (merge both)
@@ -378,95 +892,168 @@ Respond in this exact JSON format:
 
 IMPORTANT: The "resolution" must be ONLY the code that should replace the conflict markers. No markers, no explanation, just the code.`;
 
-    try {
-      const response = await this.genai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: prompt,
-        config: {
-          temperature: 0.2,
-          thinkingConfig: {
-            thinkingBudget: 8192
-          }
-        }
-      });
+    const generate = (text: string) => this.provider.generate({
+      prompt: text,
+      temperature: 0.2,
+      thinkingBudget: 8192,
+      responseSchema: RESOLUTION_SCHEMA,
+      signal
+    });
 
-      const text = response.text || '';
-      
-      // Parse JSON from response
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]);
-        return {
-          conflict,
-          resolution: parsed.resolution,
-          strategy: parsed.strategy,
-          reasoning: parsed.reasoning,
-          confidence: parsed.confidence
-        };
-      }
-    } catch (error) {
-      console.error('Gemini resolution failed:', error);
+    // Output that fails validation gets one repair round-trip; no guessed
+    // fallback, the conflict stays unresolved
+    let response = await generate(prompt);
+    let { output, errors } = this.validateResponse(response.text);
+
+    if (errors.length > 0) {
+      console.warn(`Conflict resolution failed validation, requesting a repair: ${errors.join('; ')}`);
+      response = await generate(this.buildRepairPrompt(prompt, response.text, errors));
+      ({ output, errors } = this.validateResponse(response.text));
+    }
+
+    if (!output || errors.length > 0) {
+      throw new Error(`Model resolution did not match the schema (${errors.join('; ')})`);
     }
 
-    // Default fallback: keep ours
     return {
       conflict,
-      resolution: conflict.oursContent,
-      strategy: 'ours',
-      reasoning: 'Failed to analyze, defaulting to current branch',
-      confidence: 30
+      resolution: output.resolution,
+      strategy: output.strategy,
+      reasoning: output.reasoning,
+      confidence: output.confidence
     };
   }
 
   /**
-   * Apply a resolution to the file
+   * Ask the model to fix output that failed validation
    */
-  private async applyResolution(
+  private buildRepairPrompt(prompt: string, previous: string, errors: string[]): string {
+    return `${prompt}
+
+## Correction Required
+
+Your previous response did not match the required JSON schema:
+${errors.map(e => `- ${e}`).join('\n')}
+
+Previous response:
+${previous}
+
+Respond again with a corrected JSON object only.`;
+  }
+
+  /**
+   * Parse and validate the model's resolution against the schema
+   */
+  private validateResponse(response: string): { output: ModelResolution | null; errors: string[] } {
+    let parsed: unknown;
+    try {
+      parsed = parseJsonResponse(response);
+    } catch (error) {
+      return { output: null, errors: [`response is not valid JSON (${error instanceof Error ? error.message : error})`] };
+    }
+
+    const errors = validateJson(parsed, RESOLUTION_SCHEMA);
+    return errors.length > 0 ? { output: null, errors } : { output: parsed as ModelResolution, errors };
+  }
+
+  /**
+   * Validate the file with its confident resolutions substituted, then
+   * write them in one go when applying. Conflicts left out are filled with
+   * the current side for the check, so the rest of the file still parses.
+   * Resolutions that introduce new diagnostics are demoted to pending: each
+   * is checked on its own first, and if the survivors still fail together
+   * they are all held back.
+   */
+  private async validateAndApply(
     filePath: string,
-    conflict: MergeConflict,
-    resolution: ConflictResolution
+    conflicts: MergeConflict[],
+    resolutions: ConflictResolution[],
+    signal?: AbortSignal
   ): Promise<void> {
-    const fullPath = path.join(this.repoPath, filePath);
-    const content = fs.readFileSync(fullPath, 'utf-8');
-    const lines = content.split('\n');
-
-    // Find and replace the conflict block
-    const newLines: string[] = [];
-    let skipUntilEnd = false;
-    let conflictIndex = 0;
+    let candidates = resolutions.filter(r => r.confidence >= APPLY_CONFIDENCE);
+    if (candidates.length === 0) return;
 
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
+    this.emitProgress({
+      phase: 'validating',
+      file: filePath,
+      message: `Validating ${candidates.length} resolution(s) in ${filePath}...`
+    });
 
-      if (CONFLICT_START.test(line)) {
-        if (i + 1 === conflict.startLine) {
-          // This is our target conflict
-          skipUntilEnd = true;
-          conflictIndex = conflict.startLine;
-          // Add the resolution
-          newLines.push(resolution.resolution);
-        } else {
-          newLines.push(line);
-        }
-      } else if (CONFLICT_END.test(line) && skipUntilEnd) {
-        skipUntilEnd = false;
-        // Skip the closing marker too
-      } else if (!skipUntilEnd) {
-        newLines.push(line);
+    const fullPath = path.join(this.repoPath, filePath);
+    const content = fs.readFileSync(fullPath, 'utf-8');
+    const validate = (chosen: ConflictResolution[]) => validateResolvedFile(
+      this.repoPath,
+      filePath,
+      substituteConflicts(content, new Map(conflicts.map(conflict => [
+        conflict.startLine,
+        chosen.find(r => r.conflict === conflict)?.resolution ?? conflict.oursContent
+      ]))),
+      this.config.validation,
+      signal
+    );
+
+    const baseline = await validate([]);
+    const breaks = async (chosen: ConflictResolution[]) => newDiagnostics(baseline, await validate(chosen));
+
+    let combined = await breaks(candidates);
+    if (combined.length > 0 && candidates.length > 1) {
+      for (const resolution of candidates) {
+        const own = await breaks([resolution]);
+        if (own.length > 0) resolution.diagnostics = own;
       }
+      candidates = candidates.filter(r => !r.diagnostics);
+      combined = candidates.length > 0 ? await breaks(candidates) : [];
     }
+    if (combined.length > 0) {
+      for (const resolution of candidates) resolution.diagnostics = combined;
+      candidates = [];
+    }
+
+    if (!this.config.autoApply || candidates.length === 0) return;
 
-    fs.writeFileSync(fullPath, newLines.join('\n'));
+    this.emitProgress({
+      phase: 'applying',
+      file: filePath,
+      message: `Applying ${candidates.length} resolution(s) to ${filePath}...`
+    });
+
+    const applied = substituteConflicts(
+      content,
+      new Map(candidates.map(r => [r.conflict.startLine, r.resolution]))
+    );
+    const appliedAt = new Date();
+    const lines = content.split('\n');
+    const state = await this.indexState(filePath);
+
+    // Journal first: a file is only written once it can be undone
+    this.journal.record({
+      file: filePath,
+      appliedAt,
+      ...state,
+      original: content,
+      applied,
+      blocks: candidates.map(r => ({
+        startLine: r.conflict.startLine,
+        endLine: r.conflict.endLine,
+        markers: lines.slice(r.conflict.startLine - 1, r.conflict.endLine).join('\n'),
+        resolution: r.resolution,
+        strategy: r.strategy,
+        confidence: r.confidence,
+        deterministic: r.deterministic
+      }))
+    });
+    fs.writeFileSync(fullPath, applied);
+    for (const resolution of candidates) resolution.appliedAt = appliedAt;
   }
 
   /**
    * Preview all resolutions without applying
    */
-  async preview(): Promise<ResolverReport> {
+  async preview(signal?: AbortSignal): Promise<ResolverReport> {
     const originalAutoApply = this.config.autoApply;
     this.config.autoApply = false;
     
-    const report = await this.resolveAll();
+    const report = await this.resolveAll(signal);
     
     this.config.autoApply = originalAutoApply;
     return report;
@@ -480,19 +1067,52 @@ IMPORTANT: The "resolution" must be ONLY the code that should replace the confli
     md += `**Date:** ${report.timestamp.toISOString()}\n`;
     md += `**Total Conflicts:** ${report.totalConflicts}\n`;
     md += `**Resolved:** ${report.resolved} ✅\n`;
-    md += `**Failed:** ${report.failed} ❌\n\n`;
+    md += `**Failed:** ${report.failed} ❌\n`;
+    if (report.operation && report.operation.kind !== 'none') {
+      const { kind, step, ours, theirs, commit } = report.operation;
+      md += `**Operation:** ${kind}${step ? ` (commit ${step.current}/${step.total})` : ''}\n`;
+      md += `**Ours:** ${ours} | **Theirs:** ${theirs}\n`;
+      if (commit) {
+        md += `**Commit:** \`${commit.hash.substring(0, 7)}\` ${commit.message.split('\n')[0]}\n`;
+      }
+    }
+    if (report.usage) {
+      md += `**Model Usage:** ${formatUsage(report.usage)}\n`;
+    }
+    if (report.budgetExceeded) {
+      md += `**Stopped early:** ${report.budgetExceeded}\n`;
+    }
+    if (report.cancelled) {
+      md += `**Cancelled:** remaining conflicts were not analyzed\n`;
+    }
+    md += `\n`;
 
     md += `## Resolutions\n\n`;
 
     for (const res of report.resolutions) {
       const status = res.appliedAt ? '✅ Applied' : '⏸️ Pending';
       md += `### ${res.conflict.file}:${res.conflict.startLine}\n`;
-      md += `**Strategy:** ${res.strategy} | **Confidence:** ${res.confidence}% | ${status}\n\n`;
+      md += `**Strategy:** ${res.strategy}${res.deterministic ? ' (pre-pass, no model call)' : ''} | **Confidence:** ${res.confidence}% | ${status}\n\n`;
       md += `**Reasoning:** ${res.reasoning}\n\n`;
+      if (res.diagnostics?.length) {
+        md += `**Held back by validation:**\n`;
+        for (const diagnostic of res.diagnostics) {
+          md += `- ${formatDiagnostic(diagnostic)}\n`;
+        }
+        md += `\n`;
+      }
       md += `**Resolution:**\n\`\`\`\n${res.resolution}\n\`\`\`\n\n`;
       md += `---\n\n`;
     }
 
+    if (report.failures.length > 0) {
+      md += `## Unresolved\n\n`;
+      for (const failure of report.failures) {
+        md += `- ${formatFailure(failure)}\n`;
+      }
+      md += `\n`;
+    }
+
     return md;
   }
 
@@ -509,10 +1129,10 @@ IMPORTANT: The "resolution" must be ONLY the code that should replace the confli
  */
 export async function interactiveResolve(
   repoPath: string,
-  geminiApiKey: string
+  provider: LLMProvider
 ): Promise<ResolverReport> {
   const resolver = new ConflictResolverAgent(repoPath, {
-    geminiApiKey,
+    provider,
     autoApply: false,
     onProgress: (update) => {
       console.log(`[${update.phase.toUpperCase()}] ${update.message}`);
@@ -533,3 +1153,85 @@ export async function interactiveResolve(
 
   return report;
 }
+
+/**
+ * Why a stop cannot be continued, per file: every conflict must have been
+ * applied, so one below the confidence threshold, held back by validation
+ * or failed keeps the whole stop from being staged
+ */
+function heldBack(report: ResolverReport): string[] {
+  const reasons = new Map<string, string[]>();
+  const add = (file: string, reason: string) => reasons.set(file, [...(reasons.get(file) || []), reason]);
+
+  for (const r of report.resolutions) {
+    if (r.appliedAt) continue;
+    const at = `line ${r.conflict.startLine}`;
+    if (r.diagnostics) {
+      add(r.conflict.file, `${at} failed validation (${r.diagnostics.map(formatDiagnostic).join(', ')})`);
+    } else if (r.confidence < APPLY_CONFIDENCE) {
+      add(r.conflict.file, `${at} at ${r.confidence}% confidence, below ${APPLY_CONFIDENCE}%`);
+    } else {
+      add(r.conflict.file, `${at} not applied`);
+    }
+  }
+  const held = [...reasons].map(([file, fileReasons]) => `${file} ${fileReasons.join(', ')}`);
+
+  // Conflicts the model could not resolve, and files that could not be written
+  held.push(...report.failures.map(failure => `${failure.operation} failed`));
+
+  const unseen = report.totalConflicts - report.resolutions.length - report.failed;
+  if (unseen > 0) held.push(`${unseen} conflict(s) not looked at`);
+  return held;
+}
+
+/**
+ * Start of `text`'s lines within `lines`, taking the occurrence nearest to
+ * `near`; null when the text is empty or absent. `unique` is false when the
+ * text occurs more than once, so the pick may be the wrong one.
+ */
+function locateLines(lines: string[], text: string, near: number): { at: number; unique: boolean } | null {
+  const needle = toLines(text);
+  if (needle.length === 0) return null;
+
+  let best: number | null = null;
+  let count = 0;
+  for (let i = 0; i + needle.length <= lines.length; i++) {
+    if (needle.every((line, j) => lines[i + j] === line)) {
+      count++;
+      if (best === null || Math.abs(i - near) < Math.abs(best - near)) best = i;
+    }
+  }
+  return best === null ? null : { at: best, unique: count === 1 };
+}
+
+/**
+ * Replace the conflict blocks whose opening marker is at the given lines
+ * (1-based) with their text; other blocks are kept. An empty text removes
+ * the block without leaving a blank line.
+ */
+export function substituteConflicts(content: string, replacements: Map<number, string>): string {
+  const lines = content.split('\n');
+  const newLines: string[] = [];
+  let skipUntilEnd = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const replacement = CONFLICT_START.test(line) ? replacements.get(i + 1) : undefined;
+
+    if (replacement !== undefined && !skipUntilEnd) {
+      skipUntilEnd = true;
+      newLines.push(...toLines(replacement));
+    } else if (CONFLICT_END.test(line) && skipUntilEnd) {
+      // Skip the closing marker too
+      skipUntilEnd = false;
+    } else if (!skipUntilEnd) {
+      newLines.push(line);
+    }
+  }
+
+  return newLines.join('\n');
+}
+
+function lineCount(text: string): number {
+  return toLines(text).length;
+}
@@ -0,0 +1,73 @@
+import { baseRangeFor, changedHunks, describeChanges, matchLines, mergeLines, toLines } from '../diff3';
+
+const base = ['a', 'b', 'c', 'd', 'e'];
+
+describe('matchLines', () => {
+  it('pairs the lines kept between two texts', () => {
+    expect(matchLines(base, ['a', 'x', 'c', 'd', 'e', 'f'])).toEqual([[0, 0], [2, 2], [3, 3], [4, 4]]);
+    expect(matchLines([], ['a'])).toEqual([]);
+  });
+});
+
+describe('changedHunks', () => {
+  it('reports replacements, deletions and insertions in base order', () => {
+    expect(changedHunks(base, ['x', 'a', 'c', 'D', 'e'])).toEqual([
+      { baseStart: 0, baseEnd: 0, lines: ['x'] },
+      { baseStart: 1, baseEnd: 2, lines: [] },
+      { baseStart: 3, baseEnd: 4, lines: ['D'] }
+    ]);
+    expect(changedHunks(base, base)).toEqual([]);
+  });
+});
+
+describe('mergeLines', () => {
+  it('combines changes to different lines, adjacent ones included', () => {
+    expect(mergeLines(base, ['A', 'b', 'c', 'd', 'e'], ['a', 'b', 'c', 'd', 'E'])).toEqual(['A', 'b', 'c', 'd', 'E']);
+    expect(mergeLines(base, ['a', 'B', 'c', 'd', 'e'], ['a', 'b', 'C', 'd', 'e'])).toEqual(['a', 'B', 'C', 'd', 'e']);
+  });
+
+  it('accepts the same change made on both sides', () => {
+    expect(mergeLines(base, ['a', 'b', 'e'], ['a', 'b', 'e'])).toEqual(['a', 'b', 'e']);
+  });
+
+  it('refuses overlapping changes and insertions at the same place', () => {
+    expect(mergeLines(base, ['a', 'X', 'c', 'd', 'e'], ['a', 'Y', 'c', 'd', 'e'])).toBeNull();
+    expect(mergeLines(base, ['a', 'b', 'c', 'd', 'e', 'x'], ['a', 'b', 'c', 'd', 'e', 'y'])).toBeNull();
+  });
+
+  it('lets one side delete the whole region', () => {
+    expect(mergeLines(['a', 'b'], [], ['a', 'b'])).toEqual([]);
+    expect(mergeLines(['a'], [], ['a', 'b'])).toEqual(['b']);
+  });
+});
+
+describe('describeChanges', () => {
+  it('renders hunks relative to the base', () => {
+    expect(describeChanges(base, ['x', 'a', 'b', 'c', 'D', 'e'])).toBe([
+      '@@ inserted at the start @@',
+      '+ x',
+      '@@ base line 4 @@',
+      '- d',
+      '+ D'
+    ].join('\n'));
+    expect(describeChanges(base, ['a', 'e'])).toBe('@@ base lines 2-4 @@\n- b\n- c\n- d');
+    expect(describeChanges(base, base)).toBe('(no changes)');
+  });
+});
+
+describe('toLines', () => {
+  it('gives an empty section no lines', () => {
+    expect(toLines('')).toEqual([]);
+    expect(toLines('a\n')).toEqual(['a', '']);
+  });
+});
+
+describe('baseRangeFor', () => {
+  it('maps a side range to the base lines it replaced', () => {
+    const side = ['a', 'x', 'y', 'd', 'e'];
+    expect(baseRangeFor(matchLines(base, side), 1, 3, base.length)).toEqual([1, 3]);
+
+    const inserted = ['a', 'b', 'x', 'c', 'd', 'e'];
+    expect(baseRangeFor(matchLines(base, inserted), 2, 3, base.length)).toEqual([2, 2]);
+  });
+});
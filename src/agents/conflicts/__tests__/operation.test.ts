@@ -0,0 +1,150 @@
+import simpleGit from 'simple-git';
+import { createRepo, GitRepo } from '../../../__tests__/gitRepo';
+import { describeOperation, detectOperation } from '../operation';
+
+describe('detectOperation', () => {
+  let repo: GitRepo;
+
+  const detect = (markers?: { ours: string; theirs: string }) => detectOperation(simpleGit(repo.dir), markers);
+
+  // main and feature both edit the same line of notes.txt
+  const diverge = (featureCommits: string[] = ['feature']) => {
+    repo.write('notes.txt', 'one\ntwo\nthree\n');
+    repo.commit('Add notes');
+    repo.git('checkout', '-q', '-b', 'feature');
+    const hashes = featureCommits.map((line, i) => {
+      repo.write('notes.txt', `one\n${line}\nthree\n${'more\n'.repeat(i)}`);
+      return repo.commit(`Feature change ${i + 1}\n\nWhy the feature needs it.`);
+    });
+    repo.git('checkout', '-q', 'main');
+    repo.write('notes.txt', 'one\nmain\nthree\n');
+    repo.commit('Main change');
+    return hashes;
+  };
+
+  beforeEach(() => {
+    repo = createRepo();
+  });
+
+  afterEach(() => repo.remove());
+
+  it('reports nothing in progress on a clean repository', async () => {
+    repo.write('notes.txt', 'one\n');
+    repo.commit('Add notes');
+
+    await expect(detect()).resolves.toMatchObject({ kind: 'none', branch: 'main' });
+  });
+
+  it('detects a merge and the branch being merged', async () => {
+    const [hash] = diverge();
+    expect(() => repo.git('merge', 'feature')).toThrow();
+
+    const operation = await detect();
+
+    expect(operation).toMatchObject({
+      kind: 'merge',
+      ours: 'current branch main',
+      theirs: 'branch feature being merged',
+      branch: 'main',
+      commit: { hash, author: 'Dana Reyes', message: 'Feature change 1\n\nWhy the feature needs it.' }
+    });
+  });
+
+  it('detects a rebase with its range and counts the steps', async () => {
+    const hashes = diverge(['first', 'second', 'third']);
+    const upstream = repo.git('rev-parse', 'main');
+    const base = repo.git('merge-base', 'main', 'feature');
+    repo.git('checkout', '-q', 'feature');
+    expect(() => repo.git('rebase', 'main')).toThrow();
+
+    const operation = await detect();
+
+    expect(operation).toMatchObject({
+      kind: 'rebase',
+      branch: 'feature',
+      onto: upstream,
+      range: `${base.substring(0, 7)}..${hashes[2].substring(0, 7)}`,
+      step: { current: 1, total: 3 },
+      commit: { hash: hashes[0] }
+    });
+    expect(operation.ours).toContain(`upstream ${upstream.substring(0, 7)}`);
+    expect(operation.theirs).toBe(`commit ${hashes[0].substring(0, 7)} from feature being replayed`);
+
+    // The next commit conflicts with how the first one was resolved
+    repo.write('notes.txt', 'one\nmain and first\nthree\n');
+    repo.git('add', 'notes.txt');
+    expect(() => repo.git('-c', 'core.editor=true', 'rebase', '--continue')).toThrow();
+
+    await expect(detect()).resolves.toMatchObject({
+      kind: 'rebase',
+      step: { current: 2, total: 3 },
+      commit: { hash: hashes[1] }
+    });
+  });
+
+  it('detects a cherry-pick', async () => {
+    const [hash] = diverge();
+    expect(() => repo.git('cherry-pick', hash)).toThrow();
+
+    await expect(detect()).resolves.toMatchObject({
+      kind: 'cherry-pick',
+      ours: 'HEAD on main',
+      theirs: `commit ${hash.substring(0, 7)} being cherry-picked`,
+      commit: { hash }
+    });
+  });
+
+  it('detects a revert', async () => {
+    repo.write('notes.txt', 'one\ntwo\nthree\n');
+    repo.commit('Add notes');
+    repo.write('notes.txt', 'one\nTWO\nthree\n');
+    const reverted = repo.commit('Shout two');
+    repo.write('notes.txt', 'one\nTWO!\nthree\n');
+    repo.commit('Shout louder');
+    expect(() => repo.git('revert', '--no-edit', reverted)).toThrow();
+
+    await expect(detect()).resolves.toMatchObject({
+      kind: 'revert',
+      theirs: `the code as it was before commit ${reverted.substring(0, 7)}, which is being reverted`,
+      commit: { hash: reverted, message: 'Shout two' }
+    });
+  });
+
+  it('detects a stash apply only from its marker labels', async () => {
+    repo.write('notes.txt', 'one\ntwo\nthree\n');
+    repo.commit('Add notes');
+    repo.write('notes.txt', 'one\nstashed\nthree\n');
+    repo.git('stash', 'push', '-m', 'work in progress');
+    repo.write('notes.txt', 'one\ncommitted\nthree\n');
+    repo.commit('Change two');
+    expect(() => repo.git('stash', 'pop')).toThrow();
+    expect(repo.read('notes.txt')).toContain('<<<<<<< Updated upstream');
+
+    await expect(detect()).resolves.toMatchObject({ kind: 'none' });
+    await expect(detect({ ours: 'Updated upstream', theirs: 'Stashed changes' })).resolves.toMatchObject({
+      kind: 'stash',
+      branch: 'main',
+      commit: { message: 'On main: work in progress' }
+    });
+  });
+});
+
+describe('describeOperation', () => {
+  it('explains the swapped sides and progress of a rebase', () => {
+    const text = describeOperation({
+      kind: 'rebase',
+      ours: 'upstream 1a2b3c4 being rebased onto, plus the commits already replayed',
+      theirs: 'commit 5d6e7f8 from feature being replayed',
+      branch: 'feature',
+      commit: { hash: '5d6e7f8a9b', author: 'Dana Reyes', message: 'Retry failed charges' },
+      onto: '1a2b3c4d5e',
+      range: '0f0f0f0..5d6e7f8',
+      step: { current: 2, total: 5 }
+    });
+
+    expect(text).toContain('Operation: rebase (commit 2 of 5)');
+    expect(text).toContain("git's sides are swapped");
+    expect(text).toContain('Commits being replayed: 0f0f0f0..5d6e7f8 (feature)');
+    expect(text).toContain('Commit 5d6e7f8 by Dana Reyes:\nRetry failed charges');
+  });
+});
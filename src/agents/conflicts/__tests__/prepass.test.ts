@@ -0,0 +1,34 @@
+import { resolveTrivially } from '../prepass';
+
+describe('resolveTrivially', () => {
+  it('takes the change when both sides made the same one', () => {
+    expect(resolveTrivially('old', 'new', 'new')).toMatchObject({ resolution: 'new', strategy: 'ours', confidence: 100 });
+  });
+
+  it('takes the only side that changed the region', () => {
+    expect(resolveTrivially('old', 'old', 'new')).toMatchObject({ resolution: 'new', strategy: 'theirs' });
+    expect(resolveTrivially('old', 'new', 'old')).toMatchObject({ resolution: 'new', strategy: 'ours' });
+  });
+
+  it('resolves a region one side deleted to no lines', () => {
+    expect(resolveTrivially('old\nlines', 'old\nlines', '')).toMatchObject({ resolution: '', strategy: 'theirs' });
+  });
+
+  it('merges edits to different lines', () => {
+    expect(resolveTrivially('a\nb\nc', 'A\nb\nc', 'a\nb\nC')).toMatchObject({
+      resolution: 'A\nb\nC',
+      strategy: 'merge',
+      confidence: 95
+    });
+  });
+
+  it('keeps the current side when the sides differ only in line ends', () => {
+    expect(resolveTrivially(undefined, 'a\nb', 'a  \r\nb')).toMatchObject({ resolution: 'a\nb', strategy: 'ours', confidence: 90 });
+    expect(resolveTrivially(undefined, '  a', 'a')).toBeNull();
+  });
+
+  it('leaves real conflicts to the model', () => {
+    expect(resolveTrivially('a', 'b', 'c')).toBeNull();
+    expect(resolveTrivially(undefined, 'b', 'c')).toBeNull();
+  });
+});
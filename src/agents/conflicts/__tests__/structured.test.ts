@@ -0,0 +1,118 @@
+import { MergeConflict } from '../../conflictResolver';
+import {
+  describeTreeMerge,
+  formatPath,
+  hunkCandidates,
+  maskConflicts,
+  mergeTrees,
+  parseStructured,
+  sameValue
+} from '../structured';
+
+function conflict(oursContent: string, theirsContent: string, baseContent?: string): MergeConflict {
+  return { file: 'package.json', startLine: 1, endLine: 5, oursContent, theirsContent, baseContent, context: { before: '', after: '' } };
+}
+
+describe('mergeTrees', () => {
+  const base = { name: 'app', version: '1.0.0', scripts: { test: 'jest' }, files: ['dist'] };
+
+  it('takes each key from the side that changed it', () => {
+    const merge = mergeTrees(
+      base,
+      { ...base, version: '1.1.0', files: ['dist', 'README.md'] },
+      { ...base, scripts: { test: 'jest', lint: 'eslint' }, files: ['dist', 'LICENSE'] }
+    );
+
+    expect(merge.value).toEqual({
+      name: 'app',
+      version: '1.1.0',
+      scripts: { test: 'jest', lint: 'eslint' },
+      files: ['dist', 'README.md', 'LICENSE']
+    });
+    expect(merge.conflicts).toEqual([]);
+    expect(merge.oursChanged).toEqual(['version', 'files']);
+    expect(merge.theirsChanged).toEqual(['scripts', 'files']);
+  });
+
+  it('reports keys both sides changed differently and keeps ours', () => {
+    const merge = mergeTrees(base, { ...base, version: '1.1.0' }, { ...base, version: '2.0.0', name: 'app2' });
+
+    expect(merge.conflicts).toEqual([{ path: ['version'], base: '1.0.0', ours: '1.1.0', theirs: '2.0.0' }]);
+    expect(merge.value).toMatchObject({ name: 'app2', version: '1.1.0' });
+  });
+
+  it('drops a key one side deleted', () => {
+    const withoutScripts = { name: 'app', version: '1.0.0', files: ['dist'] };
+
+    expect(mergeTrees(base, withoutScripts, { ...base, version: '1.1.0' }).value)
+      .toEqual({ ...withoutScripts, version: '1.1.0' });
+  });
+});
+
+describe('describeTreeMerge', () => {
+  it('lists each side\'s changes, the collisions and the merged tree', () => {
+    const text = describeTreeMerge(mergeTrees({ a: 1, b: 1 }, { a: 2, b: 2 }, { a: 3, b: 1 }));
+
+    expect(text).toContain('Changed only on our side: b');
+    expect(text).toContain('  - a: base 1, ours 2, theirs 3');
+    expect(text).toContain('Merged tree, with our value for the keys both sides changed:');
+    expect(text).toMatch(/Only the keys changed differently on both sides need a decision/);
+  });
+
+  it('says so when nothing collides', () => {
+    expect(describeTreeMerge(mergeTrees({ a: 1 }, { a: 2 }, { a: 1, b: 1 })))
+      .toContain('No key was changed differently on both sides.');
+  });
+});
+
+describe('hunkCandidates', () => {
+  it('tries the diff3 merge, each side and both sides joined with a comma', () => {
+    const candidates = hunkCandidates('package.json', conflict('  "lint": "eslint"', '  "build": "tsc"', ''));
+
+    expect(candidates).toEqual([
+      '  "lint": "eslint"',
+      '  "build": "tsc"',
+      '  "lint": "eslint"\n  "build": "tsc"',
+      '  "lint": "eslint",\n  "build": "tsc"',
+      '  "build": "tsc"\n  "lint": "eslint"',
+      '  "build": "tsc",\n  "lint": "eslint"'
+    ]);
+  });
+
+  it('puts the diff3 merge first and joins YAML without commas', () => {
+    const candidates = hunkCandidates('ci.yml', conflict('a: 2\nb: 1', 'a: 1\nb: 2', 'a: 1\nb: 1'));
+
+    expect(candidates[0]).toBe('a: 2\nb: 2');
+    expect(candidates.some(text => text.includes(','))).toBe(false);
+  });
+});
+
+describe('maskConflicts', () => {
+  it('hides the conflicting keys so the rest of two trees can be compared', () => {
+    const merge = mergeTrees({ a: 1, b: { c: 1 } }, { a: 2, b: { c: 2 } }, { a: 3, b: { c: 3 } });
+    const other = { a: 9, b: { c: 9 } };
+
+    expect(sameValue(maskConflicts(merge.value, merge.conflicts), maskConflicts(other, merge.conflicts))).toBe(true);
+    expect(sameValue(maskConflicts(merge.value, merge.conflicts), { a: 2, b: { c: 2 } })).toBe(false);
+  });
+});
+
+describe('parseStructured', () => {
+  it('parses JSON with comments only where tools allow them', () => {
+    expect(parseStructured('tsconfig.json', '{ // strict\n "strict": true, }')).toEqual({ strict: true });
+    expect(() => parseStructured('package.json', '{ // no\n}')).toThrow();
+  });
+
+  it('returns multi-document YAML as an array', () => {
+    expect(parseStructured('k8s.yaml', 'a: 1\n---\nb: 2\n')).toEqual([{ a: 1 }, { b: 2 }]);
+  });
+});
+
+describe('formatPath', () => {
+  it('renders keys, indexes and quoted keys', () => {
+    expect(formatPath(['scripts', 'lint'])).toBe('scripts.lint');
+    expect(formatPath(['files', 0])).toBe('files[0]');
+    expect(formatPath(['dependencies', '@types/node'])).toBe('dependencies["@types/node"]');
+    expect(formatPath([])).toBe('(root)');
+  });
+});
@@ -0,0 +1,102 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadYaml, validateResolvedFile } from '../validation';
+
+describe('validateResolvedFile', () => {
+  it('accepts multi-document YAML', async () => {
+    const content = 'name: api\n---\nname: worker\n';
+
+    expect(loadYaml(content)).toEqual([{ name: 'api' }, { name: 'worker' }]);
+    await expect(validateResolvedFile('/repo', 'deploy.yaml', content)).resolves.toEqual([]);
+  });
+
+  it('reports YAML that no longer parses, with its line', async () => {
+    const diagnostics = await validateResolvedFile('/repo', 'deploy.yml', 'name: api\n  image: [unclosed\n');
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ check: 'yaml', line: expect.any(Number) });
+  });
+
+  it('reports leftover conflict markers', async () => {
+    const diagnostics = await validateResolvedFile('/repo', 'notes.txt', 'a\n<<<<<<< HEAD\nb\n>>>>>>> feature\n');
+
+    expect(diagnostics.map(d => [d.check, d.line])).toEqual([['markers', 2], ['markers', 4]]);
+  });
+
+  it('reports a TS syntax error, with its line', async () => {
+    const diagnostics = await validateResolvedFile('/repo', 'src/charge.ts', 'export function charge(amount: number) {\n  return amount *;\n}\n');
+
+    expect(diagnostics).toEqual([expect.objectContaining({ check: 'syntax', line: 2 })]);
+  });
+
+  it('accepts JSON with comments only where the file allows them', async () => {
+    const content = '{\n  // strict mode\n  "strict": true,\n}\n';
+
+    await expect(validateResolvedFile('/repo', 'tsconfig.json', content)).resolves.toEqual([]);
+    await expect(validateResolvedFile('/repo', 'package.json', content)).resolves.toEqual([
+      expect.objectContaining({ check: 'json', line: 2 })
+    ]);
+  });
+
+  it('reports JSON that no longer parses, with its line', async () => {
+    const diagnostics = await validateResolvedFile('/repo', 'config.json', '{\n  "port": 8080\n  "host": "localhost"\n}\n');
+
+    expect(diagnostics).toEqual([expect.objectContaining({ check: 'json', line: 3 })]);
+  });
+
+  it('reports a YAML key that both sides kept', async () => {
+    const diagnostics = await validateResolvedFile('/repo', 'deploy.yaml', 'replicas: 2\nimage: api\nreplicas: 3\n');
+
+    expect(diagnostics).toEqual([expect.objectContaining({ check: 'yaml', line: 3 })]);
+  });
+
+  describe('with a project on disk', () => {
+    let root: string;
+
+    beforeEach(() => {
+      root = fs.mkdtempSync(path.join(os.tmpdir(), 'validation-'));
+      fs.writeFileSync(path.join(root, 'tsconfig.json'), JSON.stringify({ compilerOptions: { strict: true }, include: ['src'] }));
+      fs.mkdirSync(path.join(root, 'src'));
+      fs.writeFileSync(path.join(root, 'src', 'money.ts'), 'export function cents(amount: number): number {\n  return Math.round(amount * 100);\n}\n');
+    });
+
+    afterEach(() => fs.rmSync(root, { recursive: true, force: true }));
+
+    it('reports a type error only when type-checking, against the rest of the project', async () => {
+      const content = 'import { cents } from "./money";\n\nexport const total: number = cents("12.50");\n';
+
+      await expect(validateResolvedFile(root, 'src/charge.ts', content)).resolves.toEqual([]);
+      await expect(validateResolvedFile(root, 'src/charge.ts', content, { typeCheck: true })).resolves.toEqual([
+        expect.objectContaining({ check: 'types', line: 3 })
+      ]);
+      await expect(validateResolvedFile(root, 'src/charge.ts', content.replace('"12.50"', '12.5'), { typeCheck: true }))
+        .resolves.toEqual([]);
+    });
+
+    it('reports a checker that exits non-zero, with the repo path in its output', async () => {
+      const checkers = { '.py': 'sh -c \'echo "SyntaxError in $1 line 3" >&2; exit 2\' checker {file}' };
+
+      const diagnostics = await validateResolvedFile(root, 'jobs/charge.py', 'def charge(:\n', { checkers });
+
+      expect(diagnostics).toHaveLength(1);
+      expect(diagnostics[0].check).toBe('command');
+      expect(diagnostics[0].message).toContain('exited with code 2');
+      expect(diagnostics[0].message).toContain('SyntaxError in jobs/charge.py line 3');
+    });
+
+    it('passes a file whose checker exits zero', async () => {
+      await expect(validateResolvedFile(root, 'jobs/charge.py', 'x = 1\n', { checkers: { '.py': 'test -s' } }))
+        .resolves.toEqual([]);
+    });
+
+    it('reports a checker that is not on PATH', async () => {
+      const diagnostics = await validateResolvedFile(root, 'jobs/charge.py', 'x = 1\n', {
+        checkers: { '.py': 'no-such-checker-installed {file}' }
+      });
+
+      expect(diagnostics).toEqual([expect.objectContaining({ check: 'command' })]);
+      expect(diagnostics[0].message).toMatch(/exited with code 127:[\s\S]*not found/);
+    });
+  });
+});
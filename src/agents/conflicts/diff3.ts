@@ -0,0 +1,224 @@
+/**
+ * Line Diff and Three-Way Merge
+ * Myers line diff, the changes it implies for each side of a conflict
+ * relative to the merge base, and a diff3 merge that only succeeds when
+ * those changes do not overlap
+ */
+
+export interface Hunk {
+  baseStart: number;  // First base line replaced
+  baseEnd: number;    // One past the last; equal to baseStart for a pure insertion
+  lines: string[];    // What the side has in their place
+}
+
+// Past this many edits two texts share too little for a diff to help
+const MAX_EDIT_DISTANCE = 4000;
+
+/**
+ * Pairs [aIndex, bIndex] of lines kept along a shortest edit script
+ */
+export function matchLines(a: string[], b: string[]): Array<[number, number]> {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const pairs: Array<[number, number]> = [];
+  for (let i = 0; i < start; i++) pairs.push([i, i]);
+  pairs.push(...myers(a, b, start, endA, start, endB));
+  for (let i = 0; endA + i < a.length; i++) pairs.push([endA + i, endB + i]);
+  return pairs;
+}
+
+/**
+ * Regions of the base a side replaced, in base order
+ */
+export function changedHunks(base: string[], side: string[]): Hunk[] {
+  const hunks: Hunk[] = [];
+  let b = 0;
+  let s = 0;
+  for (const [bi, si] of [...matchLines(base, side), [base.length, side.length]]) {
+    if (bi > b || si > s) {
+      hunks.push({ baseStart: b, baseEnd: bi, lines: side.slice(s, si) });
+    }
+    b = bi + 1;
+    s = si + 1;
+  }
+  return hunks;
+}
+
+/**
+ * diff3 merge: both sides' changes applied to the base, or null when they
+ * overlap (identical changes on both sides are fine). Unlike git, changes
+ * to adjacent lines are combined; two changes starting at the same base
+ * line still conflict, since their order would be a guess.
+ */
+export function mergeLines(base: string[], ours: string[], theirs: string[]): string[] | null {
+  const oursHunks = changedHunks(base, ours);
+  const theirsHunks = changedHunks(base, theirs);
+  const merged: string[] = [];
+  let position = 0;
+  let i = 0;
+  let j = 0;
+
+  while (i < oursHunks.length || j < theirsHunks.length) {
+    const o = oursHunks[i];
+    const t = theirsHunks[j];
+    let next: Hunk;
+
+    if (o && t && (o.baseStart === t.baseStart || (o.baseStart < t.baseEnd && t.baseStart < o.baseEnd))) {
+      if (o.baseStart !== t.baseStart || o.baseEnd !== t.baseEnd || !sameLines(o.lines, t.lines)) {
+        return null;
+      }
+      next = o;
+      i++;
+      j++;
+    } else if (!t || (o && o.baseStart < t.baseStart)) {
+      next = o;
+      i++;
+    } else {
+      next = t;
+      j++;
+    }
+
+    merged.push(...base.slice(position, next.baseStart), ...next.lines);
+    position = next.baseEnd;
+  }
+
+  merged.push(...base.slice(position));
+  return merged;
+}
+
+/**
+ * A side's changes to the base as diff-style lines, for the model
+ */
+export function describeChanges(base: string[], side: string[]): string {
+  const hunks = changedHunks(base, side);
+  if (hunks.length === 0) return '(no changes)';
+
+  return hunks.map(hunk => {
+    const range = hunk.baseEnd - hunk.baseStart > 1
+      ? `base lines ${hunk.baseStart + 1}-${hunk.baseEnd}`
+      : hunk.baseEnd > hunk.baseStart
+        ? `base line ${hunk.baseStart + 1}`
+        : hunk.baseStart > 0 ? `inserted after base line ${hunk.baseStart}` : 'inserted at the start';
+    return [
+      `@@ ${range} @@`,
+      ...base.slice(hunk.baseStart, hunk.baseEnd).map(line => `- ${line}`),
+      ...hunk.lines.map(line => `+ ${line}`)
+    ].join('\n');
+  }).join('\n');
+}
+
+/**
+ * Lines of a conflict section; an empty section has none
+ */
+export function toLines(text: string): string[] {
+  return text === '' ? [] : text.split('\n');
+}
+
+/**
+ * Map a line range of a side back to the region of the base it replaced:
+ * the base lines between the kept lines just outside the range
+ */
+export function baseRangeFor(
+  pairs: Array<[number, number]>,
+  sideStart: number,
+  sideEnd: number,
+  baseLength: number
+): [number, number] {
+  let start = 0;
+  let end = baseLength;
+  for (const [bi, si] of pairs) {
+    if (si < sideStart) start = bi + 1;
+    if (si >= sideEnd) {
+      end = bi;
+      break;
+    }
+  }
+  return [start, Math.max(start, end)];
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+/**
+ * Myers O((N+M)D) diff of a[aStart, aEnd) against b[bStart, bEnd)
+ */
+function myers(
+  a: string[],
+  b: string[],
+  aStart: number,
+  aEnd: number,
+  bStart: number,
+  bEnd: number
+): Array<[number, number]> {
+  const n = aEnd - aStart;
+  const m = bEnd - bStart;
+  if (n === 0 || m === 0) return [];
+
+  const max = n + m;
+  const v = new Int32Array(2 * max + 3);
+  const at = (k: number) => k + max + 1;
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE); d++) {
+    // Furthest reaching x per diagonal after d - 1 edits, for backtracking
+    trace.push(v.slice(at(-d - 1), at(d + 1) + 1));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[at(k - 1)] < v[at(k + 1)])
+        ? v[at(k + 1)]
+        : v[at(k - 1)] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+        x++;
+        y++;
+      }
+      v[at(k)] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(trace, n, m).map(([i, j]) => [aStart + i, bStart + j]);
+      }
+    }
+  }
+
+  return [];
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number): Array<[number, number]> {
+  const pairs: Array<[number, number]> = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const previous = trace[d];
+    const get = (k: number) => previous[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && get(k - 1) < get(k + 1)) ? k + 1 : k - 1;
+    const prevX = get(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      pairs.push([x, y]);
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  while (x > 0 && y > 0) {
+    x--;
+    y--;
+    pairs.push([x, y]);
+  }
+
+  return pairs.reverse();
+}
@@ -0,0 +1,85 @@
+/**
+ * Lockfile Regeneration
+ * Lockfile conflicts are not merged hunk by hunk: the package manager
+ * rebuilds the lockfile from the resolved manifest, starting from our
+ * side's copy
+ */
+
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface LockfileCommand {
+  manager: 'npm' | 'yarn' | 'pnpm';
+  command: string;
+  args: string[];
+}
+
+// Installs can take a while on a cold cache
+const REGENERATE_TIMEOUT_MS = 10 * 60_000;
+
+// Output kept in the error when regeneration fails
+const MAX_OUTPUT_LINES = 20;
+
+export function isLockfile(filePath: string): boolean {
+  return ['package-lock.json', 'npm-shrinkwrap.json', 'yarn.lock', 'pnpm-lock.yaml'].includes(path.basename(filePath));
+}
+
+/**
+ * The command that updates the lockfile from package.json without running
+ * install scripts
+ */
+export function lockfileCommand(repoPath: string, filePath: string): LockfileCommand {
+  switch (path.basename(filePath)) {
+    case 'yarn.lock': {
+      // Yarn 2+ is configured through .yarnrc.yml and can update only the lockfile
+      const berry = fs.existsSync(path.join(repoPath, path.dirname(filePath), '.yarnrc.yml'));
+      return berry
+        ? { manager: 'yarn', command: 'yarn', args: ['install', '--mode=update-lockfile'] }
+        : { manager: 'yarn', command: 'yarn', args: ['install', '--ignore-scripts', '--non-interactive'] };
+    }
+    case 'pnpm-lock.yaml':
+      return { manager: 'pnpm', command: 'pnpm', args: ['install', '--lockfile-only', '--ignore-scripts'] };
+    default:
+      return { manager: 'npm', command: 'npm', args: ['install', '--package-lock-only', '--ignore-scripts', '--no-audit', '--no-fund'] };
+  }
+}
+
+export function formatCommand(command: LockfileCommand): string {
+  return [command.command, ...command.args].join(' ');
+}
+
+/**
+ * Run the package manager in the lockfile's directory; rejects with its
+ * output when it fails
+ */
+export function regenerateLockfile(
+  repoPath: string,
+  filePath: string,
+  signal?: AbortSignal
+): Promise<void> {
+  const lockfile = lockfileCommand(repoPath, filePath);
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(lockfile.command, lockfile.args, {
+      cwd: path.join(repoPath, path.dirname(filePath)),
+      // npm, yarn and pnpm are .cmd shims on Windows
+      shell: process.platform === 'win32',
+      signal,
+      timeout: REGENERATE_TIMEOUT_MS
+    });
+
+    let output = '';
+    child.stdout.on('data', (chunk: Buffer) => { output += chunk.toString(); });
+    child.stderr.on('data', (chunk: Buffer) => { output += chunk.toString(); });
+    child.on('error', reject);
+    child.on('close', code => {
+      if (code === 0) {
+        resolve();
+        return;
+      }
+      const tail = output.trim().split('\n').slice(-MAX_OUTPUT_LINES).join('\n');
+      reject(new Error(`${formatCommand(lockfile)} ${code === null ? 'timed out' : `exited with code ${code}`}${tail ? `:\n${tail}` : ''}`));
+    });
+  });
+}
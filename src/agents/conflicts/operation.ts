@@ -0,0 +1,195 @@
+/**
+ * Conflict Operation Detection
+ * Works out which git operation left the conflicts - merge, rebase,
+ * cherry-pick, revert or stash apply - from the state files in the git
+ * directory, so both sides can be labelled for what they really are
+ */
+
+import { SimpleGit } from 'simple-git';
+import * as fs from 'fs';
+import * as path from 'path';
+import { isCancellation } from '../../cancellation';
+
+export type OperationKind = 'merge' | 'rebase' | 'cherry-pick' | 'revert' | 'stash' | 'none';
+
+export interface ReplayedCommit {
+  hash: string;
+  author: string;
+  message: string;           // Full commit message
+}
+
+export interface ConflictOperation {
+  kind: OperationKind;
+  ours: string;              // What the ours (HEAD) side of the markers holds
+  theirs: string;            // What the theirs side holds
+  branch?: string;           // Branch being merged into, rebased or picked onto
+  commit?: ReplayedCommit;   // Merged, replayed, picked or reverted commit; the stash entry for stash apply
+  onto?: string;             // Rebase: commit the branch is being replayed onto
+  range?: string;            // Rebase: the commits being replayed, as base..orig-head
+  step?: { current: number; total: number }; // Rebase progress
+}
+
+// Labels git writes on the markers when `git stash pop/apply` conflicts
+const STASH_MARKERS = { ours: 'Updated upstream', theirs: 'Stashed changes' };
+
+// Operations that `git <kind> --continue` can take to the next stop
+export const CONTINUABLE_OPERATIONS: OperationKind[] = ['merge', 'rebase', 'cherry-pick', 'revert'];
+
+/**
+ * @param markers Labels after <<<<<<< and >>>>>>> on a conflict, which are
+ *   all that identifies a stash apply
+ */
+export async function detectOperation(
+  git: SimpleGit,
+  markers?: { ours: string; theirs: string }
+): Promise<ConflictOperation> {
+  const gitDir = await gitOutput(git, ['rev-parse', '--absolute-git-dir']);
+  if (!gitDir) {
+    return { kind: 'none', ours: 'current branch / HEAD', theirs: 'incoming changes' };
+  }
+
+  const read = (name: string): string | undefined => {
+    try {
+      return fs.readFileSync(path.join(gitDir, name), 'utf-8').trim() || undefined;
+    } catch {
+      return undefined;
+    }
+  };
+
+  const branch = await currentBranch(git);
+  const rebaseDir = ['rebase-merge', 'rebase-apply'].find(dir => fs.existsSync(path.join(gitDir, dir)));
+
+  // `git am` keeps its state in rebase-apply too, but applies patches like a cherry-pick
+  if (rebaseDir && !fs.existsSync(path.join(gitDir, rebaseDir, 'applying'))) {
+    const headName = read(`${rebaseDir}/head-name`)?.replace(/^refs\/heads\//, '');
+    const onto = read(`${rebaseDir}/onto`);
+    const origHead = read(`${rebaseDir}/orig-head`);
+    const replaying = read('REBASE_HEAD') || read(`${rebaseDir}/stopped-sha`);
+    const [current, total] = rebaseDir === 'rebase-merge'
+      ? [read('rebase-merge/msgnum'), read('rebase-merge/end')]
+      : [read('rebase-apply/next'), read('rebase-apply/last')];
+
+    const base = onto && origHead ? await gitOutput(git, ['merge-base', onto, origHead]) : undefined;
+    const commit = replaying ? await readCommit(git, replaying) : undefined;
+    const rebased = headName && headName !== 'detached HEAD' ? headName : 'the rebased branch';
+
+    return {
+      kind: 'rebase',
+      ours: `upstream ${short(onto) || 'commit'} being rebased onto, plus the commits already replayed`,
+      theirs: commit ? `commit ${short(commit.hash)} from ${rebased} being replayed` : `the commit from ${rebased} being replayed`,
+      branch: headName,
+      commit,
+      onto,
+      range: base && origHead ? `${short(base)}..${short(origHead)}` : undefined,
+      step: current && total ? { current: Number(current), total: Number(total) } : undefined
+    };
+  }
+
+  const onBranch = branch ? `HEAD on ${branch}` : 'HEAD';
+
+  const picked = read('CHERRY_PICK_HEAD');
+  if (picked) {
+    const commit = await readCommit(git, picked);
+    return {
+      kind: 'cherry-pick',
+      ours: onBranch,
+      theirs: `commit ${short(picked)} being cherry-picked`,
+      branch,
+      commit
+    };
+  }
+
+  const reverted = read('REVERT_HEAD');
+  if (reverted) {
+    const commit = await readCommit(git, reverted);
+    return {
+      kind: 'revert',
+      ours: onBranch,
+      theirs: `the code as it was before commit ${short(reverted)}, which is being reverted`,
+      branch,
+      commit
+    };
+  }
+
+  const merging = read('MERGE_HEAD');
+  if (merging) {
+    const mergeHead = merging.split('\n')[0];
+    const subject = read('MERGE_MSG')?.split('\n')[0];
+    const merged = subject?.match(/^Merge (?:remote-tracking )?branch '([^']+)'/)?.[1];
+    return {
+      kind: 'merge',
+      ours: branch ? `current branch ${branch}` : 'HEAD',
+      theirs: merged ? `branch ${merged} being merged` : `commit ${short(mergeHead)} being merged`,
+      branch,
+      commit: await readCommit(git, mergeHead)
+    };
+  }
+
+  if (markers?.ours === STASH_MARKERS.ours && markers.theirs === STASH_MARKERS.theirs) {
+    return {
+      kind: 'stash',
+      ours: `the working tree the stash was applied to (${onBranch})`,
+      theirs: 'the stashed changes',
+      branch,
+      // Pop and apply default to the newest entry, which stays on conflicts
+      commit: await readCommit(git, 'stash@{0}')
+    };
+  }
+
+  return { kind: 'none', ours: 'current branch / HEAD', theirs: 'incoming changes', branch };
+}
+
+/**
+ * The operation as prompt text: what each side is, the commit being
+ * applied with its full message, and the rebase range and progress
+ */
+export function describeOperation(operation: ConflictOperation): string {
+  if (operation.kind === 'none') {
+    return 'No merge, rebase, cherry-pick or revert is in progress.';
+  }
+
+  const lines = [`Operation: ${operation.kind}${operation.step ? ` (commit ${operation.step.current} of ${operation.step.total})` : ''}`];
+  if (operation.kind === 'rebase') {
+    lines.push("During a rebase git's sides are swapped: OUR version is the upstream, THEIR version is the commit being replayed.");
+    if (operation.range) lines.push(`Commits being replayed: ${operation.range}${operation.branch ? ` (${operation.branch})` : ''}`);
+    if (operation.onto) lines.push(`Onto: ${short(operation.onto)}`);
+  }
+  if (operation.kind === 'revert') {
+    lines.push('THEIR version undoes the reverted commit; OUR version is the code on HEAD now.');
+  }
+  lines.push(`Ours: ${operation.ours}`, `Theirs: ${operation.theirs}`);
+
+  if (operation.commit) {
+    const label = operation.kind === 'stash' ? 'Stash entry' : operation.kind === 'merge' ? 'Merged commit' : 'Commit';
+    lines.push('', `${label} ${short(operation.commit.hash)} by ${operation.commit.author}:`, operation.commit.message);
+  }
+  return lines.join('\n');
+}
+
+export function short(hash: string | undefined): string {
+  return hash ? hash.substring(0, 7) : '';
+}
+
+async function currentBranch(git: SimpleGit): Promise<string | undefined> {
+  const branch = await gitOutput(git, ['rev-parse', '--abbrev-ref', 'HEAD']);
+  return branch && branch !== 'HEAD' ? branch : undefined;
+}
+
+async function readCommit(git: SimpleGit, ref: string): Promise<ReplayedCommit | undefined> {
+  const output = await gitOutput(git, ['show', '-s', '--format=%H%x1f%an%x1f%B', ref]);
+  if (!output) return undefined;
+  const [hash, author, message] = output.split('\x1f');
+  return { hash, author, message: (message || '').trim() };
+}
+
+/**
+ * Output of a git command, or undefined when it fails (missing refs)
+ */
+async function gitOutput(git: SimpleGit, args: string[]): Promise<string | undefined> {
+  try {
+    return (await git.raw(args)).trim() || undefined;
+  } catch (error) {
+    if (isCancellation(error)) throw error;
+    return undefined;
+  }
+}
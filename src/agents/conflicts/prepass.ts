@@ -0,0 +1,62 @@
+/**
+ * Deterministic Conflict Pre-pass
+ * Settles conflicts whose outcome does not need judgement - identical
+ * sides, only one side changed, non-overlapping edits - without a model call
+ */
+
+import { mergeLines, toLines } from './diff3';
+
+export interface TrivialResolution {
+  resolution: string;
+  strategy: 'ours' | 'theirs' | 'merge';
+  reasoning: string;
+  confidence: number;
+}
+
+/**
+ * @param base Common ancestor of the region; undefined when it is unknown
+ */
+export function resolveTrivially(
+  base: string | undefined,
+  ours: string,
+  theirs: string
+): TrivialResolution | null {
+  if (ours === theirs) {
+    return { resolution: ours, strategy: 'ours', reasoning: 'Both sides made the same change.', confidence: 100 };
+  }
+
+  if (base !== undefined) {
+    if (ours === base) {
+      return { resolution: theirs, strategy: 'theirs', reasoning: 'Only the incoming side changed this region.', confidence: 100 };
+    }
+    if (theirs === base) {
+      return { resolution: ours, strategy: 'ours', reasoning: 'Only the current side changed this region.', confidence: 100 };
+    }
+
+    const merged = mergeLines(toLines(base), toLines(ours), toLines(theirs));
+    if (merged) {
+      return {
+        resolution: merged.join('\n'),
+        strategy: 'merge',
+        reasoning: 'The sides changed different lines of the region (git also conflicts on adjacent lines); both changes were kept.',
+        confidence: 95
+      };
+    }
+  }
+
+  // Indentation can be significant (Python, YAML), so only line ends are ignored
+  if (trimLineEnds(ours) === trimLineEnds(theirs)) {
+    return {
+      resolution: ours,
+      strategy: 'ours',
+      reasoning: 'The sides differ only in trailing whitespace or line endings; kept the current side.',
+      confidence: 90
+    };
+  }
+
+  return null;
+}
+
+function trimLineEnds(text: string): string {
+  return toLines(text).map(line => line.trimEnd()).join('\n');
+}
@@ -0,0 +1,264 @@
+/**
+ * Structured Merge
+ * Three-way merge of JSON and YAML files as trees: keys changed on one side
+ * are taken from that side, and only keys both sides changed differently
+ * are reported as conflicts
+ */
+
+import * as path from 'path';
+import * as ts from 'typescript';
+import { MergeConflict } from '../conflictResolver';
+import { mergeLines, toLines } from './diff3';
+import { JSONC_FILE, loadYaml } from './validation';
+
+export type KeyPath = Array<string | number>;
+
+export interface KeyConflict {
+  path: KeyPath;
+  base: unknown;     // undefined when the key did not exist
+  ours: unknown;
+  theirs: unknown;
+}
+
+export interface TreeMerge {
+  value: unknown;
+  conflicts: KeyConflict[];
+  oursChanged: string[];   // Paths taken from our side
+  theirsChanged: string[]; // Paths taken from their side
+}
+
+const YAML_EXTENSIONS = new Set(['.yml', '.yaml']);
+
+// Past this many hunk text combinations the search for a matching one stops
+export const MAX_HUNK_COMBINATIONS = 256;
+
+// Longest value shown for a key conflict
+const MAX_VALUE_LENGTH = 200;
+
+// Longest merged tree included in the analysis
+const MAX_TREE_LENGTH = 4000;
+
+// Stands in for conflicting keys when comparing the rest of a tree
+const MASKED = '\u0000conflict';
+
+export function isStructuredFile(filePath: string): boolean {
+  const extension = path.extname(filePath).toLowerCase();
+  return extension === '.json' || extension === '.jsonc' || YAML_EXTENSIONS.has(extension);
+}
+
+/**
+ * Parse a JSON (comments allowed for tsconfig and friends) or YAML file;
+ * throws when the text is not valid. Multi-document YAML is an array.
+ */
+export function parseStructured(filePath: string, text: string): unknown {
+  if (YAML_EXTENSIONS.has(path.extname(filePath).toLowerCase())) {
+    const documents = loadYaml(text);
+    return documents.length === 1 ? documents[0] : documents;
+  }
+
+  if (JSONC_FILE.test(filePath)) {
+    const { config, error } = ts.parseConfigFileTextToJson(filePath, text);
+    if (error) throw new Error(ts.flattenDiagnosticMessageText(error.messageText, '\n'));
+    return config;
+  }
+  return JSON.parse(text);
+}
+
+/**
+ * Merge the three trees. Objects merge key by key; arrays of the same
+ * length on every side merge element by element, and arrays of plain
+ * values merge as sets. Anything else both sides changed is a conflict,
+ * for which our value is kept in `value`.
+ */
+export function mergeTrees(base: unknown, ours: unknown, theirs: unknown): TreeMerge {
+  const merge: TreeMerge = { value: undefined, conflicts: [], oursChanged: [], theirsChanged: [] };
+  merge.value = mergeValue([], base, ours, theirs, merge);
+  return merge;
+}
+
+/**
+ * The tree merge as prompt text: what each side changed on its own, the
+ * keys both changed and the merged tree when it is short enough
+ */
+export function describeTreeMerge(merge: TreeMerge): string {
+  const lines: string[] = [];
+  if (merge.oursChanged.length > 0) lines.push(`Changed only on our side: ${merge.oursChanged.join(', ')}`);
+  if (merge.theirsChanged.length > 0) lines.push(`Changed only on their side: ${merge.theirsChanged.join(', ')}`);
+
+  if (merge.conflicts.length > 0) {
+    lines.push('Changed differently on both sides:');
+    for (const conflict of merge.conflicts) {
+      lines.push(`  - ${formatPath(conflict.path)}: base ${displayValue(conflict.base)}, ours ${displayValue(conflict.ours)}, theirs ${displayValue(conflict.theirs)}`);
+    }
+  } else {
+    lines.push('No key was changed differently on both sides.');
+  }
+
+  const tree = JSON.stringify(merge.value, null, 2);
+  if (tree !== undefined && tree.length <= MAX_TREE_LENGTH) {
+    lines.push('', merge.conflicts.length > 0
+      ? 'Merged tree, with our value for the keys both sides changed:'
+      : 'Merged tree:', tree);
+  }
+
+  lines.push('', merge.conflicts.length > 0
+    ? 'Only the keys changed differently on both sides need a decision; keep every other change from both sides.'
+    : 'No key collides: write the section so the file parses to the merged tree.');
+  return lines.join('\n');
+}
+
+/**
+ * Texts to try in place of a conflict hunk, most likely first: the diff3
+ * merge, either side, and both sides in either order (with a comma
+ * between them for JSON members)
+ */
+export function hunkCandidates(filePath: string, conflict: MergeConflict): string[] {
+  const ours = toLines(conflict.oursContent);
+  const theirs = toLines(conflict.theirsContent);
+  const candidates: string[] = [];
+
+  if (conflict.baseContent !== undefined) {
+    const merged = mergeLines(toLines(conflict.baseContent), ours, theirs);
+    if (merged) candidates.push(merged.join('\n'));
+  }
+  candidates.push(conflict.oursContent, conflict.theirsContent);
+
+  const json = !YAML_EXTENSIONS.has(path.extname(filePath).toLowerCase());
+  for (const [first, second] of [[ours, theirs], [theirs, ours]]) {
+    candidates.push([...first, ...second].join('\n'));
+    if (json && first.length > 0 && second.length > 0) {
+      candidates.push([...withTrailingComma(first), ...second].join('\n'));
+    }
+  }
+
+  return [...new Set(candidates)];
+}
+
+/**
+ * The tree with every conflicting key replaced by a placeholder, so two
+ * trees can be compared everywhere else
+ */
+export function maskConflicts(tree: unknown, conflicts: KeyConflict[]): unknown {
+  if (conflicts.some(conflict => conflict.path.length === 0)) return MASKED;
+
+  const masked = structuredClone(tree);
+  for (const { path: keyPath } of conflicts) {
+    const parent = valueAt(masked, keyPath.slice(0, -1));
+    if (typeof parent === 'object' && parent !== null) {
+      (parent as Record<string | number, unknown>)[keyPath[keyPath.length - 1]] = MASKED;
+    }
+  }
+  return masked;
+}
+
+/**
+ * The value under a key path, or undefined when it does not exist
+ */
+export function valueAt(tree: unknown, keyPath: KeyPath): unknown {
+  let value = tree;
+  for (const key of keyPath) {
+    if (typeof value !== 'object' || value === null) return undefined;
+    value = (value as Record<string | number, unknown>)[key];
+  }
+  return value;
+}
+
+export function formatPath(keyPath: KeyPath): string {
+  if (keyPath.length === 0) return '(root)';
+  return keyPath.map((key, i) => typeof key === 'number'
+    ? `[${key}]`
+    : /^[A-Za-z_$][\w$-]*$/.test(key) ? `${i > 0 ? '.' : ''}${key}` : `[${JSON.stringify(key)}]`
+  ).join('');
+}
+
+/**
+ * Deep equality for parsed JSON/YAML values; object key order is ignored
+ */
+export function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => sameValue(item, b[i]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => key in b && sameValue(a[key], b[key]));
+  }
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  return false;
+}
+
+// ============================================
+// Tree Merge
+// ============================================
+
+function mergeValue(at: KeyPath, base: unknown, ours: unknown, theirs: unknown, merge: TreeMerge): unknown {
+  if (sameValue(ours, theirs)) return ours;
+  if (sameValue(base, ours)) {
+    merge.theirsChanged.push(formatPath(at));
+    return theirs;
+  }
+  if (sameValue(base, theirs)) {
+    merge.oursChanged.push(formatPath(at));
+    return ours;
+  }
+
+  if (isObject(ours) && isObject(theirs) && (base === undefined || isObject(base))) {
+    const baseObject = base || {};
+    const result: Record<string, unknown> = {};
+    const keys = [...Object.keys(ours), ...Object.keys(theirs).filter(key => !(key in ours))];
+    for (const key of keys) {
+      const value = mergeValue([...at, key], baseObject[key], ours[key], theirs[key], merge);
+      if (value !== undefined) result[key] = value;
+    }
+    return result;
+  }
+
+  if (Array.isArray(ours) && Array.isArray(theirs) && (base === undefined || Array.isArray(base))) {
+    const baseArray = base || [];
+    if (baseArray.length === ours.length && ours.length === theirs.length) {
+      return ours.map((item, i) => mergeValue([...at, i], baseArray[i], item, theirs[i], merge));
+    }
+    if ([...baseArray, ...ours, ...theirs].every(item => !isObject(item) && !Array.isArray(item))) {
+      return mergeSets(at, baseArray, ours, theirs, merge);
+    }
+  }
+
+  merge.conflicts.push({ path: at, base, ours, theirs });
+  return ours;
+}
+
+/**
+ * Our items minus those they removed, then the items they added
+ */
+function mergeSets(at: KeyPath, base: unknown[], ours: unknown[], theirs: unknown[], merge: TreeMerge): unknown[] {
+  const removedByThem = base.filter(item => !theirs.includes(item));
+  const addedByThem = theirs.filter(item => !base.includes(item));
+  const result = ours.filter(item => !removedByThem.includes(item));
+  for (const item of addedByThem) {
+    if (!result.includes(item)) result.push(item);
+  }
+
+  if (!sameValue(base, ours)) merge.oursChanged.push(formatPath(at));
+  if (!sameValue(base, theirs)) merge.theirsChanged.push(formatPath(at));
+  return result;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function displayValue(value: unknown): string {
+  if (value === undefined) return '(absent)';
+  const text = JSON.stringify(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.substring(0, MAX_VALUE_LENGTH)}...` : text;
+}
+
+/**
+ * Lines with a comma after the last member, unless it already has one or
+ * opens a block
+ */
+function withTrailingComma(lines: string[]): string[] {
+  const last = lines.map(line => line.trimEnd()).reduce((found, line, i) => (line ? i : found), -1);
+  if (last < 0 || /[,{[]$/.test(lines[last].trimEnd())) return lines;
+  return lines.map((line, i) => (i === last ? `${line.trimEnd()},` : line));
+}
@@ -0,0 +1,239 @@
+/**
+ * Resolution Validation
+ * Checks a file with its conflicts resolved before anything is written:
+ * TS/JS are parsed (and optionally type-checked against the project's
+ * tsconfig), JSON and YAML are parsed, and other languages can run a
+ * checker command configured per file extension
+ */
+
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import * as ts from 'typescript';
+import { isCancellation } from '../../cancellation';
+
+export interface ValidationConfig {
+  typeCheck?: boolean;                // Also type-check TS/JS against the nearest tsconfig.json
+  checkers?: Record<string, string>;  // Extension (".py") -> command; {file} is replaced with the resolved copy
+  checkerTimeoutMs?: number;
+}
+
+export interface ValidationDiagnostic {
+  check: 'markers' | 'syntax' | 'types' | 'json' | 'yaml' | 'command';
+  message: string;
+  line?: number;                      // 1-based, in the resolved file
+}
+
+const SCRIPT_EXTENSIONS = new Set(['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs']);
+const YAML_EXTENSIONS = new Set(['.yml', '.yaml']);
+
+// JSON files that allow comments and trailing commas
+export const JSONC_FILE = /(^|[\\/])((tsconfig|jsconfig)[^\\/]*|\.vscode[\\/][^\\/]+)\.json$|\.jsonc$/;
+
+// A leftover marker line from the model's resolution
+const MARKER_LINE = /^(<<<<<<<|>>>>>>>)( |$)/;
+
+const DEFAULT_CHECKER_TIMEOUT_MS = 60_000;
+
+// Checker output kept in a diagnostic
+const MAX_OUTPUT_LINES = 20;
+
+/**
+ * Diagnostics for a file's full content after substitution; empty when it
+ * passes every check that applies to it
+ */
+export async function validateResolvedFile(
+  repoPath: string,
+  filePath: string,
+  content: string,
+  config: ValidationConfig = {},
+  signal?: AbortSignal
+): Promise<ValidationDiagnostic[]> {
+  const diagnostics: ValidationDiagnostic[] = content.split('\n')
+    .map((line, i) => ({ line, number: i + 1 }))
+    .filter(({ line }) => MARKER_LINE.test(line))
+    .map(({ number }) => ({ check: 'markers' as const, message: 'Conflict marker left in the resolved file', line: number }));
+
+  const extension = path.extname(filePath).toLowerCase();
+  const fullPath = path.join(repoPath, filePath);
+
+  if (SCRIPT_EXTENSIONS.has(extension)) {
+    diagnostics.push(...checkSyntax(fullPath, content));
+    if (config.typeCheck && diagnostics.length === 0) {
+      diagnostics.push(...checkTypes(fullPath, content));
+    }
+  } else if (extension === '.json' || extension === '.jsonc') {
+    diagnostics.push(...checkJson(filePath, content));
+  } else if (YAML_EXTENSIONS.has(extension)) {
+    diagnostics.push(...checkYaml(content));
+  }
+
+  const command = config.checkers?.[extension];
+  if (command) {
+    const failure = await runChecker(repoPath, filePath, content, command, config.checkerTimeoutMs, signal);
+    if (failure) diagnostics.push(failure);
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Every document in a YAML file
+ */
+export function loadYaml(text: string): unknown[] {
+  return yaml.loadAll(text);
+}
+
+/**
+ * Diagnostics in `after` that were not already in `before`, so a file that
+ * was broken on the current side does not block every resolution
+ */
+export function newDiagnostics(before: ValidationDiagnostic[], after: ValidationDiagnostic[]): ValidationDiagnostic[] {
+  return after.filter(d => !before.some(b => b.check === d.check && b.message === d.message));
+}
+
+export function formatDiagnostic(diagnostic: ValidationDiagnostic): string {
+  return `[${diagnostic.check}]${diagnostic.line ? ` line ${diagnostic.line}:` : ''} ${diagnostic.message}`;
+}
+
+// ============================================
+// Checks
+// ============================================
+
+function checkSyntax(fullPath: string, content: string): ValidationDiagnostic[] {
+  const output = ts.transpileModule(content, {
+    fileName: fullPath,
+    reportDiagnostics: true,
+    compilerOptions: { jsx: ts.JsxEmit.Preserve, allowJs: true }
+  });
+  return toDiagnostics('syntax', output.diagnostics || []);
+}
+
+/**
+ * Type-check the file inside its project, with the resolved content in
+ * place of what is on disk. Only errors reported in this file count.
+ */
+function checkTypes(fullPath: string, content: string): ValidationDiagnostic[] {
+  const configPath = ts.findConfigFile(path.dirname(fullPath), ts.sys.fileExists);
+  if (!configPath) return [];
+
+  const parsed = ts.getParsedCommandLineOfConfigFile(configPath, { noEmit: true }, {
+    ...ts.sys,
+    onUnRecoverableConfigFileDiagnostic: () => undefined
+  });
+  if (!parsed) return [];
+
+  const target = path.resolve(fullPath);
+  const isTarget = (fileName: string) => path.resolve(fileName) === target;
+
+  const host = ts.createCompilerHost(parsed.options, true);
+  const getSourceFile = host.getSourceFile;
+  const readFile = host.readFile;
+  host.getSourceFile = (fileName, languageVersion, onError, shouldCreate) => isTarget(fileName)
+    ? ts.createSourceFile(fileName, content, languageVersion, true)
+    : getSourceFile.call(host, fileName, languageVersion, onError, shouldCreate);
+  host.readFile = fileName => isTarget(fileName) ? content : readFile.call(host, fileName);
+
+  const rootNames = parsed.fileNames.some(isTarget) ? parsed.fileNames : [...parsed.fileNames, target];
+  const program = ts.createProgram({ rootNames, options: parsed.options, host });
+  const sourceFile = program.getSourceFiles().find(file => isTarget(file.fileName));
+  if (!sourceFile) return [];
+
+  return toDiagnostics('types', [
+    ...program.getSyntacticDiagnostics(sourceFile),
+    ...program.getSemanticDiagnostics(sourceFile)
+  ]);
+}
+
+function checkJson(filePath: string, content: string): ValidationDiagnostic[] {
+  if (JSONC_FILE.test(filePath)) {
+    const { error } = ts.parseConfigFileTextToJson(filePath, content);
+    return error ? toDiagnostics('json', [error]) : [];
+  }
+
+  try {
+    JSON.parse(content);
+    return [];
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const position = message.match(/at position (\d+)/);
+    return [{
+      check: 'json',
+      message,
+      line: position ? content.slice(0, Number(position[1])).split('\n').length : undefined
+    }];
+  }
+}
+
+function checkYaml(content: string): ValidationDiagnostic[] {
+  try {
+    loadYaml(content);
+    return [];
+  } catch (error) {
+    if (!(error instanceof yaml.YAMLException)) {
+      return [{ check: 'yaml', message: error instanceof Error ? error.message : String(error) }];
+    }
+    return [{
+      check: 'yaml',
+      message: error.reason || error.message,
+      line: error.mark ? error.mark.line + 1 : undefined
+    }];
+  }
+}
+
+/**
+ * Run a checker command on a temporary copy of the resolved file (same
+ * name, so extension-based tools behave). A non-zero exit is a failure;
+ * the copy's path is replaced with the repo path in the reported output.
+ */
+async function runChecker(
+  repoPath: string,
+  filePath: string,
+  content: string,
+  command: string,
+  timeoutMs = DEFAULT_CHECKER_TIMEOUT_MS,
+  signal?: AbortSignal
+): Promise<ValidationDiagnostic | null> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'codedetective-'));
+  const copy = path.join(dir, path.basename(filePath));
+
+  try {
+    fs.writeFileSync(copy, content);
+    const commandLine = command.includes('{file}')
+      ? command.split('{file}').join(`"${copy}"`)
+      : `${command} "${copy}"`;
+
+    const { code, output } = await new Promise<{ code: number | null; output: string }>((resolve, reject) => {
+      const child = spawn(commandLine, { cwd: repoPath, shell: true, signal, timeout: timeoutMs });
+      let output = '';
+      child.stdout.on('data', (chunk: Buffer) => { output += chunk.toString(); });
+      child.stderr.on('data', (chunk: Buffer) => { output += chunk.toString(); });
+      child.on('error', reject);
+      child.on('close', code => resolve({ code, output }));
+    });
+
+    if (code === 0) return null;
+    const lines = output.split(copy).join(filePath).trim().split('\n').slice(0, MAX_OUTPUT_LINES);
+    return {
+      check: 'command',
+      message: `\`${command}\` ${code === null ? 'timed out' : `exited with code ${code}`}${lines[0] ? `:\n${lines.join('\n')}` : ''}`
+    };
+  } catch (error) {
+    if (isCancellation(error, signal)) throw error;
+    return { check: 'command', message: `\`${command}\` could not run: ${error instanceof Error ? error.message : error}` };
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+function toDiagnostics(check: ValidationDiagnostic['check'], diagnostics: readonly ts.Diagnostic[]): ValidationDiagnostic[] {
+  return diagnostics
+    .filter(d => d.category === ts.DiagnosticCategory.Error)
+    .map(d => ({
+      check,
+      message: ts.flattenDiagnosticMessageText(d.messageText, '\n'),
+      line: d.file && d.start !== undefined ? d.file.getLineAndCharacterOfPosition(d.start).line + 1 : undefined
+    }));
+}
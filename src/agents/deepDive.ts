@@ -3,21 +3,32 @@
  * Implements "Marathon Agent" pattern with self-correction and verification
  */
 
-import { GoogleGenAI } from '@google/genai';
+import { randomUUID } from 'crypto';
+import { LLMProvider, MeteredProvider, UsageMeter, UsageSummary, BudgetExceededError } from '../llm';
+import { ServiceFailure, toServiceFailure } from '../scheduler';
+import { CancelledError, isCancellation } from '../cancellation';
+import { CaseFileStore } from '../caseFileStore';
+import { DeepDiveCheckpoint, DeepDiveCheckpointStore } from '../deepDiveCheckpoints';
+import { ForgeSettings } from '../forges';
 import {
   CaseFile,
   InvestigationResult,
   CodeSelection,
   ThoughtSignature,
   CommitInfo,
+  CodebaseReference,
 } from './types';
 import { HistorianAgent } from './historian';
-import { ArchivistAgent } from './archivist';
 import { LeadDetectiveAgent } from './leadDetective';
+import { TypeScriptReferenceFinder } from './referenceFinder';
+import { ImportResolver } from './imports';
 
 export interface DeepDiveConfig {
-  geminiApiKey: string;
+  provider: LLMProvider;
   githubToken?: string;
+  forge?: ForgeSettings;       // Forge override; inferred from the git remote when unset
+  store?: CaseFileStore;       // Persist every investigation to the case file store
+  checkpoints?: DeepDiveCheckpointStore; // Save progress after each investigated file so the run can be resumed
   maxDepth?: number;           // How deep to follow dependencies (default: 3)
   maxFilesToExplore?: number;  // Limit autonomous exploration (default: 10)
   verifyFindings?: boolean;    // Enable self-verification loop
@@ -32,13 +43,7 @@ export interface DeepDiveUpdate {
   message: string;
   depth: number;
   verificationStatus?: 'pending' | 'verified' | 'failed';
-}
-
-export interface CodebaseReference {
-  file: string;
-  line: number;
-  context: string;
-  type: 'import' | 'call' | 'extends' | 'implements' | 'reference';
+  runId?: string;              // Checkpoint to resume from, when checkpointing
 }
 
 export interface DeepDiveResult {
@@ -50,11 +55,19 @@ export interface DeepDiveResult {
   totalFilesExplored: number;
   totalTimeMs: number;
   thoughtChainLength: number;
+  usage: UsageSummary;
+  budgetExceeded?: string;     // Set when the token budget stopped exploration early
+  cancelled?: boolean;         // Stopped by the caller; the report covers what was done so far
+  failures: ServiceFailure[];  // Steps that failed, e.g. a related file or the self-critique
+  runId?: string;              // Set when checkpointing; the checkpoint is kept for resume() unless the run completed
+  resumed?: boolean;           // Picked up from a checkpoint of an earlier attempt
 }
 
 export interface DependencyNode {
   file: string;
   type: 'import' | 'export' | 'reference' | 'root';
+  package?: string;            // Package that owns the file, e.g. a workspace package name
+  unresolved?: string[];       // Imports that matched no repo file (external, generated or missing)
   children: DependencyNode[];
   investigated: boolean;
 }
@@ -75,52 +88,117 @@ export interface VerifiedLink {
 }
 
 export class DeepDiveAgent {
-  private genai: GoogleGenAI;
+  private provider: LLMProvider;
   private historian: HistorianAgent | null = null;
-  private archivist: ArchivistAgent;
+  private imports: ImportResolver | null = null;
   private leadDetective: LeadDetectiveAgent;
   private config: DeepDiveConfig;
   private exploredFiles: Set<string> = new Set();
+  private treeFiles: Set<string> = new Set();
   private thoughtSignatures: ThoughtSignature[] = [];
+  private failures: ServiceFailure[] = [];
+  private usage: UsageMeter = new UsageMeter();
+  private signal?: AbortSignal;
+  private checkpoint: DeepDiveCheckpoint | null = null;
+  private elapsedBefore: number = 0;
+  private attemptStartedAt: number = 0;
 
   constructor(config: DeepDiveConfig) {
     this.config = config;
-    this.genai = new GoogleGenAI({ apiKey: config.geminiApiKey });
-    this.archivist = new ArchivistAgent(config.githubToken);
-    this.leadDetective = new LeadDetectiveAgent(config.geminiApiKey, {
+    this.provider = new MeteredProvider(config.provider, this.usage);
+    this.leadDetective = new LeadDetectiveAgent(this.provider, {
       thinkingLevel: 'high'
     });
   }
 
   /**
-   * Autonomous Deep Dive - explores dependencies and builds complete case
+   * Autonomous Deep Dive - explores dependencies and builds complete case.
+   * Aborting the signal stops it at the next git or model call and returns
+   * what has been found so far.
    */
   async deepDive(
     codeSelection: CodeSelection,
-    repoPath: string
+    repoPath: string,
+    signal?: AbortSignal
   ): Promise<DeepDiveResult> {
-    const startTime = Date.now();
-    this.historian = new HistorianAgent(repoPath);
+    const now = new Date();
+    return this.run({
+      runId: randomUUID(),
+      codeSelection,
+      repoPath,
+      maxDepth: this.config.maxDepth || 3,
+      maxFilesToExplore: this.config.maxFilesToExplore || 10,
+      verifyFindings: !!this.config.verifyFindings,
+      startedAt: now,
+      updatedAt: now,
+      elapsedMs: 0,
+      relatedInvestigations: [],
+      thoughtSignatures: []
+    }, signal);
+  }
+
+  /**
+   * Continue a checkpointed run where it stopped, with the settings it was
+   * started with. Files already investigated are not investigated again;
+   * ones that failed are retried.
+   */
+  async resume(runId: string, signal?: AbortSignal): Promise<DeepDiveResult> {
+    const checkpoint = this.config.checkpoints?.get(runId);
+    if (!checkpoint) {
+      throw new Error(`No deep dive checkpoint found for run ${runId}`);
+    }
+    return this.run(checkpoint, signal, true);
+  }
+
+  private async run(
+    checkpoint: DeepDiveCheckpoint,
+    signal?: AbortSignal,
+    resumed: boolean = false
+  ): Promise<DeepDiveResult> {
+    const { codeSelection, repoPath } = checkpoint;
+    this.checkpoint = checkpoint;
+    this.elapsedBefore = checkpoint.elapsedMs;
+    this.attemptStartedAt = Date.now();
+    this.signal = signal;
+    this.historian = new HistorianAgent(repoPath, signal);
+    this.imports = new ImportResolver(repoPath);
     this.exploredFiles.clear();
-    this.thoughtSignatures = [];
-    
-    const maxDepth = this.config.maxDepth || 3;
-    const maxFiles = this.config.maxFilesToExplore || 10;
+    this.treeFiles.clear();
+    this.thoughtSignatures = [...checkpoint.thoughtSignatures];
+    this.failures = [];
+    if (checkpoint.usage) {
+      this.usage.restore(checkpoint.usage);
+    } else {
+      this.usage.reset();
+    }
+
+    const maxDepth = checkpoint.maxDepth;
+    const maxFiles = checkpoint.maxFilesToExplore;
+    const relatedInvestigations = new Map<string, InvestigationResult>(checkpoint.relatedInvestigations);
+    if (checkpoint.mainInvestigation) {
+      this.exploredFiles.add(codeSelection.filePath);
+    }
+    for (const file of relatedInvestigations.keys()) {
+      this.exploredFiles.add(file);
+    }
 
     // Step 0: Scan entire codebase for references to selected code
     this.emitProgress({
       phase: 'scanning',
-      filesExplored: 0,
+      filesExplored: this.exploredFiles.size,
       totalFiles: 0,
-      message: 'Scanning entire codebase for references...',
+      message: resumed
+        ? `Resuming deep dive: ${this.exploredFiles.size} files already investigated`
+        : 'Scanning entire codebase for references...',
       depth: 0
     });
 
-    const codebaseReferences = await this.findCodebaseReferences(codeSelection, repoPath);
+    const codebaseReferences = checkpoint.codebaseReferences
+      ?? await this.findCodebaseReferences(codeSelection, repoPath);
     
     this.emitProgress({
       phase: 'scanning',
-      filesExplored: 0,
+      filesExplored: this.exploredFiles.size,
       totalFiles: codebaseReferences.length,
       message: `Found ${codebaseReferences.length} references across the codebase`,
       depth: 0
@@ -129,95 +207,133 @@ export class DeepDiveAgent {
     // Step 1: Build dependency tree
     this.emitProgress({
       phase: 'exploring',
-      filesExplored: 0,
+      filesExplored: this.exploredFiles.size,
       totalFiles: maxFiles,
       message: 'Building dependency tree...',
       depth: 0
     });
 
-    const dependencyTree = await this.buildDependencyTree(
+    const dependencyTree = checkpoint.dependencyTree ?? await this.buildDependencyTree(
       codeSelection.filePath,
       repoPath,
       maxDepth
     );
 
+    // A cancelled scan returns no references, which must not be resumed from
+    if (!signal?.aborted) {
+      this.saveCheckpoint({ codebaseReferences, dependencyTree });
+    }
+
     // Step 2: Investigate main file (with codebase context)
     this.emitProgress({
       phase: 'investigating',
       currentFile: codeSelection.filePath,
       filesExplored: 1,
       totalFiles: Math.min(this.countNodes(dependencyTree), maxFiles),
-      message: `Investigating main target: ${codeSelection.filePath}`,
+      message: checkpoint.mainInvestigation
+        ? `Main target already investigated: ${codeSelection.filePath}`
+        : `Investigating main target: ${codeSelection.filePath}`,
       depth: 0
     });
 
-    // Add codebase references context to the investigation
-    const enhancedSelection = {
-      ...codeSelection,
-      codebaseContext: this.buildCodebaseContext(codebaseReferences)
-    };
+    let investigated = checkpoint.mainInvestigation;
+    if (!investigated) {
+      // Add codebase references context to the investigation
+      const enhancedSelection = {
+        ...codeSelection,
+        codebaseContext: this.buildCodebaseContext(codebaseReferences)
+      };
+
+      investigated = await this.investigateFile(enhancedSelection, repoPath);
+      if (!investigated.cancelled) {
+        this.saveCheckpoint({ mainInvestigation: investigated });
+      }
+    }
 
-    const mainInvestigation = await this.investigateFile(enhancedSelection, repoPath);
+    // A copy, so the summary and synthesis added below stay out of the checkpoint
+    const mainInvestigation = { ...investigated };
+    let cancelled = !!mainInvestigation.cancelled;
 
     // Append usage info to the summary
     if (codebaseReferences.length > 0) {
       mainInvestigation.summary += `\n\nUsed in ${codebaseReferences.length} locations across ${new Set(codebaseReferences.map(r => r.file)).size} files.`;
     }
 
-    // Step 3: Autonomously explore related files
-    const relatedInvestigations = new Map<string, InvestigationResult>();
-    await this.exploreRelatedFiles(
-      dependencyTree,
-      repoPath,
-      relatedInvestigations,
-      maxFiles - 1,
-      1
-    );
-
-    // Step 4: Self-verification loop
+    // Steps 3-5 are best-effort: running out of token budget or being
+    // cancelled stops them and the report covers what was found so far
     let verificationReport: VerificationReport = {
       claimsVerified: 0,
       claimsFailed: 0,
       linksChecked: [],
       overallConfidence: mainInvestigation.confidence
     };
+    let budgetExceeded: string | undefined;
+
+    try {
+      if (cancelled || signal?.aborted) throw new CancelledError();
+
+      // Step 3: Autonomously explore related files
+      await this.exploreRelatedFiles(
+        dependencyTree,
+        repoPath,
+        relatedInvestigations,
+        maxFiles - 1,
+        1
+      );
+
+      // Step 4: Self-verification loop
+      if (this.config.verifyFindings) {
+        this.emitProgress({
+          phase: 'verifying',
+          filesExplored: this.exploredFiles.size,
+          totalFiles: this.exploredFiles.size,
+          message: 'Verifying investigation findings...',
+          depth: 0,
+          verificationStatus: 'pending'
+        });
+
+        verificationReport = await this.verifyFindings(mainInvestigation);
+      }
 
-    if (this.config.verifyFindings) {
+      // Step 5: Synthesize all findings
       this.emitProgress({
-        phase: 'verifying',
+        phase: 'synthesizing',
         filesExplored: this.exploredFiles.size,
         totalFiles: this.exploredFiles.size,
-        message: 'Verifying investigation findings...',
-        depth: 0,
-        verificationStatus: 'pending'
+        message: 'Synthesizing complete investigation report...',
+        depth: 0
       });
 
-      verificationReport = await this.verifyFindings(mainInvestigation);
-    }
-
-    // Step 5: Synthesize all findings
-    this.emitProgress({
-      phase: 'synthesizing',
-      filesExplored: this.exploredFiles.size,
-      totalFiles: this.exploredFiles.size,
-      message: 'Synthesizing complete investigation report...',
-      depth: 0
-    });
-
-    // Use Gemini to synthesize all investigations into a coherent narrative
-    if (relatedInvestigations.size > 0 || codebaseReferences.length > 0) {
-      await this.synthesizeFindings(mainInvestigation, relatedInvestigations, codebaseReferences);
+      // Use Gemini to synthesize all investigations into a coherent narrative
+      if (relatedInvestigations.size > 0 || codebaseReferences.length > 0) {
+        await this.synthesizeFindings(mainInvestigation, relatedInvestigations, codebaseReferences);
+      }
+    } catch (error) {
+      if (isCancellation(error, signal)) {
+        cancelled = true;
+      } else if (error instanceof BudgetExceededError) {
+        budgetExceeded = error.message;
+      } else {
+        throw error;
+      }
     }
 
     this.emitProgress({
       phase: 'complete',
       filesExplored: this.exploredFiles.size,
       totalFiles: this.exploredFiles.size,
-      message: `Deep dive complete! Explored ${this.exploredFiles.size} files, found ${codebaseReferences.length} references.`,
+      message: cancelled
+        ? `Deep dive cancelled after exploring ${this.exploredFiles.size} files.`
+        : `Deep dive complete! Explored ${this.exploredFiles.size} files, found ${codebaseReferences.length} references.`,
       depth: 0,
       verificationStatus: verificationReport.claimsFailed === 0 ? 'verified' : 'failed'
     });
 
+    // A finished run has nothing left to resume
+    if (!cancelled && !budgetExceeded) {
+      this.config.checkpoints?.delete(checkpoint.runId);
+    }
+
     return {
       mainInvestigation,
       codebaseReferences,
@@ -225,18 +341,37 @@ export class DeepDiveAgent {
       dependencyTree,
       verificationReport,
       totalFilesExplored: this.exploredFiles.size,
-      totalTimeMs: Date.now() - startTime,
-      thoughtChainLength: this.thoughtSignatures.length
+      totalTimeMs: this.elapsedBefore + Date.now() - this.attemptStartedAt,
+      thoughtChainLength: this.thoughtSignatures.length,
+      usage: this.usage.summary(),
+      budgetExceeded,
+      cancelled,
+      failures: this.failures,
+      runId: this.config.checkpoints ? checkpoint.runId : undefined,
+      resumed
     };
   }
 
   /**
-   * Scan entire codebase for references to the selected code
+   * Scan entire codebase for references to the selected code. TS/JS
+   * selections go through the language service; other languages, and
+   * files no program covers, fall back to matching identifiers as text.
    */
   private async findCodebaseReferences(
     codeSelection: CodeSelection,
     repoPath: string
   ): Promise<CodebaseReference[]> {
+    if (TypeScriptReferenceFinder.supports(codeSelection.filePath)) {
+      try {
+        const found = new TypeScriptReferenceFinder(repoPath, this.signal).findReferences(codeSelection);
+        if (found) return found;
+      } catch (error) {
+        // Cancelled: the main investigation stops right away with a partial result
+        if (isCancellation(error, this.signal)) return [];
+        console.warn('Language service reference search failed, falling back to text search:', error);
+      }
+    }
+
     const references: CodebaseReference[] = [];
     const fs = require('fs');
     const path = require('path');
@@ -308,7 +443,7 @@ export class DeepDiveAgent {
   }
 
   /**
-   * Classify what type of reference this is
+   * Classify what type of reference this is from the line text alone
    */
   private classifyReference(line: string, identifier: string): CodebaseReference['type'] {
     if (line.includes('import') && line.includes(identifier)) return 'import';
@@ -373,7 +508,8 @@ export class DeepDiveAgent {
     for (const [file, refs] of byFile.entries()) {
       context += `### ${file}\n`;
       for (const ref of refs.slice(0, 5)) {
-        context += `- Line ${ref.line} (${ref.type}): \`${ref.context}\`\n`;
+        const kind = ref.symbol ? `${ref.type} of ${ref.symbol}` : ref.type;
+        context += `- Line ${ref.line} (${kind}): \`${ref.context}\`\n`;
       }
       if (refs.length > 5) {
         context += `- ... and ${refs.length - 5} more references\n`;
@@ -385,7 +521,10 @@ export class DeepDiveAgent {
   }
 
   /**
-   * Build dependency tree by analyzing imports/exports
+   * Build dependency tree by analyzing imports/exports with the resolver
+   * for the file's language. A file imported along several paths is only
+   * expanded the first time, which keeps package-wide imports (Go, Java
+   * wildcards) from multiplying the tree.
    */
   private async buildDependencyTree(
     filePath: string,
@@ -396,34 +535,24 @@ export class DeepDiveAgent {
     const node: DependencyNode = {
       file: filePath,
       type: currentDepth === 0 ? 'root' : 'import',
+      package: this.imports?.packageOf(filePath),
       children: [],
       investigated: false
     };
 
-    if (currentDepth >= maxDepth) return node;
+    if (currentDepth >= maxDepth || !this.imports || this.treeFiles.has(filePath)) return node;
+    this.treeFiles.add(filePath);
 
     try {
-      // Use Gemini to analyze file for dependencies
-      const fs = await import('fs');
-      const path = await import('path');
-      const fullPath = path.join(repoPath, filePath);
-      
-      if (!fs.existsSync(fullPath)) return node;
-      
-      const content = fs.readFileSync(fullPath, 'utf-8');
-      
-      // Extract imports using regex (fast, no AST parsing needed)
-      const importMatches = content.matchAll(
-        /(?:import|require)\s*\(?['"](\.\.?\/[^'"]+)['"]\)?/g
-      );
-      
-      for (const match of importMatches) {
-        const importPath = match[1];
-        const resolvedPath = this.resolveImportPath(filePath, importPath, repoPath);
-        
-        if (resolvedPath && !this.exploredFiles.has(resolvedPath)) {
+      const edges = this.imports.resolveImports(filePath);
+      if (edges.unresolved.length > 0) {
+        node.unresolved = edges.unresolved;
+      }
+
+      for (const imported of edges.resolved) {
+        if (!this.exploredFiles.has(imported.file)) {
           const childNode = await this.buildDependencyTree(
-            resolvedPath,
+            imported.file,
             repoPath,
             maxDepth,
             currentDepth + 1
@@ -438,33 +567,6 @@ export class DeepDiveAgent {
     return node;
   }
 
-  /**
-   * Resolve relative import path to actual file
-   */
-  private resolveImportPath(
-    fromFile: string,
-    importPath: string,
-    repoPath: string
-  ): string | null {
-    const path = require('path');
-    const fs = require('fs');
-    
-    const dir = path.dirname(fromFile);
-    let resolved = path.join(dir, importPath);
-    
-    // Try common extensions
-    const extensions = ['', '.ts', '.tsx', '.js', '.jsx', '/index.ts', '/index.js'];
-    
-    for (const ext of extensions) {
-      const fullPath = path.join(repoPath, resolved + ext);
-      if (fs.existsSync(fullPath) && fs.statSync(fullPath).isFile()) {
-        return resolved + ext;
-      }
-    }
-    
-    return null;
-  }
-
   /**
    * Recursively explore related files
    */
@@ -479,6 +581,14 @@ export class DeepDiveAgent {
 
     for (const child of node.children) {
       if (remaining <= 0) break;
+
+      // Investigated before the run was resumed: continue below it
+      const earlier = child.investigated ? results.get(child.file) : undefined;
+      if (earlier) {
+        remaining--;
+        await this.exploreRelatedFiles(child, repoPath, results, remaining, depth + 1);
+        continue;
+      }
       if (this.exploredFiles.has(child.file)) continue;
 
       this.emitProgress({
@@ -486,7 +596,7 @@ export class DeepDiveAgent {
         currentFile: child.file,
         filesExplored: this.exploredFiles.size,
         totalFiles: Math.min(this.exploredFiles.size + remaining, this.config.maxFilesToExplore || 10),
-        message: `Autonomously exploring: ${child.file}`,
+        message: `Autonomously exploring: ${child.file}${child.package ? ` (${child.package})` : ''}`,
         depth
       });
 
@@ -515,14 +625,17 @@ export class DeepDiveAgent {
         };
 
         const investigation = await this.investigateFile(selection, repoPath);
+        if (investigation.cancelled) throw new CancelledError();
         results.set(child.file, investigation);
         child.investigated = true;
         remaining--;
+        this.saveCheckpoint({ relatedInvestigations: [...results] });
 
         // Recurse into children
         await this.exploreRelatedFiles(child, repoPath, results, remaining, depth + 1);
       } catch (error) {
-        // Skip files we can't investigate
+        if (error instanceof BudgetExceededError || isCancellation(error, this.signal)) throw error;
+        this.recordFailure(error, `investigate ${child.file}`);
       }
     }
   }
@@ -540,15 +653,17 @@ export class DeepDiveAgent {
     const { Investigator } = await import('../investigator');
     
     const investigator = new Investigator({
-      geminiApiKey: this.config.geminiApiKey,
+      provider: this.provider,
       githubToken: this.config.githubToken,
-      thinkingLevel: 'high'
+      forge: this.config.forge,
+      thinkingLevel: 'high',
+      store: this.config.store
     });
 
     const result = await investigator.investigate({
       ...codeSelection,
       repoPath
-    });
+    }, this.signal);
 
     // Collect thought signatures
     if (result.thoughtChain?.signatures) {
@@ -593,7 +708,7 @@ export class DeepDiveAgent {
     const selfCritique = await this.performSelfCritique(investigation);
     
     // Adjust confidence based on self-critique
-    if (selfCritique.issuesFound > 0) {
+    if (selfCritique && selfCritique.issuesFound > 0) {
       report.overallConfidence = Math.max(
         0,
         report.overallConfidence - (selfCritique.issuesFound * 5)
@@ -651,11 +766,10 @@ export class DeepDiveAgent {
    */
   private async performSelfCritique(
     investigation: InvestigationResult
-  ): Promise<{ issuesFound: number; suggestions: string[] }> {
+  ): Promise<{ issuesFound: number; suggestions: string[] } | null> {
     try {
-      const response = await this.genai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: `You are a critical reviewer of code archaeology investigations.
+      const response = await this.provider.generate({
+        prompt: `You are a critical reviewer of code archaeology investigations.
 
 Review this investigation and identify any issues:
 
@@ -672,25 +786,24 @@ Respond in JSON format:
   "issuesFound": number,
   "suggestions": ["string"]
 }`,
-        config: {
-          temperature: 0.2,
-          thinkingConfig: {
-            thinkingBudget: 4096
-          }
-        }
+        temperature: 0.2,
+        thinkingBudget: 4096,
+        signal: this.signal
       });
 
       const text = response.text || '{}';
       // Try to parse JSON from response
       const jsonMatch = text.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
+      if (!jsonMatch) {
+        throw new Error('Self-critique response did not contain JSON');
       }
+      return JSON.parse(jsonMatch[0]);
     } catch (error) {
-      // Self-critique failed, assume no issues
+      if (error instanceof BudgetExceededError || isCancellation(error, this.signal)) throw error;
+      // Reported rather than read as "no issues found"
+      this.recordFailure(error, 'self-critique');
+      return null;
     }
-
-    return { issuesFound: 0, suggestions: [] };
   }
 
   /**
@@ -715,9 +828,8 @@ Respond in JSON format:
       .join('\n');
 
     try {
-      const response = await this.genai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: `Synthesize these code archaeology findings into a complete understanding:
+      const response = await this.provider.generate({
+        prompt: `Synthesize these code archaeology findings into a complete understanding:
 
 Main Investigation:
 ${main.summary}
@@ -731,12 +843,9 @@ Provide a unified narrative that explains:
 2. ${codebaseRefs.length > 0 ? 'Where and how it is used across the codebase' : 'How it fits into the overall architecture'}
 3. ${related.size > 0 ? 'How these files work together' : 'Its role in the system'}
 4. Any patterns or architectural decisions revealed`,
-        config: {
-          temperature: 0.3,
-          thinkingConfig: {
-            thinkingBudget: 8192
-          }
-        }
+        temperature: 0.3,
+        thinkingBudget: 8192,
+        signal: this.signal
       });
 
       // Append synthesis to main narrative
@@ -755,10 +864,40 @@ Provide a unified narrative that explains:
         }
       }
     } catch (error) {
-      // Synthesis failed, keep original narrative
+      if (error instanceof BudgetExceededError || isCancellation(error, this.signal)) throw error;
+      // Keep the original narrative
+      this.recordFailure(error, 'synthesize findings');
+    }
+  }
+
+  /**
+   * Record progress on the run's checkpoint, along with the thought chain
+   * and usage so far. A checkpoint that cannot be written only costs the
+   * ability to resume, so the run carries on.
+   */
+  private saveCheckpoint(progress: Partial<DeepDiveCheckpoint>): void {
+    const store = this.config.checkpoints;
+    if (!store || !this.checkpoint) return;
+
+    const now = Date.now();
+    Object.assign(this.checkpoint, progress, {
+      updatedAt: new Date(now),
+      elapsedMs: this.elapsedBefore + now - this.attemptStartedAt,
+      thoughtSignatures: this.thoughtSignatures,
+      usage: this.usage.summary()
+    });
+
+    try {
+      store.save(this.checkpoint);
+    } catch (error) {
+      console.warn('Could not save deep dive checkpoint:', error);
     }
   }
 
+  private recordFailure(error: unknown, operation: string): void {
+    this.failures.push(toServiceFailure(error, operation, `model:${this.provider.name}`));
+  }
+
   /**
    * Count nodes in dependency tree
    */
@@ -775,7 +914,8 @@ Provide a unified narrative that explains:
    */
   private emitProgress(update: DeepDiveUpdate): void {
     if (this.config.onProgress) {
-      this.config.onProgress(update);
+      const runId = this.config.checkpoints ? this.checkpoint?.runId : undefined;
+      this.config.onProgress(runId ? { ...update, runId } : update);
     }
   }
 }
@@ -0,0 +1,173 @@
+/**
+ * Deep Dive Graph
+ * Flattens a deep dive's dependency tree and codebase references into one
+ * graph of files and typed edges, and renders it as Mermaid or Graphviz DOT
+ */
+
+import { CodebaseReference } from './types';
+import { DeepDiveResult, DependencyNode } from './deepDive';
+
+export type GraphEdgeType = 'import' | CodebaseReference['type'];
+
+export interface GraphNode {
+  id: string;                  // Repo-relative file path
+  role: 'root' | 'dependency' | 'referrer';
+  package?: string;
+  investigated: boolean;
+  summary?: string;            // From the file's investigation, when it had one
+  confidence?: number;
+  unresolved?: string[];       // Imports that matched no repo file
+}
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  kind: 'dependency' | 'reference'; // Dependency tree import, or a reference to the selected code
+  type: GraphEdgeType;
+  count: number;               // References folded into this edge
+  lines?: number[];            // Lines in `from` holding the references
+}
+
+export interface DeepDiveGraph {
+  root: string;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+/**
+ * Build the graph: dependency tree edges point from importer to imported
+ * file, reference edges from the referencing file to the selected one
+ */
+export function buildDeepDiveGraph(result: DeepDiveResult): DeepDiveGraph {
+  const root = result.dependencyTree.file;
+  const nodes = new Map<string, GraphNode>();
+  const edges = new Map<string, GraphEdge>();
+
+  const addNode = (id: string, role: GraphNode['role'], tree?: DependencyNode) => {
+    let node = nodes.get(id);
+    if (!node) {
+      const investigation = id === root ? result.mainInvestigation : result.relatedInvestigations.get(id);
+      node = {
+        id,
+        role,
+        investigated: !!investigation,
+        summary: investigation?.summary,
+        confidence: investigation?.confidence
+      };
+      nodes.set(id, node);
+    }
+    if (tree?.package) node.package = tree.package;
+    if (tree?.unresolved) node.unresolved = tree.unresolved;
+    return node;
+  };
+
+  const addEdge = (from: string, to: string, kind: GraphEdge['kind'], type: GraphEdgeType, line?: number) => {
+    const key = `${from}\0${to}\0${kind}\0${type}`;
+    const edge = edges.get(key) || { from, to, kind, type, count: 0 };
+    edge.count++;
+    if (line !== undefined) edge.lines = [...(edge.lines || []), line];
+    edges.set(key, edge);
+  };
+
+  const walk = (tree: DependencyNode) => {
+    for (const child of tree.children) {
+      addNode(child.file, 'dependency', child);
+      addEdge(tree.file, child.file, 'dependency', 'import');
+      walk(child);
+    }
+  };
+
+  addNode(root, 'root', result.dependencyTree);
+  walk(result.dependencyTree);
+
+  for (const ref of result.codebaseReferences) {
+    if (ref.file === root) continue;
+    addNode(ref.file, 'referrer');
+    addEdge(ref.file, root, 'reference', ref.type, ref.line);
+  }
+
+  return { root, nodes: [...nodes.values()], edges: [...edges.values()] };
+}
+
+/**
+ * Mermaid flowchart, for embedding in markdown reports
+ */
+export function toMermaid(graph: DeepDiveGraph): string {
+  const ids = new Map(graph.nodes.map((node, i) => [node.id, `n${i}`]));
+  const lines = ['graph LR'];
+
+  for (const node of graph.nodes) {
+    const label = [node.id, ...nodeDetails(node)].map(mermaidText).join('<br/>');
+    lines.push(`  ${ids.get(node.id)}["${label}"]:::${node.role === 'root' ? 'root' : node.investigated ? 'investigated' : node.role}`);
+  }
+
+  for (const edge of graph.edges) {
+    const from = ids.get(edge.from);
+    const to = ids.get(edge.to);
+    lines.push(edge.kind === 'dependency'
+      ? `  ${from} --> ${to}`
+      : `  ${from} -. "${mermaidText(edgeLabel(edge))}" .-> ${to}`);
+  }
+
+  lines.push(
+    '  classDef root fill:#f9d56e,stroke:#b58900,font-weight:bold',
+    '  classDef investigated fill:#b8e0c8,stroke:#2e7d4f',
+    '  classDef dependency fill:#eeeeee,stroke:#999999',
+    '  classDef referrer fill:#d6e4f5,stroke:#3d6fa8'
+  );
+  return lines.join('\n');
+}
+
+/**
+ * Graphviz DOT source, e.g. for `dot -Tsvg`
+ */
+export function toDot(graph: DeepDiveGraph): string {
+  const lines = [
+    'digraph deepDive {',
+    '  rankdir=LR;',
+    '  node [shape=box, style="rounded,filled", fontname="Helvetica", fontsize=10];',
+    '  edge [fontname="Helvetica", fontsize=9];'
+  ];
+
+  for (const node of graph.nodes) {
+    const label = [node.id, ...nodeDetails(node)].map(dotText).join('\\n');
+    const fill = node.role === 'root' ? '#f9d56e' : node.investigated ? '#b8e0c8' : node.role === 'referrer' ? '#d6e4f5' : '#eeeeee';
+    const tooltip = node.summary ? `, tooltip="${dotText(node.summary)}"` : '';
+    lines.push(`  "${dotText(node.id)}" [label="${label}", fillcolor="${fill}"${node.role === 'root' ? ', penwidth=2' : ''}${tooltip}];`);
+  }
+
+  for (const edge of graph.edges) {
+    const attributes = edge.kind === 'dependency'
+      ? ''
+      : ` [label="${dotText(edgeLabel(edge))}", style=dashed]`;
+    lines.push(`  "${dotText(edge.from)}" -> "${dotText(edge.to)}"${attributes};`);
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * "call ×3" for folded references, the type alone otherwise
+ */
+export function edgeLabel(edge: GraphEdge): string {
+  return edge.count > 1 ? `${edge.type} ×${edge.count}` : edge.type;
+}
+
+function nodeDetails(node: GraphNode): string[] {
+  const details: string[] = [];
+  if (node.package) details.push(node.package);
+  if (node.confidence !== undefined) details.push(`${node.confidence}% confidence`);
+  if (node.unresolved?.length) details.push(`${node.unresolved.length} unresolved import(s)`);
+  return details;
+}
+
+// Labels are single-line in both formats: line breaks become spaces
+
+function mermaidText(text: string): string {
+  return text.replace(/\r?\n/g, ' ').replace(/"/g, '#quot;').replace(/[<>]/g, c => (c === '<' ? '#lt;' : '#gt;'));
+}
+
+function dotText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, ' ');
+}
@@ -0,0 +1,182 @@
+/**
+ * Evidence Packer
+ * Ranks pieces of evidence by relevance to the selected lines and fills the
+ * Lead Detective's prompt up to a token budget, recording what was left out
+ */
+
+import { CodeSelection, DroppedEvidence } from './types';
+
+export const DEFAULT_CONTEXT_BUDGET = 200000; // Prompt tokens; leaves headroom for thinking and output
+
+export interface PackCandidate {
+  key: string;         // Unique within one prompt
+  evidenceId: string;
+  kind: DroppedEvidence['kind'];
+  label: string;       // Shown in the report when dropped
+  text: string;
+  relevance: number;   // Higher is packed first
+}
+
+export interface PackResult {
+  included: Set<string>;
+  dropped: DroppedEvidence[];
+  usedTokens: number;
+}
+
+export interface RelevanceContext {
+  filePath: string;
+  lineStart: number;
+  lineEnd: number;
+  identifiers: string[];
+}
+
+export interface DiffHunk {
+  file: string;
+  newStart: number;
+  newLines: number;
+  text: string;
+}
+
+// Words too common in code to say anything about relevance
+const STOP_WORDS = new Set([
+  'const', 'let', 'var', 'function', 'return', 'if', 'else', 'for', 'while', 'this', 'new', 'class',
+  'import', 'export', 'from', 'true', 'false', 'null', 'undefined', 'async', 'await', 'public',
+  'private', 'protected', 'static', 'void', 'string', 'number', 'boolean', 'def', 'self', 'none',
+  'func', 'type', 'interface', 'the', 'and', 'not', 'try', 'catch', 'throw', 'case', 'break',
+]);
+
+/**
+ * Rough token count (about four characters per token for code and English)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Distinctive identifiers in the selected code, most frequent first
+ */
+export function extractIdentifiers(code: string, max: number = 30): string[] {
+  const counts = new Map<string, number>();
+  for (const match of code.matchAll(/[A-Za-z_$][\w$]{2,}/g)) {
+    const word = match[0];
+    if (STOP_WORDS.has(word.toLowerCase())) continue;
+    counts.set(word, (counts.get(word) || 0) + 1);
+  }
+
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, max)
+    .map(([word]) => word);
+}
+
+export function relevanceContext(selection: CodeSelection): RelevanceContext {
+  return {
+    filePath: selection.filePath.replace(/\\/g, '/'),
+    lineStart: selection.lineStart,
+    lineEnd: selection.lineEnd,
+    identifiers: extractIdentifiers(selection.text),
+  };
+}
+
+/**
+ * Split a unified diff into hunks, each prefixed with its file header
+ */
+export function splitDiffHunks(diff: string): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let file = '';
+  let header = '';
+  let current: DiffHunk | null = null;
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      current = null;
+      file = line.replace(/^diff --git a\/.+? b\//, '');
+      header = line;
+      continue;
+    }
+
+    const hunkMatch = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+    if (hunkMatch) {
+      current = {
+        file,
+        newStart: parseInt(hunkMatch[1], 10),
+        newLines: hunkMatch[2] !== undefined ? parseInt(hunkMatch[2], 10) : 1,
+        text: `${header}\n${line}`,
+      };
+      hunks.push(current);
+    } else if (current) {
+      current.text += `\n${line}`;
+    } else if (file) {
+      header += `\n${line}`; // index/---/+++ lines, or a binary notice
+    }
+  }
+
+  return hunks;
+}
+
+/**
+ * How many of the selection's identifiers a piece of text mentions
+ */
+export function identifierMatches(text: string, context: RelevanceContext): number {
+  return context.identifiers.filter(id => text.includes(id)).length;
+}
+
+/**
+ * Hunks in the selected file rank first, above all those overlapping the
+ * selected lines; identifier mentions break ties elsewhere
+ */
+export function hunkRelevance(hunk: DiffHunk, context: RelevanceContext): number {
+  let score = 1;
+  if (isSameFile(hunk.file, context.filePath)) {
+    score += 3;
+    const end = hunk.newStart + Math.max(hunk.newLines, 1) - 1;
+    if (hunk.newStart <= context.lineEnd && end >= context.lineStart) score += 3;
+  }
+  return score + Math.min(3, identifierMatches(hunk.text, context) * 0.5);
+}
+
+/**
+ * Discussion text ranks by the identifiers and file name it mentions
+ */
+export function textRelevance(text: string, context: RelevanceContext, base: number = 1): number {
+  const fileName = context.filePath.split('/').pop() || context.filePath;
+  return base
+    + Math.min(3, identifierMatches(text, context) * 0.5)
+    + (text.includes(fileName) ? 1 : 0);
+}
+
+/**
+ * Greedily pack candidates by relevance (ties keep their original order)
+ * into the token budget
+ */
+export function packEvidence(candidates: PackCandidate[], budgetTokens: number): PackResult {
+  const ranked = candidates
+    .map((candidate, index) => ({ candidate, index, tokens: estimateTokens(candidate.text) }))
+    .sort((a, b) => b.candidate.relevance - a.candidate.relevance || a.index - b.index);
+
+  const included = new Set<string>();
+  const dropped: DroppedEvidence[] = [];
+  let usedTokens = 0;
+
+  for (const { candidate, tokens } of ranked) {
+    if (usedTokens + tokens <= budgetTokens) {
+      included.add(candidate.key);
+      usedTokens += tokens;
+    } else {
+      dropped.push({
+        evidenceId: candidate.evidenceId,
+        kind: candidate.kind,
+        label: candidate.label,
+        tokens,
+      });
+    }
+  }
+
+  return { included, dropped, usedTokens };
+}
+
+function isSameFile(a: string, b: string): boolean {
+  const x = a.replace(/\\/g, '/').replace(/^\.\//, '');
+  const y = b.replace(/\\/g, '/').replace(/^\.\//, '');
+  return x === y || x.endsWith(`/${y}`) || y.endsWith(`/${x}`);
+}
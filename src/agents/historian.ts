@@ -4,21 +4,58 @@
  */
 
 import simpleGit, { SimpleGit } from 'simple-git';
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
 import {
   BlameData,
+  BlameRange,
+  BlamedCommit,
   CommitInfo,
+  MechanicalReason,
+  SkippedCommit,
   AgentResponse,
   ThoughtSignature,
 } from './types';
+import { RemoteInfo, parseRemoteUrl, detectForgeType } from '../forges';
+import { parseCommitReferences } from './commitReferences';
+import { getCommitCache } from './commitCache';
+
+// Conventional file listing revisions blame should look past
+const IGNORE_REVS_FILE = '.git-blame-ignore-revs';
+
+// A commit touching at least this many files can count as mass reformatting
+const MASS_FORMAT_MIN_FILES = 10;
+
+// Separators for the batched log: each record starts with RS, fields are split by US
+const RECORD_SEPARATOR = '\x1e';
+const FIELD_SEPARATOR = '\x1f';
+const LOG_FORMAT = '--format=%x1e%H%x1f%an%x1f%ae%x1f%aI%x1f%B%x1f';
+
+// Hashes passed to one git log, keeping the command line well under OS limits
+const LOG_BATCH_SIZE = 500;
+
+const FORMATTING_MESSAGE = /\b(prettier|reformat\w*|format(ting|ted)?|lint(ing)?|eslint|black|gofmt|rustfmt|clang-format|code style|whitespace)\b/i;
+
+interface BlamedLine {
+  blame: BlameData;
+  summary: string;
+  filename: string;
+}
 
 export class HistorianAgent {
   private git: SimpleGit;
   private repoPath: string;
+  private signal?: AbortSignal;
   private stepCounter: number = 0;
 
-  constructor(repoPath: string) {
+  /**
+   * Aborting the signal kills any git process still running
+   */
+  constructor(repoPath: string, signal?: AbortSignal) {
     this.repoPath = repoPath;
-    this.git = simpleGit(repoPath);
+    this.signal = signal;
+    this.git = simpleGit({ baseDir: repoPath, abort: signal });
   }
 
   /**
@@ -53,37 +90,164 @@ export class HistorianAgent {
   }
 
   /**
-   * Get detailed commit information
+   * Blame every line of a range and group the lines by commit.
+   * Follows moves and copies (-M/-C) and honors .git-blame-ignore-revs.
    */
-  async getCommitInfo(commitHash: string): Promise<AgentResponse<CommitInfo>> {
+  async getBlameRange(
+    filePath: string,
+    startLine: number,
+    endLine: number,
+    ignoreRevs: string[] = []
+  ): Promise<AgentResponse<BlameRange>> {
     const startTime = Date.now();
-    
+
     try {
-      // Get commit message and metadata
-      const showOutput = await this.git.raw([
-        'show',
-        '--format=%H%n%an%n%ae%n%ad%n%s%n%b',
-        '--no-patch',
-        commitHash
+      const ignoreRevsFile = this.findIgnoreRevsFile();
+      const blameOutput = await this.git.raw([
+        'blame',
+        '-M', '-C',
+        ...(ignoreRevsFile ? ['--ignore-revs-file', ignoreRevsFile] : []),
+        ...ignoreRevs.flatMap(rev => ['--ignore-rev', rev]),
+        '-L', `${startLine},${endLine}`,
+        '--porcelain',
+        filePath
       ]);
 
-      // Get diff
-      const diffOutput = await this.git.raw([
-        'show',
-        '--format=',
-        commitHash
-      ]);
+      const lines = this.parseBlameRangeOutput(blameOutput);
 
-      // Get changed files
-      const filesOutput = await this.git.raw([
-        'diff-tree',
-        '--no-commit-id',
-        '--name-only',
-        '-r',
-        commitHash
-      ]);
+      return {
+        data: {
+          filePath,
+          lineStart: startLine,
+          lineEnd: endLine,
+          lines: lines.map(l => l.blame),
+          commits: this.groupBlameByCommit(lines, filePath),
+          ...(ignoreRevsFile && { ignoreRevsFile })
+        },
+        thoughtSignature: this.generateThoughtSignature(),
+        tokensUsed: 0,
+        latencyMs: Date.now() - startTime
+      };
+    } catch (error) {
+      throw new Error(`Failed to get blame for ${filePath}:${startLine}-${endLine}: ${error}`);
+    }
+  }
+
+  /**
+   * Blame a range, then keep blaming through mechanical commits (whitespace,
+   * pure renames, mass reformatting) until the lines land on the commits
+   * that introduced the logic. Skipped commits are recorded on the result.
+   */
+  async walkAncestry(
+    filePath: string,
+    startLine: number,
+    endLine: number,
+    maxSkips: number = 10
+  ): Promise<AgentResponse<BlameRange>> {
+    const startTime = Date.now();
+    const skipped: SkippedCommit[] = [];
+    const classified = new Set<string>();
+
+    let response = await this.getBlameRange(filePath, startLine, endLine);
+
+    while (skipped.length < maxSkips) {
+      const mechanical: SkippedCommit[] = [];
 
-      const commitInfo = this.parseCommitInfo(showOutput, diffOutput, filesOutput);
+      for (const commit of response.data.commits) {
+        // Commits git could not blame past are kept, so the walk terminates
+        if (classified.has(commit.commitHash) || /^0+$/.test(commit.commitHash)) continue;
+        classified.add(commit.commitHash);
+
+        const classification = await this.classifyCommit(commit.commitHash);
+        if (classification) {
+          mechanical.push({ commitHash: commit.commitHash, summary: commit.summary, ...classification });
+        }
+      }
+
+      if (mechanical.length === 0) break;
+
+      skipped.push(...mechanical.slice(0, maxSkips - skipped.length));
+      // --ignore-rev hands each line to the parent's version of it
+      response = await this.getBlameRange(
+        filePath, startLine, endLine, skipped.map(s => s.commitHash)
+      );
+    }
+
+    return {
+      data: { ...response.data, skipped },
+      thoughtSignature: this.generateThoughtSignature(),
+      tokensUsed: 0,
+      latencyMs: Date.now() - startTime
+    };
+  }
+
+  /**
+   * Decide whether a commit is mechanical (no change in logic).
+   * Returns null for commits that should be kept as real history.
+   */
+  async classifyCommit(
+    commitHash: string
+  ): Promise<{ reason: MechanicalReason; detail: string } | null> {
+    try {
+      // Root and merge commits are never skipped
+      const parents = (await this.git.raw(['rev-list', '--parents', '-n', '1', commitHash]))
+        .trim().split(' ').slice(1);
+      if (parents.length !== 1) return null;
+
+      const parent = parents[0];
+      const nameStatus = (await this.git.raw(['diff', '-M', '-C', '--name-status', parent, commitHash]))
+        .trim().split('\n').filter(l => l);
+      if (nameStatus.length === 0) return null;
+
+      if (nameStatus.every(l => /^[RC]100\t/.test(l))) {
+        return {
+          reason: 'rename',
+          detail: `${nameStatus.length} file${nameStatus.length === 1 ? '' : 's'} moved or renamed without edits`
+        };
+      }
+
+      const changedLines = this.sumNumstat(
+        await this.git.raw(['diff', '-M', '--numstat', parent, commitHash])
+      );
+      const significantLines = this.sumNumstat(
+        await this.git.raw(['diff', '-M', '-w', '--ignore-blank-lines', '--numstat', parent, commitHash])
+      );
+
+      if (significantLines === 0) {
+        return {
+          reason: 'whitespace',
+          detail: `${changedLines} changed lines, all whitespace`
+        };
+      }
+
+      const subject = (await this.git.raw(['log', '-1', '--format=%s', commitHash])).trim();
+      const looksLikeFormatting = FORMATTING_MESSAGE.test(subject)
+        || significantLines / changedLines < 0.1;
+
+      if (nameStatus.length >= MASS_FORMAT_MIN_FILES && looksLikeFormatting) {
+        return {
+          reason: 'mass-format',
+          detail: `${nameStatus.length} files touched, ${significantLines} of ${changedLines} changed lines beyond whitespace`
+        };
+      }
+
+      return null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Get detailed commit information
+   */
+  async getCommitInfo(commitHash: string): Promise<AgentResponse<CommitInfo>> {
+    const startTime = Date.now();
+    
+    try {
+      const [commitInfo] = await this.fetchCommits([commitHash]);
+      if (!commitInfo) {
+        throw new Error('commit not found');
+      }
       
       return {
         data: commitInfo,
@@ -96,6 +260,24 @@ export class HistorianAgent {
     }
   }
 
+  /**
+   * Get several commits, in the order given
+   */
+  async getCommits(commitHashes: string[]): Promise<AgentResponse<CommitInfo[]>> {
+    const startTime = Date.now();
+
+    try {
+      return {
+        data: await this.fetchCommits(commitHashes),
+        thoughtSignature: this.generateThoughtSignature(),
+        tokensUsed: 0,
+        latencyMs: Date.now() - startTime
+      };
+    } catch (error) {
+      throw new Error(`Failed to get ${commitHashes.length} commits: ${error}`);
+    }
+  }
+
   /**
    * Get full file history (for 1M token context window usage)
    */
@@ -117,13 +299,7 @@ export class HistorianAgent {
       ]);
 
       const commitHashes = logOutput.trim().split('\n').filter(h => h);
-      
-      // Fetch details for each commit
-      const commits: CommitInfo[] = [];
-      for (const hash of commitHashes) {
-        const response = await this.getCommitInfo(hash);
-        commits.push(response.data);
-      }
+      const commits = await this.fetchCommits(commitHashes);
 
       return {
         data: commits,
@@ -155,12 +331,7 @@ export class HistorianAgent {
       ]);
 
       const commitHashes = [...new Set(logOutput.trim().split('\n').filter(h => h))];
-      
-      const commits: CommitInfo[] = [];
-      for (const hash of commitHashes.slice(0, 20)) { // Limit to 20 commits
-        const response = await this.getCommitInfo(hash);
-        commits.push(response.data);
-      }
+      const commits = await this.fetchCommits(commitHashes.slice(0, 20)); // Limit to 20 commits
 
       return {
         data: commits,
@@ -174,12 +345,36 @@ export class HistorianAgent {
   }
 
   /**
-   * Get repository remote info (owner/repo for GitHub)
+   * Get repository remote info (forge, host, owner/repo). Every remote is
+   * considered: origin first, then upstream, then the rest; a remote on a
+   * recognizable forge wins over one that is not.
    */
-  async getRemoteInfo(): Promise<{ owner: string; repo: string } | null> {
+  async getRemoteInfo(): Promise<RemoteInfo | null> {
     try {
-      const remoteOutput = await this.git.raw(['remote', 'get-url', 'origin']);
-      return this.parseRemoteUrl(remoteOutput.trim());
+      const remoteOutput = await this.git.raw(['remote', '-v']);
+      const remotes = new Map<string, string>();
+      for (const line of remoteOutput.split('\n')) {
+        const match = line.match(/^(\S+)\s+(\S+)/);
+        if (match && !remotes.has(match[1])) remotes.set(match[1], match[2]);
+      }
+
+      const rank = (name: string) => name === 'origin' ? 0 : name === 'upstream' ? 1 : 2;
+      const candidates: RemoteInfo[] = [...remotes.entries()]
+        .sort(([a], [b]) => rank(a) - rank(b))
+        .map(([name, url]) => {
+          const parsed = parseRemoteUrl(url);
+          return parsed && {
+            name,
+            url,
+            host: parsed.host,
+            owner: parsed.owner,
+            repo: parsed.repo,
+            forge: detectForgeType(parsed.host)
+          };
+        })
+        .filter((r): r is RemoteInfo => r !== null);
+
+      return candidates.find(r => r.forge) || candidates[0] || null;
     } catch {
       return null;
     }
@@ -221,38 +416,211 @@ export class HistorianAgent {
     };
   }
 
-  private parseCommitInfo(
-    showOutput: string,
-    diffOutput: string,
-    filesOutput: string
-  ): CommitInfo {
-    const lines = showOutput.trim().split('\n');
-    
-    return {
-      hash: lines[0] || '',
-      author: lines[1] || '',
-      authorEmail: lines[2] || '',
-      date: new Date(lines[3] || ''),
-      message: lines.slice(4).join('\n').trim(),
-      diff: diffOutput,
-      changedFiles: filesOutput.trim().split('\n').filter(f => f)
-    };
+  /**
+   * Parse multi-line porcelain blame. Commit metadata is only printed the
+   * first time a commit appears, so it is remembered per hash.
+   */
+  private parseBlameRangeOutput(output: string): BlamedLine[] {
+    const meta = new Map<string, { author: string; authorEmail: string; timestamp: Date; summary: string; filename: string }>();
+    const result: BlamedLine[] = [];
+    let commitHash = '';
+    let lineNumber = 0;
+
+    for (const line of output.split('\n')) {
+      const header = line.match(/^([a-f0-9]{40}) \d+ (\d+)/);
+      if (header) {
+        commitHash = header[1];
+        lineNumber = parseInt(header[2], 10);
+        if (!meta.has(commitHash)) {
+          meta.set(commitHash, { author: '', authorEmail: '', timestamp: new Date(), summary: '', filename: '' });
+        }
+        continue;
+      }
+
+      const current = meta.get(commitHash);
+      if (!current) continue;
+
+      if (line.startsWith('author ')) {
+        current.author = line.substring(7);
+      } else if (line.startsWith('author-mail ')) {
+        current.authorEmail = line.substring(12).replace(/[<>]/g, '');
+      } else if (line.startsWith('author-time ')) {
+        current.timestamp = new Date(parseInt(line.substring(12)) * 1000);
+      } else if (line.startsWith('summary ')) {
+        current.summary = line.substring(8);
+      } else if (line.startsWith('filename ')) {
+        current.filename = current.filename || line.substring(9);
+      } else if (line.startsWith('\t')) {
+        result.push({
+          blame: {
+            commitHash,
+            author: current.author,
+            authorEmail: current.authorEmail,
+            timestamp: current.timestamp,
+            lineNumber,
+            lineContent: line.substring(1)
+          },
+          summary: current.summary,
+          filename: current.filename
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Group blamed lines by commit, ranked by how many lines each owns
+   */
+  private groupBlameByCommit(lines: BlamedLine[], filePath: string): BlamedCommit[] {
+    const commits = new Map<string, BlamedCommit>();
+
+    for (const { blame, summary, filename } of lines) {
+      let commit = commits.get(blame.commitHash);
+      if (!commit) {
+        commit = {
+          commitHash: blame.commitHash,
+          author: blame.author,
+          authorEmail: blame.authorEmail,
+          timestamp: blame.timestamp,
+          summary,
+          lineCount: 0,
+          lineNumbers: [],
+          ...(filename && filename !== filePath && { originalPath: filename })
+        };
+        commits.set(blame.commitHash, commit);
+      }
+      commit.lineCount++;
+      commit.lineNumbers.push(blame.lineNumber);
+    }
+
+    return [...commits.values()].sort((a, b) =>
+      b.lineCount - a.lineCount || b.timestamp.getTime() - a.timestamp.getTime()
+    );
+  }
+
+  private findIgnoreRevsFile(): string | null {
+    const file = path.join(this.repoPath, IGNORE_REVS_FILE);
+    return fs.existsSync(file) ? file : null;
   }
 
-  private parseRemoteUrl(url: string): { owner: string; repo: string } | null {
-    // Handle HTTPS URLs: https://github.com/owner/repo.git
-    const httpsMatch = url.match(/github\.com\/([^/]+)\/([^/.]+)/);
-    if (httpsMatch) {
-      return { owner: httpsMatch[1], repo: httpsMatch[2] };
+  /**
+   * Total added + deleted lines in `git diff --numstat` output
+   * (binary files report "-" and are ignored)
+   */
+  private sumNumstat(output: string): number {
+    return output.trim().split('\n').filter(l => l).reduce((sum, line) => {
+      const [added, deleted] = line.split('\t');
+      return sum + (parseInt(added, 10) || 0) + (parseInt(deleted, 10) || 0);
+    }, 0);
+  }
+
+  /**
+   * Commits already in the shared cache are reused; the rest come from
+   * one streamed `git log`
+   */
+  private async fetchCommits(commitHashes: string[]): Promise<CommitInfo[]> {
+    const cache = getCommitCache();
+    const found = new Map<string, CommitInfo>();
+    const missing: string[] = [];
+
+    for (const hash of new Set(commitHashes)) {
+      const cached = cache.get(this.repoPath, hash);
+      if (cached) {
+        found.set(hash, cached);
+      } else {
+        missing.push(hash);
+      }
     }
 
-    // Handle SSH URLs: git@github.com:owner/repo.git
-    const sshMatch = url.match(/github\.com:([^/]+)\/([^/.]+)/);
-    if (sshMatch) {
-      return { owner: sshMatch[1], repo: sshMatch[2] };
+    for (let i = 0; i < missing.length; i += LOG_BATCH_SIZE) {
+      const batch = missing.slice(i, i + LOG_BATCH_SIZE);
+      // Merges are diffed against their first parent; plain -p prints nothing for them
+      await this.streamLog(
+        ['--no-walk=unsorted', '--numstat', '-p', '-m', '--first-parent', '--no-renames', ...batch],
+        commit => {
+          cache.set(this.repoPath, commit);
+          // Requests may use abbreviated hashes
+          const requested = batch.find(hash => commit.hash.startsWith(hash));
+          if (requested) found.set(requested, commit);
+        }
+      );
     }
 
-    return null;
+    return commitHashes
+      .map(hash => found.get(hash))
+      .filter((commit): commit is CommitInfo => commit !== undefined);
+  }
+
+  /**
+   * Run `git log` with the record format and hand each commit to onCommit
+   * as soon as it has been read, so the whole output is never buffered
+   */
+  private streamLog(args: string[], onCommit: (commit: CommitInfo) => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(
+        'git',
+        ['-c', 'core.quotePath=false', 'log', LOG_FORMAT, ...args],
+        { cwd: this.repoPath, signal: this.signal }
+      );
+
+      let pending = '';
+      let stderr = '';
+      child.stdout.setEncoding('utf-8');
+      child.stdout.on('data', (chunk: string) => {
+        pending += chunk;
+        // Everything before the last separator is a complete record
+        const last = pending.lastIndexOf(RECORD_SEPARATOR);
+        if (last <= 0) return;
+        for (const record of pending.substring(0, last).split(RECORD_SEPARATOR)) {
+          if (record) onCommit(this.parseLogRecord(record));
+        }
+        pending = pending.substring(last);
+      });
+      child.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+
+      child.on('error', reject);
+      child.on('close', code => {
+        if (code !== 0) {
+          reject(new Error(stderr.trim() || `git log exited with code ${code}`));
+          return;
+        }
+        for (const record of pending.split(RECORD_SEPARATOR)) {
+          if (record) onCommit(this.parseLogRecord(record));
+        }
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Parse one record: header fields, then numstat lines, then the patch
+   */
+  private parseLogRecord(record: string): CommitInfo {
+    const fields = record.split(FIELD_SEPARATOR);
+    const [hash, author, authorEmail, date, body] = fields;
+    const rest = fields.slice(5).join(FIELD_SEPARATOR);
+    const message = body.trim();
+    const { coAuthors, reviewers } = parseCommitReferences(message);
+
+    const patchStart = rest.search(/^diff /m);
+    const numstat = patchStart === -1 ? rest : rest.substring(0, patchStart);
+    const changedFiles = numstat.split('\n')
+      .map(line => line.match(/^(?:\d+|-)\t(?:\d+|-)\t(.+)$/))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map(match => match[1]);
+    
+    return {
+      hash,
+      author,
+      authorEmail,
+      date: new Date(date),
+      message,
+      diff: patchStart === -1 ? '' : rest.substring(patchStart),
+      changedFiles,
+      ...(coAuthors.length > 0 && { coAuthors }),
+      ...(reviewers.length > 0 && { reviewers })
+    };
   }
 
   private generateThoughtSignature(): ThoughtSignature {
@@ -0,0 +1,40 @@
+import { CIncludeResolver } from '../c';
+import { removeRepo, writeRepo } from './repoTree';
+
+describe('CIncludeResolver', () => {
+  let repo: string;
+
+  beforeAll(() => {
+    repo = writeRepo({
+      'CMakeLists.txt': 'project(engine C)\ntarget_include_directories(engine PUBLIC ${CMAKE_CURRENT_SOURCE_DIR}/api "${GENERATED_DIR}")\n',
+      'api/engine/engine.h': '',
+      'include/common.h': '',
+      'src/engine.c': '',
+      'src/internal.h': '',
+      'third_party/lib/lib.h': '',
+    });
+  });
+
+  afterAll(() => removeRepo(repo));
+
+  it('extracts quoted and angle-bracket includes with their delimiters', () => {
+    const resolver = new CIncludeResolver(repo);
+
+    expect(resolver.extractImports('#include <stdio.h>\n#  include "internal.h"\n')).toEqual(['<stdio.h>', '"internal.h"']);
+  });
+
+  it('looks next to the file for quoted includes, then in the include directories', () => {
+    const resolver = new CIncludeResolver(repo);
+    const from = 'src/engine.c';
+
+    expect(resolver.resolve('"internal.h"', from)).toEqual(['src/internal.h']);
+    expect(resolver.resolve('<internal.h>', from)).toEqual(['src/internal.h']);
+    expect(resolver.resolve('<common.h>', from)).toEqual(['include/common.h']);
+    expect(resolver.resolve('<engine/engine.h>', from)).toEqual(['api/engine/engine.h']);
+    expect(resolver.resolve('<stdio.h>', from)).toEqual([]);
+  });
+
+  it('names the CMake project', () => {
+    expect(new CIncludeResolver(repo).packageOf('src/engine.c')).toBe('engine');
+  });
+});
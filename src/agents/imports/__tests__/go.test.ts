@@ -0,0 +1,46 @@
+import { GoResolver } from '../go';
+import { removeRepo, writeRepo } from './repoTree';
+
+describe('GoResolver', () => {
+  let repo: string;
+
+  beforeAll(() => {
+    repo = writeRepo({
+      'go.work': 'go 1.22\n\nuse (\n\t./api\n\t./shared // common types\n)\n',
+      'api/go.mod': 'module github.com/acme/api\n\ngo 1.22\n\nreplace github.com/acme/legacy => ../legacy\n',
+      'api/main.go': '',
+      'api/handlers/user.go': '',
+      'api/handlers/order.go': '',
+      'api/handlers/user_test.go': '',
+      'shared/go.mod': 'module github.com/acme/shared\n',
+      'shared/types/types.go': '',
+      'legacy/client.go': '',
+    });
+  });
+
+  afterAll(() => removeRepo(repo));
+
+  it('extracts single and grouped imports, aliases included', () => {
+    const resolver = new GoResolver(repo);
+    const content = 'package main\n\nimport "fmt"\nimport (\n\t"os"\n\th "github.com/acme/api/handlers"\n\t_ "embed"\n)\n';
+
+    expect(resolver.extractImports(content)).toEqual(['fmt', 'os', 'github.com/acme/api/handlers', 'embed']);
+  });
+
+  it('resolves packages of the module, the workspace and local replacements', () => {
+    const resolver = new GoResolver(repo);
+
+    expect(resolver.resolve('github.com/acme/api/handlers', 'api/main.go'))
+      .toEqual(['api/handlers/order.go', 'api/handlers/user.go']);
+    expect(resolver.resolve('github.com/acme/shared/types', 'api/main.go')).toEqual(['shared/types/types.go']);
+    expect(resolver.resolve('github.com/acme/legacy', 'api/main.go')).toEqual(['legacy/client.go']);
+    expect(resolver.resolve('fmt', 'api/main.go')).toEqual([]);
+  });
+
+  it('names the module from the nearest go.mod', () => {
+    const resolver = new GoResolver(repo);
+
+    expect(resolver.packageOf('api/handlers/user.go')).toBe('github.com/acme/api');
+    expect(resolver.packageOf('shared/types/types.go')).toBe('github.com/acme/shared');
+  });
+});
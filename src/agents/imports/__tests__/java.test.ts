@@ -0,0 +1,56 @@
+import { JavaResolver } from '../java';
+import { removeRepo, writeRepo } from './repoTree';
+
+describe('JavaResolver', () => {
+  let repo: string;
+
+  beforeAll(() => {
+    repo = writeRepo({
+      'pom.xml': '<project><parent><artifactId>acme-parent</artifactId></parent><artifactId>orders</artifactId></project>',
+      'src/main/java/com/acme/orders/OrderService.java': 'package com.acme.orders;\n',
+      'src/main/java/com/acme/orders/Order.java': 'package com.acme.orders;\n',
+      'src/main/java/com/acme/util/Money.java': 'package com.acme.util;\n',
+      'src/test/java/com/acme/orders/OrderServiceTest.java': 'package com.acme.orders;\n',
+      'tools/build.gradle': '',
+      'tools/com/acme/tools/Cli.java': 'package com.acme.tools;\n',
+      'tools/com/acme/tools/Args.java': 'package com.acme.tools;\n',
+    });
+  });
+
+  afterAll(() => removeRepo(repo));
+
+  it('extracts class, wildcard and static imports', () => {
+    const resolver = new JavaResolver(repo);
+    const content = 'package x;\nimport java.util.List;\nimport com.acme.orders.*;\nimport static com.acme.util.Money.of;\n';
+
+    expect(resolver.extractImports(content)).toEqual(['java.util.List', 'com.acme.orders.*', 'com.acme.util.Money.of']);
+  });
+
+  it('resolves classes, nested classes, static members and packages across source roots', () => {
+    const resolver = new JavaResolver(repo);
+    const from = 'src/test/java/com/acme/orders/OrderServiceTest.java';
+
+    expect(resolver.resolve('com.acme.orders.OrderService', from)).toEqual(['src/main/java/com/acme/orders/OrderService.java']);
+    expect(resolver.resolve('com.acme.orders.Order.Status', from)).toEqual(['src/main/java/com/acme/orders/Order.java']);
+    expect(resolver.resolve('com.acme.util.Money.of', from)).toEqual(['src/main/java/com/acme/util/Money.java']);
+    expect(resolver.resolve('com.acme.orders.*', from)).toEqual([
+      'src/test/java/com/acme/orders/OrderServiceTest.java',
+      'src/main/java/com/acme/orders/Order.java',
+      'src/main/java/com/acme/orders/OrderService.java'
+    ]);
+    expect(resolver.resolve('java.util.List', from)).toEqual([]);
+  });
+
+  it('uses the root implied by the package declaration', () => {
+    const resolver = new JavaResolver(repo);
+
+    expect(resolver.resolve('com.acme.tools.Args', 'tools/com/acme/tools/Cli.java')).toEqual(['tools/com/acme/tools/Args.java']);
+  });
+
+  it('names the Maven artifact or Gradle project', () => {
+    const resolver = new JavaResolver(repo);
+
+    expect(resolver.packageOf('src/main/java/com/acme/util/Money.java')).toBe('orders');
+    expect(resolver.packageOf('tools/com/acme/tools/Cli.java')).toBe('tools');
+  });
+});
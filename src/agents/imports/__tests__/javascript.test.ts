@@ -0,0 +1,133 @@
+import { ImportResolver, JavaScriptResolver, resolveExports } from '..';
+import { removeRepo, writeRepo } from './repoTree';
+
+const json = (value: unknown) => JSON.stringify(value, null, 2);
+
+describe('JavaScriptResolver', () => {
+  let repo: string;
+
+  beforeAll(() => {
+    repo = writeRepo({
+      'package.json': json({ name: 'acme', private: true, workspaces: ['packages/*'] }),
+      'packages/core/package.json': json({
+        name: '@acme/core',
+        main: 'dist/index.js',
+        exports: { '.': { types: './dist/index.d.ts', import: './dist/index.js' }, './utils/*': './dist/utils/*.js' }
+      }),
+      'packages/core/src/index.ts': 'export * from "./utils/format";\n',
+      'packages/core/src/utils/format.ts': 'export const format = () => "";\n',
+      'packages/legacy/package.json': json({ name: 'legacy', main: 'lib/main.js' }),
+      'packages/legacy/lib/main.js': 'module.exports = {};\n',
+      'packages/app/package.json': json({ name: 'app' }),
+      'packages/app/tsconfig.json': json({ compilerOptions: { baseUrl: '.', paths: { '@/*': ['src/*'], 'config': ['src/config/index.ts'] } } }),
+      'packages/app/src/config/index.ts': 'export default {};\n',
+      'packages/app/src/routes.ts': 'export const routes = [];\n',
+      'packages/app/src/main.ts': 'import { routes } from "./routes.js";\n',
+    });
+  });
+
+  afterAll(() => removeRepo(repo));
+
+  it('extracts every import form once', () => {
+    const resolver = new JavaScriptResolver(repo);
+    const content = 'import a from "a";\nexport * from "./b";\nimport "./c.css";\nrequire(\'d\');\nimport(\'./a\');\nimport a2 from "a";';
+
+    expect(resolver.extractImports(content)).toEqual(['a', './b', './c.css', 'd', './a']);
+  });
+
+  it('follows relative imports, output extensions and tsconfig paths', () => {
+    const resolver = new JavaScriptResolver(repo);
+    const from = 'packages/app/src/main.ts';
+
+    expect(resolver.resolve('./routes.js', from)).toEqual(['packages/app/src/routes.ts']);
+    expect(resolver.resolve('config', from)).toEqual(['packages/app/src/config/index.ts']);
+    expect(resolver.resolve('@/config', from)).toEqual(['packages/app/src/config/index.ts']);
+  });
+
+  it('maps workspace package entry points back to their sources', () => {
+    const resolver = new JavaScriptResolver(repo);
+    const from = 'packages/app/src/main.ts';
+
+    expect(resolver.resolve('@acme/core', from)).toEqual(['packages/core/src/index.ts']);
+    expect(resolver.resolve('@acme/core/utils/format', from)).toEqual(['packages/core/src/utils/format.ts']);
+    expect(resolver.resolve('legacy', from)).toEqual(['packages/legacy/lib/main.js']);
+  });
+
+  it('leaves builtins and third-party packages unresolved', () => {
+    const resolver = new JavaScriptResolver(repo);
+
+    expect(resolver.resolve('fs', 'packages/app/src/main.ts')).toEqual([]);
+    expect(resolver.resolve('node:path', 'packages/app/src/main.ts')).toEqual([]);
+    expect(resolver.resolve('lodash', 'packages/app/src/main.ts')).toEqual([]);
+  });
+
+  it('labels files with the nearest package name', () => {
+    const resolver = new JavaScriptResolver(repo);
+
+    expect(resolver.packageOf('packages/core/src/utils/format.ts')).toBe('@acme/core');
+    expect(resolver.packageOf('packages/app/src/main.ts')).toBe('app');
+  });
+
+  it('finds pnpm workspace packages', () => {
+    const pnpmRepo = writeRepo({
+      'package.json': json({ name: 'root' }),
+      'pnpm-workspace.yaml': 'packages:\n  - "libs/*"\n  - \'!libs/skip\'\n',
+      'libs/ui/package.json': json({ name: '@acme/ui' }),
+      'libs/ui/src/index.tsx': 'export {};\n',
+      'libs/skip/package.json': json({ name: '@acme/skip' }),
+      'libs/skip/index.js': '',
+      'app.ts': 'import "@acme/ui";\n',
+    });
+    try {
+      const resolver = new JavaScriptResolver(pnpmRepo);
+      expect(resolver.resolve('@acme/ui', 'app.ts')).toEqual(['libs/ui/src/index.tsx']);
+      expect(resolver.resolve('@acme/skip', 'app.ts')).toEqual([]);
+    } finally {
+      removeRepo(pnpmRepo);
+    }
+  });
+});
+
+describe('ImportResolver', () => {
+  it('labels resolved imports with their package and lists the rest as unresolved', () => {
+    const repo = writeRepo({
+      'package.json': json({ name: 'acme', workspaces: ['packages/*'] }),
+      'packages/core/package.json': json({ name: '@acme/core' }),
+      'packages/core/src/index.ts': '',
+      'src/main.ts': 'import "./util";\nimport "./util.js";\nimport "@acme/core";\nimport "react";\n',
+      'src/util.ts': '',
+    });
+    try {
+      const edges = new ImportResolver(repo).resolveImports('src/main.ts');
+
+      expect(edges.resolved).toEqual([
+        { specifier: './util', file: 'src/util.ts', package: 'acme' },
+        { specifier: '@acme/core', file: 'packages/core/src/index.ts', package: '@acme/core' }
+      ]);
+      expect(edges.unresolved).toEqual(['react']);
+    } finally {
+      removeRepo(repo);
+    }
+  });
+});
+
+describe('resolveExports', () => {
+  it('picks the subpath, pattern and condition', () => {
+    const exports = {
+      '.': { require: './dist/index.cjs', import: './dist/index.mjs' },
+      './feature/*': { source: './src/feature/*.ts', default: './dist/feature/*.js' },
+      './internal/*': null
+    };
+
+    expect(resolveExports(exports, '.')).toBe('./dist/index.mjs');
+    expect(resolveExports(exports, './feature/a')).toBe('./src/feature/a.ts');
+    expect(resolveExports(exports, './internal/x')).toBeNull();
+    expect(resolveExports(exports, './missing')).toBeNull();
+  });
+
+  it('treats a string or condition object as the main export', () => {
+    expect(resolveExports('./index.js', '.')).toBe('./index.js');
+    expect(resolveExports({ node: './node.js', default: './browser.js' }, '.')).toBe('./node.js');
+    expect(resolveExports('./index.js', './sub')).toBeNull();
+  });
+});
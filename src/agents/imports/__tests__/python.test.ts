@@ -0,0 +1,70 @@
+import { PythonResolver } from '../python';
+import { removeRepo, writeRepo } from './repoTree';
+
+describe('PythonResolver', () => {
+  let repo: string;
+
+  beforeAll(() => {
+    repo = writeRepo({
+      'pyproject.toml': '[project]\nname = "billing"\n',
+      'src/billing/__init__.py': '',
+      'src/billing/models.py': '',
+      'src/billing/api/__init__.py': '',
+      'src/billing/api/views.py': '',
+      'src/billing/api/serializers.py': '',
+      'src/billing/types.pyi': '',
+      'tools/setup.cfg': '[metadata]\nname = billing-tools\n',
+      'tools/lint/__init__.py': '',
+      'tools/lint/rules.py': '',
+    });
+  });
+
+  afterAll(() => removeRepo(repo));
+
+  it('extracts plain and from-imports, with aliases and parentheses', () => {
+    const resolver = new PythonResolver(repo);
+    const content = [
+      'import os, billing.models as m',
+      'from . import serializers',
+      'from ..models import (',
+      '    Invoice,',
+      '    Payment as P,',
+      ')',
+      'from billing.api import *  # noqa',
+    ].join('\n');
+
+    expect(resolver.extractImports(content)).toEqual([
+      'os',
+      'billing.models',
+      'from . import serializers',
+      'from ..models import Invoice, Payment',
+      'from billing.api import *',
+    ]);
+  });
+
+  it('resolves absolute imports from the src/ root and stubs', () => {
+    const resolver = new PythonResolver(repo);
+    const from = 'src/billing/api/views.py';
+
+    expect(resolver.resolve('billing.models', from)).toEqual(['src/billing/models.py']);
+    expect(resolver.resolve('billing.api', from)).toEqual(['src/billing/api/__init__.py']);
+    expect(resolver.resolve('billing.types', from)).toEqual(['src/billing/types.pyi']);
+    expect(resolver.resolve('requests', from)).toEqual([]);
+  });
+
+  it('resolves relative imports to submodules, else to the module itself', () => {
+    const resolver = new PythonResolver(repo);
+    const from = 'src/billing/api/views.py';
+
+    expect(resolver.resolve('from . import serializers', from)).toEqual(['src/billing/api/serializers.py']);
+    expect(resolver.resolve('from ..models import Invoice, Payment', from)).toEqual(['src/billing/models.py']);
+    expect(resolver.resolve('from billing.api import *', from)).toEqual(['src/billing/api/__init__.py']);
+  });
+
+  it('names the project from pyproject.toml or setup.cfg', () => {
+    const resolver = new PythonResolver(repo);
+
+    expect(resolver.packageOf('src/billing/models.py')).toBe('billing');
+    expect(resolver.packageOf('tools/lint/rules.py')).toBe('billing-tools');
+  });
+});
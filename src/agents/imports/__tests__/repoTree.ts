@@ -0,0 +1,25 @@
+/**
+ * Throwaway repositories for import resolver tests
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Write files (repo-relative path -> content) into a new temporary
+ * directory and return its path; remove it with removeRepo
+ */
+export function writeRepo(files: Record<string, string>): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'imports-'));
+  for (const [file, content] of Object.entries(files)) {
+    const fullPath = path.join(root, file);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  }
+  return root;
+}
+
+export function removeRepo(root: string): void {
+  fs.rmSync(root, { recursive: true, force: true });
+}
@@ -0,0 +1,63 @@
+import { RustResolver } from '../rust';
+import { removeRepo, writeRepo } from './repoTree';
+
+describe('RustResolver', () => {
+  let repo: string;
+
+  beforeAll(() => {
+    repo = writeRepo({
+      'Cargo.toml': '[workspace]\nmembers = [\n  "crates/*",\n]\n',
+      'crates/server/Cargo.toml': '[package]\nname = "server"\n',
+      'crates/server/src/main.rs': '',
+      'crates/server/src/routes.rs': '',
+      'crates/server/src/routes/users.rs': '',
+      'crates/server/src/db/mod.rs': '',
+      'crates/server/src/db/pool.rs': '',
+      'crates/acme-core/Cargo.toml': '[package]\nname = "acme-core"\n',
+      'crates/acme-core/src/lib.rs': '',
+      'crates/acme-core/src/money.rs': '',
+    });
+  });
+
+  afterAll(() => removeRepo(repo));
+
+  it('extracts mod declarations and expands use trees', () => {
+    const resolver = new RustResolver(repo);
+    const content = 'mod routes;\npub(crate) mod db;\nuse std::io;\nuse crate::db::{pool::{self, Pool as P}, mod_a};\n';
+
+    expect(resolver.extractImports(content)).toEqual([
+      'mod routes',
+      'mod db',
+      'use std::io',
+      'use crate::db::pool',
+      'use crate::db::pool::Pool',
+      'use crate::db::mod_a'
+    ]);
+  });
+
+  it('follows mod declarations to name.rs and name/mod.rs', () => {
+    const resolver = new RustResolver(repo);
+
+    expect(resolver.resolve('mod routes', 'crates/server/src/main.rs')).toEqual(['crates/server/src/routes.rs']);
+    expect(resolver.resolve('mod db', 'crates/server/src/main.rs')).toEqual(['crates/server/src/db/mod.rs']);
+    expect(resolver.resolve('mod users', 'crates/server/src/routes.rs')).toEqual(['crates/server/src/routes/users.rs']);
+  });
+
+  it('resolves crate, super and sibling paths to the module that defines the item', () => {
+    const resolver = new RustResolver(repo);
+    const from = 'crates/server/src/db/pool.rs';
+
+    expect(resolver.resolve('use crate::routes::users::list', from)).toEqual(['crates/server/src/routes/users.rs']);
+    expect(resolver.resolve('use super::Config', from)).toEqual(['crates/server/src/db/mod.rs']);
+    expect(resolver.resolve('use routes::users', 'crates/server/src/main.rs')).toEqual(['crates/server/src/routes/users.rs']);
+    expect(resolver.resolve('use std::io', from)).toEqual([]);
+  });
+
+  it('resolves other workspace crates by their code name', () => {
+    const resolver = new RustResolver(repo);
+
+    expect(resolver.resolve('use acme_core::money::Money', 'crates/server/src/main.rs')).toEqual(['crates/acme-core/src/money.rs']);
+    expect(resolver.resolve('use acme_core::Error', 'crates/server/src/main.rs')).toEqual(['crates/acme-core/src/lib.rs']);
+    expect(resolver.packageOf('crates/acme-core/src/money.rs')).toBe('acme-core');
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * C/C++ Include Resolver
+ * Resolves `#include "x.h"` next to the including file first, then both
+ * quoted and `<x.h>` includes against the repo's include directories:
+ * include/ and inc/ folders and CMake `include_directories` entries
+ */
+
+import * as path from 'path';
+import { LanguageResolver } from './types';
+import { findDirectories, findUp, isFile, readText, repoRelative } from './files';
+
+const SOURCE_FILE = /\.(c|h|cc|cpp|cxx|hh|hpp|hxx)$/;
+const CMAKE_KEYWORDS = new Set(['PUBLIC', 'PRIVATE', 'INTERFACE', 'SYSTEM', 'BEFORE', 'AFTER']);
+
+export class CIncludeResolver implements LanguageResolver {
+  private repoPath: string;
+  private includeDirs: string[] | null = null;
+
+  constructor(repoPath: string) {
+    this.repoPath = path.resolve(repoPath);
+  }
+
+  supports(filePath: string): boolean {
+    return SOURCE_FILE.test(filePath);
+  }
+
+  /**
+   * Specifiers keep their delimiters: "x.h" or <x.h>
+   */
+  extractImports(content: string): string[] {
+    return [...new Set(
+      [...content.matchAll(/^\s*#\s*include\s*([<"][^>"\n]+[>"])/gm)].map(m => m[1])
+    )];
+  }
+
+  resolve(specifier: string, fromFile: string): string[] {
+    const name = specifier.slice(1, -1);
+    const dirs = specifier.startsWith('"')
+      ? [path.dirname(path.join(this.repoPath, fromFile)), ...this.includeDirectories()]
+      : this.includeDirectories();
+
+    for (const dir of dirs) {
+      const file = path.join(dir, name);
+      if (isFile(file)) {
+        const relative = repoRelative(this.repoPath, file);
+        return relative ? [relative] : [];
+      }
+    }
+    return []; // System or third-party header
+  }
+
+  /**
+   * The `project()` name from the nearest CMakeLists.txt
+   */
+  packageOf(filePath: string): string | undefined {
+    const cmake = findUp(this.repoPath, path.dirname(path.join(this.repoPath, filePath)), ['CMakeLists.txt']);
+    const content = cmake && readText(cmake);
+    return content?.match(/^\s*project\s*\(\s*([\w.-]+)/im)?.[1];
+  }
+
+  private includeDirectories(): string[] {
+    if (this.includeDirs) return this.includeDirs;
+
+    const conventional = findDirectories(this.repoPath, relative => /(^|\/)(include|inc)$/.test(relative));
+    const fromCMake = findDirectories(this.repoPath, (_relative, dir) => isFile(path.join(dir, 'CMakeLists.txt')))
+      .flatMap(dir => this.cmakeIncludeDirectories(dir));
+
+    this.includeDirs = [...new Set([this.repoPath, ...conventional, ...fromCMake, path.join(this.repoPath, 'src')])];
+    return this.includeDirs;
+  }
+
+  private cmakeIncludeDirectories(dir: string): string[] {
+    const content = readText(path.join(dir, 'CMakeLists.txt')) || '';
+    const dirs: string[] = [];
+
+    for (const match of content.matchAll(/\b(target_)?include_directories\s*\(([^)]*)\)/gi)) {
+      const args = match[2].split(/\s+/).filter(arg => arg);
+      // target_include_directories names the target first
+      for (const arg of match[1] ? args.slice(1) : args) {
+        if (CMAKE_KEYWORDS.has(arg)) continue;
+        const relative = arg
+          .replace(/^"|"$/g, '')
+          .replace(/^\$\{(CMAKE_CURRENT_SOURCE_DIR|CMAKE_CURRENT_LIST_DIR|PROJECT_SOURCE_DIR)\}\/?/, '');
+        if (relative.includes('${') || relative.startsWith('$<')) continue; // Generated or unknown
+        dirs.push(path.resolve(dir, relative || '.'));
+      }
+    }
+    return dirs;
+  }
+}
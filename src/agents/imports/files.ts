@@ -0,0 +1,131 @@
+/**
+ * File helpers shared by the language resolvers
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Dependency, build and tooling directories never searched for sources
+const SKIPPED_DIRS = new Set([
+  'node_modules', 'vendor', 'target', 'build', 'dist', 'out', 'coverage',
+  'venv', '.venv', '__pycache__', 'site-packages',
+]);
+
+export function isFile(file: string): boolean {
+  try {
+    return fs.statSync(file).isFile();
+  } catch {
+    return false;
+  }
+}
+
+export function isDirectory(dir: string): boolean {
+  try {
+    return fs.statSync(dir).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+export function readText(file: string): string | null {
+  try {
+    return fs.readFileSync(file, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Repo-relative path of an absolute file, or null when it lies outside
+ * the repo or inside a dependency directory
+ */
+export function repoRelative(repoPath: string, file: string): string | null {
+  const relative = path.relative(repoPath, file);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) return null;
+  if (relative.split(path.sep).some(part => SKIPPED_DIRS.has(part))) return null;
+  return relative;
+}
+
+/**
+ * First file of the given names found walking up from a directory,
+ * stopping at the repo root
+ */
+export function findUp(repoPath: string, fromDir: string, names: string[]): string | null {
+  for (let dir = fromDir; ; dir = path.dirname(dir)) {
+    for (const name of names) {
+      const candidate = path.join(dir, name);
+      if (isFile(candidate)) return candidate;
+    }
+    if (dir === repoPath || path.dirname(dir) === dir || path.relative(repoPath, dir).startsWith('..')) {
+      return null;
+    }
+  }
+}
+
+/**
+ * Directories under root (root included) accepted by the predicate, which
+ * gets the directory's path relative to root with forward slashes
+ */
+export function findDirectories(
+  root: string,
+  predicate: (relative: string, dir: string) => boolean,
+  maxDepth: number = 6
+): string[] {
+  const found: string[] = [];
+
+  const walk = (dir: string, depth: number) => {
+    if (predicate(path.relative(root, dir).split(path.sep).join('/'), dir)) found.push(dir);
+    if (depth >= maxDepth) return;
+
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      if (entry.isDirectory() && !entry.name.startsWith('.') && !SKIPPED_DIRS.has(entry.name)) {
+        walk(path.join(dir, entry.name), depth + 1);
+      }
+    }
+  };
+
+  walk(root, 0);
+  return found;
+}
+
+/**
+ * Files in one directory (not recursive) accepted by the predicate, as
+ * repo-relative paths in name order
+ */
+export function filesIn(repoPath: string, dir: string, predicate: (name: string) => boolean): string[] {
+  try {
+    return fs.readdirSync(dir, { withFileTypes: true })
+      .filter(entry => entry.isFile() && predicate(entry.name))
+      .map(entry => repoRelative(repoPath, path.join(dir, entry.name)))
+      .filter((file): file is string => file !== null)
+      .sort();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * A string value from a TOML file, looked up by key within one of the
+ * given tables (e.g. `name` under `[package]`). Enough for manifest names;
+ * not a TOML parser.
+ */
+export function tomlString(content: string, tables: string[], key: string): string | undefined {
+  let table = '';
+  for (const line of content.split('\n')) {
+    const header = line.match(/^\s*\[\s*([^\]]+?)\s*\]/);
+    if (header) {
+      table = header[1];
+      continue;
+    }
+    if (!tables.includes(table)) continue;
+    const match = line.match(new RegExp(`^\\s*${key}\\s*=\\s*["']([^"']+)["']`));
+    if (match) return match[1];
+  }
+  return undefined;
+}
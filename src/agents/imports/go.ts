@@ -0,0 +1,113 @@
+/**
+ * Go Import Resolver
+ * Maps import paths to package directories through go.mod module paths,
+ * go.work workspaces and local `replace` directives
+ */
+
+import * as path from 'path';
+import { LanguageResolver } from './types';
+import { filesIn, findUp, isFile, readText } from './files';
+
+interface GoModule {
+  path: string;   // Module path, e.g. github.com/acme/api
+  dir: string;    // Absolute directory the module path maps to
+}
+
+export class GoResolver implements LanguageResolver {
+  private repoPath: string;
+  private modules = new Map<string, GoModule[]>();
+
+  constructor(repoPath: string) {
+    this.repoPath = path.resolve(repoPath);
+  }
+
+  supports(filePath: string): boolean {
+    return filePath.endsWith('.go');
+  }
+
+  extractImports(content: string): string[] {
+    const specifiers: string[] = [];
+
+    for (const match of content.matchAll(/^import\s+(?:[\w.]+\s+)?"([^"]+)"/gm)) {
+      specifiers.push(match[1]);
+    }
+    for (const block of content.matchAll(/^import\s*\(([\s\S]*?)\)/gm)) {
+      for (const line of block[1].split('\n')) {
+        const match = line.match(/^\s*(?:[\w.]+\s+)?"([^"]+)"/);
+        if (match) specifiers.push(match[1]);
+      }
+    }
+
+    return [...new Set(specifiers)];
+  }
+
+  /**
+   * Every non-test file of the imported package
+   */
+  resolve(specifier: string, fromFile: string): string[] {
+    // Longest module path first, so nested modules win over their parent
+    const modules = [...this.modulesFor(fromFile)].sort((a, b) => b.path.length - a.path.length);
+
+    for (const module of modules) {
+      if (specifier === module.path || specifier.startsWith(`${module.path}/`)) {
+        const dir = path.join(module.dir, specifier.substring(module.path.length));
+        return filesIn(this.repoPath, dir, name => name.endsWith('.go') && !name.endsWith('_test.go'));
+      }
+    }
+    return [];
+  }
+
+  /**
+   * The module path from the nearest go.mod
+   */
+  packageOf(filePath: string): string | undefined {
+    const goMod = findUp(this.repoPath, path.dirname(path.join(this.repoPath, filePath)), ['go.mod']);
+    return goMod ? this.readModules(goMod)[0]?.path : undefined;
+  }
+
+  /**
+   * The importing file's module, its local replacements, and the other
+   * modules of a go.work workspace
+   */
+  private modulesFor(fromFile: string): GoModule[] {
+    const fromDir = path.dirname(path.join(this.repoPath, fromFile));
+    const goMod = findUp(this.repoPath, fromDir, ['go.mod']);
+    const goWork = findUp(this.repoPath, fromDir, ['go.work']);
+
+    const modules = goMod ? [...this.readModules(goMod)] : [];
+    const work = goWork && readText(goWork);
+    if (work) {
+      const uses = [
+        ...[...work.matchAll(/^use\s+(\S+)\s*$/gm)].map(m => m[1]),
+        ...[...work.matchAll(/^use\s*\(([\s\S]*?)\)/gm)].flatMap(m =>
+          m[1].split('\n').map(line => line.replace(/\/\/.*$/, '').trim()).filter(line => line)),
+      ];
+      for (const use of uses) {
+        const usedGoMod = path.join(path.dirname(goWork!), use.replace(/^"|"$/g, ''), 'go.mod');
+        if (isFile(usedGoMod)) modules.push(...this.readModules(usedGoMod));
+      }
+    }
+    return modules;
+  }
+
+  /**
+   * The module declared in a go.mod, then its `replace ... => ./local` targets
+   */
+  private readModules(goMod: string): GoModule[] {
+    if (this.modules.has(goMod)) return this.modules.get(goMod)!;
+
+    const content = readText(goMod) || '';
+    const dir = path.dirname(goMod);
+    const modules: GoModule[] = [];
+
+    const name = content.match(/^module\s+"?([^\s"]+)"?/m);
+    if (name) modules.push({ path: name[1], dir });
+
+    for (const match of content.matchAll(/^\s*(?:replace\s+)?(\S+)(?:\s+v\S+)?\s+=>\s+(\.{1,2}\/\S*|\/\S+)\s*$/gm)) {
+      modules.push({ path: match[1], dir: path.resolve(dir, match[2]) });
+    }
+
+    this.modules.set(goMod, modules);
+    return modules;
+  }
+}
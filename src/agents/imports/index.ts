@@ -0,0 +1,80 @@
+/**
+ * Import Resolution
+ * Follows a file's imports to other files in the repo, using the resolver
+ * for its language (JS/TS, Python, Go, Java, Rust, C/C++), and labels each
+ * with the package it belongs to
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ImportEdges, LanguageResolver } from './types';
+import { JavaScriptResolver } from './javascript';
+import { PythonResolver } from './python';
+import { GoResolver } from './go';
+import { JavaResolver } from './java';
+import { RustResolver } from './rust';
+import { CIncludeResolver } from './c';
+
+export class ImportResolver {
+  private repoPath: string;
+  private resolvers: LanguageResolver[];
+
+  constructor(repoPath: string) {
+    this.repoPath = repoPath;
+    this.resolvers = [
+      new JavaScriptResolver(repoPath),
+      new PythonResolver(repoPath),
+      new GoResolver(repoPath),
+      new JavaResolver(repoPath),
+      new RustResolver(repoPath),
+      new CIncludeResolver(repoPath),
+    ];
+  }
+
+  /**
+   * Repo files imported by a (repo-relative) file, without duplicates, and
+   * the imports that did not resolve to any
+   */
+  resolveImports(filePath: string): ImportEdges {
+    const edges: ImportEdges = { resolved: [], unresolved: [] };
+    const resolver = this.resolverFor(filePath);
+    if (!resolver) return edges;
+
+    let content: string;
+    try {
+      content = fs.readFileSync(path.join(this.repoPath, filePath), 'utf-8');
+    } catch {
+      return edges;
+    }
+
+    const seen = new Set<string>([filePath]);
+    for (const specifier of resolver.extractImports(content, filePath)) {
+      const files = resolver.resolve(specifier, filePath);
+      if (files.length === 0) {
+        edges.unresolved.push(specifier);
+      }
+      for (const file of files) {
+        if (seen.has(file)) continue;
+        seen.add(file);
+        edges.resolved.push({ specifier, file, package: resolver.packageOf(file) });
+      }
+    }
+    return edges;
+  }
+
+  packageOf(filePath: string): string | undefined {
+    return this.resolverFor(filePath)?.packageOf(filePath);
+  }
+
+  private resolverFor(filePath: string): LanguageResolver | undefined {
+    return this.resolvers.find(r => r.supports(filePath));
+  }
+}
+
+export { LanguageResolver, ResolvedImport, ImportEdges } from './types';
+export { JavaScriptResolver, resolveExports } from './javascript';
+export { PythonResolver } from './python';
+export { GoResolver } from './go';
+export { JavaResolver } from './java';
+export { RustResolver } from './rust';
+export { CIncludeResolver } from './c';
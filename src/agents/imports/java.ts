@@ -0,0 +1,104 @@
+/**
+ * Java Import Resolver
+ * Maps fully qualified imports onto source roots: Maven/Gradle layouts
+ * (src/main/java, src/test/java) plus the root implied by the importing
+ * file's own `package` declaration
+ */
+
+import * as path from 'path';
+import { LanguageResolver } from './types';
+import { filesIn, findDirectories, findUp, isDirectory, isFile, readText, repoRelative } from './files';
+
+const SOURCE_ROOT = /(^|\/)src\/(main|test)\/java$/;
+
+export class JavaResolver implements LanguageResolver {
+  private repoPath: string;
+  private layoutRoots: string[] | null = null;
+
+  constructor(repoPath: string) {
+    this.repoPath = path.resolve(repoPath);
+  }
+
+  supports(filePath: string): boolean {
+    return filePath.endsWith('.java');
+  }
+
+  extractImports(content: string): string[] {
+    return [...new Set(
+      [...content.matchAll(/^\s*import\s+(?:static\s+)?([\w.]+(?:\.\*)?)\s*;/gm)].map(m => m[1])
+    )];
+  }
+
+  /**
+   * A class import resolves to its file (nested classes and static members
+   * to the outer class); a wildcard to every file in the package, from
+   * every source root it spans (src/main/java and src/test/java)
+   */
+  resolve(specifier: string, fromFile: string): string[] {
+    const roots = this.rootsFor(fromFile);
+    const wildcard = specifier.endsWith('.*');
+    const parts = (wildcard ? specifier.slice(0, -2) : specifier).split('.');
+
+    if (wildcard) {
+      const dirs = roots.map(root => path.join(root, ...parts)).filter(isDirectory);
+      if (dirs.length > 0) {
+        return [...new Set(dirs.flatMap(dir => filesIn(this.repoPath, dir, name => name.endsWith('.java'))))];
+      }
+    }
+
+    // `import static a.b.C.*` and `a.b.C.Inner` both live in a/b/C.java
+    for (let length = parts.length; length >= 2; length--) {
+      for (const root of roots) {
+        const file = path.join(root, ...parts.slice(0, length)) + '.java';
+        if (isFile(file)) {
+          const relative = repoRelative(this.repoPath, file);
+          return relative ? [relative] : [];
+        }
+      }
+    }
+    return [];
+  }
+
+  /**
+   * The Maven artifactId or Gradle project directory owning the file
+   */
+  packageOf(filePath: string): string | undefined {
+    const fileDir = path.dirname(path.join(this.repoPath, filePath));
+    const build = findUp(this.repoPath, fileDir, ['pom.xml', 'build.gradle', 'build.gradle.kts']);
+    if (!build) return undefined;
+
+    if (build.endsWith('pom.xml')) {
+      const pom = (readText(build) || '').replace(/<parent>[\s\S]*?<\/parent>/, '');
+      const artifactId = pom.match(/<artifactId>\s*([^<\s]+)\s*<\/artifactId>/);
+      if (artifactId) return artifactId[1];
+    }
+    return path.basename(path.dirname(build));
+  }
+
+  private rootsFor(fromFile: string): string[] {
+    const roots: string[] = [];
+
+    // com/acme/Foo.java declaring `package com.acme;` sits two levels below its root
+    const fullPath = path.join(this.repoPath, fromFile);
+    const declared = (readText(fullPath) || '').match(/^\s*package\s+([\w.]+)\s*;/m);
+    if (declared) {
+      const packageDir = path.join(...declared[1].split('.'));
+      const fileDir = path.dirname(fullPath);
+      if (fileDir.endsWith(path.sep + packageDir)) {
+        roots.push(fileDir.substring(0, fileDir.length - packageDir.length - 1));
+      }
+    }
+
+    return [...new Set([...roots, ...this.layoutRootsOf()])];
+  }
+
+  private layoutRootsOf(): string[] {
+    if (!this.layoutRoots) {
+      this.layoutRoots = findDirectories(this.repoPath, relative => SOURCE_ROOT.test(relative), 8);
+      if (this.layoutRoots.length === 0) {
+        this.layoutRoots = [path.join(this.repoPath, 'src'), this.repoPath].filter(isDirectory);
+      }
+    }
+    return this.layoutRoots;
+  }
+}
@@ -0,0 +1,431 @@
+/**
+ * JavaScript/TypeScript Import Resolver
+ * Follows relative imports, tsconfig `paths`/`baseUrl` aliases, workspace
+ * packages (npm, yarn and pnpm) and package.json `exports`/`main`. Entry
+ * points under a build directory are mapped back to their sources when
+ * those exist, so unbuilt monorepos resolve too.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { builtinModules } from 'module';
+import * as ts from 'typescript';
+import { LanguageResolver } from './types';
+
+const SOURCE_FILE = /\.(ts|tsx|mts|cts|js|jsx|mjs|cjs)$/;
+const EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+// Compiled ESM imports name the output (`./foo.js`) while the source is `./foo.ts`
+const OUTPUT_TO_SOURCE: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts'],
+};
+
+// Build output directories whose sources usually live in src/
+const BUILD_DIRS = ['dist', 'lib', 'build', 'out', 'esm', 'cjs'];
+
+// package.json `exports` conditions in order of preference, sources first
+const EXPORT_CONDITIONS = ['source', 'import', 'module', 'require', 'node', 'default', 'types'];
+
+// import ... from, export ... from, import 'x', import('x') and require('x')
+const IMPORT_PATTERN = /(?:\bfrom|\bimport\s*\(|\brequire\s*\(|^\s*import)\s*['"]([^'"\n]+)['"]/gm;
+
+// An `exports` value: a path, a subpath or condition map, or fallbacks in order
+export type PackageExports = string | Record<string, unknown> | unknown[];
+
+// The package.json fields read here; parsed as-is, so each is checked before use
+interface PackageManifest {
+  name?: string;
+  workspaces?: string[] | { packages?: string[] };
+  exports?: PackageExports;
+  source?: string;
+  module?: string;
+  main?: string;
+  types?: string;
+  typings?: string;
+}
+
+interface WorkspacePackage {
+  name: string;
+  dir: string;      // Absolute
+  manifest: PackageManifest;
+}
+
+interface PathMapping {
+  paths?: ts.MapLike<string[]>;
+  baseUrl?: string;
+  pathsBase: string;  // Directory `paths` targets are relative to
+}
+
+export class JavaScriptResolver implements LanguageResolver {
+  private repoPath: string;
+  private manifests = new Map<string, PackageManifest | null>();
+  private configs = new Map<string, PathMapping | null>();
+  private packages: Map<string, WorkspacePackage> | null = null;
+
+  constructor(repoPath: string) {
+    this.repoPath = path.resolve(repoPath);
+  }
+
+  supports(filePath: string): boolean {
+    return SOURCE_FILE.test(filePath);
+  }
+
+  extractImports(content: string): string[] {
+    return [...new Set([...content.matchAll(IMPORT_PATTERN)].map(m => m[1]))];
+  }
+
+  resolve(specifier: string, fromFile: string): string[] {
+    const fromDir = path.dirname(path.join(this.repoPath, fromFile));
+
+    if (specifier.startsWith('.') || specifier.startsWith('/')) {
+      return this.found(this.resolveFile(path.resolve(fromDir, specifier)));
+    }
+    // Node builtins win over same-named packages
+    if (specifier.startsWith('node:') || builtinModules.includes(specifier.split('/')[0])) return [];
+
+    const aliased = this.resolveAlias(specifier, fromDir);
+    if (aliased) return [aliased];
+
+    return this.found(this.resolvePackage(specifier));
+  }
+
+  /**
+   * The `name` of the nearest package.json above the file
+   */
+  packageOf(filePath: string): string | undefined {
+    for (let dir = path.dirname(path.join(this.repoPath, filePath)); ; dir = path.dirname(dir)) {
+      const name = this.manifest(dir)?.name;
+      if (typeof name === 'string') return name;
+      if (dir === this.repoPath || path.dirname(dir) === dir) return undefined;
+    }
+  }
+
+  // ============================================
+  // tsconfig paths / baseUrl
+  // ============================================
+
+  private resolveAlias(specifier: string, fromDir: string): string | null {
+    const mapping = this.pathMapping(fromDir);
+    if (!mapping) return null;
+
+    if (mapping.paths) {
+      // An exact key wins, then the pattern with the longest prefix
+      let best: { key: string; star: string; prefixLength: number } | null = null;
+      for (const key of Object.keys(mapping.paths)) {
+        const star = key.indexOf('*');
+        if (star === -1) {
+          if (key === specifier) {
+            best = { key, star: '', prefixLength: Infinity };
+            break;
+          }
+          continue;
+        }
+
+        const prefix = key.substring(0, star);
+        const suffix = key.substring(star + 1);
+        if (
+          specifier.startsWith(prefix) && specifier.endsWith(suffix) &&
+          specifier.length >= prefix.length + suffix.length &&
+          (!best || prefix.length > best.prefixLength)
+        ) {
+          best = { key, star: specifier.substring(prefix.length, specifier.length - suffix.length), prefixLength: prefix.length };
+        }
+      }
+
+      if (best) {
+        for (const target of mapping.paths[best.key]) {
+          const file = this.resolveFile(path.resolve(mapping.pathsBase, target.replace('*', best.star)));
+          if (file) return file;
+        }
+      }
+    }
+
+    return mapping.baseUrl ? this.resolveFile(path.resolve(mapping.baseUrl, specifier)) : null;
+  }
+
+  /**
+   * Path mapping from the nearest tsconfig.json/jsconfig.json inside the
+   * repo, following `extends`
+   */
+  private pathMapping(dir: string): PathMapping | null {
+    if (this.configs.has(dir)) return this.configs.get(dir)!;
+
+    let mapping: PathMapping | null = null;
+    const configFile = ['tsconfig.json', 'jsconfig.json']
+      .map(name => path.join(dir, name))
+      .find(file => fs.existsSync(file));
+
+    if (configFile) {
+      mapping = this.readPathMapping(configFile);
+    } else if (dir !== this.repoPath && path.dirname(dir) !== dir) {
+      mapping = this.pathMapping(path.dirname(dir));
+    }
+
+    this.configs.set(dir, mapping);
+    return mapping;
+  }
+
+  private readPathMapping(configFile: string): PathMapping | null {
+    const { config, error } = ts.readConfigFile(configFile, ts.sys.readFile);
+    if (error) return null;
+
+    // Only compiler options are needed, so skip listing the project's files
+    const host: ts.ParseConfigHost = { ...ts.sys, readDirectory: () => [] };
+    const { options } = ts.parseJsonConfigFileContent(config, host, path.dirname(configFile), undefined, configFile);
+    if (!options.paths && !options.baseUrl) return null;
+
+    return {
+      paths: options.paths,
+      baseUrl: options.baseUrl,
+      // Set by the parser to the directory of the config that declared `paths`
+      pathsBase: options.baseUrl || (options.pathsBasePath as string | undefined) || path.dirname(configFile),
+    };
+  }
+
+  // ============================================
+  // Workspace packages
+  // ============================================
+
+  private resolvePackage(specifier: string): string | null {
+    const parts = specifier.split('/');
+    const nameLength = specifier.startsWith('@') ? 2 : 1;
+    const pkg = this.workspacePackages().get(parts.slice(0, nameLength).join('/'));
+    if (!pkg) return null; // Third-party dependency
+
+    const subpath = parts.length > nameLength ? `./${parts.slice(nameLength).join('/')}` : '.';
+    const manifest = pkg.manifest;
+
+    if (manifest.exports !== undefined) {
+      const target = resolveExports(manifest.exports, subpath);
+      if (target) {
+        const file = this.resolveBuiltFile(pkg.dir, path.join(pkg.dir, target));
+        if (file) return file;
+      }
+    }
+
+    if (subpath === '.') {
+      for (const field of ['source', 'module', 'main', 'types', 'typings'] as const) {
+        const entry = manifest[field];
+        if (typeof entry !== 'string') continue;
+        const file = this.resolveBuiltFile(pkg.dir, path.join(pkg.dir, entry));
+        if (file) return file;
+      }
+      return this.resolveFile(path.join(pkg.dir, 'src', 'index')) || this.resolveFile(path.join(pkg.dir, 'index'));
+    }
+
+    return this.resolveBuiltFile(pkg.dir, path.join(pkg.dir, subpath));
+  }
+
+  /**
+   * Packages named in the root `workspaces` (npm, yarn) and
+   * pnpm-workspace.yaml, plus the root package itself
+   */
+  private workspacePackages(): Map<string, WorkspacePackage> {
+    if (this.packages) return this.packages;
+
+    const root = this.manifest(this.repoPath);
+    const patterns: string[] = [
+      ...(Array.isArray(root?.workspaces) ? root.workspaces : root?.workspaces?.packages || []),
+      ...this.pnpmWorkspacePatterns(),
+    ];
+
+    const excluded = new Set(
+      patterns.filter(p => p.startsWith('!')).flatMap(p => this.expandPattern(p.substring(1)))
+    );
+    const dirs = [this.repoPath, ...patterns.filter(p => !p.startsWith('!')).flatMap(p => this.expandPattern(p))];
+
+    this.packages = new Map();
+    for (const dir of dirs) {
+      if (excluded.has(dir)) continue;
+      const manifest = this.manifest(dir);
+      if (typeof manifest?.name === 'string' && !this.packages.has(manifest.name)) {
+        this.packages.set(manifest.name, { name: manifest.name, dir, manifest });
+      }
+    }
+    return this.packages;
+  }
+
+  private pnpmWorkspacePatterns(): string[] {
+    const file = path.join(this.repoPath, 'pnpm-workspace.yaml');
+    if (!fs.existsSync(file)) return [];
+
+    const patterns: string[] = [];
+    let inPackages = false;
+    for (const line of fs.readFileSync(file, 'utf-8').split('\n')) {
+      if (/^packages\s*:/.test(line)) {
+        inPackages = true;
+      } else if (inPackages) {
+        const item = line.match(/^\s*-\s*['"]?([^'"#]+?)['"]?\s*(?:#.*)?$/);
+        if (item) {
+          patterns.push(item[1]);
+        } else if (/^\S/.test(line)) {
+          inPackages = false;
+        }
+      }
+    }
+    return patterns;
+  }
+
+  /**
+   * Directories matching a workspace glob (`*` is one level, `**` any depth)
+   */
+  private expandPattern(pattern: string): string[] {
+    const segments = pattern.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/+$/, '').split('/');
+    let dirs = [this.repoPath];
+
+    for (const segment of segments) {
+      if (segment === '**') {
+        dirs = dirs.flatMap(dir => [dir, ...this.subdirectories(dir, 5)]);
+      } else if (segment.includes('*')) {
+        const matcher = new RegExp(`^${segment.split('*').map(escapeRegExp).join('[^/]*')}$`);
+        dirs = dirs.flatMap(dir => this.subdirectories(dir, 1).filter(d => matcher.test(path.basename(d))));
+      } else {
+        dirs = dirs.map(dir => path.join(dir, segment));
+      }
+    }
+
+    return dirs.filter(dir => fs.existsSync(path.join(dir, 'package.json')));
+  }
+
+  private subdirectories(dir: string, depth: number): string[] {
+    if (depth <= 0) return [];
+    try {
+      return fs.readdirSync(dir, { withFileTypes: true })
+        .filter(entry => entry.isDirectory() && entry.name !== 'node_modules' && !entry.name.startsWith('.'))
+        .flatMap(entry => {
+          const child = path.join(dir, entry.name);
+          return [child, ...this.subdirectories(child, depth - 1)];
+        });
+    } catch {
+      return [];
+    }
+  }
+
+  // ============================================
+  // Files
+  // ============================================
+
+  /**
+   * Prefer the source of a built entry point: dist/index.js and
+   * dist/index.d.ts both map to src/index.ts
+   */
+  private resolveBuiltFile(packageDir: string, target: string): string | null {
+    const withoutDeclaration = target.replace(/\.d\.[mc]?ts$/, '');
+    const [first, ...rest] = path.relative(packageDir, withoutDeclaration).split(path.sep);
+
+    if (BUILD_DIRS.includes(first) && rest.length > 0) {
+      const source = this.resolveFile(path.join(packageDir, 'src', ...rest));
+      if (source) return source;
+    }
+
+    return this.resolveFile(target) || this.resolveFile(withoutDeclaration);
+  }
+
+  /**
+   * Resolve an absolute path the way bundlers do (source extensions first,
+   * then the path as written, added extensions, then a directory index)
+   * to a repo-relative file
+   */
+  private resolveFile(target: string): string | null {
+    const extension = path.extname(target);
+    const stem = target.substring(0, target.length - extension.length);
+    const candidates = [
+      ...(OUTPUT_TO_SOURCE[extension] || []).map(ext => stem + ext),
+      target,
+      ...EXTENSIONS.map(ext => target + ext),
+      ...EXTENSIONS.map(ext => path.join(target, `index${ext}`)),
+    ];
+
+    for (const candidate of candidates) {
+      const relative = path.relative(this.repoPath, candidate);
+      if (relative.startsWith('..') || relative.split(path.sep).includes('node_modules')) continue;
+      try {
+        if (fs.statSync(candidate).isFile()) return relative;
+      } catch {
+        // Try the next candidate
+      }
+    }
+    return null;
+  }
+
+  private found(file: string | null): string[] {
+    return file ? [file] : [];
+  }
+
+  private manifest(dir: string): PackageManifest | null {
+    if (!this.manifests.has(dir)) {
+      let manifest: PackageManifest | null = null;
+      try {
+        manifest = JSON.parse(fs.readFileSync(path.join(dir, 'package.json'), 'utf-8')) as PackageManifest;
+      } catch {
+        // No package.json, or unreadable
+      }
+      this.manifests.set(dir, manifest);
+    }
+    return this.manifests.get(dir) ?? null;
+  }
+}
+
+/**
+ * Target of a package subpath ("." or "./feature") in an `exports` field,
+ * including `*` patterns; null when the package does not export it
+ */
+export function resolveExports(exports: PackageExports, subpath: string): string | null {
+  const isSubpathMap = !!exports && typeof exports === 'object' && !Array.isArray(exports)
+    && Object.keys(exports).some(key => key.startsWith('.'));
+  if (!isSubpathMap) {
+    // A string, array or condition object is shorthand for "."
+    return subpath === '.' ? resolveConditions(exports) : null;
+  }
+
+  if (subpath in exports) return resolveConditions(exports[subpath]);
+
+  let best: { key: string; star: string; prefixLength: number } | null = null;
+  for (const key of Object.keys(exports)) {
+    const star = key.indexOf('*');
+    if (star === -1) continue;
+    const prefix = key.substring(0, star);
+    const suffix = key.substring(star + 1);
+    if (
+      subpath.startsWith(prefix) && subpath.endsWith(suffix) &&
+      subpath.length >= prefix.length + suffix.length &&
+      (!best || prefix.length > best.prefixLength)
+    ) {
+      best = { key, star: subpath.substring(prefix.length, subpath.length - suffix.length), prefixLength: prefix.length };
+    }
+  }
+
+  if (!best) return null;
+  const target = resolveConditions(exports[best.key]);
+  return target && target.replace(/\*/g, best.star);
+}
+
+function resolveConditions(target: unknown): string | null {
+  if (typeof target === 'string') return target;
+  if (Array.isArray(target)) {
+    for (const item of target) {
+      const resolved = resolveConditions(item);
+      if (resolved) return resolved;
+    }
+    return null;
+  }
+  if (target && typeof target === 'object') {
+    const map = target as Record<string, unknown>;
+    const conditions = [
+      ...EXPORT_CONDITIONS.filter(c => c in map),
+      ...Object.keys(map).filter(c => !EXPORT_CONDITIONS.includes(c)),
+    ];
+    for (const condition of conditions) {
+      const resolved = resolveConditions(map[condition]);
+      if (resolved) return resolved;
+    }
+  }
+  return null; // null targets exclude a subpath
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,147 @@
+/**
+ * Python Import Resolver
+ * Follows absolute imports from the repo's source roots and relative
+ * (`from . import x`) imports from the importing package
+ */
+
+import * as path from 'path';
+import { LanguageResolver } from './types';
+import { findDirectories, findUp, isFile, readText, repoRelative, tomlString } from './files';
+
+const IMPORT = /^[ \t]*import[ \t]+([\w. \t,]+)/gm;
+const FROM_IMPORT = /^[ \t]*from[ \t]+(\.*[\w.]*)[ \t]+import[ \t]+(\([^)]*\)|[^\n#;]+)/gm;
+
+export class PythonResolver implements LanguageResolver {
+  private repoPath: string;
+  private projectRoots: string[] | null = null;
+
+  constructor(repoPath: string) {
+    this.repoPath = path.resolve(repoPath);
+  }
+
+  supports(filePath: string): boolean {
+    return /\.pyi?$/.test(filePath);
+  }
+
+  /**
+   * `import a.b` gives "a.b"; `from m import x, y` is kept whole, since x
+   * and y may be submodules or names defined in m
+   */
+  extractImports(content: string): string[] {
+    const specifiers: string[] = [];
+
+    for (const match of content.matchAll(IMPORT)) {
+      for (const module of match[1].split(',')) {
+        const name = module.trim().split(/\s+as\s+/)[0].trim();
+        if (name) specifiers.push(name);
+      }
+    }
+
+    for (const match of content.matchAll(FROM_IMPORT)) {
+      const names = match[2].replace(/[()]/g, '').split(',')
+        .map(name => name.trim().split(/\s+as\s+/)[0].trim())
+        .filter(name => name);
+      specifiers.push(`from ${match[1]} import ${names.join(', ')}`);
+    }
+
+    return [...new Set(specifiers)];
+  }
+
+  resolve(specifier: string, fromFile: string): string[] {
+    const fromImport = specifier.match(/^from (\S+) import (.+)$/);
+    if (!fromImport) return this.resolveModule(specifier, fromFile);
+
+    const [, module, names] = fromImport;
+    const submodules = names.split(', ')
+      .filter(name => name !== '*')
+      .flatMap(name => this.resolveModule(module.endsWith('.') ? module + name : `${module}.${name}`, fromFile));
+    return submodules.length > 0 ? [...new Set(submodules)] : this.resolveModule(module, fromFile);
+  }
+
+  /**
+   * The project name from pyproject.toml or setup.cfg, else the top-level
+   * package the file is in
+   */
+  packageOf(filePath: string): string | undefined {
+    const fileDir = path.dirname(path.join(this.repoPath, filePath));
+
+    const manifest = findUp(this.repoPath, fileDir, ['pyproject.toml', 'setup.cfg']);
+    const content = manifest && readText(manifest);
+    if (content) {
+      const name = manifest!.endsWith('.toml')
+        ? tomlString(content, ['project', 'tool.poetry'], 'name')
+        : content.match(/^\s*name\s*=\s*(\S+)/m)?.[1];
+      if (name) return name;
+    }
+
+    const top = this.topPackageDir(fileDir);
+    return top ? path.basename(top) : undefined;
+  }
+
+  private resolveModule(module: string, fromFile: string): string[] {
+    const fromDir = path.dirname(path.join(this.repoPath, fromFile));
+    const dots = module.match(/^\.*/)![0].length;
+    const parts = module.substring(dots).split('.').filter(part => part);
+
+    if (dots > 0) {
+      // One dot is the importing package, each further dot its parent
+      let dir = fromDir;
+      for (let i = 1; i < dots; i++) dir = path.dirname(dir);
+      const file = this.moduleFile(dir, parts);
+      return file ? [file] : [];
+    }
+
+    for (const root of this.rootsFor(fromDir)) {
+      const file = this.moduleFile(root, parts);
+      if (file) return [file];
+    }
+    return [];
+  }
+
+  /**
+   * a/b.py or a/b/__init__.py (stubs too) under a directory
+   */
+  private moduleFile(dir: string, parts: string[]): string | null {
+    const base = path.join(dir, ...parts);
+    const candidates = parts.length > 0
+      ? [`${base}.py`, `${base}.pyi`, path.join(base, '__init__.py')]
+      : [path.join(base, '__init__.py')];
+
+    for (const candidate of candidates) {
+      if (isFile(candidate)) return repoRelative(this.repoPath, candidate);
+    }
+    return null;
+  }
+
+  /**
+   * Where absolute imports are looked up: the directory above the file's
+   * top-level package first, then every project root and its src/
+   */
+  private rootsFor(fromDir: string): string[] {
+    const top = this.topPackageDir(fromDir);
+    const own = top ? [path.dirname(top)] : [fromDir];
+    return [...new Set([...own, ...this.roots()])];
+  }
+
+  private roots(): string[] {
+    if (!this.projectRoots) {
+      const projects = findDirectories(this.repoPath, (_relative, dir) =>
+        ['pyproject.toml', 'setup.py', 'setup.cfg'].some(name => isFile(path.join(dir, name))), 4);
+      this.projectRoots = [this.repoPath, ...projects]
+        .flatMap(dir => [dir, path.join(dir, 'src')]);
+    }
+    return this.projectRoots;
+  }
+
+  /**
+   * Outermost directory above (or at) dir that is still a package
+   */
+  private topPackageDir(dir: string): string | null {
+    let top: string | null = null;
+    for (let current = dir; isFile(path.join(current, '__init__.py')); current = path.dirname(current)) {
+      top = current;
+      if (current === this.repoPath) break;
+    }
+    return top;
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * Rust Import Resolver
+ * Follows `mod foo;` declarations to their files and `use` paths through
+ * `crate::`, `self::`, `super::` and other crates of a Cargo workspace
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { LanguageResolver } from './types';
+import { findUp, isDirectory, isFile, readText, repoRelative, tomlString } from './files';
+
+interface Crate {
+  name: string;   // As written in code: dashes become underscores
+  src: string;    // Absolute src/ directory
+}
+
+export class RustResolver implements LanguageResolver {
+  private repoPath: string;
+  private crates = new Map<string, Crate | null>();
+  private workspace: Map<string, Crate> | null = null;
+
+  constructor(repoPath: string) {
+    this.repoPath = path.resolve(repoPath);
+  }
+
+  supports(filePath: string): boolean {
+    return filePath.endsWith('.rs');
+  }
+
+  /**
+   * "mod name" for module declarations, "use a::b::c" for each path of a
+   * `use` tree (braces expanded, aliases dropped)
+   */
+  extractImports(content: string): string[] {
+    const specifiers: string[] = [];
+
+    for (const match of content.matchAll(/^\s*(?:pub(?:\([^)]*\))?\s+)?mod\s+(\w+)\s*;/gm)) {
+      specifiers.push(`mod ${match[1]}`);
+    }
+    for (const match of content.matchAll(/^\s*(?:pub(?:\([^)]*\))?\s+)?use\s+([^;]+);/gm)) {
+      const tree = match[1].replace(/\s+as\s+\w+/g, '').replace(/\s+/g, '');
+      for (const usePath of expandUseTree(tree)) {
+        specifiers.push(`use ${usePath}`);
+      }
+    }
+
+    return [...new Set(specifiers)];
+  }
+
+  resolve(specifier: string, fromFile: string): string[] {
+    const fullPath = path.join(this.repoPath, fromFile);
+    const crate = this.crateOf(fullPath);
+
+    if (specifier.startsWith('mod ')) {
+      const name = specifier.substring(4);
+      const dir = moduleDir(fullPath);
+      return this.found(path.join(dir, `${name}.rs`), path.join(dir, name, 'mod.rs'));
+    }
+
+    const segments = specifier.substring(4).split('::').filter(s => s && s !== '*');
+    let target: Crate | null = crate;
+    let base: string[];
+    let rest: string[];
+
+    if (segments[0] === 'crate') {
+      base = [];
+      rest = segments.slice(1);
+    } else if (segments[0] === 'self' || segments[0] === 'super') {
+      if (!crate) return [];
+      base = modulePath(crate, fullPath);
+      let i = 0;
+      for (; segments[i] === 'super' || segments[i] === 'self'; i++) {
+        if (segments[i] === 'super') base = base.slice(0, -1);
+      }
+      rest = segments.slice(i);
+    } else {
+      const other = this.workspaceCrates().get(segments[0]);
+      if (other) {
+        target = other;
+        base = [];
+        rest = segments.slice(1);
+      } else {
+        // A sibling module named without `self::`; std and external crates
+        // match nothing and stay unresolved
+        if (!crate) return [];
+        base = modulePath(crate, fullPath);
+        rest = segments;
+        for (let length = rest.length; length > 0; length--) {
+          const file = this.moduleFile(crate, [...base, ...rest.slice(0, length)]);
+          if (file) return [file];
+        }
+        return [];
+      }
+    }
+
+    if (!target) return [];
+
+    // The longest prefix naming a module file; the rest are items in it
+    for (let length = rest.length; length >= 0; length--) {
+      const file = this.moduleFile(target, [...base, ...rest.slice(0, length)]);
+      if (file) return [file];
+    }
+    return [];
+  }
+
+  /**
+   * The `[package] name` from the nearest Cargo.toml
+   */
+  packageOf(filePath: string): string | undefined {
+    const manifest = findUp(this.repoPath, path.dirname(path.join(this.repoPath, filePath)), ['Cargo.toml']);
+    const content = manifest && readText(manifest);
+    return content ? tomlString(content, ['package'], 'name') : undefined;
+  }
+
+  /**
+   * a/b.rs or a/b/mod.rs under the crate's src/; the crate root for []
+   */
+  private moduleFile(crate: Crate, segments: string[]): string | null {
+    if (segments.length === 0) {
+      const root = [path.join(crate.src, 'lib.rs'), path.join(crate.src, 'main.rs')].find(isFile);
+      return root ? repoRelative(this.repoPath, root) : null;
+    }
+
+    const base = path.join(crate.src, ...segments);
+    const file = [`${base}.rs`, path.join(base, 'mod.rs')].find(isFile);
+    return file ? repoRelative(this.repoPath, file) : null;
+  }
+
+  private crateOf(file: string): Crate | null {
+    const manifest = findUp(this.repoPath, path.dirname(file), ['Cargo.toml']);
+    if (!manifest) return null;
+    if (!this.crates.has(manifest)) {
+      this.crates.set(manifest, this.readCrate(manifest));
+    }
+    return this.crates.get(manifest)!;
+  }
+
+  private readCrate(manifest: string): Crate | null {
+    const name = tomlString(readText(manifest) || '', ['package'], 'name');
+    const src = path.join(path.dirname(manifest), 'src');
+    return name && isDirectory(src) ? { name: name.replace(/-/g, '_'), src } : null;
+  }
+
+  /**
+   * Member crates of the workspace declared in the root Cargo.toml
+   */
+  private workspaceCrates(): Map<string, Crate> {
+    if (this.workspace) return this.workspace;
+    this.workspace = new Map();
+
+    const content = readText(path.join(this.repoPath, 'Cargo.toml'));
+    const members = content?.match(/^\s*members\s*=\s*\[([\s\S]*?)\]/m);
+    if (!members) return this.workspace;
+
+    for (const [, member] of members[1].matchAll(/["']([^"']+)["']/g)) {
+      // Only a trailing `*` is supported, as in members = ["crates/*"]
+      const dirs = member.endsWith('/*')
+        ? listDirectories(path.join(this.repoPath, member.slice(0, -2)))
+        : [path.join(this.repoPath, member)];
+      for (const dir of dirs) {
+        const crate = this.readCrate(path.join(dir, 'Cargo.toml'));
+        if (crate) this.workspace.set(crate.name, crate);
+      }
+    }
+    return this.workspace;
+  }
+
+  private found(...candidates: string[]): string[] {
+    const file = candidates.find(isFile);
+    const relative = file && repoRelative(this.repoPath, file);
+    return relative ? [relative] : [];
+  }
+}
+
+/**
+ * Flatten a `use` tree without whitespace: a::{b,c::{d,self}} gives
+ * a::b, a::c::d and a::c
+ */
+function expandUseTree(tree: string): string[] {
+  const open = tree.indexOf('{');
+  if (open === -1) return [tree.replace(/::self$/, '')];
+
+  const prefix = tree.substring(0, open);
+  const inner = tree.substring(open + 1, tree.lastIndexOf('}'));
+  const items: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i <= inner.length; i++) {
+    const char = inner[i];
+    if (char === '{') depth++;
+    else if (char === '}') depth--;
+    else if ((char === ',' && depth === 0) || i === inner.length) {
+      const item = inner.substring(start, i);
+      if (item) items.push(item);
+      start = i + 1;
+    }
+  }
+  return items.flatMap(item => expandUseTree(prefix + item));
+}
+
+/**
+ * Module path of a file within its crate: src/a/b.rs and src/a/b/mod.rs
+ * are both a::b; lib.rs and main.rs are the root
+ */
+function modulePath(crate: Crate, file: string): string[] {
+  const segments = path.relative(crate.src, file).replace(/\.rs$/, '').split(path.sep);
+  const last = segments[segments.length - 1];
+  if (last === 'mod' || (segments.length === 1 && (last === 'lib' || last === 'main'))) {
+    segments.pop();
+  }
+  return segments;
+}
+
+/**
+ * Where `mod name;` in a file looks for name.rs: next to lib.rs, main.rs
+ * and mod.rs, otherwise in a directory named after the file
+ */
+function moduleDir(file: string): string {
+  const stem = path.basename(file, '.rs');
+  return ['lib', 'main', 'mod'].includes(stem)
+    ? path.dirname(file)
+    : path.join(path.dirname(file), stem);
+}
+
+function listDirectories(dir: string): string[] {
+  try {
+    return fs.readdirSync(dir, { withFileTypes: true })
+      .filter(entry => entry.isDirectory())
+      .map(entry => path.join(dir, entry.name));
+  } catch {
+    return [];
+  }
+}
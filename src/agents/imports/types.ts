@@ -0,0 +1,37 @@
+/**
+ * Import Resolution Types
+ * Shared by the per-language resolvers the deep dive uses to follow imports
+ */
+
+export interface ResolvedImport {
+  specifier: string;  // As written in the importing file
+  file: string;       // Repo-relative path of the imported source file
+  package?: string;   // Package the file belongs to, e.g. a workspace package name
+}
+
+export interface ImportEdges {
+  resolved: ResolvedImport[];
+  unresolved: string[];  // Specifiers matching no repo file: external, generated or missing
+}
+
+export interface LanguageResolver {
+  /**
+   * Whether this resolver handles the (repo-relative) file
+   */
+  supports(filePath: string): boolean;
+
+  /**
+   * Import specifiers exactly as written in the source
+   */
+  extractImports(content: string, filePath: string): string[];
+
+  /**
+   * Files in the repo a specifier refers to; empty for external modules
+   */
+  resolve(specifier: string, fromFile: string): string[];
+
+  /**
+   * Name of the package (workspace, module or crate) that owns the file
+   */
+  packageOf(filePath: string): string | undefined;
+}
@@ -6,9 +6,18 @@
 export { LeadDetectiveAgent } from './leadDetective';
 export { HistorianAgent } from './historian';
 export { ArchivistAgent } from './archivist';
+export { TrackerArchiveAgent, TrackerExportFormat, ArchivedTicket } from './trackerArchive';
+export { parseCommitReferences, CommitReferences } from './commitReferences';
+export { scoreConfidence, explainsIntent } from './confidence';
+export { DEFAULT_CONTEXT_BUDGET, estimateTokens, packEvidence } from './evidencePacker';
 export { DeepDiveAgent } from './deepDive';
+export { buildDeepDiveGraph, toMermaid, toDot, DeepDiveGraph, GraphNode, GraphEdge } from './deepDiveGraph';
+export { ImportResolver } from './imports';
 export { WatchModeAgent } from './watchMode';
 export { BrowserVerificationAgent, verifyAndEnhanceInvestigation } from './browserVerification';
 export { ConflictResolverAgent, interactiveResolve } from './conflictResolver';
+export { validateResolvedFile, formatDiagnostic, ValidationConfig, ValidationDiagnostic } from './conflicts/validation';
+export { mergeTrees, describeTreeMerge, TreeMerge, KeyConflict } from './conflicts/structured';
+export { isLockfile, regenerateLockfile } from './conflicts/lockfiles';
 
 export * from './types';
@@ -4,16 +4,38 @@
  * Synthesizes evidence into narrative explanations
  */
 
-import { GoogleGenAI } from '@google/genai';
+import {
+  LLMProvider,
+  GenerateResult,
+  JsonSchema,
+  validateJson,
+  parseJsonResponse,
+} from '../llm';
+import { scoreConfidence } from './confidence';
+import {
+  DEFAULT_CONTEXT_BUDGET,
+  PackCandidate,
+  estimateTokens,
+  packEvidence,
+  relevanceContext,
+  splitDiffHunks,
+  hunkRelevance,
+  textRelevance,
+} from './evidencePacker';
 import {
   CaseFile,
+  Evidence,
   InvestigationResult,
   ThoughtSignature,
   ThoughtChain,
+  Claim,
+  ClaimCategory,
+  ContextPacking,
   Source,
   Recommendation,
   TimelineEvent,
   BlameData,
+  BlameRange,
   CommitInfo,
   PRData,
   IssueData,
@@ -28,131 +50,160 @@ Analyze evidence from sub-agents (git blame, commit history, PRs, issues) to exp
 ## Analysis Protocol
 1. Examine ALL provided evidence thoroughly - every commit, every comment matters
 2. Identify the PRIMARY PURPOSE of the code based on hard evidence
-3. Trace the code's evolution through the commit history
+3. Trace the code's evolution through the commit history - when blame attributes the lines to several commits, explain what each one contributed and how they fit together
 4. Determine the current relevance and technical debt status
 5. Make CONFIDENT recommendations backed by specific evidence
 
-## Confidence Scoring Guidelines
-- 90-100: Code has git history with commit messages that explain its purpose (THIS IS MOST CODE)
-- 80-89: Good evidence, clear pattern of development
-- 70-79: Some evidence, reasonable inferences
-- Below 70: Only use for truly mysterious code with no history
-
-For most code with ANY git history, you should report 90%+ confidence. The presence of commit messages, author info, and timestamps IS sufficient evidence.
-
-## Response Format (STRICT - USE BULLET POINTS)
-Your response MUST include these sections with exact headers:
-
-### SUMMARY
-• [Main purpose of this code in one bullet]
-• [Key problem it solves]
-• [Current status/relevance]
-
-### CONFIDENCE: [NUMBER]%
-• [One bullet justifying the score based on evidence quality]
+## Confidence Self-Assessment
+Report how sure you are that your explanation is correct, judged only from the evidence provided:
+- 80-100: Commit messages, PRs or issues state the intent directly
+- 50-79: Intent is inferred from the diff and surrounding history
+- Below 50: Little more than authorship and dates are known
 
-### INVESTIGATION FINDINGS
-Key Discoveries:
-• [Discovery 1 - what you found and the evidence]
-• [Discovery 2 - another finding with source]
-• [Discovery 3 - additional insight if applicable]
+Be honest - your score is blended with an independent score computed from the evidence itself.
 
-Evolution:
-• [How the code evolved over time]
-• [Major changes or refactors]
+## Response Format
+Respond with a single JSON object matching the provided schema:
+- summary: 1-3 sentences on the code's main purpose, the problem it solves and whether it is still relevant
+- confidence: integer 0-100, with confidenceRationale justifying it from the evidence quality
+- findings: key discoveries, how the code evolved, and a technical assessment (quality, debt, concerns), each tagged with its category and the IDs of the evidence that backs it
+- sources: the evidence you relied on, by ID, with a brief description
+- recommendations: KEEP, DOCUMENT, REFACTOR, REMOVE or INVESTIGATE, with the reason, a priority and supporting evidence IDs
 
-Technical Assessment:
-• [Current code quality]
-• [Technical debt status]
-• [Potential issues or concerns]
-
-### SOURCES
-• Commit: [hash] - [brief description]
-• Commit: [hash] - [brief description]
-• PR #[number] - [if applicable]
-• Issue #[number] - [if applicable]
-
-### RECOMMENDATION
-[One of: KEEP | DOCUMENT | REFACTOR | REMOVE]
-• [Bullet explaining why this recommendation]
-• [Action item for the developer]
+Every evidence section above is labelled with an ID such as [E3]. Only cite IDs that appear in the evidence.
 
 ## Critical Rules
-- ALWAYS provide a specific confidence percentage (e.g., "CONFIDENCE: 92%")
-- CITE specific evidence (commit SHAs, PR #s, issue #s) for every claim
+- EVERY finding must cite at least one evidence ID
+- Mention commit SHAs, PR #s and issue #s in the text where they help the reader
 - Be DECISIVE - avoid hedging language when evidence supports a conclusion
-- Use BULLET POINTS (•) for all lists, never paragraphs
+- Keep each finding to one or two sentences
 - Focus on ACTIONABLE insights the developer can use`;
 
+// Structured output mirroring InvestigationResult; evidence IDs tie claims to the case file
+const INVESTIGATION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    confidence: { type: 'integer', minimum: 0, maximum: 100 },
+    confidenceRationale: { type: 'string' },
+    findings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          claim: { type: 'string' },
+          category: { type: 'string', enum: ['discovery', 'evolution', 'assessment'] },
+          evidenceIds: { type: 'array', items: { type: 'string' }, minItems: 1 }
+        },
+        required: ['claim', 'category', 'evidenceIds']
+      }
+    },
+    sources: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          evidenceId: { type: 'string' },
+          description: { type: 'string' }
+        },
+        required: ['evidenceId', 'description']
+      }
+    },
+    recommendations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          action: { type: 'string', enum: ['keep', 'refactor', 'document', 'remove', 'investigate'] },
+          reason: { type: 'string' },
+          priority: { type: 'string', enum: ['low', 'medium', 'high'] },
+          evidenceIds: { type: 'array', items: { type: 'string' }, minItems: 1 }
+        },
+        required: ['action', 'reason', 'priority', 'evidenceIds']
+      }
+    }
+  },
+  required: ['summary', 'confidence', 'confidenceRationale', 'findings', 'sources', 'recommendations']
+};
+
+interface InvestigationOutput {
+  summary: string;
+  confidence: number;
+  confidenceRationale: string;
+  findings: Array<{ claim: string; category: ClaimCategory; evidenceIds: string[] }>;
+  sources: Array<{ evidenceId: string; description: string }>;
+  recommendations: Array<Recommendation & { evidenceIds: string[] }>;
+}
+
+const FINDING_HEADINGS: Record<ClaimCategory, string> = {
+  discovery: 'Key Discoveries',
+  evolution: 'Evolution',
+  assessment: 'Technical Assessment'
+};
+
 export class LeadDetectiveAgent {
-  private genai: GoogleGenAI;
-  private model: string;
+  private provider: LLMProvider;
   private thinkingLevel: 'low' | 'medium' | 'high';
+  private contextBudget: number;
   private stepCounter: number = 0;
   private thoughtChain: ThoughtChain = { signatures: [], totalSteps: 0 };
 
   constructor(
-    apiKey: string,
+    provider: LLMProvider,
     options?: {
-      model?: string;
       thinkingLevel?: 'low' | 'medium' | 'high';
+      contextBudget?: number; // Prompt token budget for evidence
     }
   ) {
-    this.genai = new GoogleGenAI({ apiKey });
-    this.model = options?.model || 'gemini-3-flash-preview';
+    this.provider = provider;
     this.thinkingLevel = options?.thinkingLevel || 'high';
+    this.contextBudget = options?.contextBudget || DEFAULT_CONTEXT_BUDGET;
   }
 
   /**
-   * Main investigation method - synthesizes all evidence into a narrative
+   * Main investigation method - synthesizes all evidence into a narrative.
+   * Output that fails schema validation gets one repair round-trip.
    */
-  async investigate(caseFile: CaseFile): Promise<InvestigationResult> {
-    const prompt = this.buildInvestigationPrompt(caseFile);
-    
-    // Retry with exponential backoff for transient errors
-    const maxRetries = 3;
-    let lastError: any;
-    
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-      try {
-        const response = await this.genai.models.generateContent({
-          model: this.model,
-          contents: prompt,
-          config: {
-            thinkingConfig: {
-              thinkingBudget: this.getThinkingBudget()
-            },
-            temperature: 0.3, // Lower for factual investigation
-          }
-        });
+  async investigate(caseFile: CaseFile, signal?: AbortSignal): Promise<InvestigationResult> {
+    const { prompt, packing } = this.buildInvestigationPrompt(caseFile);
 
-        // Extract thought signature if available
-        const thoughtSignature = this.extractThoughtSignature(response);
-        if (thoughtSignature) {
-          this.thoughtChain.signatures.push(thoughtSignature);
-          this.thoughtChain.totalSteps++;
-        }
+    let response = await this.synthesize(prompt, signal);
+    let { output, errors } = this.validateResponse(response.text);
 
-        const text = response.text || '';
-        return this.parseInvestigationResponse(text, caseFile);
-      } catch (error: any) {
-        lastError = error;
-        const status = error?.status || error?.code;
-        
-        // Retry on 503 (overloaded) or 429 (rate limit)
-        if ((status === 503 || status === 429) && attempt < maxRetries - 1) {
-          const delay = Math.pow(2, attempt) * 1000; // 1s, 2s, 4s
-          console.log(`Model overloaded, retrying in ${delay/1000}s... (attempt ${attempt + 1}/${maxRetries})`);
-          await new Promise(resolve => setTimeout(resolve, delay));
-          continue;
-        }
-        
-        console.error('Lead Detective investigation failed:', error);
-        throw new Error(`Investigation failed: ${error}`);
-      }
+    if (errors.length > 0) {
+      console.warn(`Investigation output failed validation, requesting a repair: ${errors.join('; ')}`);
+      response = await this.synthesize(this.buildRepairPrompt(prompt, response.text, errors), signal);
+      ({ output, errors } = this.validateResponse(response.text));
     }
-    
-    throw new Error(`Investigation failed after ${maxRetries} attempts: ${lastError}`);
+
+    if (!output || errors.length > 0) {
+      throw new Error(`Investigation failed: model output did not match the schema (${errors.join('; ')})`);
+    }
+
+    return { ...this.buildResult(output, caseFile), contextPacking: packing };
+  }
+
+  /**
+   * Run the synthesis call. Retries, rate limiting and backoff happen in the
+   * request scheduler; its ServiceError reaches the caller unwrapped.
+   */
+  private async synthesize(prompt: string, signal?: AbortSignal): Promise<GenerateResult> {
+    const response = await this.provider.generate({
+      prompt,
+      thinkingBudget: this.getThinkingBudget(),
+      temperature: 0.3, // Lower for factual investigation
+      responseSchema: INVESTIGATION_SCHEMA,
+      signal,
+    });
+
+    // Extract thought signature if available
+    const thoughtSignature = this.extractThoughtSignature(response);
+    if (thoughtSignature) {
+      this.thoughtChain.signatures.push(thoughtSignature);
+      this.thoughtChain.totalSteps++;
+    }
+
+    return response;
   }
 
   /**
@@ -171,26 +222,148 @@ ${JSON.stringify(evidence, null, 2)}
 
 Provide a brief analysis (2-3 sentences) of what this evidence tells us about WHY the code exists.`;
 
-    const response = await this.genai.models.generateContent({
-      model: this.model,
-      contents: prompt,
-      config: {
-        thinkingConfig: {
-          thinkingBudget: 1024 // Lower budget for quick analysis
-        },
-        temperature: 0.3,
-      }
+    const response = await this.provider.generate({
+      prompt,
+      thinkingBudget: 1024, // Lower budget for quick analysis
+      temperature: 0.3,
     });
 
-    return response.text || '';
+    return response.text;
   }
 
   /**
-   * Build the investigation prompt with all evidence
+   * Build the investigation prompt. Evidence metadata is always included;
+   * diff hunks, discussion and history are packed into the context budget
+   * by relevance to the selected lines.
    */
-  private buildInvestigationPrompt(caseFile: CaseFile): string {
+  private buildInvestigationPrompt(caseFile: CaseFile): { prompt: string; packing: ContextPacking } {
+    const candidates = this.collectCandidates(caseFile);
+    const skeleton = this.renderPrompt(caseFile, candidates, new Set());
+    const { included, dropped } = packEvidence(
+      candidates,
+      Math.max(0, this.contextBudget - estimateTokens(skeleton))
+    );
+
+    const prompt = this.renderPrompt(caseFile, candidates, included);
+    return {
+      prompt,
+      packing: { budgetTokens: this.contextBudget, usedTokens: estimateTokens(prompt), dropped }
+    };
+  }
+
+  /**
+   * Split evidence into the optional pieces the packer chooses between
+   */
+  private collectCandidates(caseFile: CaseFile): PackCandidate[] {
+    const context = relevanceContext(caseFile.codeSelection);
+    const blameRange = caseFile.evidence.find(e => e.type === 'blame_range')?.data as BlameRange | undefined;
+    const blamed = new Set(blameRange?.commits.map(c => c.commitHash) || []);
+    const candidates: PackCandidate[] = [];
+
+    for (const e of caseFile.evidence) {
+      switch (e.type) {
+        case 'commit': {
+          const commit = e.data as CommitInfo;
+          splitDiffHunks(commit.diff).forEach((hunk, i) => candidates.push({
+            key: `${e.id}:hunk:${i}`,
+            evidenceId: e.id,
+            kind: 'diff hunk',
+            label: `${commit.hash.substring(0, 7)} ${hunk.file} +${hunk.newStart},${hunk.newLines}`,
+            text: hunk.text,
+            relevance: hunkRelevance(hunk, context)
+          }));
+          break;
+        }
+        case 'pr': {
+          const pr = e.data as PRData;
+          if (pr.body) {
+            candidates.push({
+              key: `${e.id}:body`,
+              evidenceId: e.id,
+              kind: 'PR description',
+              label: `PR #${pr.number}`,
+              text: pr.body,
+              relevance: textRelevance(pr.body, context, 4)
+            });
+          }
+          pr.comments.forEach((c, i) => candidates.push({
+            key: `${e.id}:comment:${i}`,
+            evidenceId: e.id,
+            kind: 'PR comment',
+            label: `PR #${pr.number} comment by ${c.author}`,
+            text: `- **${c.author}** (${c.createdAt.toISOString()}): ${c.body}`,
+            relevance: textRelevance(c.body, context)
+          }));
+          pr.reviews.forEach((r, i) => candidates.push({
+            key: `${e.id}:review:${i}`,
+            evidenceId: e.id,
+            kind: 'PR review',
+            label: `PR #${pr.number} review by ${r.author}`,
+            text: `- **${r.author}**: ${r.state} - ${r.body}`,
+            relevance: textRelevance(r.body, context, 1.5)
+          }));
+          break;
+        }
+        case 'issue': {
+          const issue = e.data as IssueData;
+          const label = `Issue ${issue.key || `#${issue.number}`}`;
+          if (issue.body) {
+            candidates.push({
+              key: `${e.id}:body`,
+              evidenceId: e.id,
+              kind: 'issue description',
+              label,
+              text: issue.body,
+              relevance: textRelevance(issue.body, context, 3.5)
+            });
+          }
+          issue.comments.forEach((c, i) => candidates.push({
+            key: `${e.id}:comment:${i}`,
+            evidenceId: e.id,
+            kind: 'issue comment',
+            label: `${label} comment by ${c.author}`,
+            text: `- **${c.author}**: ${c.body}`,
+            relevance: textRelevance(c.body, context)
+          }));
+          break;
+        }
+        case 'file_history': {
+          // Recent commits first; commits that still own selected lines above all
+          const commits = e.data as CommitInfo[];
+          commits.forEach((c, i) => candidates.push({
+            key: `${e.id}:history:${i}`,
+            evidenceId: e.id,
+            kind: 'history entry',
+            label: `${c.hash.substring(0, 7)} ${c.message.split('\n')[0]}`,
+            text: `- ${c.hash.substring(0, 7)} - ${c.date.toISOString().split('T')[0]} - ${c.author}: ${c.message.split('\n')[0]}`,
+            relevance: 0.5 + 0.5 * (1 - i / commits.length) + (blamed.has(c.hash) ? 2 : 0)
+          }));
+          break;
+        }
+      }
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Render the prompt with the packed candidates, in their original order
+   */
+  private renderPrompt(caseFile: CaseFile, candidates: PackCandidate[], included: Set<string>): string {
     const { codeSelection, evidence } = caseFile;
 
+    // Included pieces of one evidence item and kind, plus a note for the rest
+    const packed = (evidenceId: string, kind: PackCandidate['kind'], noun: string) => {
+      const all = candidates.filter(c => c.evidenceId === evidenceId && c.kind === kind);
+      const kept = all.filter(c => included.has(c.key));
+      const omitted = all.length - kept.length;
+      return {
+        total: all.length,
+        texts: kept.map(c => c.text),
+        note: omitted > 0 ? `(${omitted} ${noun}${omitted === 1 ? '' : 's'} omitted to fit the context budget)` : ''
+      };
+    };
+
     let prompt = `${LEAD_DETECTIVE_SYSTEM_PROMPT}
 
 ## The Code Under Investigation
@@ -210,7 +383,7 @@ ${codeSelection.text}
     const blameEvidence = evidence.find(e => e.type === 'blame');
     if (blameEvidence) {
       const blame = blameEvidence.data as BlameData;
-      prompt += `### Git Blame
+      prompt += `### Git Blame [${blameEvidence.id}]
 - Commit: ${blame.commitHash}
 - Author: ${blame.author} <${blame.authorEmail}>
 - Date: ${blame.timestamp.toISOString()}
@@ -219,11 +392,38 @@ ${codeSelection.text}
 `;
     }
 
-    // Add commit info
-    const commitEvidence = evidence.find(e => e.type === 'commit');
-    if (commitEvidence) {
-      const commit = commitEvidence.data as CommitInfo;
-      prompt += `### Commit Details
+    const blameRangeEvidence = evidence.find(e => e.type === 'blame_range');
+    if (blameRangeEvidence) {
+      const range = blameRangeEvidence.data as BlameRange;
+      const totalLines = range.lines.length || 1;
+      prompt += `### Git Blame [${blameRangeEvidence.id}] (${range.lines.length} lines shaped by ${range.commits.length} commit${range.commits.length === 1 ? '' : 's'})
+${range.commits.map(c =>
+  `- ${c.commitHash.substring(0, 7)} - ${c.lineCount} line${c.lineCount === 1 ? '' : 's'} (${Math.round(c.lineCount / totalLines * 100)}%, lines ${formatLineNumbers(c.lineNumbers)}) - ${c.author} <${c.authorEmail}> - ${c.timestamp.toISOString().split('T')[0]} - ${c.summary}${c.originalPath ? ` (moved from ${c.originalPath})` : ''}`
+).join('\n')}
+
+`;
+      if (range.skipped && range.skipped.length > 0) {
+        prompt += `#### Mechanical Commits Skipped
+Blame was re-run past these commits because they did not change any logic. Do not present them as the origin of the code.
+${range.skipped.map(s =>
+  `- ${s.commitHash.substring(0, 7)} (${s.reason}: ${s.detail}) - ${s.summary}`
+).join('\n')}
+
+`;
+      }
+      if (range.ignoreRevsFile) {
+        prompt += `Revisions listed in the repository's .git-blame-ignore-revs were also excluded.
+
+`;
+      }
+    }
+
+    // Add commit info (one section per blamed commit, most lines first)
+    const commitEvidence = evidence.filter(e => e.type === 'commit');
+    for (const ce of commitEvidence) {
+      const commit = ce.data as CommitInfo;
+      const hunks = packed(ce.id, 'diff hunk', 'hunk');
+      prompt += `### Commit Details [${ce.id}]
 - Hash: ${commit.hash}
 - Author: ${commit.author}
 - Date: ${commit.date.toISOString()}
@@ -231,20 +431,24 @@ ${codeSelection.text}
 ${commit.message}
 
 - Changed Files: ${commit.changedFiles.join(', ')}
-
-- Diff (relevant portion):
+${commit.coAuthors ? `- Co-authored-by: ${commit.coAuthors.join(', ')}\n` : ''}${commit.reviewers ? `- Reviewed-by: ${commit.reviewers.join(', ')}\n` : ''}
+- Diff (${hunks.texts.length} of ${hunks.total} hunks, most relevant to the selection):
 \`\`\`diff
-${commit.diff.substring(0, 3000)}${commit.diff.length > 3000 ? '\n... (truncated)' : ''}
+${joinHunks(hunks.texts)}
 \`\`\`
+${hunks.note}
 
 `;
     }
 
     // Add PR data
-    const prEvidence = evidence.find(e => e.type === 'pr');
-    if (prEvidence) {
-      const pr = prEvidence.data as PRData;
-      prompt += `### Pull Request #${pr.number}
+    const prEvidence = evidence.filter(e => e.type === 'pr');
+    for (const pe of prEvidence) {
+      const pr = pe.data as PRData;
+      const body = packed(pe.id, 'PR description', 'description');
+      const comments = packed(pe.id, 'PR comment', 'comment');
+      const reviews = packed(pe.id, 'PR review', 'review');
+      prompt += `### Pull Request #${pr.number} [${pe.id}]
 - Title: ${pr.title}
 - Author: ${pr.author}
 - State: ${pr.state}
@@ -252,17 +456,13 @@ ${commit.diff.substring(0, 3000)}${commit.diff.length > 3000 ? '\n... (truncated
 - URL: ${pr.url}
 
 #### Description:
-${pr.body || '(No description provided)'}
+${body.texts[0] || body.note || '(No description provided)'}
 
 #### Discussion (${pr.comments.length} comments):
-${pr.comments.slice(0, 10).map(c => 
-  `- **${c.author}** (${c.createdAt.toISOString()}): ${c.body.substring(0, 500)}${c.body.length > 500 ? '...' : ''}`
-).join('\n')}
+${[...comments.texts, comments.note].filter(t => t).join('\n')}
 
 #### Reviews:
-${pr.reviews.map(r => 
-  `- **${r.author}**: ${r.state} - ${r.body.substring(0, 300)}${r.body.length > 300 ? '...' : ''}`
-).join('\n')}
+${[...reviews.texts, reviews.note].filter(t => t).join('\n')}
 
 `;
     }
@@ -273,20 +473,21 @@ ${pr.reviews.map(r =>
       prompt += `### Related Issues\n`;
       for (const ie of issueEvidence) {
         const issue = ie.data as IssueData;
+        const body = packed(ie.id, 'issue description', 'description');
+        const comments = packed(ie.id, 'issue comment', 'comment');
         prompt += `
-#### Issue #${issue.number}: ${issue.title}
+#### Issue ${issue.key || `#${issue.number}`}: ${issue.title} [${ie.id}]
+- Source: ${ie.source}
 - Author: ${issue.author}
 - State: ${issue.state}
 - Labels: ${issue.labels.join(', ') || 'none'}
 - Created: ${issue.createdAt.toISOString()}
 - URL: ${issue.url}
 
-${issue.body.substring(0, 1000)}${issue.body.length > 1000 ? '...' : ''}
+${body.texts[0] || body.note}
 
 Comments (${issue.comments.length}):
-${issue.comments.slice(0, 5).map(c => 
-  `- **${c.author}**: ${c.body.substring(0, 300)}${c.body.length > 300 ? '...' : ''}`
-).join('\n')}
+${[...comments.texts, comments.note].filter(t => t).join('\n')}
 
 `;
       }
@@ -296,11 +497,19 @@ ${issue.comments.slice(0, 5).map(c =>
     const historyEvidence = evidence.find(e => e.type === 'file_history');
     if (historyEvidence) {
       const commits = historyEvidence.data as CommitInfo[];
-      prompt += `### File History (${commits.length} commits)
-${commits.slice(0, 15).map(c => 
-  `- ${c.hash.substring(0, 7)} - ${c.date.toISOString().split('T')[0]} - ${c.author}: ${c.message.split('\n')[0]}`
-).join('\n')}
-${commits.length > 15 ? `\n... and ${commits.length - 15} more commits` : ''}
+      const history = packed(historyEvidence.id, 'history entry', 'commit');
+      prompt += `### File History [${historyEvidence.id}] (${commits.length} commits)
+${[...history.texts, history.note].filter(t => t).join('\n')}
+
+`;
+    }
+
+    // Missing evidence is not evidence of absence: a failed PR lookup
+    // does not mean the commit had no PR
+    if (caseFile.failures && caseFile.failures.length > 0) {
+      prompt += `### Evidence Not Retrieved
+These lookups failed, so their results are unknown (not empty). Do not infer anything from their absence:
+${caseFile.failures.map(f => `- ${f.operation}: ${f.kind.replace('_', ' ')}`).join('\n')}
 
 `;
     }
@@ -316,185 +525,153 @@ Thought chain signatures: ${this.thoughtChain.signatures.map(s => s.signature).j
 
     prompt += `## Your Investigation
 
-Based on all evidence above, provide your investigation findings following the format specified in your instructions. Be thorough but precise. Cite specific evidence for all claims.`;
+Based on all evidence above, provide your investigation findings as JSON following the format specified in your instructions. Be thorough but precise. Cite evidence IDs for all claims.`;
 
     return prompt;
   }
 
   /**
-   * Parse the investigation response into structured format
+   * Ask the model to fix output that failed validation
    */
-  private parseInvestigationResponse(
-    response: string,
-    caseFile: CaseFile
-  ): InvestigationResult {
-    // Clean markdown from response for display
-    const cleanedResponse = this.cleanMarkdown(response);
-    
-    // Extract summary (first paragraph or summary section)
-    const summaryMatch = response.match(/(?:summary|overview)[:\s]*([^\n]+(?:\n[^\n#]+)*)/i);
-    const rawSummary = summaryMatch 
-      ? summaryMatch[1].trim() 
-      : response.split('\n\n')[0].substring(0, 300);
-    const summary = this.cleanMarkdown(rawSummary);
-
-    // Extract confidence score with improved patterns
-    // Look for patterns like "CONFIDENCE: 85%", "Confidence: 85", "85% confidence"
-    const confidencePatterns = [
-      /CONFIDENCE[:\s]*(\d+)\s*%?/i,
-      /(\d+)\s*%?\s*confidence/i,
-      /confidence[:\s]*(\d+)/i,
-      /(\d+)%/  // Fallback: any percentage
-    ];
-    
-    let confidence = 0;
-    for (const pattern of confidencePatterns) {
-      const match = response.match(pattern);
-      if (match) {
-        confidence = parseInt(match[1], 10);
-        break;
-      }
+  private buildRepairPrompt(prompt: string, previous: string, errors: string[]): string {
+    return `${prompt}
+
+## Correction Required
+
+Your previous response did not match the required JSON schema:
+${errors.map(e => `- ${e}`).join('\n')}
+
+Previous response:
+${previous}
+
+Respond again with a corrected JSON object only.`;
+  }
+
+  /**
+   * Parse and validate the model output against the schema. Citations of
+   * evidence IDs that are not in the case file are not errors; buildResult
+   * drops them.
+   */
+  private validateResponse(response: string): { output: InvestigationOutput | null; errors: string[] } {
+    let parsed: unknown;
+    try {
+      parsed = parseJsonResponse(response);
+    } catch (error) {
+      return { output: null, errors: [`response is not valid JSON (${error instanceof Error ? error.message : error})`] };
     }
-    
-    // If no confidence found but we have evidence, default to 92 (high confidence)
-    if (confidence === 0) {
-      const hasEvidence = caseFile.evidence.length > 0;
-      confidence = hasEvidence ? 92 : 65;
+
+    const errors = validateJson(parsed, INVESTIGATION_SCHEMA);
+    return errors.length > 0 ? { output: null, errors } : { output: parsed as InvestigationOutput, errors };
+  }
+
+  /**
+   * Turn validated model output into the investigation result; the
+   * narrative is rendered from the structured fields. Unknown evidence IDs
+   * are dropped; findings left without known evidence are marked
+   * unsupported, which lowers the evidence score.
+   */
+  private buildResult(output: InvestigationOutput, caseFile: CaseFile): InvestigationResult {
+    const known = new Set(caseFile.evidence.map(e => e.id));
+    const knownOnly = (ids: string[]) => ids.filter(id => known.has(id));
+
+    const unknown = new Set([
+      ...output.findings.flatMap(f => f.evidenceIds),
+      ...output.sources.map(s => s.evidenceId),
+      ...output.recommendations.flatMap(r => r.evidenceIds)
+    ].filter(id => !known.has(id)));
+    if (unknown.size > 0) {
+      console.warn(`Investigation output cited unknown evidence, dropped: ${[...unknown].join(', ')}`);
     }
 
-    // Extract sources from the response
-    const sources = this.extractSources(response, caseFile);
+    const claims: Claim[] = output.findings.map(f => {
+      const evidenceIds = knownOnly(f.evidenceIds);
+      return {
+        text: f.claim,
+        category: f.category,
+        evidenceIds,
+        ...(evidenceIds.length === 0 ? { unsupported: true } : {})
+      };
+    });
 
-    // Extract recommendations
-    const recommendations = this.extractRecommendations(response);
+    const sources: Source[] = [];
+    for (const cited of output.sources) {
+      const evidence = caseFile.evidence.find(e => e.id === cited.evidenceId);
+      const source = evidence && this.toSource(evidence, cited.description);
+      if (source && !sources.some(s => s.id === source.id)) sources.push(source);
+    }
 
-    // Build timeline from evidence
-    const timeline = this.buildTimeline(caseFile);
+    // One recommendation per action
+    const recommendations: Recommendation[] = output.recommendations
+      .filter((r, i, arr) => arr.findIndex(x => x.action === r.action) === i)
+      .map(r => ({ action: r.action, reason: r.reason, priority: r.priority, evidenceIds: knownOnly(r.evidenceIds) }));
 
-    return {
-      narrative: cleanedResponse,
-      summary,
-      confidence: Math.min(100, Math.max(0, confidence)),
+    const confidenceBreakdown = scoreConfidence(caseFile, claims, output.confidence);
+
+    const result: InvestigationResult = {
+      narrative: '',
+      summary: output.summary,
+      confidence: confidenceBreakdown.score,
+      confidenceRationale: output.confidenceRationale,
+      confidenceBreakdown,
+      claims,
       sources,
       recommendations,
-      timeline,
+      timeline: this.buildTimeline(caseFile),
       thoughtChain: { ...this.thoughtChain }
     };
+    result.narrative = renderNarrative(result);
+
+    return result;
   }
 
   /**
-   * Extract source citations from the response
+   * Result for a run stopped before synthesis: the evidence gathered so
+   * far as sources and timeline, with no conclusions drawn from it
    */
-  private extractSources(response: string, caseFile: CaseFile): Source[] {
-    const sources: Source[] = [];
-
-    // Extract commit references
-    const commitMatches = response.matchAll(/\b([a-f0-9]{7,40})\b/gi);
-    for (const match of commitMatches) {
-      const hash = match[1];
-      // Verify it's a commit we have
-      const hasCommit = caseFile.evidence.some(e => {
-        if (e.type === 'commit') {
-          const c = e.data as CommitInfo;
-          return c.hash.startsWith(hash);
-        }
-        if (e.type === 'blame') {
-          const b = e.data as BlameData;
-          return b.commitHash.startsWith(hash);
-        }
-        return false;
-      });
-      if (hasCommit && !sources.find(s => s.id === hash)) {
-        sources.push({
-          type: 'commit',
-          id: hash,
-          description: `Commit ${hash.substring(0, 7)}`
-        });
-      }
-    }
+  partialResult(caseFile: CaseFile): InvestigationResult {
+    const sources = caseFile.evidence
+      .map(e => this.toSource(e, `Gathered before the investigation was cancelled (${e.source})`))
+      .filter((s): s is Source => s !== null);
 
-    // Extract PR references
-    const prMatches = response.matchAll(/(?:PR|pull request)\s*#?(\d+)/gi);
-    for (const match of prMatches) {
-      const num = match[1];
-      const prEvidence = caseFile.evidence.find(e => e.type === 'pr');
-      if (prEvidence) {
-        const pr = prEvidence.data as PRData;
-        if (pr.number.toString() === num && !sources.find(s => s.id === `PR#${num}`)) {
-          sources.push({
-            type: 'pr',
-            id: `PR#${num}`,
-            url: pr.url,
-            description: pr.title
-          });
-        }
-      }
-    }
-
-    // Extract issue references
-    const issueMatches = response.matchAll(/(?:issue)\s*#?(\d+)/gi);
-    for (const match of issueMatches) {
-      const num = match[1];
-      const issueEvidence = caseFile.evidence.find(e => {
-        if (e.type === 'issue') {
-          return (e.data as IssueData).number.toString() === num;
-        }
-        return false;
-      });
-      if (issueEvidence) {
-        const issue = issueEvidence.data as IssueData;
-        sources.push({
-          type: 'issue',
-          id: `Issue#${num}`,
-          url: issue.url,
-          description: issue.title
-        });
-      }
-    }
-
-    return sources;
+    const summary = `Investigation cancelled after gathering ${caseFile.evidence.length} piece${caseFile.evidence.length === 1 ? '' : 's'} of evidence; it was not analyzed.`;
+    return {
+      narrative: `${summary}\n\nEVIDENCE GATHERED\n${caseFile.evidence.map(e => `- [${e.id}] ${e.type} (${e.source})`).join('\n') || '- None'}`,
+      summary,
+      confidence: 0,
+      cancelled: true,
+      sources,
+      recommendations: [],
+      timeline: this.buildTimeline(caseFile),
+      thoughtChain: { ...this.thoughtChain }
+    };
   }
 
   /**
-   * Extract recommendations from the response
+   * Map cited evidence to a source; blame and file history are context only
    */
-  private extractRecommendations(response: string): Recommendation[] {
-    const recommendations: Recommendation[] = [];
-    const lowerResponse = response.toLowerCase();
-
-    const actions: Array<{ keyword: string; action: Recommendation['action'] }> = [
-      { keyword: 'should be kept', action: 'keep' },
-      { keyword: 'recommend keeping', action: 'keep' },
-      { keyword: 'still necessary', action: 'keep' },
-      { keyword: 'should be refactored', action: 'refactor' },
-      { keyword: 'recommend refactoring', action: 'refactor' },
-      { keyword: 'needs documentation', action: 'document' },
-      { keyword: 'should be documented', action: 'document' },
-      { keyword: 'can be removed', action: 'remove' },
-      { keyword: 'should be removed', action: 'remove' },
-      { keyword: 'dead code', action: 'remove' },
-      { keyword: 'warrants further investigation', action: 'investigate' },
-      { keyword: 'needs more analysis', action: 'investigate' },
-    ];
-
-    for (const { keyword, action } of actions) {
-      if (lowerResponse.includes(keyword)) {
-        // Find the sentence containing this keyword
-        const sentenceMatch = response.match(
-          new RegExp(`[^.]*${keyword.replace(/\s+/g, '\\s+')}[^.]*\\.`, 'i')
-        );
-        recommendations.push({
-          action,
-          reason: sentenceMatch ? sentenceMatch[0].trim() : keyword,
-          priority: action === 'remove' || action === 'refactor' ? 'high' : 'medium'
-        });
+  private toSource(evidence: Evidence, description: string): Source | null {
+    switch (evidence.type) {
+      case 'commit': {
+        const commit = evidence.data as CommitInfo;
+        return { type: 'commit', id: commit.hash.substring(0, 7), description, evidenceId: evidence.id };
+      }
+      case 'pr': {
+        const pr = evidence.data as PRData;
+        return { type: 'pr', id: `PR#${pr.number}`, url: pr.url, description, evidenceId: evidence.id };
+      }
+      case 'issue': {
+        const issue = evidence.data as IssueData;
+        return {
+          type: 'issue',
+          id: issue.key || `Issue#${issue.number}`,
+          url: issue.url || undefined,
+          description,
+          evidenceId: evidence.id
+        };
       }
+      default:
+        return null;
     }
-
-    // Deduplicate by action
-    return recommendations.filter((r, i, arr) => 
-      arr.findIndex(x => x.action === r.action) === i
-    );
   }
 
   /**
@@ -517,6 +694,20 @@ Based on all evidence above, provide your investigation findings following the f
           });
           break;
         }
+        case 'blame_range': {
+          const range = e.data as BlameRange;
+          for (const c of range.commits) {
+            events.push({
+              date: c.timestamp,
+              type: 'blame',
+              title: 'Code Authored',
+              description: `${c.lineCount} line${c.lineCount === 1 ? '' : 's'} (${formatLineNumbers(c.lineNumbers)}) written`,
+              author: c.author,
+              sourceId: c.commitHash.substring(0, 7)
+            });
+          }
+          break;
+        }
         case 'commit': {
           const commit = e.data as CommitInfo;
           events.push({
@@ -558,10 +749,10 @@ Based on all evidence above, provide your investigation findings following the f
           events.push({
             date: issue.createdAt,
             type: 'issue',
-            title: `Issue #${issue.number}: ${issue.title}`,
+            title: `Issue ${issue.key || `#${issue.number}`}: ${issue.title}`,
             description: issue.body.substring(0, 200),
             author: issue.author,
-            sourceId: `Issue#${issue.number}`,
+            sourceId: issue.key || `Issue#${issue.number}`,
             sourceUrl: issue.url
           });
           break;
@@ -588,16 +779,15 @@ Based on all evidence above, provide your investigation findings following the f
   /**
    * Extract thought signature from response metadata
    */
-  private extractThoughtSignature(response: any): ThoughtSignature | null {
+  private extractThoughtSignature(response: GenerateResult): ThoughtSignature | null {
     this.stepCounter++;
     
-    // Create thought signature from response metadata if available
-    // The actual signature would come from Gemini 3's response metadata
-    const signature = response?.candidates?.[0]?.thoughtSignature 
+    // Providers without thought signatures get a locally generated one
+    const signature = response.thoughtSignature
       || `lead-detective-${Date.now()}-${this.stepCounter}`;
 
     return {
-      signature: typeof signature === 'string' ? signature : JSON.stringify(signature),
+      signature,
       timestamp: new Date(),
       agentId: 'lead-detective',
       step: this.stepCounter
@@ -618,35 +808,81 @@ Based on all evidence above, provide your investigation findings following the f
     this.thoughtChain = { signatures: [], totalSteps: 0 };
     this.stepCounter = 0;
   }
+}
 
-  /**
-   * Clean markdown formatting from text for display
-   * Removes headers, bold, italic, code blocks, etc.
-   */
-  private cleanMarkdown(text: string): string {
-    return text
-      // Remove code blocks
-      .replace(/```[\s\S]*?```/g, '')
-      // Remove inline code
-      .replace(/`([^`]+)`/g, '$1')
-      // Remove headers (## Header -> Header)
-      .replace(/^#{1,6}\s+/gm, '')
-      // Remove bold (**text** or __text__)
-      .replace(/\*\*([^*]+)\*\*/g, '$1')
-      .replace(/__([^_]+)__/g, '$1')
-      // Remove italic (*text* or _text_)
-      .replace(/\*([^*]+)\*/g, '$1')
-      .replace(/_([^_]+)_/g, '$1')
-      // Remove bullet points and numbering
-      .replace(/^[\s]*[-*+]\s+/gm, '• ')
-      .replace(/^[\s]*\d+\.\s+/gm, '')
-      // Remove horizontal rules
-      .replace(/^[-*_]{3,}$/gm, '')
-      // Remove links but keep text [text](url) -> text
-      .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1')
-      // Clean up extra whitespace
-      .replace(/\n{3,}/g, '\n\n')
-      .trim();
+/**
+ * Confidence lines for the narrative: the blend, then the model's rationale
+ */
+function renderConfidence(result: InvestigationResult): string {
+  const lines: string[] = [];
+  const breakdown = result.confidenceBreakdown;
+  if (breakdown) {
+    lines.push(`• Evidence ${breakdown.evidenceScore}% (weight ${Math.round(breakdown.evidenceWeight * 100)}%), model ${breakdown.modelScore}%`);
+  }
+  if (result.confidenceRationale) {
+    lines.push(`• ${result.confidenceRationale}`);
+  }
+  return lines.map(line => `\n${line}`).join('');
+}
+
+/**
+ * Join packed diff hunks, printing each file header only once per run of
+ * hunks from the same file
+ */
+function joinHunks(hunks: string[]): string {
+  let previousHeader = '';
+  return hunks.map(hunk => {
+    const split = hunk.indexOf('\n@@');
+    const header = split >= 0 ? hunk.substring(0, split) : '';
+    const body = split >= 0 ? hunk.substring(split + 1) : hunk;
+    const text = header === previousHeader ? body : hunk;
+    previousHeader = header;
+    return text;
+  }).join('\n');
+}
+
+/**
+ * Collapse line numbers into ranges, e.g. [3, 4, 5, 9] -> "3-5, 9"
+ */
+function formatLineNumbers(lineNumbers: number[]): string {
+  const sorted = [...lineNumbers].sort((a, b) => a - b);
+  const ranges: string[] = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    const start = sorted[i];
+    while (i + 1 < sorted.length && sorted[i + 1] === sorted[i] + 1) i++;
+    ranges.push(start === sorted[i] ? `${start}` : `${start}-${sorted[i]}`);
   }
+
+  return ranges.join(', ');
 }
 
+/**
+ * Render the structured result as the plain-text narrative shown in the
+ * UI and exports, citing evidence IDs inline
+ */
+function renderNarrative(result: InvestigationResult): string {
+  const cite = (ids?: string[]) => ids && ids.length > 0 ? ` [${ids.join(', ')}]` : '';
+  const sections = [
+    `SUMMARY\n${result.summary}`,
+    `CONFIDENCE: ${result.confidence}%${renderConfidence(result)}`
+  ];
+
+  const findings = (Object.keys(FINDING_HEADINGS) as ClaimCategory[])
+    .map(category => ({ category, claims: (result.claims || []).filter(c => c.category === category) }))
+    .filter(group => group.claims.length > 0)
+    .map(group => `${FINDING_HEADINGS[group.category]}:\n${group.claims.map(c => `• ${c.text}${c.unsupported ? ' [unsupported]' : cite(c.evidenceIds)}`).join('\n')}`);
+  if (findings.length > 0) {
+    sections.push(`INVESTIGATION FINDINGS\n${findings.join('\n\n')}`);
+  }
+
+  if (result.sources.length > 0) {
+    sections.push(`SOURCES\n${result.sources.map(s => `• ${s.type === 'commit' ? `Commit: ${s.id}` : s.id} - ${s.description}${cite(s.evidenceId ? [s.evidenceId] : [])}`).join('\n')}`);
+  }
+
+  if (result.recommendations.length > 0) {
+    sections.push(`RECOMMENDATION\n${result.recommendations.map(r => `• ${r.action.toUpperCase()} (${r.priority}): ${r.reason}${cite(r.evidenceIds)}`).join('\n')}`);
+  }
+
+  return sections.join('\n\n');
+}
@@ -3,10 +3,11 @@
  * Generates onboarding documentation for any folder or module
  */
 
-import { GoogleGenAI } from '@google/genai';
 import simpleGit, { SimpleGit } from 'simple-git';
 import * as fs from 'fs';
 import * as path from 'path';
+import { LLMProvider } from '../llm';
+import { throwIfCancelled } from '../cancellation';
 
 export interface OnboardingDoc {
   title: string;
@@ -26,26 +27,29 @@ export interface FileDoc {
 }
 
 export class OnboardingAgent {
-  private genai: GoogleGenAI;
+  private provider: LLMProvider;
   private git: SimpleGit;
   private repoPath: string;
 
-  constructor(repoPath: string, apiKey: string) {
+  constructor(repoPath: string, provider: LLMProvider) {
     this.repoPath = repoPath;
     this.git = simpleGit(repoPath);
-    this.genai = new GoogleGenAI({ apiKey });
+    this.provider = provider;
   }
 
   /**
-   * Generate onboarding docs for a directory
+   * Generate onboarding docs for a directory. There is nothing useful to
+   * return part-way, so aborting the signal rejects with CancelledError.
    */
-  async generateDocs(targetPath: string): Promise<OnboardingDoc> {
+  async generateDocs(targetPath: string, signal?: AbortSignal): Promise<OnboardingDoc> {
+    this.git = simpleGit({ baseDir: this.repoPath, abort: signal });
     const fullPath = path.join(this.repoPath, targetPath);
     
     // Gather context
     const files = await this.getFiles(targetPath);
     const fileContents = await this.readKeyFiles(files.slice(0, 10));
     const history = await this.getHistory(targetPath);
+    throwIfCancelled(signal);
     
     // Build prompt
     const prompt = `You are an expert developer writing onboarding documentation for a new team member.
@@ -88,41 +92,21 @@ ${history}
 
 Be specific and practical. A new developer should be able to understand this module after reading your docs.`;
 
-    try {
-      const response = await this.genai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: prompt,
-        config: {
-          temperature: 0.3,
-          thinkingConfig: { thinkingBudget: 8192 }
-        }
-      });
-
-      const text = response.text || '';
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
-      
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]) as OnboardingDoc;
-      }
-    } catch (e) {
-      // Fallback
+    // Failures propagate (as a ServiceError from the scheduler) rather than
+    // turning into a placeholder doc that reads like a real one
+    const response = await this.provider.generate({
+      prompt,
+      temperature: 0.3,
+      thinkingBudget: 8192,
+      signal
+    });
+
+    const jsonMatch = (response.text || '').match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      throw new Error('Onboarding docs failed: model response did not contain JSON');
     }
 
-    // Fallback doc
-    return {
-      title: path.basename(targetPath),
-      overview: `This module contains ${files.length} files.`,
-      architecture: 'Unable to analyze architecture. Manual review recommended.',
-      keyFiles: files.slice(0, 5).map(f => ({
-        path: f,
-        purpose: 'File in module',
-        importance: 'supporting' as const
-      })),
-      gettingStarted: ['Review the files in this directory'],
-      commonPatterns: [],
-      gotchas: [],
-      relatedAreas: []
-    };
+    return JSON.parse(jsonMatch[0]) as OnboardingDoc;
   }
 
   /**
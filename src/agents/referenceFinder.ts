@@ -0,0 +1,303 @@
+/**
+ * Reference Finder - TypeScript Language Service
+ * Resolves the symbols under a TS/JS selection and finds their real
+ * references, classified by the syntax around each one. Comments, strings
+ * and unrelated symbols that share a name are never reported.
+ */
+
+import * as ts from 'typescript';
+import * as path from 'path';
+import { CodeSelection, CodebaseReference } from './types';
+import { CancelledError } from '../cancellation';
+
+const TS_SOURCE = /\.(ts|tsx|mts|cts|js|jsx|mjs|cjs)$/;
+
+// Used when no tsconfig.json or jsconfig.json covers the selected file
+const DEFAULT_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+const DEFAULT_EXCLUDES = ['**/node_modules', '**/.git', '**/dist', '**/build', '**/coverage', '**/.next'];
+const DEFAULT_OPTIONS: ts.CompilerOptions = {
+  allowJs: true,
+  checkJs: false,
+  noEmit: true,
+  jsx: ts.JsxEmit.Preserve,
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.CommonJS,
+  moduleResolution: ts.ModuleResolutionKind.Node10,
+  esModuleInterop: true,
+  skipLibCheck: true,
+};
+
+// Symbols looked up per selection; each one is a project-wide search
+const MAX_TARGETS = 20;
+
+export class TypeScriptReferenceFinder {
+  private repoPath: string;
+  private signal?: AbortSignal;
+
+  /**
+   * Aborting the signal stops the language service mid-search
+   */
+  constructor(repoPath: string, signal?: AbortSignal) {
+    this.repoPath = path.resolve(repoPath);
+    this.signal = signal;
+  }
+
+  static supports(filePath: string): boolean {
+    return TS_SOURCE.test(filePath);
+  }
+
+  /**
+   * Find references to the declarations in the selection or, when it
+   * declares nothing, to the project symbols it uses. References in the
+   * selected file itself are left out. Returns null when no program
+   * contains the file, so the caller can fall back to text search.
+   */
+  findReferences(selection: CodeSelection): CodebaseReference[] | null {
+    const fileName = path.resolve(this.repoPath, selection.filePath);
+    const service = this.createService(fileName);
+
+    try {
+      const program = service.getProgram();
+      const sourceFile = program?.getSourceFile(fileName);
+      if (!program || !sourceFile) return null;
+
+      const targets = this.selectTargets(sourceFile, program.getTypeChecker(), selection);
+      const references: CodebaseReference[] = [];
+      const seen = new Set<string>();
+
+      for (const target of targets) {
+        for (const referenced of service.findReferences(fileName, target.getStart(sourceFile)) || []) {
+          for (const entry of referenced.references) {
+            if (entry.isDefinition) continue;
+
+            const file = path.relative(this.repoPath, entry.fileName);
+            if (file.startsWith('..') || file.split(path.sep).includes('node_modules')) continue;
+            if (path.resolve(entry.fileName) === fileName) continue;
+
+            const key = `${entry.fileName}:${entry.textSpan.start}`;
+            if (seen.has(key)) continue;
+            seen.add(key);
+
+            const refFile = program.getSourceFile(entry.fileName);
+            if (!refFile) continue;
+            const node = findNodeAt(refFile, entry.textSpan.start);
+            if (!ts.isIdentifier(node)) continue; // JSDoc links and string-named exports
+            if (declarationName(node.parent) === node) continue; // The declaration, reached through an import
+
+            const { line } = refFile.getLineAndCharacterOfPosition(entry.textSpan.start);
+            const lineText = refFile.text.substring(
+              refFile.getLineStarts()[line],
+              refFile.getLineEndOfPosition(entry.textSpan.start)
+            );
+
+            references.push({
+              file,
+              line: line + 1,
+              context: lineText.trim().substring(0, 100),
+              type: classifyReference(node),
+              symbol: target.text
+            });
+          }
+        }
+      }
+
+      return references;
+    } catch (error) {
+      if (error instanceof ts.OperationCanceledException) {
+        throw new CancelledError();
+      }
+      throw error;
+    } finally {
+      service.dispose();
+    }
+  }
+
+  /**
+   * A language service over the project that owns the file: the nearest
+   * tsconfig.json/jsconfig.json inside the repo, or every source file
+   */
+  private createService(fileName: string): ts.LanguageService {
+    let options = DEFAULT_OPTIONS;
+    let fileNames: string[];
+
+    const configPath = this.findConfigFile(path.dirname(fileName));
+    if (configPath) {
+      const { config } = ts.readConfigFile(configPath, ts.sys.readFile);
+      const parsed = ts.parseJsonConfigFileContent(config, ts.sys, path.dirname(configPath));
+      options = { ...parsed.options, allowJs: parsed.options.allowJs ?? configPath.endsWith('jsconfig.json'), noEmit: true };
+      fileNames = parsed.fileNames;
+    } else {
+      fileNames = ts.sys.readDirectory(this.repoPath, DEFAULT_EXTENSIONS, DEFAULT_EXCLUDES);
+    }
+
+    // Files excluded by the config still get their imports resolved
+    if (!fileNames.some(f => path.resolve(f) === fileName)) {
+      fileNames = [...fileNames, fileName];
+    }
+
+    const host: ts.LanguageServiceHost = {
+      getCompilationSettings: () => options,
+      getScriptFileNames: () => fileNames,
+      getScriptVersion: () => '0',
+      getScriptSnapshot: name => {
+        const text = ts.sys.readFile(name);
+        return text === undefined ? undefined : ts.ScriptSnapshot.fromString(text);
+      },
+      getCurrentDirectory: () => this.repoPath,
+      getDefaultLibFileName: opts => ts.getDefaultLibFilePath(opts),
+      fileExists: ts.sys.fileExists,
+      readFile: ts.sys.readFile,
+      readDirectory: ts.sys.readDirectory,
+      directoryExists: ts.sys.directoryExists,
+      getDirectories: ts.sys.getDirectories,
+      getCancellationToken: () => ({ isCancellationRequested: () => !!this.signal?.aborted }),
+    };
+
+    return ts.createLanguageService(host, ts.createDocumentRegistry());
+  }
+
+  private findConfigFile(dir: string): string | null {
+    for (let current = dir; ; current = path.dirname(current)) {
+      for (const name of ['tsconfig.json', 'jsconfig.json']) {
+        const candidate = path.join(current, name);
+        if (ts.sys.fileExists(candidate)) return candidate;
+      }
+      if (current === this.repoPath || path.dirname(current) === current) return null;
+    }
+  }
+
+  /**
+   * Name nodes to search from: module-level and class-member declarations
+   * under the selection, else the identifiers it uses that resolve to
+   * non-local declarations in project files
+   */
+  private selectTargets(
+    sourceFile: ts.SourceFile,
+    checker: ts.TypeChecker,
+    selection: CodeSelection
+  ): ts.Identifier[] {
+    const lineStarts = sourceFile.getLineStarts();
+    const start = lineStarts[Math.min(Math.max(selection.lineStart - 1, 0), lineStarts.length - 1)];
+    const end = selection.lineEnd < lineStarts.length ? lineStarts[selection.lineEnd] : sourceFile.end;
+    const inSelection = (node: ts.Node) => node.getStart(sourceFile) < end && node.end > start;
+
+    const declared: ts.Identifier[] = [];
+    const used: ts.Identifier[] = [];
+
+    const visit = (node: ts.Node) => {
+      if (!inSelection(node)) return;
+
+      const name = declarationName(node);
+      if (name && inSelection(name) && !isLocal(node)) {
+        declared.push(name);
+      } else if (ts.isIdentifier(node) && !(node.parent && declarationName(node.parent) === node)) {
+        used.push(node);
+      }
+      ts.forEachChild(node, visit);
+    };
+    ts.forEachChild(sourceFile, visit);
+
+    const candidates = declared.length > 0
+      ? declared
+      : used.filter(id => {
+          let symbol = checker.getSymbolAtLocation(id);
+          if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+            symbol = checker.getAliasedSymbol(symbol); // Judge imports by what they import
+          }
+          const declaration = symbol?.declarations?.[0];
+          if (!declaration || isLocal(declaration)) return false;
+          const file = declaration.getSourceFile();
+          return !file.isDeclarationFile && !file.fileName.includes('/node_modules/');
+        });
+
+    // One search per symbol, however often it appears
+    const seen = new Set<ts.Symbol | string>();
+    const targets: ts.Identifier[] = [];
+    for (const id of candidates) {
+      const symbol = checker.getSymbolAtLocation(id);
+      const key = symbol || id.text;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      targets.push(id);
+      if (targets.length >= MAX_TARGETS) break;
+    }
+    return targets;
+  }
+}
+
+function declarationName(node: ts.Node): ts.Identifier | undefined {
+  if (
+    ts.isFunctionDeclaration(node) || ts.isClassDeclaration(node) || ts.isInterfaceDeclaration(node) ||
+    ts.isTypeAliasDeclaration(node) || ts.isEnumDeclaration(node) || ts.isVariableDeclaration(node) ||
+    ts.isMethodDeclaration(node) || ts.isPropertyDeclaration(node) || ts.isGetAccessorDeclaration(node) ||
+    ts.isSetAccessorDeclaration(node) || ts.isMethodSignature(node) || ts.isPropertySignature(node)
+  ) {
+    return node.name && ts.isIdentifier(node.name) ? node.name : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Declared inside a function body, so it cannot be referenced elsewhere
+ */
+function isLocal(node: ts.Node): boolean {
+  for (let current = node.parent; current; current = current.parent) {
+    if (ts.isFunctionLike(current)) return true;
+  }
+  return false;
+}
+
+/**
+ * Innermost node whose span (excluding leading trivia) contains a position
+ */
+function findNodeAt(sourceFile: ts.SourceFile, position: number): ts.Node {
+  let node: ts.Node = sourceFile;
+  for (;;) {
+    const child = ts.forEachChild(node, c =>
+      c.getStart(sourceFile) <= position && position < c.end ? c : undefined
+    );
+    if (!child) return node;
+    node = child;
+  }
+}
+
+function classifyReference(node: ts.Identifier): CodebaseReference['type'] {
+  // Widen `ns.name` and `ns.Type` to the whole access for the checks below
+  let expression: ts.Node = node;
+  while (
+    (ts.isPropertyAccessExpression(expression.parent) && expression.parent.name === expression) ||
+    (ts.isQualifiedName(expression.parent) && expression.parent.right === expression)
+  ) {
+    expression = expression.parent;
+  }
+  const parent = expression.parent;
+
+  for (let current: ts.Node = node; !ts.isSourceFile(current); current = current.parent) {
+    if (ts.isImportSpecifier(current) || ts.isExportSpecifier(current)) {
+      if (current.isTypeOnly) return 'type-only';
+    } else if (ts.isImportDeclaration(current)) {
+      return current.importClause?.isTypeOnly ? 'type-only' : 'import';
+    } else if (ts.isExportDeclaration(current) || ts.isImportEqualsDeclaration(current)) {
+      return current.isTypeOnly ? 'type-only' : 'import';
+    }
+  }
+
+  if (ts.isExpressionWithTypeArguments(parent) && ts.isHeritageClause(parent.parent)) {
+    return parent.parent.token === ts.SyntaxKind.ImplementsKeyword ? 'implements' : 'extends';
+  }
+
+  if (
+    ((ts.isCallExpression(parent) || ts.isNewExpression(parent)) && parent.expression === expression) ||
+    (ts.isTaggedTemplateExpression(parent) && parent.tag === expression) ||
+    ts.isDecorator(parent) ||
+    ((ts.isJsxOpeningElement(parent) || ts.isJsxSelfClosingElement(parent)) && parent.tagName === expression)
+  ) {
+    return 'call';
+  }
+
+  for (let current: ts.Node = expression; !ts.isSourceFile(current); current = current.parent) {
+    if (ts.isTypeNode(current)) return 'type-only';
+  }
+
+  return 'reference';
+}
@@ -3,10 +3,10 @@
  * Analyzes code and calculates technical debt score using AI
  */
 
-import { GoogleGenAI } from '@google/genai';
 import simpleGit, { SimpleGit } from 'simple-git';
 import * as fs from 'fs';
 import * as path from 'path';
+import { LLMProvider } from '../llm';
 
 export interface TechDebtScore {
   overallScore: number;  // 0-100, higher = more debt
@@ -14,6 +14,7 @@ export interface TechDebtScore {
   factors: TechDebtFactor[];
   suggestions: string[];
   summary: string;
+  cancelled?: boolean;  // Scored from the files analyzed before the run was cancelled
 }
 
 export interface TechDebtFactor {
@@ -34,14 +35,14 @@ export interface FileDebtAnalysis {
 }
 
 export class TechDebtAgent {
-  private genai: GoogleGenAI;
+  private provider: LLMProvider;
   private git: SimpleGit;
   private repoPath: string;
 
-  constructor(repoPath: string, apiKey: string) {
+  constructor(repoPath: string, provider: LLMProvider) {
     this.repoPath = repoPath;
     this.git = simpleGit(repoPath);
-    this.genai = new GoogleGenAI({ apiKey });
+    this.provider = provider;
   }
 
   /**
@@ -115,15 +116,19 @@ export class TechDebtAgent {
   }
 
   /**
-   * Calculate overall project tech debt score
+   * Calculate overall project tech debt score. Aborting the signal stops
+   * the file scan and scores the files analyzed so far.
    */
-  async analyzeProject(): Promise<TechDebtScore> {
+  async analyzeProject(signal?: AbortSignal): Promise<TechDebtScore> {
+    this.git = simpleGit({ baseDir: this.repoPath, abort: signal });
+
     // Get source files
     const files = await this.getSourceFiles();
     const fileAnalyses: FileDebtAnalysis[] = [];
 
     // Analyze up to 20 files for performance
     for (const file of files.slice(0, 20)) {
+      if (signal?.aborted) break;
       try {
         const analysis = await this.analyzeFile(file);
         fileAnalyses.push(analysis);
@@ -186,7 +191,8 @@ export class TechDebtAgent {
       grade,
       factors,
       suggestions,
-      summary
+      summary,
+      cancelled: signal?.aborted
     };
   }
 
@@ -0,0 +1,469 @@
+/**
+ * Tracker Archive Agent - Offline Issue Tracker Specialist
+ * Reads local issue tracker exports (GitHub JSON dumps, Jira CSV/JSON,
+ * folders of markdown tickets) so investigations keep their issue context
+ * without network access or tokens
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  IssueData,
+  IssueComment,
+  AgentResponse,
+  ThoughtSignature,
+} from './types';
+import { parseCommitReferences } from './commitReferences';
+
+export type TrackerExportFormat = 'github' | 'jira' | 'markdown';
+
+export interface ArchivedTicket {
+  issue: IssueData;
+  format: TrackerExportFormat;
+  file: string;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Export record shapes; only the fields read here, all optional since exports vary
+
+interface GitHubUser {
+  login?: string;
+  name?: string;
+}
+
+interface GitHubExportComment {
+  id?: number;
+  user?: GitHubUser | null;                 // REST API
+  author?: GitHubUser | null;               // gh CLI
+  body?: string | null;
+  created_at?: string;
+  createdAt?: string;
+}
+
+interface GitHubExportIssue {
+  number: number;
+  title: string;
+  body?: string | null;
+  user?: GitHubUser | null;
+  author?: GitHubUser | null;
+  state?: string;                           // "open" / "OPEN", "closed" / "CLOSED"
+  html_url?: string;
+  url?: string;
+  created_at?: string;
+  createdAt?: string;
+  closed_at?: string | null;
+  closedAt?: string | null;
+  labels?: (string | { name?: string })[];
+  comments?: GitHubExportComment[] | number; // REST dumps only carry a count
+}
+
+interface JiraUser {
+  displayName?: string;
+  name?: string;
+}
+
+// Atlassian Document Format node (Jira Cloud rich text)
+interface AdfNode {
+  type?: string;
+  text?: string;
+  content?: AdfNode[];
+}
+
+type JiraText = AdfNode | string | null | undefined;
+
+interface JiraExportComment {
+  id?: string;
+  author?: JiraUser | null;
+  body?: JiraText;
+  created?: string;
+}
+
+interface JiraExportIssue {
+  key: string;
+  self?: string;
+  fields: {
+    summary?: string;
+    description?: JiraText;
+    reporter?: JiraUser | null;
+    creator?: JiraUser | null;
+    status?: { statusCategory?: { key?: string } };
+    created?: string;
+    resolutiondate?: string | null;
+    labels?: string[];
+    comment?: { comments?: JiraExportComment[] };
+  };
+}
+
+export class TrackerArchiveAgent {
+  private exportPaths: string[];
+  private byNumber: Map<number, ArchivedTicket> | null = null;
+  private byKey: Map<string, ArchivedTicket> = new Map();
+  private stepCounter: number = 0;
+
+  /**
+   * @param exportPaths Export files or directories (scanned for .json, .csv and .md)
+   */
+  constructor(exportPaths: string[]) {
+    this.exportPaths = exportPaths;
+  }
+
+  /**
+   * Find the tickets a commit message refers to
+   */
+  async resolveReferences(commitMessage: string): Promise<AgentResponse<ArchivedTicket[]>> {
+    const startTime = Date.now();
+    this.load();
+
+    const refs = parseCommitReferences(commitMessage);
+    const tickets: ArchivedTicket[] = [];
+
+    for (const key of refs.ticketKeys) {
+      const ticket = this.byKey.get(key);
+      if (ticket && !tickets.includes(ticket)) tickets.push(ticket);
+    }
+    for (const number of refs.issueNumbers) {
+      const ticket = this.byNumber!.get(number);
+      if (ticket && !tickets.includes(ticket)) tickets.push(ticket);
+    }
+
+    return {
+      data: tickets,
+      thoughtSignature: this.generateThoughtSignature(),
+      tokensUsed: 0,
+      latencyMs: Date.now() - startTime
+    };
+  }
+
+  /**
+   * Look up a single ticket by number (#123) or key (PROJ-456)
+   */
+  getTicket(ref: number | string): ArchivedTicket | null {
+    this.load();
+    return (typeof ref === 'number' ? this.byNumber!.get(ref) : this.byKey.get(ref)) || null;
+  }
+
+  /**
+   * Number of tickets loaded from the exports
+   */
+  get size(): number {
+    this.load();
+    return this.byNumber!.size + this.byKey.size;
+  }
+
+  // ============================================
+  // Loading
+  // ============================================
+
+  private load(): void {
+    if (this.byNumber) return;
+    this.byNumber = new Map();
+
+    for (const exportPath of this.exportPaths) {
+      for (const file of this.listFiles(exportPath)) {
+        try {
+          for (const ticket of this.loadFile(file)) {
+            // Keyed tickets (Jira, PROJ-1.md) are only reachable by key so
+            // their numeric suffix cannot shadow a GitHub "#1"
+            if (ticket.issue.key) {
+              this.byKey.set(ticket.issue.key, ticket);
+            } else {
+              this.byNumber.set(ticket.issue.number, ticket);
+            }
+          }
+        } catch (error) {
+          console.warn(`Skipping unreadable tracker export ${file}:`, error);
+        }
+      }
+    }
+  }
+
+  private listFiles(exportPath: string): string[] {
+    if (!fs.existsSync(exportPath)) return [];
+    if (!fs.statSync(exportPath).isDirectory()) return [exportPath];
+
+    return fs.readdirSync(exportPath, { withFileTypes: true }).flatMap(entry => {
+      const full = path.join(exportPath, entry.name);
+      if (entry.isDirectory()) return this.listFiles(full);
+      return /\.(json|csv|md)$/i.test(entry.name) ? [full] : [];
+    });
+  }
+
+  private loadFile(file: string): ArchivedTicket[] {
+    const content = fs.readFileSync(file, 'utf-8');
+    const ext = path.extname(file).toLowerCase();
+
+    if (ext === '.csv') {
+      return this.parseJiraCsv(content).map(issue => ({ issue, format: 'jira' as const, file }));
+    }
+
+    if (ext === '.md') {
+      const issue = this.parseMarkdownTicket(content, file);
+      return issue ? [{ issue, format: 'markdown', file }] : [];
+    }
+
+    const json = JSON.parse(content) as unknown[] | { issues?: unknown[]; items?: unknown[] };
+    const items = Array.isArray(json) ? json : json.issues || json.items || [json];
+
+    return items.flatMap((item): ArchivedTicket[] => {
+      if (isJiraIssue(item)) {
+        return [{ issue: this.parseJiraIssue(item), format: 'jira', file }];
+      }
+      if (isGitHubIssue(item)) {
+        return [{ issue: this.parseGitHubIssue(item), format: 'github', file }];
+      }
+      return [];
+    });
+  }
+
+  // ============================================
+  // Format Parsers
+  // ============================================
+
+  /**
+   * REST API dumps (snake_case) and `gh issue list --json` output (camelCase)
+   */
+  private parseGitHubIssue(item: GitHubExportIssue): IssueData {
+    const login = (u?: GitHubUser | null) => u?.login || u?.name || 'unknown';
+
+    return {
+      number: item.number,
+      title: item.title,
+      body: item.body || '',
+      author: login(item.user || item.author),
+      state: String(item.state).toLowerCase() === 'open' ? 'open' : 'closed',
+      url: item.html_url || item.url || '',
+      createdAt: toDate(item.created_at || item.createdAt),
+      closedAt: item.closed_at || item.closedAt ? toDate(item.closed_at || item.closedAt) : null,
+      labels: (item.labels || []).map(l => typeof l === 'string' ? l : l.name || ''),
+      comments: Array.isArray(item.comments)
+        ? item.comments.map((c, i): IssueComment => ({
+            id: c.id || i + 1,
+            author: login(c.user || c.author),
+            body: c.body || '',
+            createdAt: toDate(c.created_at || c.createdAt)
+          }))
+        : []
+    };
+  }
+
+  /**
+   * Jira REST export: { key, self, fields: { summary, description, ... } }
+   */
+  private parseJiraIssue(item: JiraExportIssue): IssueData {
+    const fields = item.fields;
+    const person = (p?: JiraUser | null) => p?.displayName || p?.name || 'unknown';
+    const done = fields.status?.statusCategory?.key === 'done' || !!fields.resolutiondate;
+    const origin = typeof item.self === 'string' ? item.self.match(/^https?:\/\/[^/]+/)?.[0] : null;
+
+    return {
+      number: jiraNumber(item.key),
+      key: item.key,
+      title: fields.summary || '',
+      body: jiraText(fields.description).trim(),
+      author: person(fields.reporter || fields.creator),
+      state: done ? 'closed' : 'open',
+      url: origin ? `${origin}/browse/${item.key}` : '',
+      createdAt: toDate(fields.created),
+      closedAt: fields.resolutiondate ? toDate(fields.resolutiondate) : null,
+      labels: fields.labels || [],
+      comments: (fields.comment?.comments || []).map((c, i): IssueComment => ({
+        id: parseInt(c.id || '', 10) || i + 1,
+        author: person(c.author),
+        body: jiraText(c.body).trim(),
+        createdAt: toDate(c.created)
+      }))
+    };
+  }
+
+  /**
+   * Jira "Export CSV (all fields)": repeated Labels/Comment columns,
+   * comments formatted as "date;author;body"
+   */
+  private parseJiraCsv(content: string): IssueData[] {
+    const [header, ...rows] = parseCsv(content.replace(/^\uFEFF/, ''));
+    if (!header) return [];
+
+    const column = (name: string) => header.indexOf(name);
+    const columns = (name: string) => header.flatMap((h, i) => h === name ? [i] : []);
+    const keyCol = column('Issue key');
+    if (keyCol < 0) return [];
+
+    return rows.filter(row => row[keyCol]).map(row => {
+      const get = (name: string) => row[column(name)] || '';
+      const resolved = get('Resolved');
+      const done = !!resolved || /^(done|closed|resolved)$/i.test(get('Status'));
+
+      return {
+        number: jiraNumber(row[keyCol]),
+        key: row[keyCol],
+        title: get('Summary'),
+        body: get('Description'),
+        author: get('Reporter') || get('Creator') || 'unknown',
+        state: done ? 'closed' as const : 'open' as const,
+        url: '',
+        createdAt: toDate(get('Created')),
+        closedAt: resolved ? toDate(resolved) : null,
+        labels: columns('Labels').map(i => row[i]).filter(l => l),
+        comments: columns('Comment').map(i => row[i]).filter(c => c).map((c, i) => {
+          const [date, author, ...body] = c.split(';');
+          return {
+            id: i + 1,
+            author: author || 'unknown',
+            body: body.join(';'),
+            createdAt: toDate(date)
+          };
+        })
+      };
+    });
+  }
+
+  /**
+   * A markdown ticket: optional front matter (id/key, title, status,
+   * author, created, labels), otherwise the id comes from the file name
+   * (123.md, PROJ-456.md) and the title from the first heading
+   */
+  private parseMarkdownTicket(content: string, file: string): IssueData | null {
+    const frontMatter: Record<string, string> = {};
+    let body = content;
+
+    const fm = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+    if (fm) {
+      for (const line of fm[1].split(/\r?\n/)) {
+        const match = line.match(/^(\w+):\s*(.*)$/);
+        if (match) frontMatter[match[1].toLowerCase()] = match[2].replace(/^["']|["']$/g, '');
+      }
+      body = content.substring(fm[0].length);
+    }
+
+    const id = frontMatter.key || frontMatter.id || path.basename(file, path.extname(file));
+    const keyMatch = id.match(/^[A-Z][A-Z0-9_]+-\d+$/);
+    const numberMatch = id.match(/^#?(\d+)$/);
+    if (!keyMatch && !numberMatch) return null;
+
+    const heading = body.match(/^#\s+(.+)$/m);
+    const created = frontMatter.created || frontMatter.date;
+
+    return {
+      number: keyMatch ? jiraNumber(id) : parseInt(numberMatch![1], 10),
+      ...(keyMatch && { key: id }),
+      title: frontMatter.title || heading?.[1].trim() || id,
+      body: body.trim(),
+      author: frontMatter.author || frontMatter.reporter || 'unknown',
+      state: /^(closed|done|resolved|fixed)$/i.test(frontMatter.status || '') ? 'closed' : 'open',
+      url: frontMatter.url || '',
+      createdAt: created ? toDate(created) : fs.statSync(file).mtime,
+      closedAt: null,
+      labels: (frontMatter.labels || '').replace(/^\[|\]$/g, '').split(',').map(l => l.trim()).filter(l => l),
+      comments: []
+    };
+  }
+
+  private generateThoughtSignature(): ThoughtSignature {
+    this.stepCounter++;
+    return {
+      signature: `tracker-archive-${Date.now()}-${this.stepCounter}`,
+      timestamp: new Date(),
+      agentId: 'tracker-archive',
+      step: this.stepCounter
+    };
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function jiraNumber(key: string): number {
+  return parseInt(key.substring(key.lastIndexOf('-') + 1), 10) || 0;
+}
+
+function isJiraIssue(item: unknown): item is JiraExportIssue {
+  const issue = item as Partial<JiraExportIssue> | null;
+  return typeof issue?.key === 'string' && !!issue.key && typeof issue.fields === 'object' && issue.fields !== null;
+}
+
+function isGitHubIssue(item: unknown): item is GitHubExportIssue {
+  const issue = item as Partial<GitHubExportIssue> | null;
+  return typeof issue?.number === 'number' && typeof issue.title === 'string' && !!issue.title;
+}
+
+/**
+ * Jira Cloud descriptions are Atlassian Document Format; flatten to text
+ */
+function jiraText(value: JiraText): string {
+  if (!value) return '';
+  if (typeof value === 'string') return value;
+  if (value.type === 'text') return value.text || '';
+
+  const children = (value.content || []).map(jiraText).join('');
+  return ['paragraph', 'heading', 'listItem', 'codeBlock'].includes(value.type || '')
+    ? `${children}\n`
+    : children;
+}
+
+/**
+ * Parse a date from any export, including Jira's "12/Mar/24 3:15 PM";
+ * unparseable values fall back to the epoch rather than an invalid Date
+ */
+function toDate(value: unknown): Date {
+  if (value instanceof Date) return value;
+  if (typeof value !== 'string' || !value.trim()) return new Date(0);
+
+  const jira = value.trim().match(/^(\d{1,2})\/(\w{3})\/(\d{2,4})(?:\s+(\d{1,2}):(\d{2})\s*(AM|PM)?)?$/i);
+  if (jira) {
+    const [, day, mon, yr, hh, mm, ampm] = jira;
+    let hours = parseInt(hh || '0', 10);
+    if (ampm) hours = hours % 12 + (ampm.toUpperCase() === 'PM' ? 12 : 0);
+    const year = yr.length === 2 ? 2000 + parseInt(yr, 10) : parseInt(yr, 10);
+    return new Date(year, MONTHS.indexOf(mon.toLowerCase()), parseInt(day, 10), hours, parseInt(mm || '0', 10));
+  }
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? new Date(0) : date;
+}
+
+/**
+ * Minimal RFC 4180 CSV parser (quoted fields, escaped quotes, embedded newlines)
+ */
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const ch = content[i];
+
+    if (quoted) {
+      if (ch === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
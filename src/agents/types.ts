@@ -3,6 +3,9 @@
  * Core types for the multi-agent investigation system
  */
 
+import { UsageSummary } from '../llm';
+import { ServiceFailure } from '../scheduler';
+
 // ============================================
 // Evidence Types
 // ============================================
@@ -16,6 +19,36 @@ export interface BlameData {
   lineContent: string;
 }
 
+export interface BlamedCommit {
+  commitHash: string;
+  author: string;
+  authorEmail: string;
+  timestamp: Date;
+  summary: string;
+  lineCount: number;         // Lines of the range this commit owns
+  lineNumbers: number[];
+  originalPath?: string;     // Set when the lines came from another file (move/copy)
+}
+
+export type MechanicalReason = 'whitespace' | 'rename' | 'mass-format';
+
+export interface SkippedCommit {
+  commitHash: string;
+  summary: string;
+  reason: MechanicalReason;
+  detail: string;
+}
+
+export interface BlameRange {
+  filePath: string;
+  lineStart: number;
+  lineEnd: number;
+  lines: BlameData[];        // One entry per line, in file order
+  commits: BlamedCommit[];   // Distinct commits, most lines first
+  skipped?: SkippedCommit[]; // Mechanical commits blamed through by the ancestry walk
+  ignoreRevsFile?: string;   // .git-blame-ignore-revs, when the repo has one
+}
+
 export interface CommitInfo {
   hash: string;
   author: string;
@@ -24,6 +57,8 @@ export interface CommitInfo {
   message: string;
   diff: string;
   changedFiles: string[];
+  coAuthors?: string[];      // Co-authored-by trailers
+  reviewers?: string[];      // Reviewed-by trailers
 }
 
 export interface PRData {
@@ -57,6 +92,7 @@ export interface PRReview {
 
 export interface IssueData {
   number: number;
+  key?: string;              // Tracker key for non-numeric trackers, e.g. "PROJ-456"
   title: string;
   body: string;
   author: string;
@@ -79,13 +115,14 @@ export interface IssueComment {
 // Evidence Container
 // ============================================
 
-export type EvidenceType = 'blame' | 'commit' | 'pr' | 'issue' | 'file_history';
+export type EvidenceType = 'blame' | 'blame_range' | 'commit' | 'pr' | 'issue' | 'file_history';
 
 export interface Evidence {
+  id: string; // "E1", "E2", ... in collection order; claims cite these
   type: EvidenceType;
-  data: BlameData | CommitInfo | PRData | IssueData | CommitInfo[];
+  data: BlameData | BlameRange | CommitInfo | PRData | IssueData | CommitInfo[];
   timestamp: Date;
-  source: string; // e.g., "git blame", "GitHub API"
+  source: string; // e.g., "git blame", "GitHub API", "GitLab API"
 }
 
 // ============================================
@@ -118,15 +155,30 @@ export interface CodeSelection {
   repoName?: string;
 }
 
+/**
+ * A use of the selected code elsewhere in the repo. TS/JS references come
+ * from the language service; other languages fall back to text matching,
+ * which only tells calls, imports and heritage clauses apart.
+ */
+export interface CodebaseReference {
+  file: string;
+  line: number;
+  context: string;
+  type: 'import' | 'call' | 'extends' | 'implements' | 'type-only' | 'reference';
+  symbol?: string;   // Declaration the reference resolves to (language service only)
+}
+
 export interface CaseFile {
   id: string;
   codeSelection: CodeSelection;
   evidence: Evidence[];
   thoughtChain: ThoughtChain;
-  status: 'investigating' | 'completed' | 'failed';
+  status: 'investigating' | 'completed' | 'failed' | 'cancelled';
   startedAt: Date;
   completedAt: Date | null;
   confidence: number;
+  usage?: UsageSummary; // Model tokens and estimated cost spent on this case
+  failures?: ServiceFailure[]; // Forge or model calls that failed while gathering evidence
 }
 
 // ============================================
@@ -136,24 +188,70 @@ export interface CaseFile {
 export interface InvestigationResult {
   narrative: string;
   summary: string;
-  confidence: number;
+  confidence: number; // Blended score, see confidenceBreakdown
+  confidenceRationale?: string;
+  confidenceBreakdown?: ConfidenceBreakdown;
+  claims?: Claim[];
+  contextPacking?: ContextPacking;
+  usage?: UsageSummary;
+  failures?: ServiceFailure[]; // Evidence that could not be fetched, so is missing from the analysis
+  cancelled?: boolean;         // Stopped before synthesis; only the evidence gathered so far
   sources: Source[];
   recommendations: Recommendation[];
   timeline: TimelineEvent[];
   thoughtChain: ThoughtChain;
 }
 
+export interface ConfidenceFactor {
+  name: string;
+  weight: number; // Factor weights sum to 1
+  score: number;  // 0-1
+  detail: string;
+}
+
+export interface ConfidenceBreakdown {
+  score: number;          // Final 0-100 score reported as the confidence
+  evidenceScore: number;  // 0-100 from the factors below
+  modelScore: number;     // 0-100 as self-reported by the model
+  evidenceWeight: number; // Share of the final score taken by evidenceScore
+  factors: ConfidenceFactor[];
+}
+
+export interface DroppedEvidence {
+  evidenceId: string;
+  kind: 'diff hunk' | 'PR description' | 'PR comment' | 'PR review' | 'issue description' | 'issue comment' | 'history entry';
+  label: string;
+  tokens: number;
+}
+
+export interface ContextPacking {
+  budgetTokens: number;
+  usedTokens: number;         // Estimated prompt size after packing
+  dropped: DroppedEvidence[]; // Lowest-relevance pieces that did not fit
+}
+
+export type ClaimCategory = 'discovery' | 'evolution' | 'assessment';
+
+export interface Claim {
+  text: string;
+  category: ClaimCategory;
+  evidenceIds: string[]; // Evidence.id values backing the claim
+  unsupported?: boolean; // Every ID the model cited for it was unknown, so nothing backs it
+}
+
 export interface Source {
   type: 'commit' | 'pr' | 'issue' | 'comment';
   id: string;
   url?: string;
   description: string;
+  evidenceId?: string;
 }
 
 export interface Recommendation {
   action: 'keep' | 'refactor' | 'document' | 'remove' | 'investigate';
   reason: string;
   priority: 'low' | 'medium' | 'high';
+  evidenceIds?: string[];
 }
 
 export interface TimelineEvent {
@@ -179,6 +277,7 @@ export interface AgentConfig {
 
 export interface AgentResponse<T> {
   data: T;
+  error?: ServiceFailure; // Set when the call failed and data is an empty fallback
   thoughtSignature?: ThoughtSignature;
   tokensUsed: number;
   latencyMs: number;
@@ -10,10 +10,15 @@ import * as path from 'path';
 import simpleGit, { SimpleGit } from 'simple-git';
 import { Investigator } from '../investigator';
 import { InvestigationResult, CodeSelection } from './types';
+import { LLMProvider, MeteredProvider, UsageMeter, UsageSummary, BudgetExceededError, formatUsage } from '../llm';
+import { CaseFileStore } from '../caseFileStore';
+import { ForgeSettings } from '../forges';
 
 export interface WatchConfig {
-  geminiApiKey: string;
+  provider: LLMProvider;
   githubToken?: string;
+  forge?: ForgeSettings;       // Forge override; inferred from the git remote when unset
+  store?: CaseFileStore;       // Persist every investigation to the case file store
   pollIntervalMs?: number;      // How often to check for new commits (default: 30000)
   investigateNewCommits?: boolean;
   investigateSuspiciousPatterns?: boolean;
@@ -92,6 +97,7 @@ export class WatchModeAgent extends EventEmitter {
   private investigator: Investigator;
   private investigationHistory: WatchInvestigationResult[] = [];
   private lastSyncStatus: RemoteSyncStatus | null = null;
+  private usage: UsageMeter = new UsageMeter();
 
   constructor(repoPath: string, config: WatchConfig) {
     super();
@@ -99,9 +105,11 @@ export class WatchModeAgent extends EventEmitter {
     this.config = config;
     this.git = simpleGit(repoPath);
     this.investigator = new Investigator({
-      geminiApiKey: config.geminiApiKey,
+      provider: new MeteredProvider(config.provider, this.usage),
       githubToken: config.githubToken,
-      thinkingLevel: 'high'
+      forge: config.forge,
+      thinkingLevel: 'high',
+      store: config.store
     });
   }
 
@@ -171,6 +179,7 @@ export class WatchModeAgent extends EventEmitter {
         const newCommits = await this.getCommitsSince(this.lastKnownCommit!);
         
         for (const commit of newCommits.slice(0, this.config.maxInvestigationsPerPoll || 3)) {
+          if (!this.isWatching) break;
           await this.processNewCommit(commit);
         }
 
@@ -180,6 +189,9 @@ export class WatchModeAgent extends EventEmitter {
       this.emit('error', error);
     }
 
+    // Stopped while processing (e.g. the token budget ran out)
+    if (!this.isWatching) return;
+
     // Schedule next poll
     this.pollTimer = setTimeout(
       () => this.poll(),
@@ -356,6 +368,12 @@ export class WatchModeAgent extends EventEmitter {
 
       console.log(`✅ Investigation complete. Confidence: ${investigation.confidence}%`);
     } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        console.error(`💸 ${error.message}, stopping watch mode`);
+        this.stop();
+        this.emit('budgetExceeded', error);
+        return;
+      }
       console.error(`❌ Investigation failed: ${error}`);
       this.emit('investigationFailed', { commit, error });
     }
@@ -400,18 +418,29 @@ export class WatchModeAgent extends EventEmitter {
     return [...this.investigationHistory];
   }
 
+  /**
+   * Model tokens and estimated cost for the whole session
+   */
+  getUsage(): UsageSummary {
+    return this.usage.summary();
+  }
+
   /**
    * Generate summary report
    */
   generateReport(): string {
     let report = `# Watch Mode Report\n\n`;
     report += `**Repository:** ${this.repoPath}\n`;
-    report += `**Investigations:** ${this.investigationHistory.length}\n\n`;
+    report += `**Investigations:** ${this.investigationHistory.length}\n`;
+    report += `**Model Usage:** ${formatUsage(this.usage.summary())}\n\n`;
 
     for (const result of this.investigationHistory) {
       report += `## ${result.commit.hash.substring(0, 7)} - ${result.commit.message}\n`;
       report += `**Author:** ${result.commit.author}\n`;
       report += `**Confidence:** ${result.investigation.confidence}%\n`;
+      if (result.investigation.usage) {
+        report += `**Model Usage:** ${formatUsage(result.investigation.usage)}\n`;
+      }
       report += `**Summary:** ${result.investigation.summary}\n\n`;
     }
 
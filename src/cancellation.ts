@@ -0,0 +1,58 @@
+/**
+ * Cancellation
+ * Helpers for threading an AbortSignal through long runs: investigations,
+ * deep dives, conflict resolution and the agents below them
+ */
+
+/**
+ * Thrown when a run is cancelled. Runs that can stop early catch it and
+ * return their partial result instead.
+ */
+export class CancelledError extends Error {
+  constructor(message: string = 'Cancelled') {
+    super(message);
+    this.name = 'CancelledError';
+  }
+}
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new CancelledError();
+  }
+}
+
+/**
+ * Whether an error came from cancelling: ours, a fetch or SDK AbortError,
+ * or simple-git's abort plugin killing a git process
+ */
+export function isCancellation(error: unknown, signal?: AbortSignal): boolean {
+  if (error instanceof CancelledError) return true;
+  if (signal?.aborted) return true;
+
+  if (typeof error !== 'object' || error === null) return false;
+  return ('name' in error && error.name === 'AbortError')
+    || ('plugin' in error && error.plugin === 'abort');
+}
+
+/**
+ * Resolve after a delay, or reject with CancelledError as soon as the
+ * signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,203 @@
+/**
+ * The Repo Archaeologist - Case File Store
+ * Persists completed investigations (case file + result) to disk so history
+ * survives reloads and past investigations can be searched and re-opened
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  CaseFile,
+  InvestigationResult,
+  BlameData,
+  BlameRange,
+  CommitInfo,
+} from './agents/types';
+import { reviveDatesAt } from './jsonDates';
+
+export interface StoredCase {
+  caseFile: CaseFile;
+  result: InvestigationResult;
+  savedAt: Date;
+}
+
+export interface CaseSummary {
+  id: string;
+  filePath: string;
+  lineStart: number;
+  lineEnd: number;
+  summary: string;
+  confidence: number;
+  authors: string[];
+  startedAt: Date;
+  savedAt: Date;
+}
+
+export interface CaseQuery {
+  file?: string;     // Substring match on the investigated file path
+  author?: string;   // Case-insensitive match on blame/commit authors
+  since?: Date;
+  until?: Date;
+  limit?: number;
+}
+
+/**
+ * Revives the Date fields of a case file, its result and the index. Only
+ * these keys are revived: evidence, commit messages and model text that
+ * happen to be a bare timestamp stay strings.
+ */
+export const reviveCaseDates = reviveDatesAt(
+  'timestamp', 'date', 'createdAt', 'mergedAt', 'closedAt', 'startedAt', 'completedAt', 'savedAt'
+);
+
+export class CaseFileStore {
+  private casesDir: string;
+  private indexPath: string;
+
+  /**
+   * @param rootDir Store directory, e.g. <repo>/.codedetective
+   */
+  constructor(rootDir: string) {
+    this.casesDir = path.join(rootDir, 'cases');
+    this.indexPath = path.join(this.casesDir, 'index.json');
+  }
+
+  /**
+   * Default per-repo store under .codedetective/
+   */
+  static forRepo(repoPath: string): CaseFileStore {
+    return new CaseFileStore(path.join(repoPath, '.codedetective'));
+  }
+
+  /**
+   * Persist a completed investigation
+   */
+  save(caseFile: CaseFile, result: InvestigationResult): StoredCase {
+    const stored: StoredCase = { caseFile, result, savedAt: new Date() };
+
+    fs.mkdirSync(this.casesDir, { recursive: true });
+    fs.writeFileSync(this.casePath(caseFile.id), JSON.stringify(stored, null, 2));
+
+    const index = this.readIndex().filter(s => s.id !== caseFile.id);
+    index.push(this.summarize(stored));
+    this.writeIndex(index);
+
+    return stored;
+  }
+
+  /**
+   * List stored investigations, newest first
+   */
+  list(query: CaseQuery = {}): CaseSummary[] {
+    const author = query.author?.toLowerCase();
+
+    const matches = this.readIndex()
+      .filter(s => !query.file || s.filePath.includes(query.file))
+      .filter(s => !author || s.authors.some(a => a.toLowerCase().includes(author)))
+      .filter(s => !query.since || s.startedAt >= query.since)
+      .filter(s => !query.until || s.startedAt <= query.until)
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+
+    return query.limit ? matches.slice(0, query.limit) : matches;
+  }
+
+  /**
+   * Load a stored investigation by id (a unique id prefix is accepted)
+   */
+  get(id: string): StoredCase | null {
+    const fullId = this.resolveId(id);
+    if (!fullId) return null;
+
+    const file = this.casePath(fullId);
+    if (!fs.existsSync(file)) return null;
+
+    return JSON.parse(fs.readFileSync(file, 'utf-8'), reviveCaseDates) as StoredCase;
+  }
+
+  /**
+   * Delete a stored investigation
+   */
+  delete(id: string): boolean {
+    const fullId = this.resolveId(id);
+    if (!fullId) return false;
+
+    fs.rmSync(this.casePath(fullId), { force: true });
+    this.writeIndex(this.readIndex().filter(s => s.id !== fullId));
+    return true;
+  }
+
+  /**
+   * Remove old investigations; returns how many were deleted
+   */
+  prune(options: { olderThan?: Date; keep?: number }): number {
+    const sorted = this.list();
+    const doomed = sorted.filter((s, i) =>
+      (options.olderThan && s.startedAt < options.olderThan) ||
+      (options.keep !== undefined && i >= options.keep)
+    );
+
+    for (const s of doomed) {
+      fs.rmSync(this.casePath(s.id), { force: true });
+    }
+
+    const doomedIds = new Set(doomed.map(s => s.id));
+    this.writeIndex(this.readIndex().filter(s => !doomedIds.has(s.id)));
+    return doomed.length;
+  }
+
+  // ============================================
+  // Private Helpers
+  // ============================================
+
+  private casePath(id: string): string {
+    return path.join(this.casesDir, `${id}.json`);
+  }
+
+  private resolveId(id: string): string | null {
+    const matches = this.readIndex().filter(s => s.id.startsWith(id));
+    return matches.length === 1 ? matches[0].id : null;
+  }
+
+  private readIndex(): CaseSummary[] {
+    if (!fs.existsSync(this.indexPath)) return [];
+    try {
+      return JSON.parse(fs.readFileSync(this.indexPath, 'utf-8'), reviveCaseDates) as CaseSummary[];
+    } catch {
+      return [];
+    }
+  }
+
+  private writeIndex(index: CaseSummary[]): void {
+    fs.mkdirSync(this.casesDir, { recursive: true });
+    fs.writeFileSync(this.indexPath, JSON.stringify(index, null, 2));
+  }
+
+  private summarize(stored: StoredCase): CaseSummary {
+    const { caseFile, result } = stored;
+    const authors = new Set<string>();
+
+    for (const e of caseFile.evidence) {
+      if (e.type === 'blame') authors.add((e.data as BlameData).author);
+      if (e.type === 'blame_range') {
+        for (const c of (e.data as BlameRange).commits) authors.add(c.author);
+      }
+      if (e.type === 'commit') {
+        const commit = e.data as CommitInfo;
+        authors.add(commit.author);
+        commit.coAuthors?.forEach(a => authors.add(a));
+      }
+    }
+
+    return {
+      id: caseFile.id,
+      filePath: caseFile.codeSelection.filePath,
+      lineStart: caseFile.codeSelection.lineStart,
+      lineEnd: caseFile.codeSelection.lineEnd,
+      summary: result.summary.substring(0, 200),
+      confidence: result.confidence,
+      authors: [...authors].filter(a => a),
+      startedAt: caseFile.startedAt,
+      savedAt: stored.savedAt
+    };
+  }
+}
@@ -6,12 +6,31 @@
 
 import { Command } from 'commander';
 import chalk from 'chalk';
-import ora from 'ora';
+import ora, { Ora } from 'ora';
 import * as fs from 'fs';
 import * as path from 'path';
 import { config as dotenvConfig } from 'dotenv';
-import { Investigator } from './investigator';
+import { Investigator, generateMarkdownExport } from './investigator';
+import { CaseFileStore } from './caseFileStore';
+import { InvestigationCache } from './investigationCache';
+import { DeepDiveCheckpointStore } from './deepDiveCheckpoints';
+import { ResolutionJournal } from './resolutionJournal';
+import { ForgeSettings, ForgeType, FORGE_TYPES } from './forges';
 import { StreamUpdate, InvestigationResult } from './agents/types';
+import { ResolverReport } from './agents/conflictResolver';
+import { configureScheduler, formatFailure } from './scheduler';
+import {
+  createLLMProvider,
+  CassetteProvider,
+  CassetteConfig,
+  DEFAULT_GEMINI_MODEL,
+  LLMProvider,
+  LLMProviderType,
+  MeteredProvider,
+  UsageMeter,
+  UsageSummary,
+  formatUsage,
+} from './llm';
 
 // Load environment variables
 dotenvConfig();
@@ -21,7 +40,11 @@ const program = new Command();
 program
   .name('repo-archaeologist')
   .description('Git blame tells you WHO. We tell you WHY.')
-  .version('0.1.0');
+  .version('0.1.0')
+  .option('--cassette <mode>', 'Record model calls to fixtures, or replay them offline (record, replay)')
+  .option('--cassette-dir <dir>', 'Cassette fixtures directory (default: .codedetective/cassettes)')
+  .option('--max-tokens <number>', 'Stop the run before its model calls exceed this many tokens (default: CODE_DETECTIVE_MAX_TOKENS)')
+  .option('--concurrency <number>', 'Model and forge requests allowed in flight at once (default: CODE_DETECTIVE_CONCURRENCY or 4)');
 
 program
   .command('investigate')
@@ -33,17 +56,20 @@ program
   .option('--thinking <level>', 'Thinking level (low, medium, high)', 'high')
   .option('--debug', 'Show debug information including thought signatures')
   .option('-o, --output <file>', 'Output markdown file')
+  .option('--no-cache', 'Do not read or write the investigation cache')
+  .option('--refresh', 'Ignore any cached result and re-run the investigation')
+  .option('--max-commits <number>', 'How many of the blamed commits to follow into PRs and issues', '5')
+  .option('--tracker <paths...>', 'Local issue tracker exports (GitHub JSON, Jira CSV/JSON, markdown ticket folders)')
+  .option('--context-budget <tokens>', 'Prompt token budget for evidence; the least relevant evidence is dropped beyond it')
   .action(async (file: string, options: any) => {
     const spinner = ora('Initializing investigation...').start();
 
     try {
-      // Validate API key
-      const geminiApiKey = process.env.GEMINI_API_KEY;
-      if (!geminiApiKey) {
-        spinner.fail('GEMINI_API_KEY not found in environment');
-        console.log(chalk.yellow('\nSet your API key:'));
-        console.log(chalk.gray('  export GEMINI_API_KEY=your_key_here'));
-        console.log(chalk.gray('  # or add to .env file'));
+      // Validate model provider configuration
+      const provider = resolveProvider();
+      if (!provider) {
+        spinner.fail('No model provider configured');
+        printProviderHelp();
         process.exit(1);
       }
 
@@ -81,9 +107,16 @@ program
 
       // Create investigator with streaming updates
       const investigator = new Investigator({
-        geminiApiKey,
+        provider,
         githubToken: process.env.GITHUB_TOKEN,
+        forge: resolveForgeSettings(),
         thinkingLevel: options.thinking as 'low' | 'medium' | 'high',
+        store: CaseFileStore.forRepo(repoPath),
+        cache: options.cache ? InvestigationCache.forRepo(repoPath) : undefined,
+        refreshCache: options.refresh,
+        maxBlameCommits: parseInt(options.maxCommits, 10),
+        contextBudget: options.contextBudget ? parseInt(options.contextBudget, 10) : undefined,
+        trackerExports: options.tracker?.map((p: string) => path.resolve(p)),
         onUpdate: (update: StreamUpdate) => {
           const badge = update.thinkingBadge 
             ? chalk.magenta(`[THINKING: ${update.thinkingBadge}]`) 
@@ -92,16 +125,21 @@ program
         }
       });
 
-      // Run investigation
+      // Run investigation; Ctrl+C stops it and reports what was gathered
+      const interrupt = cancelOnInterrupt(spinner);
       const result = await investigator.investigate({
         text: codeSnippet,
         filePath: path.relative(repoPath, filePath),
         lineStart: startLine,
         lineEnd: endLine,
         repoPath
-      });
+      }, interrupt.signal).finally(interrupt.dispose);
 
-      spinner.succeed('Investigation complete!');
+      if (result.cancelled) {
+        spinner.warn('Investigation cancelled; showing the evidence gathered so far');
+      } else {
+        spinner.succeed('Investigation complete!');
+      }
       console.log('');
 
       // Display results
@@ -163,6 +201,107 @@ program
     }
   });
 
+// ============================================
+// INVESTIGATION HISTORY COMMANDS
+// ============================================
+
+const history = program
+  .command('history')
+  .description('Browse, search and manage stored investigations');
+
+history
+  .command('list', { isDefault: true })
+  .description('List stored investigations, newest first')
+  .option('-r, --repo <path>', 'Path to repository', '.')
+  .option('-f, --file <path>', 'Only investigations of files matching this path')
+  .option('-a, --author <name>', 'Only investigations involving this author')
+  .option('--since <date>', 'Only investigations started on or after this date')
+  .option('--until <date>', 'Only investigations started on or before this date')
+  .option('-n, --limit <number>', 'Maximum number of results', '20')
+  .action((options: any) => {
+    const store = openCaseFileStore(options.repo);
+    const cases = store.list({
+      file: options.file,
+      author: options.author,
+      since: options.since ? new Date(options.since) : undefined,
+      until: options.until ? new Date(options.until) : undefined,
+      limit: parseInt(options.limit, 10)
+    });
+
+    if (cases.length === 0) {
+      console.log(chalk.gray('No stored investigations found'));
+      return;
+    }
+
+    console.log(chalk.bold(`\n${cases.length} investigation(s)\n`));
+    for (const c of cases) {
+      const confColor = c.confidence >= 70 ? chalk.green : c.confidence >= 40 ? chalk.yellow : chalk.red;
+      console.log(`${chalk.cyan(c.id.substring(0, 8))} ${c.filePath}:${c.lineStart}-${c.lineEnd} ${confColor(c.confidence + '%')} ${chalk.gray(c.startedAt.toISOString().split('T')[0])}`);
+      console.log(chalk.gray(`   ${c.summary.split('\n')[0].substring(0, 100)}`));
+    }
+  });
+
+history
+  .command('show')
+  .description('Show a stored investigation')
+  .argument('<id>', 'Investigation id (or unique prefix)')
+  .option('-r, --repo <path>', 'Path to repository', '.')
+  .option('-o, --output <file>', 'Output markdown file')
+  .action((id: string, options: any) => {
+    const store = openCaseFileStore(options.repo);
+    const stored = store.get(id);
+    if (!stored) {
+      console.error(chalk.red(`No investigation found for id ${id}`));
+      process.exit(1);
+    }
+
+    const { codeSelection } = stored.caseFile;
+    console.log(chalk.gray(`${codeSelection.filePath}:${codeSelection.lineStart}-${codeSelection.lineEnd} • saved ${stored.savedAt.toISOString()}\n`));
+    displayResults(stored.result, false);
+
+    if (options.output) {
+      const markdown = generateMarkdownExport(stored.result);
+      fs.writeFileSync(options.output, markdown.content);
+      console.log(chalk.green(`\n✓ Report saved to ${options.output}`));
+    }
+  });
+
+history
+  .command('delete')
+  .description('Delete a stored investigation')
+  .argument('<id>', 'Investigation id (or unique prefix)')
+  .option('-r, --repo <path>', 'Path to repository', '.')
+  .action((id: string, options: any) => {
+    const store = openCaseFileStore(options.repo);
+    if (!store.delete(id)) {
+      console.error(chalk.red(`No investigation found for id ${id}`));
+      process.exit(1);
+    }
+    console.log(chalk.green(`✓ Deleted investigation ${id}`));
+  });
+
+history
+  .command('prune')
+  .description('Delete old investigations')
+  .option('-r, --repo <path>', 'Path to repository', '.')
+  .option('--older-than <days>', 'Delete investigations older than this many days')
+  .option('--keep <number>', 'Keep only the newest N investigations')
+  .action((options: any) => {
+    if (!options.olderThan && !options.keep) {
+      console.error(chalk.red('Specify --older-than <days> and/or --keep <number>'));
+      process.exit(1);
+    }
+
+    const store = openCaseFileStore(options.repo);
+    const removed = store.prune({
+      olderThan: options.olderThan
+        ? new Date(Date.now() - parseInt(options.olderThan, 10) * 24 * 60 * 60 * 1000)
+        : undefined,
+      keep: options.keep ? parseInt(options.keep, 10) : undefined
+    });
+    console.log(chalk.green(`✓ Pruned ${removed} investigation(s)`));
+  });
+
 // ============================================
 // MARATHON AGENT COMMANDS
 // ============================================
@@ -170,42 +309,65 @@ program
 program
   .command('deep-dive')
   .description('Autonomous deep dive - explores dependencies and builds complete case')
-  .argument('<file>', 'Path to the file to start from')
+  .argument('[file]', 'Path to the file to start from (not needed with --resume)')
   .option('-l, --line <number>', 'Line number to focus on', '1')
   .option('-d, --depth <number>', 'Max dependency depth to explore', '3')
   .option('-m, --max-files <number>', 'Max files to explore', '10')
   .option('--verify', 'Enable self-verification loop')
-  .option('-o, --output <file>', 'Output markdown file')
-  .action(async (file: string, options: any) => {
-    const spinner = ora('Starting autonomous deep dive...').start();
+  .option('-o, --output <file>', 'Output markdown file (includes a Mermaid dependency graph)')
+  .option('--dot <file>', 'Write the dependency and reference graph as Graphviz DOT')
+  .option('--graph-json <file>', 'Write the dependency and reference graph as JSON')
+  .option('--resume <run-id>', 'Resume an unfinished deep dive from its checkpoint ("last" for the most recent)')
+  .option('--repo <path>', 'Repository path for --resume', '.')
+  .action(async (file: string | undefined, options: any) => {
+    const spinner = ora(options.resume ? 'Resuming deep dive...' : 'Starting autonomous deep dive...').start();
+    let runId: string | undefined;
     
     try {
-      const geminiApiKey = process.env.GEMINI_API_KEY;
-      if (!geminiApiKey) {
-        spinner.fail('GEMINI_API_KEY not found');
+      const provider = resolveProvider();
+      if (!provider) {
+        spinner.fail('No model provider configured');
+        printProviderHelp();
         process.exit(1);
       }
 
       const { DeepDiveAgent } = await import('./agents/deepDive');
+      const { buildDeepDiveGraph, toMermaid, toDot } = await import('./agents/deepDiveGraph');
+
+      if (!file && !options.resume) {
+        spinner.fail('Pass a file to start from, or --resume <run-id>');
+        process.exit(1);
+      }
       
-      const filePath = path.resolve(file);
-      const repoPath = findRepoRoot(filePath);
-      if (!repoPath) {
+      // A resumed run takes its file and selection from the checkpoint
+      const filePath = file ? path.resolve(file) : '';
+      const repoPath = file ? findRepoRoot(filePath) : path.resolve(options.repo);
+      if (!repoPath || !fs.existsSync(path.join(repoPath, '.git'))) {
         spinner.fail('Not in a git repository');
         process.exit(1);
       }
 
-      const fileContent = fs.readFileSync(filePath, 'utf-8');
-      const lines = fileContent.split('\n');
-      const startLine = parseInt(options.line, 10);
+      const checkpoints = DeepDiveCheckpointStore.forRepo(repoPath);
+      if (options.resume) {
+        runId = options.resume === 'last' ? checkpoints.latest()?.runId : checkpoints.get(options.resume)?.runId;
+        if (!runId) {
+          spinner.fail(`No unfinished deep dive matching "${options.resume}"`);
+          printResumableDeepDives(checkpoints);
+          process.exit(1);
+        }
+      }
 
       const agent = new DeepDiveAgent({
-        geminiApiKey,
+        provider,
         githubToken: process.env.GITHUB_TOKEN,
+        forge: resolveForgeSettings(),
+        store: CaseFileStore.forRepo(repoPath),
+        checkpoints,
         maxDepth: parseInt(options.depth, 10),
         maxFilesToExplore: parseInt(options.maxFiles, 10),
         verifyFindings: options.verify,
         onProgress: (update) => {
+          runId = update.runId;
           const status = update.verificationStatus 
             ? chalk.cyan(`[${update.verificationStatus.toUpperCase()}]`)
             : '';
@@ -213,18 +375,32 @@ program
         }
       });
 
-      const result = await agent.deepDive(
-        {
-          text: lines.slice(startLine - 1, startLine + 10).join('\n'),
-          filePath: path.relative(repoPath, filePath),
-          lineStart: startLine,
-          lineEnd: startLine + 10,
-          repoPath
-        },
-        repoPath
-      );
+      const interrupt = cancelOnInterrupt(spinner);
+      const startLine = parseInt(options.line, 10);
+      const result = await (runId
+        ? agent.resume(runId, interrupt.signal)
+        : agent.deepDive(
+          {
+            text: fs.readFileSync(filePath, 'utf-8').split('\n').slice(startLine - 1, startLine + 10).join('\n'),
+            filePath: path.relative(repoPath, filePath),
+            lineStart: startLine,
+            lineEnd: startLine + 10,
+            repoPath
+          },
+          repoPath,
+          interrupt.signal
+        )
+      ).finally(interrupt.dispose);
 
-      spinner.succeed(`Deep dive complete! Explored ${result.totalFilesExplored} files in ${(result.totalTimeMs / 1000).toFixed(1)}s`);
+      const explored = `Explored ${result.totalFilesExplored} files in ${(result.totalTimeMs / 1000).toFixed(1)}s`;
+      if (result.cancelled) {
+        spinner.warn(`Deep dive cancelled. ${explored}`);
+      } else {
+        spinner.succeed(`Deep dive ${result.resumed ? 'resumed and ' : ''}complete! ${explored}`);
+      }
+      if ((result.cancelled || result.budgetExceeded) && result.runId) {
+        console.log(chalk.gray(`  Resume with: repo-archaeologist deep-dive --resume ${result.runId}`));
+      }
       
       console.log('');
       console.log(chalk.bold.blue('═══════════════════════════════════════'));
@@ -236,6 +412,13 @@ program
       console.log(`  Files explored: ${result.totalFilesExplored}`);
       console.log(`  Time: ${(result.totalTimeMs / 1000).toFixed(1)}s`);
       console.log(`  Thought chain length: ${result.thoughtChainLength}`);
+      console.log(`  Model usage: ${formatUsage(result.usage)}`);
+      if (result.budgetExceeded) {
+        console.log(chalk.yellow(`  Stopped early: ${result.budgetExceeded}`));
+      }
+      if (result.cancelled) {
+        console.log(chalk.yellow('  Cancelled: the remaining steps were skipped'));
+      }
       console.log('');
       
       console.log(chalk.bold('🎯 Main Investigation'));
@@ -250,10 +433,27 @@ program
         console.log(`  Adjusted confidence: ${result.verificationReport.overallConfidence}%`);
       }
 
+      if (result.failures.length > 0) {
+        console.log(chalk.bold.yellow('\n⚠️  Failed steps'));
+        for (const failure of result.failures) {
+          console.log(chalk.yellow(`  ${formatFailure(failure)}`));
+        }
+      }
+
+      const graph = buildDeepDiveGraph(result);
+
       if (options.output) {
         let report = `# Deep Dive Report\n\n`;
         report += `**Files Explored:** ${result.totalFilesExplored}\n`;
-        report += `**Time:** ${(result.totalTimeMs / 1000).toFixed(1)}s\n\n`;
+        report += `**Time:** ${(result.totalTimeMs / 1000).toFixed(1)}s\n`;
+        report += `**Model Usage:** ${formatUsage(result.usage)}\n`;
+        if (result.budgetExceeded) {
+          report += `**Stopped early:** ${result.budgetExceeded}\n`;
+        }
+        if (result.cancelled) {
+          report += `**Cancelled:** the remaining steps were skipped\n`;
+        }
+        report += `\n`;
         report += `## Main Investigation\n\n${result.mainInvestigation.narrative}\n\n`;
         
         if (result.relatedInvestigations.size > 0) {
@@ -262,14 +462,36 @@ program
             report += `### ${file}\n${inv.summary}\n\n`;
           }
         }
+
+        report += `## Dependency Graph\n\n`;
+        report += `Solid arrows are imports; dashed arrows are references to the selected code.\n\n`;
+        report += '```mermaid\n' + toMermaid(graph) + '\n```\n\n';
+
+        if (result.failures.length > 0) {
+          report += `## Failed Steps\n\n`;
+          report += result.failures.map(f => `- ${formatFailure(f)}`).join('\n') + '\n';
+        }
         
         fs.writeFileSync(options.output, report);
         console.log(chalk.green(`\n✓ Report saved to ${options.output}`));
       }
 
+      if (options.dot) {
+        fs.writeFileSync(options.dot, toDot(graph) + '\n');
+        console.log(chalk.green(`✓ Graphviz graph saved to ${options.dot}`));
+      }
+
+      if (options.graphJson) {
+        fs.writeFileSync(options.graphJson, JSON.stringify(graph, null, 2));
+        console.log(chalk.green(`✓ Graph JSON saved to ${options.graphJson}`));
+      }
+
     } catch (error) {
       spinner.fail('Deep dive failed');
       console.error(chalk.red(`Error: ${error}`));
+      if (runId) {
+        console.log(chalk.gray(`Progress was checkpointed. Resume with: repo-archaeologist deep-dive --resume ${runId}`));
+      }
       process.exit(1);
     }
   });
@@ -282,9 +504,10 @@ program
   .option('--investigate', 'Automatically investigate new commits')
   .option('--detect-suspicious', 'Detect suspicious patterns in changes')
   .action(async (repoPath: string, options: any) => {
-    const geminiApiKey = process.env.GEMINI_API_KEY;
-    if (!geminiApiKey) {
-      console.error(chalk.red('GEMINI_API_KEY not found'));
+    const provider = resolveProvider();
+    if (!provider) {
+      console.error(chalk.red('No model provider configured'));
+      printProviderHelp();
       process.exit(1);
     }
 
@@ -299,8 +522,10 @@ program
     console.log(chalk.bold.blue('\n🔍 THE REPO ARCHAEOLOGIST - WATCH MODE\n'));
     
     const agent = new WatchModeAgent(fullPath, {
-      geminiApiKey,
+      provider,
       githubToken: process.env.GITHUB_TOKEN,
+      forge: resolveForgeSettings(),
+      store: CaseFileStore.forRepo(fullPath),
       pollIntervalMs: parseInt(options.interval, 10),
       investigateNewCommits: options.investigate,
       investigateSuspiciousPatterns: options.detectSuspicious,
@@ -319,15 +544,12 @@ program
       }
     });
 
-    // Handle Ctrl+C
-    process.on('SIGINT', () => {
-      console.log(chalk.yellow('\n\nStopping watch mode...'));
-      agent.stop();
-      
+    const finish = () => {
       const history = agent.getHistory();
       if (history.length > 0) {
         console.log(chalk.bold('\n📊 Session Summary'));
         console.log(`  Investigations completed: ${history.length}`);
+        console.log(`  Model usage: ${formatUsage(agent.getUsage())}`);
         
         const report = agent.generateReport();
         const reportPath = 'watch-report.md';
@@ -336,8 +558,18 @@ program
       }
       
       process.exit(0);
+    };
+
+    // Handle Ctrl+C
+    process.on('SIGINT', () => {
+      console.log(chalk.yellow('\n\nStopping watch mode...'));
+      agent.stop();
+      finish();
     });
 
+    // The agent stops itself when --max-tokens runs out
+    agent.on('budgetExceeded', finish);
+
     await agent.start();
     console.log(chalk.gray('\nPress Ctrl+C to stop watching\n'));
   });
@@ -352,18 +584,30 @@ program
   .argument('[path]', 'Path to repository', '.')
   .option('--apply', 'Automatically apply high-confidence resolutions')
   .option('--preview', 'Preview resolutions without applying')
+  .option('--type-check', 'Type-check TS/JS files against their tsconfig before applying')
+  .option('--checker <ext=command...>', 'Checker command for a file extension, e.g. "py=python -m py_compile {file}"')
   .option('-o, --output <file>', 'Save resolution report to file')
+  .option('--undo [file]', 'Restore a file (default: every file) to how it was before resolutions were applied')
+  .option('--force', 'With --undo, restore files even if they were edited after the resolutions were applied')
+  .option('--continue', 'Step through a rebase, cherry-pick, revert or merge: apply, stage and continue at each stop')
   .action(async (repoPath: string, options: any) => {
+    if (options.undo) {
+      await undoResolutions(path.resolve(repoPath), options.undo === true ? undefined : options.undo, options.force);
+      return;
+    }
+
     const spinner = ora('Scanning for merge conflicts...').start();
     
     try {
-      const geminiApiKey = process.env.GEMINI_API_KEY;
-      if (!geminiApiKey) {
-        spinner.fail('GEMINI_API_KEY not found');
+      const provider = resolveProvider();
+      if (!provider) {
+        spinner.fail('No model provider configured');
+        printProviderHelp();
         process.exit(1);
       }
 
       const { ConflictResolverAgent } = await import('./agents/conflictResolver');
+      const { formatDiagnostic } = await import('./agents/conflicts/validation');
       
       const fullPath = path.resolve(repoPath);
       if (!fs.existsSync(path.join(fullPath, '.git'))) {
@@ -372,8 +616,12 @@ program
       }
 
       const resolver = new ConflictResolverAgent(fullPath, {
-        geminiApiKey,
+        provider,
         autoApply: options.apply && !options.preview,
+        validation: {
+          typeCheck: options.typeCheck,
+          checkers: parseCheckers(options.checker || [])
+        },
         onProgress: (update) => {
           const stats = update.conflictsFound 
             ? `(${update.conflictsResolved || 0}/${update.conflictsFound})`
@@ -383,39 +631,97 @@ program
         onResolved: (result) => {
           const statusIcon = result.confidence >= 70 ? '✅' : '⚠️';
           console.log(`\n${statusIcon} ${result.conflict.file}:${result.conflict.startLine}`);
-          console.log(chalk.gray(`   Strategy: ${result.strategy} | Confidence: ${result.confidence}%`));
+          console.log(chalk.gray(`   Strategy: ${result.strategy}${result.deterministic ? ' (pre-pass)' : ''} | Confidence: ${result.confidence}%`));
           console.log(chalk.gray(`   ${result.reasoning.substring(0, 80)}...`));
         }
       });
 
-      const report = options.preview 
-        ? await resolver.preview()
-        : await resolver.resolveAll();
+      const printReport = (report: ResolverReport) => {
+        console.log('');
+        console.log(chalk.bold.blue('═══════════════════════════════════════'));
+        console.log(chalk.bold.blue('     CONFLICT RESOLUTION REPORT        '));
+        console.log(chalk.bold.blue('═══════════════════════════════════════'));
+        console.log('');
+        
+        console.log(chalk.bold('📊 Summary'));
+        if (report.operation && report.operation.kind !== 'none') {
+          const step = report.operation.step ? ` (commit ${report.operation.step.current}/${report.operation.step.total})` : '';
+          console.log(`  Operation: ${report.operation.kind}${step}`);
+          console.log(chalk.gray(`    Ours: ${report.operation.ours}`));
+          console.log(chalk.gray(`    Theirs: ${report.operation.theirs}`));
+          if (report.operation.commit) {
+            console.log(chalk.gray(`    Commit: ${report.operation.commit.hash.substring(0, 7)} ${report.operation.commit.message.split('\n')[0]}`));
+          }
+        }
+        console.log(`  Total conflicts: ${report.totalConflicts}`);
+        console.log(`  Resolved: ${chalk.green(report.resolved.toString())}`);
+        console.log(`  Failed: ${chalk.red(report.failed.toString())}`);
+        if (report.usage) {
+          console.log(`  Model usage: ${formatUsage(report.usage)}`);
+        }
+        if (report.budgetExceeded) {
+          console.log(chalk.yellow(`  Stopped early: ${report.budgetExceeded}`));
+        }
+        if (report.cancelled) {
+          console.log(chalk.yellow('  Cancelled: remaining conflicts were not analyzed'));
+        }
+        console.log('');
 
-      spinner.succeed(`Processed ${report.totalConflicts} conflicts`);
+        if (report.resolutions.length > 0) {
+          console.log(chalk.bold('📝 Resolutions'));
+          for (const res of report.resolutions) {
+            const applied = res.appliedAt ? chalk.green('APPLIED') : chalk.yellow('PENDING');
+            const confColor = res.confidence >= 70 ? chalk.green : res.confidence >= 40 ? chalk.yellow : chalk.red;
+            console.log(`  ${res.conflict.file}:${res.conflict.startLine}`);
+            console.log(`    Strategy: ${res.strategy}${res.deterministic ? ' (pre-pass)' : ''} | Confidence: ${confColor(res.confidence + '%')} | ${applied}`);
+            for (const diagnostic of res.diagnostics || []) {
+              console.log(chalk.red(`    ✗ ${formatDiagnostic(diagnostic)}`));
+            }
+          }
+        }
 
-      console.log('');
-      console.log(chalk.bold.blue('═══════════════════════════════════════'));
-      console.log(chalk.bold.blue('     CONFLICT RESOLUTION REPORT        '));
-      console.log(chalk.bold.blue('═══════════════════════════════════════'));
-      console.log('');
-      
-      console.log(chalk.bold('📊 Summary'));
-      console.log(`  Total conflicts: ${report.totalConflicts}`);
-      console.log(`  Resolved: ${chalk.green(report.resolved.toString())}`);
-      console.log(`  Failed: ${chalk.red(report.failed.toString())}`);
-      console.log('');
+        if (report.failures.length > 0) {
+          console.log(chalk.bold.red('\n⚠️  Unresolved'));
+          for (const failure of report.failures) {
+            console.log(chalk.red(`  ${formatFailure(failure)}`));
+          }
+        }
+      };
+
+      const interrupt = cancelOnInterrupt(spinner);
+
+      if (options.continue) {
+        const steps = await resolver.stepThrough(interrupt.signal).finally(interrupt.dispose);
+        if (steps.completed) {
+          spinner.succeed(`Finished the ${steps.operation.kind} after ${steps.stops.length} stop(s)`);
+        } else {
+          spinner.warn(`Stopped stepping through the ${steps.operation.kind}: ${steps.halted}`);
+        }
+        steps.stops.forEach(printReport);
 
-      if (report.resolutions.length > 0) {
-        console.log(chalk.bold('📝 Resolutions'));
-        for (const res of report.resolutions) {
-          const applied = res.appliedAt ? chalk.green('APPLIED') : chalk.yellow('PENDING');
-          const confColor = res.confidence >= 70 ? chalk.green : res.confidence >= 40 ? chalk.yellow : chalk.red;
-          console.log(`  ${res.conflict.file}:${res.conflict.startLine}`);
-          console.log(`    Strategy: ${res.strategy} | Confidence: ${confColor(res.confidence + '%')} | ${applied}`);
+        if (options.output) {
+          fs.writeFileSync(options.output, steps.stops.map(report => resolver.generateReport(report)).join('\n'));
+          console.log(chalk.green(`\n✓ Report saved to ${options.output}`));
         }
+        if (!steps.completed && steps.operation.kind !== 'none') {
+          console.log(chalk.yellow(`\n💡 Finish this stop by hand, then run again with --continue or use git ${steps.operation.kind} --continue`));
+        }
+        return;
+      }
+
+      const report = await (options.preview
+        ? resolver.preview(interrupt.signal)
+        : resolver.resolveAll(interrupt.signal)
+      ).finally(interrupt.dispose);
+
+      if (report.cancelled) {
+        spinner.warn(`Cancelled after processing ${report.resolutions.length} of ${report.totalConflicts} conflicts`);
+      } else {
+        spinner.succeed(`Processed ${report.totalConflicts} conflicts`);
       }
 
+      printReport(report);
+
       if (options.output) {
         const reportMd = resolver.generateReport(report);
         fs.writeFileSync(options.output, reportMd);
@@ -439,6 +745,62 @@ program.parse();
 // Helper Functions
 // ============================================
 
+/**
+ * Put files back as they were before resolve-conflicts applied resolutions,
+ * from the journal under .git/codedetective/
+ */
+async function undoResolutions(repoPath: string, file: string | undefined, force: boolean): Promise<void> {
+  const journal = ResolutionJournal.forRepo(repoPath);
+
+  // Accept paths relative to the working directory or to the repository
+  const relativePath = (file: string) => {
+    const absolute = path.resolve(file);
+    const relative = absolute.startsWith(repoPath + path.sep) ? path.relative(repoPath, absolute) : file;
+    return relative.split(path.sep).join('/');
+  };
+
+  const results = file
+    ? [await journal.undo(repoPath, relativePath(file), force)]
+    : await journal.undoAll(repoPath, force);
+
+  if (results.length === 0) {
+    console.log(chalk.yellow('No applied resolutions to undo.'));
+    return;
+  }
+
+  for (const result of results) {
+    if (result.restored) {
+      console.log(chalk.green(`✓ ${result.file}: restored ${result.blocks} conflict(s) applied ${result.appliedAt?.toLocaleString()}`));
+    } else {
+      console.log(chalk.yellow(`⚠️  ${result.file}: ${result.reason}`));
+    }
+  }
+
+  if (results.some(r => r.edited)) {
+    console.log(chalk.gray('\nRun with --force to restore edited files anyway'));
+  }
+  if (results.some(r => !r.restored)) {
+    process.exitCode = 1;
+  }
+}
+
+/**
+ * --checker values ("py=python -m py_compile {file}") keyed by extension
+ */
+function parseCheckers(values: string[]): Record<string, string> {
+  const checkers: Record<string, string> = {};
+  for (const value of values) {
+    const separator = value.indexOf('=');
+    if (separator <= 0) {
+      console.error(chalk.red(`Ignoring --checker "${value}": expected <ext>=<command>`));
+      continue;
+    }
+    const extension = value.slice(0, separator).trim().toLowerCase();
+    checkers[extension.startsWith('.') ? extension : `.${extension}`] = value.slice(separator + 1).trim();
+  }
+  return checkers;
+}
+
 function findRepoRoot(startPath: string): string | null {
   let current = path.dirname(startPath);
   
@@ -452,6 +814,171 @@ function findRepoRoot(startPath: string): string | null {
   return null;
 }
 
+/**
+ * Build the model provider from environment variables.
+ * LLM_PROVIDER selects the backend (default: gemini); openai-compatible
+ * servers are configured with LLM_BASE_URL, LLM_MODEL and LLM_API_KEY.
+ * With --cassette the provider is wrapped for record/replay; replay needs
+ * no live provider at all. Every call is metered against --max-tokens.
+ */
+function resolveProvider(): MeteredProvider | null {
+  configureScheduler({ concurrency: resolveConcurrency() });
+  const provider = resolveBaseProvider();
+  return provider ? new MeteredProvider(provider, new UsageMeter({ maxTokens: resolveMaxTokens() })) : null;
+}
+
+function resolveBaseProvider(): LLMProvider | null {
+  const type = (process.env.LLM_PROVIDER || 'gemini') as LLMProviderType;
+  const cassette = resolveCassette();
+
+  // Recordings are keyed by model, so replay needs the one they were made with
+  if (cassette?.mode === 'replay') {
+    const model = process.env.LLM_MODEL || (type === 'gemini' ? DEFAULT_GEMINI_MODEL : undefined);
+    if (!model) {
+      console.error(chalk.red('Cassette replay needs LLM_MODEL: recordings are kept per model'));
+      process.exit(1);
+    }
+    return new CassetteProvider({ ...cassette, model });
+  }
+
+  let live: LLMProvider;
+  try {
+    live = createLLMProvider({
+      type,
+      apiKey: type === 'gemini' ? process.env.GEMINI_API_KEY : process.env.LLM_API_KEY,
+      model: process.env.LLM_MODEL,
+      baseUrl: process.env.LLM_BASE_URL
+    });
+  } catch {
+    return null;
+  }
+
+  return cassette ? new CassetteProvider(cassette, live) : live;
+}
+
+function resolveMaxTokens(): number | undefined {
+  const value = program.opts().maxTokens || process.env.CODE_DETECTIVE_MAX_TOKENS;
+  if (!value) return undefined;
+
+  const maxTokens = parseInt(value, 10);
+  if (isNaN(maxTokens) || maxTokens <= 0) {
+    console.error(chalk.red(`Invalid token budget: ${value} (expected a positive number)`));
+    process.exit(1);
+  }
+  return maxTokens;
+}
+
+function resolveConcurrency(): number | undefined {
+  const value = program.opts().concurrency || process.env.CODE_DETECTIVE_CONCURRENCY;
+  if (!value) return undefined;
+
+  const concurrency = parseInt(value, 10);
+  if (isNaN(concurrency) || concurrency <= 0) {
+    console.error(chalk.red(`Invalid concurrency: ${value} (expected a positive number)`));
+    process.exit(1);
+  }
+  return concurrency;
+}
+
+function resolveCassette(): CassetteConfig | null {
+  const options = program.opts();
+  const mode = options.cassette || process.env.CODE_DETECTIVE_CASSETTE;
+  if (!mode) return null;
+
+  if (mode !== 'record' && mode !== 'replay') {
+    console.error(chalk.red(`Invalid cassette mode: ${mode} (expected record or replay)`));
+    process.exit(1);
+  }
+
+  return {
+    mode,
+    dir: path.resolve(
+      options.cassetteDir || process.env.CODE_DETECTIVE_CASSETTE_DIR || '.codedetective/cassettes'
+    )
+  };
+}
+
+/**
+ * Forge overrides from environment variables. FORGE_TYPE is only needed
+ * for self-hosted forges whose host name does not give them away;
+ * FORGE_BASE_URL overrides the API URL derived from the remote.
+ */
+function resolveForgeSettings(): ForgeSettings {
+  const type = process.env.FORGE_TYPE as ForgeType | undefined;
+  if (type && !FORGE_TYPES.includes(type)) {
+    console.error(chalk.red(`Invalid FORGE_TYPE: ${type} (expected ${FORGE_TYPES.join(', ')})`));
+    process.exit(1);
+  }
+
+  return {
+    type,
+    baseUrl: process.env.FORGE_BASE_URL,
+    token: process.env.FORGE_TOKEN
+  };
+}
+
+/**
+ * Abort a long run on the first Ctrl+C so it can return its partial
+ * result; a second Ctrl+C exits immediately
+ */
+function cancelOnInterrupt(spinner: Ora): { signal: AbortSignal; dispose: () => void } {
+  const controller = new AbortController();
+  const onInterrupt = () => {
+    if (controller.signal.aborted) {
+      process.exit(130);
+    }
+    spinner.text = 'Cancelling... (press Ctrl+C again to quit)';
+    controller.abort();
+  };
+
+  process.on('SIGINT', onInterrupt);
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      process.off('SIGINT', onInterrupt);
+    }
+  };
+}
+
+function printResumableDeepDives(checkpoints: DeepDiveCheckpointStore): void {
+  const unfinished = checkpoints.list();
+  if (unfinished.length === 0) {
+    console.log(chalk.gray('No unfinished deep dives in this repository.'));
+    return;
+  }
+
+  console.log(chalk.bold('\nUnfinished deep dives:'));
+  for (const run of unfinished) {
+    console.log(
+      `  ${chalk.cyan(run.runId.substring(0, 8))}  ${run.filePath}:${run.lineStart}  ` +
+      chalk.gray(`${run.filesInvestigated} file(s) investigated, updated ${run.updatedAt.toLocaleString()}`)
+    );
+  }
+}
+
+function printProviderHelp(): void {
+  console.log(chalk.yellow('\nSet your Gemini API key:'));
+  console.log(chalk.gray('  export GEMINI_API_KEY=your_key_here'));
+  console.log(chalk.yellow('\nOr point at an OpenAI-compatible server:'));
+  console.log(chalk.gray('  export LLM_PROVIDER=openai-compatible'));
+  console.log(chalk.gray('  export LLM_BASE_URL=http://localhost:11434/v1'));
+  console.log(chalk.gray('  export LLM_MODEL=llama3.1'));
+  console.log(chalk.gray('  # or add to .env file'));
+}
+
+function printUsage(usage: UsageSummary, label: string = 'Model usage'): void {
+  console.log(chalk.bold(`${label}:`), chalk.gray(formatUsage(usage)));
+}
+
+function openCaseFileStore(repoPath: string): CaseFileStore {
+  const fullPath = path.resolve(repoPath);
+  if (!fs.existsSync(path.join(fullPath, '.git'))) {
+    console.error(chalk.red('Not a git repository'));
+    process.exit(1);
+  }
+  return CaseFileStore.forRepo(fullPath);
+}
+
 function displayResults(result: InvestigationResult, debug: boolean): void {
   // Header
   console.log(chalk.bold.blue('╔══════════════════════════════════════════════════════╗'));
@@ -466,6 +993,16 @@ function displayResults(result: InvestigationResult, debug: boolean): void {
       ? chalk.yellow 
       : chalk.red;
   console.log(chalk.bold('Confidence:'), confidenceColor(`${result.confidence}%`));
+  if (result.confidenceBreakdown) {
+    const breakdown = result.confidenceBreakdown;
+    console.log(chalk.gray(`  Evidence ${breakdown.evidenceScore}% (weight ${Math.round(breakdown.evidenceWeight * 100)}%) + model ${breakdown.modelScore}%`));
+    breakdown.factors.forEach(f => {
+      console.log(chalk.gray(`  • ${f.name}: ${Math.round(f.score * 100)}% × ${Math.round(f.weight * 100)}% - ${f.detail}`));
+    });
+  }
+  if (result.usage) {
+    printUsage(result.usage);
+  }
   console.log('');
 
   // Summary
@@ -481,6 +1018,20 @@ function displayResults(result: InvestigationResult, debug: boolean): void {
   console.log(narrative);
   console.log('');
 
+  // Evidence that did not fit the context budget
+  if (result.contextPacking && result.contextPacking.dropped.length > 0) {
+    const { dropped, budgetTokens } = result.contextPacking;
+    console.log(chalk.yellow(`⚠ ${dropped.length} lower-relevance pieces of evidence omitted to fit the ${budgetTokens}-token context budget (see --output report, or raise --context-budget)`));
+    console.log('');
+  }
+
+  // Lookups that failed; the analysis could not use what they would have returned
+  if (result.failures && result.failures.length > 0) {
+    console.log(chalk.yellow(`⚠ ${result.failures.length} evidence lookup${result.failures.length === 1 ? '' : 's'} failed:`));
+    result.failures.forEach(f => console.log(chalk.yellow(`  • ${formatFailure(f)}`)));
+    console.log('');
+  }
+
   // Sources
   if (result.sources.length > 0) {
     console.log(chalk.bold.underline('Sources'));
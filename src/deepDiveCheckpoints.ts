@@ -0,0 +1,134 @@
+/**
+ * The Repo Archaeologist - Deep Dive Checkpoints
+ * Saves a deep dive's progress after every investigated file so a run that
+ * crashed, ran out of budget or was cancelled can be resumed without paying
+ * for the same investigations again
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  CodeSelection,
+  CodebaseReference,
+  InvestigationResult,
+  ThoughtSignature,
+} from './agents/types';
+import { DependencyNode } from './agents/deepDive';
+import { UsageSummary } from './llm';
+import { reviveDates } from './jsonDates';
+
+export interface DeepDiveCheckpoint {
+  runId: string;
+  codeSelection: CodeSelection;
+  repoPath: string;
+  maxDepth: number;
+  maxFilesToExplore: number;
+  verifyFindings: boolean;
+  startedAt: Date;
+  updatedAt: Date;
+  elapsedMs: number;                       // Time spent across all attempts so far
+  codebaseReferences?: CodebaseReference[];
+  dependencyTree?: DependencyNode;         // Fixed on the first attempt so a resume walks the same files
+  mainInvestigation?: InvestigationResult;
+  relatedInvestigations: [string, InvestigationResult][];
+  thoughtSignatures: ThoughtSignature[];
+  usage?: UsageSummary;
+}
+
+export interface CheckpointSummary {
+  runId: string;
+  filePath: string;
+  lineStart: number;
+  filesInvestigated: number;
+  startedAt: Date;
+  updatedAt: Date;
+}
+
+export class DeepDiveCheckpointStore {
+  private dir: string;
+
+  /**
+   * @param dir Checkpoint directory, e.g. <repo>/.codedetective/deep-dives
+   */
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  /**
+   * Default per-repo store under .codedetective/
+   */
+  static forRepo(repoPath: string): DeepDiveCheckpointStore {
+    return new DeepDiveCheckpointStore(path.join(repoPath, '.codedetective', 'deep-dives'));
+  }
+
+  /**
+   * Write a checkpoint, replacing the previous one for the run. Written to a
+   * temporary file first so a crash mid-write keeps the older checkpoint.
+   */
+  save(checkpoint: DeepDiveCheckpoint): void {
+    fs.mkdirSync(this.dir, { recursive: true });
+    const file = this.checkpointPath(checkpoint.runId);
+    fs.writeFileSync(`${file}.tmp`, JSON.stringify(checkpoint, null, 2));
+    fs.renameSync(`${file}.tmp`, file);
+  }
+
+  /**
+   * Load a checkpoint by run id (a unique id prefix is accepted)
+   */
+  get(runId: string): DeepDiveCheckpoint | null {
+    const matches = this.runIds().filter(id => id.startsWith(runId));
+    if (matches.length !== 1) return null;
+
+    try {
+      return JSON.parse(fs.readFileSync(this.checkpointPath(matches[0]), 'utf-8'), reviveDates) as DeepDiveCheckpoint;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Unfinished runs, most recently updated first
+   */
+  list(): CheckpointSummary[] {
+    const summaries: CheckpointSummary[] = [];
+    for (const runId of this.runIds()) {
+      const checkpoint = this.get(runId);
+      if (!checkpoint) continue;
+      summaries.push({
+        runId,
+        filePath: checkpoint.codeSelection.filePath,
+        lineStart: checkpoint.codeSelection.lineStart,
+        filesInvestigated: checkpoint.relatedInvestigations.length + (checkpoint.mainInvestigation ? 1 : 0),
+        startedAt: checkpoint.startedAt,
+        updatedAt: checkpoint.updatedAt
+      });
+    }
+    return summaries.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  /**
+   * The most recently updated unfinished run
+   */
+  latest(): CheckpointSummary | null {
+    return this.list()[0] || null;
+  }
+
+  delete(runId: string): void {
+    fs.rmSync(this.checkpointPath(runId), { force: true });
+  }
+
+  // ============================================
+  // Private Helpers
+  // ============================================
+
+  private checkpointPath(runId: string): string {
+    return path.join(this.dir, `${runId}.json`);
+  }
+
+  private runIds(): string[] {
+    if (!fs.existsSync(this.dir)) return [];
+    return fs.readdirSync(this.dir)
+      .filter(name => name.endsWith('.json'))
+      .map(name => name.slice(0, -'.json'.length));
+  }
+}
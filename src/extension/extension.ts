@@ -6,46 +6,82 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { Investigator } from '../investigator';
+import { createHash } from 'crypto';
+import { Investigator, generateMarkdownExport } from '../investigator';
 import { StreamUpdate, InvestigationResult } from '../agents/types';
+import {
+  createLLMProvider,
+  CassetteProvider,
+  CassetteMode,
+  DEFAULT_GEMINI_MODEL,
+  LLMProvider,
+  LLMProviderType,
+  MeteredProvider,
+  UsageMeter,
+  formatUsage,
+} from '../llm';
+import { CaseFileStore, CaseSummary, StoredCase } from '../caseFileStore';
+import { DeepDiveCheckpointStore } from '../deepDiveCheckpoints';
+import { JournalEntry, ResolutionJournal, UndoResult } from '../resolutionJournal';
+import { DeepDiveAgent, DeepDiveConfig, DeepDiveResult } from '../agents/deepDive';
+import { DeepDiveGraph, buildDeepDiveGraph, edgeLabel, toDot, toMermaid } from '../agents/deepDiveGraph';
+import { InvestigationCache } from '../investigationCache';
+import { ForgeSettings, ForgeType } from '../forges';
+import { configureScheduler, formatFailure } from '../scheduler';
+import { isCancellation } from '../cancellation';
 
 let investigationPanel: vscode.WebviewPanel | undefined;
 
-// Investigation History Item
-interface HistoryItem {
-  id: string;
-  filePath: string;
-  lineStart: number;
-  lineEnd: number;
-  summary: string;
-  confidence: number;
-  timestamp: Date;
-  result?: InvestigationResult;
+// Directory for the global history store (set on activation)
+let globalStorageDir: string | undefined;
+
+/**
+ * Case file store for a repository, in the workspace (.codedetective/)
+ * or in the extension's global storage depending on settings
+ */
+function getCaseFileStore(repoPath: string): CaseFileStore {
+  const location = vscode.workspace.getConfiguration('codeDetective').get<string>('historyLocation');
+  if (location === 'global' && globalStorageDir) {
+    const repoKey = createHash('sha1').update(repoPath).digest('hex').substring(0, 16);
+    return new CaseFileStore(path.join(globalStorageDir, repoKey));
+  }
+  return CaseFileStore.forRepo(repoPath);
 }
 
-// Store investigations in memory (persists per session)
-const investigationHistory: HistoryItem[] = [];
+/**
+ * Deep dive checkpoints for a repository, kept next to its case files
+ */
+function getDeepDiveCheckpoints(repoPath: string): DeepDiveCheckpointStore {
+  const location = vscode.workspace.getConfiguration('codeDetective').get<string>('historyLocation');
+  if (location === 'global' && globalStorageDir) {
+    const repoKey = createHash('sha1').update(repoPath).digest('hex').substring(0, 16);
+    return new DeepDiveCheckpointStore(path.join(globalStorageDir, repoKey, 'deep-dives'));
+  }
+  return DeepDiveCheckpointStore.forRepo(repoPath);
+}
 
 // Tree Item for history
 class HistoryTreeItem extends vscode.TreeItem {
   constructor(
-    public readonly item: HistoryItem
+    public readonly item: CaseSummary,
+    public readonly repoPath: string
   ) {
     super(
       `${path.basename(item.filePath)}:${item.lineStart}`,
       vscode.TreeItemCollapsibleState.None
     );
     
-    this.description = `${item.confidence}% • ${this.formatTime(item.timestamp)}`;
-    this.tooltip = item.summary;
+    this.description = `${item.confidence}% • ${this.formatTime(item.startedAt)}`;
+    this.tooltip = `${item.filePath}:${item.lineStart}-${item.lineEnd}\n${item.summary}`;
+    this.contextValue = 'investigation';
     this.iconPath = new vscode.ThemeIcon(
-      item.confidence >= 90 ? 'pass' : item.confidence >= 70 ? 'warning' : 'error'
+      item.confidence >= 70 ? 'pass' : item.confidence >= 40 ? 'warning' : 'error'
     );
     
     this.command = {
       command: 'codeDetective.showHistoryItem',
       title: 'Show Investigation',
-      arguments: [item]
+      arguments: [this]
     };
   }
   
@@ -61,7 +97,7 @@ class HistoryTreeItem extends vscode.TreeItem {
   }
 }
 
-// Investigation History Provider
+// Investigation History Provider (backed by the on-disk case file store)
 class InvestigationHistoryProvider implements vscode.TreeDataProvider<HistoryTreeItem> {
   private _onDidChangeTreeData = new vscode.EventEmitter<HistoryTreeItem | undefined>();
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
@@ -75,38 +111,19 @@ class InvestigationHistoryProvider implements vscode.TreeDataProvider<HistoryTre
   }
 
   getChildren(): HistoryTreeItem[] {
-    return investigationHistory
-      .slice()
-      .reverse()
-      .map(item => new HistoryTreeItem(item));
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder) return [];
+
+    const repoPath = workspaceFolder.uri.fsPath;
+    return getCaseFileStore(repoPath)
+      .list({ limit: 200 })
+      .map(item => new HistoryTreeItem(item, repoPath));
   }
 }
 
 // Export for use in other functions
 let historyProvider: InvestigationHistoryProvider;
 
-function addToHistory(result: InvestigationResult, filePath: string, lineStart: number, lineEnd: number) {
-  const item: HistoryItem = {
-    id: `${Date.now()}`,
-    filePath,
-    lineStart,
-    lineEnd,
-    summary: result.summary.substring(0, 100) + (result.summary.length > 100 ? '...' : ''),
-    confidence: result.confidence,
-    timestamp: new Date(),
-    result
-  };
-  
-  investigationHistory.push(item);
-  
-  // Keep only last 50 investigations
-  if (investigationHistory.length > 50) {
-    investigationHistory.shift();
-  }
-  
-  historyProvider?.refresh();
-}
-
 // Sidebar Webview Provider
 class RepoArchaeologistSidebarProvider implements vscode.WebviewViewProvider {
   public static readonly viewType = 'codeDetective.actions';
@@ -340,6 +357,21 @@ class RepoArchaeologistSidebarProvider implements vscode.WebviewViewProvider {
 
 export function activate(context: vscode.ExtensionContext) {
   console.log('Code Detective is now active!');
+  globalStorageDir = context.globalStorageUri.fsPath;
+
+  // One scheduler for every model and forge call; rebuilt when its setting changes
+  configureScheduler({
+    concurrency: vscode.workspace.getConfiguration('codeDetective').get<number>('maxConcurrentRequests')
+  });
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration(event => {
+      if (event.affectsConfiguration('codeDetective.maxConcurrentRequests')) {
+        configureScheduler({
+          concurrency: vscode.workspace.getConfiguration('codeDetective').get<number>('maxConcurrentRequests')
+        });
+      }
+    })
+  );
 
   // Register sidebar provider
   const sidebarProvider = new RepoArchaeologistSidebarProvider(context.extensionUri);
@@ -358,30 +390,46 @@ export function activate(context: vscode.ExtensionContext) {
 
   // Command to show a history item
   context.subscriptions.push(
-    vscode.commands.registerCommand('codeDetective.showHistoryItem', async (item: HistoryItem) => {
-      if (item.result) {
+    vscode.commands.registerCommand('codeDetective.showHistoryItem', async (treeItem: HistoryTreeItem) => {
+      const { item, repoPath } = treeItem;
+      const stored = getCaseFileStore(repoPath).get(item.id);
+      if (stored) {
+        showStoredInvestigation(context, stored);
+
         // Try to open the file
         try {
-          const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-          if (workspaceFolder) {
-            const fullPath = path.join(workspaceFolder.uri.fsPath, item.filePath);
-            const doc = await vscode.workspace.openTextDocument(fullPath);
-            const editor = await vscode.window.showTextDocument(doc);
-            
-            const startPos = new vscode.Position(item.lineStart - 1, 0);
-            const endPos = new vscode.Position(item.lineEnd, 0);
-            editor.selection = new vscode.Selection(startPos, endPos);
-            editor.revealRange(new vscode.Range(startPos, endPos), vscode.TextEditorRevealType.InCenter);
-          }
+          const fullPath = path.join(repoPath, item.filePath);
+          const doc = await vscode.workspace.openTextDocument(fullPath);
+          const editor = await vscode.window.showTextDocument(doc);
+          
+          const startPos = new vscode.Position(item.lineStart - 1, 0);
+          const endPos = new vscode.Position(item.lineEnd, 0);
+          editor.selection = new vscode.Selection(startPos, endPos);
+          editor.revealRange(new vscode.Range(startPos, endPos), vscode.TextEditorRevealType.InCenter);
         } catch (e) {
           // File may have been deleted
         }
-        
-        // Show summary in info message
-        vscode.window.showInformationMessage(
-          `${item.confidence}% confidence: ${item.summary}`
-        );
       }
+    }),
+    vscode.commands.registerCommand('codeDetective.deleteHistoryItem', (treeItem: HistoryTreeItem) => {
+      getCaseFileStore(treeItem.repoPath).delete(treeItem.item.id);
+      historyProvider.refresh();
+    }),
+    vscode.commands.registerCommand('codeDetective.pruneHistory', async () => {
+      const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+      if (!workspaceFolder) return;
+
+      const days = await vscode.window.showInputBox({
+        prompt: 'Delete investigations older than how many days?',
+        value: '30',
+        validateInput: value => /^\d+$/.test(value) ? null : 'Enter a whole number of days'
+      });
+      if (!days) return;
+
+      const olderThan = new Date(Date.now() - parseInt(days) * 24 * 60 * 60 * 1000);
+      const removed = getCaseFileStore(workspaceFolder.uri.fsPath).prune({ olderThan });
+      historyProvider.refresh();
+      vscode.window.showInformationMessage(`Deleted ${removed} investigation(s) from history`);
     })
   );
 
@@ -421,24 +469,6 @@ export function activate(context: vscode.ExtensionContext) {
         return;
       }
 
-      // Get configuration
-      const config = vscode.workspace.getConfiguration('codeDetective');
-      const geminiApiKey = config.get<string>('geminiApiKey') || process.env.GEMINI_API_KEY;
-
-      if (!geminiApiKey) {
-        const action = await vscode.window.showErrorMessage(
-          'Gemini API key not configured',
-          'Open Settings'
-        );
-        if (action === 'Open Settings') {
-          vscode.commands.executeCommand(
-            'workbench.action.openSettings',
-            'codeDetective.geminiApiKey'
-          );
-        }
-        return;
-      }
-
       // Get workspace folder
       const workspaceFolder = vscode.workspace.getWorkspaceFolder(editor.document.uri);
       if (!workspaceFolder) {
@@ -446,46 +476,36 @@ export function activate(context: vscode.ExtensionContext) {
         return;
       }
 
-      // Create results panel
-      const panel = vscode.window.createWebviewPanel(
-        'codeDetectiveDeepDive',
-        'Deep Dive Results',
-        vscode.ViewColumn.Beside,
-        { enableScripts: true }
-      );
+      const repoPath = workspaceFolder.uri.fsPath;
+      const relativePath = path.relative(repoPath, editor.document.fileName);
 
-      const selectedText = editor.document.getText(selection);
-      const filePath = editor.document.fileName;
-      const relativePath = path.relative(workspaceFolder.uri.fsPath, filePath);
-
-      // Show loading state
-      panel.webview.html = getDeepDiveLoadingHtml(relativePath, selection.start.line + 1);
-
-      try {
-        // Run deep dive investigation
-        const investigator = new Investigator({
-          geminiApiKey,
-          githubToken: config.get<string>('githubToken'),
-          thinkingLevel: 'high',
-          onUpdate: (update) => {
-            panel.webview.postMessage({ type: 'progress', data: update });
-          }
-        });
-
-        const result = await investigator.investigate({
-          text: selectedText,
-          filePath: relativePath,
-          lineStart: selection.start.line + 1,
-          lineEnd: selection.end.line + 1,
-          repoPath: workspaceFolder.uri.fsPath
-        });
+      await runDeepDive(repoPath, relativePath, selection.start.line + 1, (agent, signal) => agent.deepDive({
+        text: editor.document.getText(selection),
+        filePath: relativePath,
+        lineStart: selection.start.line + 1,
+        lineEnd: selection.end.line + 1,
+        repoPath
+      }, repoPath, signal));
+    }
+  );
 
-        // Show results
-        panel.webview.html = getDeepDiveResultsHtml(result, relativePath);
+  // Register resume deep dive command: picks up the most recent unfinished
+  // deep dive across the open workspace folders
+  const resumeDeepDiveCommand = vscode.commands.registerCommand(
+    'codeDetective.resumeDeepDive',
+    async () => {
+      const unfinished = (vscode.workspace.workspaceFolders || [])
+        .map(folder => ({ repoPath: folder.uri.fsPath, run: getDeepDiveCheckpoints(folder.uri.fsPath).latest() }))
+        .filter(entry => entry.run)
+        .sort((a, b) => b.run!.updatedAt.getTime() - a.run!.updatedAt.getTime());
 
-      } catch (error) {
-        panel.webview.html = getDeepDiveErrorHtml(String(error));
+      if (unfinished.length === 0) {
+        vscode.window.showInformationMessage('No unfinished deep dive to resume');
+        return;
       }
+
+      const { repoPath, run } = unfinished[0];
+      await runDeepDive(repoPath, run!.filePath, run!.lineStart, (agent, signal) => agent.resume(run!.runId, signal));
     }
   );
 
@@ -500,10 +520,8 @@ export function activate(context: vscode.ExtensionContext) {
       }
 
       const config = vscode.workspace.getConfiguration('codeDetective');
-      const geminiApiKey = config.get<string>('geminiApiKey') || process.env.GEMINI_API_KEY;
-
-      if (!geminiApiKey) {
-        vscode.window.showErrorMessage('Gemini API key not configured');
+      const provider = await getLLMProvider();
+      if (!provider) {
         return;
       }
 
@@ -524,16 +542,25 @@ export function activate(context: vscode.ExtensionContext) {
 
       try {
         const { ConflictResolverAgent } = await import('../agents/conflictResolver');
+        const { formatDiagnostic } = await import('../agents/conflicts/validation');
         
         const resolver = new ConflictResolverAgent(workspaceFolder.uri.fsPath, {
-          geminiApiKey,
+          provider,
           autoApply: config.get<boolean>('autoApplyConflicts') || false,
+          validation: {
+            typeCheck: config.get<boolean>('conflictTypeCheck') || false,
+            checkers: config.get<Record<string, string>>('conflictCheckers') || {}
+          },
           onProgress: (update) => {
             panel.webview.postMessage({ type: 'progress', data: update });
           }
         });
 
-        const report = await resolver.preview();
+        const report = await vscode.window.withProgress({
+          location: vscode.ProgressLocation.Notification,
+          title: 'Analyzing merge conflicts...',
+          cancellable: true
+        }, (_progress, token) => resolver.preview(toAbortSignal(token, panel)));
 
         if (report.totalConflicts === 0) {
           panel.webview.html = getVSCodeThemedHtml('No Conflicts Found', `
@@ -551,17 +578,36 @@ export function activate(context: vscode.ExtensionContext) {
                 <span class="badge ${r.confidence >= 70 ? 'success' : 'warning'}">${r.confidence}% confidence</span>
               </div>
               <div class="card-body">
-                <strong>Strategy:</strong> ${r.strategy}<br>
+                <strong>Strategy:</strong> ${r.strategy}${r.deterministic ? ' (pre-pass, no model call)' : ''}<br>
                 <strong>Reasoning:</strong> ${r.reasoning}
               </div>
+              ${r.diagnostics?.length ? `
+              <div class="error-box">
+                <strong>Held back by validation:</strong>
+                ${r.diagnostics.map(d => `<p>${escapeHtml(formatDiagnostic(d))}</p>`).join('')}
+              </div>` : ''}
               <pre class="code-block">${escapeHtml(r.resolution.substring(0, 500))}</pre>
             </div>
           `).join('');
 
           panel.webview.html = getVSCodeThemedHtml('Conflict Resolution', `
             <h2>${report.totalConflicts} Conflicts Found</h2>
+            ${report.operation && report.operation.kind !== 'none' ? `<p style="color: var(--vscode-descriptionForeground);">
+              <strong>${escapeHtml(report.operation.kind)}${report.operation.step ? ` (commit ${report.operation.step.current}/${report.operation.step.total})` : ''}</strong><br>
+              Ours: ${escapeHtml(report.operation.ours)}<br>
+              Theirs: ${escapeHtml(report.operation.theirs)}
+              ${report.operation.commit ? `<br>Commit: ${escapeHtml(report.operation.commit.hash.substring(0, 7))} ${escapeHtml(report.operation.commit.message.split('\n')[0])}` : ''}
+            </p>` : ''}
+            ${report.usage ? `<p style="color: var(--vscode-descriptionForeground);">Model usage: ${formatUsage(report.usage)}</p>` : ''}
+            ${report.budgetExceeded ? `<p><span class="badge warning">Stopped early: ${escapeHtml(report.budgetExceeded)}</span></p>` : ''}
+            ${report.cancelled ? `<p><span class="badge warning">Cancelled: remaining conflicts were not analyzed</span></p>` : ''}
             <p>Proposed resolutions:</p>
             ${resolutionsHtml}
+            ${report.failures.length > 0 ? `
+            <div class="error-box">
+              <h3>${report.failures.length} conflict${report.failures.length === 1 ? '' : 's'} left unresolved</h3>
+              ${report.failures.map(f => `<p>${escapeHtml(formatFailure(f))}</p>`).join('')}
+            </div>` : ''}
             <button class="btn" onclick="applyAll()">Apply High-Confidence Resolutions</button>
           `);
         }
@@ -576,6 +622,82 @@ export function activate(context: vscode.ExtensionContext) {
     }
   );
 
+  // Register undo resolution command: restores files the conflict resolver
+  // wrote, from the journal under .git/codedetective/
+  const undoConflictResolutionCommand = vscode.commands.registerCommand(
+    'codeDetective.undoConflictResolution',
+    async () => {
+      const applied = (vscode.workspace.workspaceFolders || []).flatMap(folder =>
+        ResolutionJournal.forRepo(folder.uri.fsPath).latest().map(entry => ({ repoPath: folder.uri.fsPath, entry }))
+      );
+
+      if (applied.length === 0) {
+        vscode.window.showInformationMessage('No applied AI resolutions to undo');
+        return;
+      }
+
+      type UndoTarget = { repoPath: string; entry: JournalEntry };
+      type UndoItem = vscode.QuickPickItem & { targets: UndoTarget[] };
+
+      // The file in the active editor goes first
+      const activePath = vscode.window.activeTextEditor?.document.uri.fsPath;
+      const isActive = (target: UndoTarget) => path.join(target.repoPath, target.entry.file) === activePath;
+      const items: UndoItem[] = [...applied]
+        .sort((a, b) => Number(isActive(b)) - Number(isActive(a)))
+        .map(target => ({
+          label: target.entry.file,
+          description: target.entry.appliedAt.toLocaleString(),
+          detail: `${target.entry.blocks.length} conflict(s): ${target.entry.blocks.map(b => b.strategy).join(', ')}`,
+          targets: [target]
+        }));
+      if (applied.length > 1) {
+        items.push({ label: '$(discard) All files', description: `${applied.length} files`, targets: applied });
+      }
+
+      const choice = await vscode.window.showQuickPick(items, { placeHolder: 'Undo AI resolution: restore the conflicted file' });
+      if (!choice) return;
+
+      // Files with unsaved edits would be overwritten by the editor's copy
+      const targets = choice.targets.filter(({ repoPath, entry }) => !vscode.workspace.textDocuments.some(doc =>
+        doc.isDirty && doc.uri.fsPath === path.join(repoPath, entry.file)));
+      const skipped = choice.targets.length - targets.length;
+
+      const undo = (target: UndoTarget, force: boolean): Promise<UndoResult> =>
+        ResolutionJournal.forRepo(target.repoPath).undo(target.repoPath, target.entry.file, force);
+
+      // One at a time: undoing may restore conflict stages in the index
+      const results: Array<{ target: UndoTarget; result: UndoResult }> = [];
+      for (const target of targets) {
+        results.push({ target, result: await undo(target, false) });
+      }
+      const edited = results.filter(({ result }) => result.edited);
+      if (edited.length > 0) {
+        const answer = await vscode.window.showWarningMessage(
+          `${edited.map(({ result }) => result.file).join(', ')} changed after the resolutions were applied. Restore anyway and lose those edits?`,
+          { modal: true },
+          'Restore Anyway'
+        );
+        if (answer === 'Restore Anyway') {
+          for (const item of edited) {
+            item.result = await undo(item.target, true);
+          }
+        }
+      }
+
+      const restored = results.map(({ result }) => result).filter(r => r.restored);
+      if (restored.length > 0) {
+        vscode.window.showInformationMessage(`Restored ${restored.map(r => r.file).join(', ')} to the conflicted state`);
+      }
+      const refused = results.map(({ result }) => result).filter(r => !r.restored && !r.edited);
+      if (refused.length > 0) {
+        vscode.window.showWarningMessage(`Not restored: ${refused.map(r => `${r.file} (${r.reason})`).join('; ')}`);
+      }
+      if (skipped > 0) {
+        vscode.window.showWarningMessage(`${skipped} file(s) have unsaved changes; save or revert them first`);
+      }
+    }
+  );
+
   // Register watch mode command
   const watchModeCommand = vscode.commands.registerCommand(
     'codeDetective.watchMode',
@@ -586,11 +708,8 @@ export function activate(context: vscode.ExtensionContext) {
         return;
       }
 
-      const config = vscode.workspace.getConfiguration('codeDetective');
-      const geminiApiKey = config.get<string>('geminiApiKey') || process.env.GEMINI_API_KEY;
-
-      if (!geminiApiKey) {
-        vscode.window.showErrorMessage('Gemini API key not configured');
+      const provider = await getLLMProvider();
+      if (!provider) {
         return;
       }
 
@@ -600,14 +719,6 @@ export function activate(context: vscode.ExtensionContext) {
       );
 
       if (action === 'Start Monitoring') {
-        const config = vscode.workspace.getConfiguration('codeDetective');
-        const apiKey = config.get<string>('geminiApiKey') || process.env.GEMINI_API_KEY;
-
-        if (!apiKey) {
-          vscode.window.showErrorMessage('Gemini API key required. Set codeDetective.geminiApiKey in settings.');
-          return;
-        }
-
         const statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
         statusBarItem.text = '$(eye) Watching...';
         statusBarItem.tooltip = 'Code Detective: Monitoring for commits and remote changes';
@@ -617,7 +728,7 @@ export function activate(context: vscode.ExtensionContext) {
           const { WatchModeAgent } = await import('../agents/watchMode');
           
           const watchAgent = new WatchModeAgent(workspaceFolder.uri.fsPath, {
-            geminiApiKey: apiKey,
+            provider,
             pollIntervalMs: 30000,
             investigateNewCommits: true,
             investigateSuspiciousPatterns: true,
@@ -689,6 +800,13 @@ export function activate(context: vscode.ExtensionContext) {
             }
           });
 
+          watchAgent.on('budgetExceeded', (error: Error) => {
+            statusBarItem.text = '$(circle-slash) Watch stopped';
+            vscode.window.showWarningMessage(
+              `Watch Mode stopped: ${error.message}. Raise codeDetective.maxTokensPerRun to watch longer.`
+            );
+          });
+
           await watchAgent.start();
 
           // Store for cleanup
@@ -838,23 +956,20 @@ export function activate(context: vscode.ExtensionContext) {
         return;
       }
 
-      const config = vscode.workspace.getConfiguration('codeDetective');
-      const apiKey = config.get<string>('geminiApiKey') || process.env.GEMINI_API_KEY;
-
-      if (!apiKey) {
-        vscode.window.showErrorMessage('Gemini API key required');
+      const provider = await getLLMProvider();
+      if (!provider) {
         return;
       }
 
       await vscode.window.withProgress({
         location: vscode.ProgressLocation.Notification,
         title: 'Analyzing Tech Debt...',
-        cancellable: false
-      }, async () => {
+        cancellable: true
+      }, async (_progress, token) => {
         try {
           const { TechDebtAgent } = await import('../agents/techDebtAgent');
-          const agent = new TechDebtAgent(workspaceFolder.uri.fsPath, apiKey);
-          const result = await agent.analyzeProject();
+          const agent = new TechDebtAgent(workspaceFolder.uri.fsPath, provider);
+          const result = await agent.analyzeProject(toAbortSignal(token));
           
           // Show result in webview
           const panel = vscode.window.createWebviewPanel(
@@ -902,6 +1017,7 @@ export function activate(context: vscode.ExtensionContext) {
   </div>
   
   <div class="summary">${result.summary}</div>
+  ${result.cancelled ? `<div class="summary">Cancelled: scored from the files analyzed before the run stopped.</div>` : ''}
   
   <h3>Factors</h3>
   <div class="factors">
@@ -939,11 +1055,8 @@ export function activate(context: vscode.ExtensionContext) {
         return;
       }
 
-      const config = vscode.workspace.getConfiguration('codeDetective');
-      const apiKey = config.get<string>('geminiApiKey') || process.env.GEMINI_API_KEY;
-
-      if (!apiKey) {
-        vscode.window.showErrorMessage('Gemini API key required');
+      const provider = await getLLMProvider();
+      if (!provider) {
         return;
       }
 
@@ -954,7 +1067,7 @@ export function activate(context: vscode.ExtensionContext) {
       }, async (progress) => {
         try {
           const { CommitAgent } = await import('../agents/commitAgent');
-          const agent = new CommitAgent(workspaceFolder.uri.fsPath, apiKey);
+          const agent = new CommitAgent(workspaceFolder.uri.fsPath, provider);
           
           const changes = await agent.getStagedChanges();
           
@@ -1054,11 +1167,8 @@ export function activate(context: vscode.ExtensionContext) {
         return;
       }
 
-      const config = vscode.workspace.getConfiguration('codeDetective');
-      const apiKey = config.get<string>('geminiApiKey') || process.env.GEMINI_API_KEY;
-
-      if (!apiKey) {
-        vscode.window.showErrorMessage('Gemini API key required');
+      const provider = await getLLMProvider();
+      if (!provider) {
         return;
       }
 
@@ -1080,12 +1190,12 @@ export function activate(context: vscode.ExtensionContext) {
       await vscode.window.withProgress({
         location: vscode.ProgressLocation.Notification,
         title: 'Generating Onboarding Docs...',
-        cancellable: false
-      }, async () => {
+        cancellable: true
+      }, async (_progress, token) => {
         try {
           const { OnboardingAgent } = await import('../agents/onboardingAgent');
-          const agent = new OnboardingAgent(workspaceFolder.uri.fsPath, apiKey);
-          const docs = await agent.generateDocs(targetPath || '.');
+          const agent = new OnboardingAgent(workspaceFolder.uri.fsPath, provider);
+          const docs = await agent.generateDocs(targetPath || '.', toAbortSignal(token));
           const html = agent.generateHTML(docs);
           
           const panel = vscode.window.createWebviewPanel(
@@ -1115,6 +1225,10 @@ export function activate(context: vscode.ExtensionContext) {
           }
           
         } catch (error) {
+          if (isCancellation(error)) {
+            vscode.window.showInformationMessage('Onboarding docs cancelled');
+            return;
+          }
           vscode.window.showErrorMessage(`Failed to generate docs: ${error}`);
         }
       });
@@ -1183,7 +1297,9 @@ ${lastInvestigation.confidence ? `## Confidence: ${lastInvestigation.confidence}
   context.subscriptions.push(
     investigateCommand,
     deepDiveCommand,
+    resumeDeepDiveCommand,
     resolveConflictsCommand,
+    undoConflictResolutionCommand,
     watchModeCommand,
     blameCommand,
     timelineCommand,
@@ -1195,6 +1311,88 @@ ${lastInvestigation.confidence ? `## Confidence: ${lastInvestigation.confidence}
   );
 }
 
+/**
+ * Build the configured model provider, prompting the user to fix
+ * the settings when the provider cannot be created
+ */
+async function getLLMProvider(): Promise<LLMProvider | undefined> {
+  const provider = await getBaseLLMProvider();
+  if (!provider) return undefined;
+
+  // Each command gets a fresh meter, so the budget applies per run
+  const maxTokens = vscode.workspace.getConfiguration('codeDetective').get<number>('maxTokensPerRun');
+  return new MeteredProvider(provider, new UsageMeter({ maxTokens: maxTokens || undefined }));
+}
+
+async function getBaseLLMProvider(): Promise<LLMProvider | undefined> {
+  const config = vscode.workspace.getConfiguration('codeDetective');
+  const type = config.get<LLMProviderType>('llmProvider') || 'gemini';
+  const cassetteMode = config.get<'off' | CassetteMode>('cassetteMode') || 'off';
+  const cassetteDir = path.resolve(
+    vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '',
+    config.get<string>('cassetteDir') || '.codedetective/cassettes'
+  );
+
+  try {
+    // Replay serves recorded responses only, so no live provider is needed;
+    // recordings are keyed by model, so it needs the one they were made with
+    if (cassetteMode === 'replay') {
+      const model = config.get<string>('llmModel') || (type === 'gemini' ? DEFAULT_GEMINI_MODEL : undefined);
+      return new CassetteProvider({ mode: 'replay', dir: cassetteDir, model });
+    }
+
+    const provider = createLLMProvider({
+      type,
+      apiKey: type === 'gemini'
+        ? config.get<string>('geminiApiKey') || process.env.GEMINI_API_KEY
+        : config.get<string>('llmApiKey') || process.env.LLM_API_KEY,
+      model: config.get<string>('llmModel') || undefined,
+      baseUrl: config.get<string>('llmBaseUrl') || undefined
+    });
+
+    return cassetteMode === 'record'
+      ? new CassetteProvider({ mode: 'record', dir: cassetteDir }, provider)
+      : provider;
+  } catch (error) {
+    const action = await vscode.window.showErrorMessage(
+      `Model provider not configured: ${error instanceof Error ? error.message : error}`,
+      'Open Settings'
+    );
+    if (action === 'Open Settings') {
+      vscode.commands.executeCommand(
+        'workbench.action.openSettings',
+        type === 'gemini' ? 'codeDetective.geminiApiKey' : 'codeDetective.llm'
+      );
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Forge overrides from settings; "auto" leaves detection to the git remotes
+ */
+function getForgeSettings(): ForgeSettings {
+  const config = vscode.workspace.getConfiguration('codeDetective');
+  const type = config.get<'auto' | ForgeType>('forgeType') || 'auto';
+
+  return {
+    type: type === 'auto' ? undefined : type,
+    baseUrl: config.get<string>('forgeBaseUrl') || undefined,
+    token: config.get<string>('forgeToken') || process.env.FORGE_TOKEN
+  };
+}
+
+/**
+ * Bridge a progress notification's cancel button, and optionally closing
+ * the panel showing the run, to the AbortSignal the agents take
+ */
+function toAbortSignal(token: vscode.CancellationToken, panel?: vscode.WebviewPanel): AbortSignal {
+  const controller = new AbortController();
+  token.onCancellationRequested(() => controller.abort());
+  panel?.onDidDispose(() => controller.abort());
+  return controller.signal;
+}
+
 function formatDate(date: Date): string {
   const now = new Date();
   const diff = now.getTime() - date.getTime();
@@ -1208,6 +1406,86 @@ function formatDate(date: Date): string {
   return `${Math.floor(days / 365)} years ago`;
 }
 
+/**
+ * Run a new or resumed deep dive in a results panel. Progress is
+ * checkpointed, so a run that fails or is cancelled can be resumed.
+ */
+async function runDeepDive(
+  repoPath: string,
+  relativePath: string,
+  startLine: number,
+  start: (agent: DeepDiveAgent, signal: AbortSignal) => Promise<DeepDiveResult>
+): Promise<void> {
+  const config = vscode.workspace.getConfiguration('codeDetective');
+  const provider = await getLLMProvider();
+  if (!provider) {
+    return;
+  }
+
+  // Create results panel
+  const panel = vscode.window.createWebviewPanel(
+    'codeDetectiveDeepDive',
+    'Deep Dive Results',
+    vscode.ViewColumn.Beside,
+    { enableScripts: true }
+  );
+
+  // Show loading state
+  panel.webview.html = getDeepDiveLoadingHtml(relativePath, startLine);
+
+  try {
+    const result = await vscode.window.withProgress({
+      location: vscode.ProgressLocation.Notification,
+      title: 'Deep dive in progress...',
+      cancellable: true
+    }, (progress, token) => {
+      const agentConfig: DeepDiveConfig = {
+        provider,
+        githubToken: config.get<string>('githubToken'),
+        forge: getForgeSettings(),
+        store: getCaseFileStore(repoPath),
+        checkpoints: getDeepDiveCheckpoints(repoPath),
+        onProgress: (update) => {
+          progress.report({ message: update.message });
+        }
+      };
+      return start(new DeepDiveAgent(agentConfig), toAbortSignal(token, panel));
+    });
+
+    // Show results (partial if the run was cancelled)
+    const graph = buildDeepDiveGraph(result);
+    panel.webview.html = getDeepDiveResultsHtml(result, relativePath, graph);
+    historyProvider.refresh();
+
+    panel.webview.onDidReceiveMessage(async (message) => {
+      if (message.type === 'openFile') {
+        const doc = await vscode.workspace.openTextDocument(path.join(repoPath, message.file));
+        await vscode.window.showTextDocument(doc, vscode.ViewColumn.One);
+      } else if (message.type === 'exportGraph') {
+        const formats: Record<string, { extension: string; label: string; content: () => string }> = {
+          mermaid: { extension: 'mmd', label: 'Mermaid', content: () => toMermaid(graph) },
+          dot: { extension: 'dot', label: 'Graphviz', content: () => toDot(graph) },
+          json: { extension: 'json', label: 'JSON', content: () => JSON.stringify(graph, null, 2) }
+        };
+        const format = formats[message.format];
+        if (!format) return;
+
+        const uri = await vscode.window.showSaveDialog({
+          defaultUri: vscode.Uri.file(path.join(repoPath, `deep-dive-graph.${format.extension}`)),
+          filters: { [format.label]: [format.extension] }
+        });
+        if (uri) {
+          await vscode.workspace.fs.writeFile(uri, Buffer.from(format.content() + '\n'));
+          vscode.window.showInformationMessage(`Graph saved to ${uri.fsPath}`);
+        }
+      }
+    });
+
+  } catch (error) {
+    panel.webview.html = getDeepDiveErrorHtml(String(error));
+  }
+}
+
 async function startInvestigation(
   context: vscode.ExtensionContext,
   editor: vscode.TextEditor,
@@ -1215,21 +1493,11 @@ async function startInvestigation(
 ): Promise<void> {
   // Get configuration
   const config = vscode.workspace.getConfiguration('codeDetective');
-  const geminiApiKey = config.get<string>('geminiApiKey') || process.env.GEMINI_API_KEY;
   const githubToken = config.get<string>('githubToken') || process.env.GITHUB_TOKEN;
   const thinkingLevel = config.get<string>('thinkingLevel') || 'high';
 
-  if (!geminiApiKey) {
-    const action = await vscode.window.showErrorMessage(
-      'Gemini API key not configured',
-      'Open Settings'
-    );
-    if (action === 'Open Settings') {
-      vscode.commands.executeCommand(
-        'workbench.action.openSettings',
-        'codeDetective.geminiApiKey'
-      );
-    }
+  const provider = await getLLMProvider();
+  if (!provider) {
     return;
   }
 
@@ -1282,9 +1550,16 @@ async function startInvestigation(
 
   // Create investigator
   const investigator = new Investigator({
-    geminiApiKey,
+    provider,
     githubToken,
+    forge: getForgeSettings(),
     thinkingLevel: thinkingLevel as 'low' | 'medium' | 'high',
+    store: getCaseFileStore(workspaceFolder.uri.fsPath),
+    trackerExports: config.get<string[]>('trackerExports'),
+    contextBudget: config.get<number>('contextBudget'),
+    cache: config.get<boolean>('cacheInvestigations') !== false
+      ? InvestigationCache.forRepo(workspaceFolder.uri.fsPath)
+      : undefined,
     onUpdate: (update: StreamUpdate) => {
       if (investigationPanel) {
         investigationPanel.webview.postMessage({
@@ -1296,14 +1571,19 @@ async function startInvestigation(
   });
 
   try {
-    // Run investigation
-    const result = await investigator.investigate({
+    // Run investigation; cancelling or closing the panel returns a partial result
+    const panel = investigationPanel;
+    const result = await vscode.window.withProgress({
+      location: vscode.ProgressLocation.Notification,
+      title: 'Investigating...',
+      cancellable: true
+    }, (_progress, token) => investigator.investigate({
       text: selectedText,
       filePath: relativePath,
       lineStart: selection.start.line + 1,
       lineEnd: selection.end.line + 1,
       repoPath: workspaceFolder.uri.fsPath
-    });
+    }, toAbortSignal(token, panel)));
 
     // Send results to webview
     if (investigationPanel) {
@@ -1313,24 +1593,13 @@ async function startInvestigation(
       });
     }
 
-    // Add to history
-    addToHistory(result, relativePath, selection.start.line + 1, selection.end.line + 1);
+    // The investigator saved the case file; show it in the history view
+    historyProvider.refresh();
 
     // Handle export requests from webview
     investigationPanel?.webview.onDidReceiveMessage(async (message) => {
       if (message.type === 'export') {
-        const markdown = investigator.generateMarkdownExport(result);
-        const uri = await vscode.window.showSaveDialog({
-          defaultUri: vscode.Uri.file(markdown.filename),
-          filters: { 'Markdown': ['md'] }
-        });
-        if (uri) {
-          await vscode.workspace.fs.writeFile(
-            uri,
-            Buffer.from(markdown.content)
-          );
-          vscode.window.showInformationMessage(`Report saved to ${uri.fsPath}`);
-        }
+        await saveMarkdownReport(result);
       }
     });
 
@@ -1345,6 +1614,59 @@ async function startInvestigation(
   }
 }
 
+/**
+ * Show a stored investigation in its own results panel, the way a fresh
+ * one is shown, without re-running anything
+ */
+function showStoredInvestigation(context: vscode.ExtensionContext, stored: StoredCase): void {
+  const { codeSelection } = stored.caseFile;
+  const panel = vscode.window.createWebviewPanel(
+    'codeDetective',
+    `Investigation: ${path.basename(codeSelection.filePath)}`,
+    vscode.ViewColumn.Beside,
+    {
+      enableScripts: true,
+      retainContextWhenHidden: true,
+      localResourceRoots: [
+        vscode.Uri.joinPath(context.extensionUri, 'dist', 'webview')
+      ]
+    }
+  );
+
+  panel.webview.html = getWebviewContent(context, panel.webview, {
+    status: 'complete',
+    code: codeSelection.text,
+    file: codeSelection.filePath,
+    lineStart: codeSelection.lineStart,
+    lineEnd: codeSelection.lineEnd,
+    result: stored.result
+  });
+
+  panel.webview.onDidReceiveMessage(async (message) => {
+    if (message.type === 'export') {
+      await saveMarkdownReport(stored.result);
+    }
+  });
+}
+
+/**
+ * Ask where to save an investigation's Markdown report and write it
+ */
+async function saveMarkdownReport(result: InvestigationResult): Promise<void> {
+  const markdown = generateMarkdownExport(result);
+  const uri = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.file(markdown.filename),
+    filters: { 'Markdown': ['md'] }
+  });
+  if (uri) {
+    await vscode.workspace.fs.writeFile(
+      uri,
+      Buffer.from(markdown.content)
+    );
+    vscode.window.showInformationMessage(`Report saved to ${uri.fsPath}`);
+  }
+}
+
 function getWebviewContent(
   context: vscode.ExtensionContext,
   webview: vscode.Webview,
@@ -1534,6 +1856,16 @@ function getWebviewContent(
       white-space: pre-wrap;
     }
     
+    .confidence-breakdown {
+      width: 100%;
+      margin-top: 12px;
+      border-collapse: collapse;
+      font-size: 12px;
+    }
+    .confidence-breakdown td { padding: 4px 8px; border-bottom: 1px solid var(--vscode-panel-border); }
+    .confidence-breakdown .detail { color: var(--vscode-descriptionForeground); }
+    .usage { margin-top: 8px; font-size: 12px; color: var(--vscode-descriptionForeground); }
+    
     .sources-list { list-style: none; }
     
     .sources-list li {
@@ -1648,6 +1980,9 @@ function getWebviewContent(
       <div class="section">
         <h2>Summary</h2>
         <div class="badge badge-confidence" id="confidence-badge"></div>
+        <table class="confidence-breakdown" id="confidence-breakdown"></table>
+        <p class="usage" id="usage"></p>
+        <p class="usage" id="failures"></p>
         <p id="summary" style="margin-top: 12px;"></p>
       </div>
       
@@ -1684,7 +2019,7 @@ function getWebviewContent(
   
   <script nonce="${nonce}">
     const vscode = acquireVsCodeApi();
-    const initialData = ${JSON.stringify(initialData)};
+    const initialData = ${JSON.stringify(initialData).replace(/</g, '\\u003c')};
     
     // Initialize with code snippet
     document.getElementById('file-info').textContent = 
@@ -1722,10 +2057,34 @@ function getWebviewContent(
       
       // Confidence
       const confBadge = document.getElementById('confidence-badge');
-      confBadge.textContent = 'Confidence: ' + result.confidence + '%';
+      confBadge.textContent = result.cancelled ? 'Cancelled' : 'Confidence: ' + result.confidence + '%';
       if (result.confidence < 40) confBadge.classList.add('low');
       else if (result.confidence < 70) confBadge.classList.add('medium');
       
+      const breakdown = result.confidenceBreakdown;
+      document.getElementById('confidence-breakdown').innerHTML = breakdown
+        ? '<tr><td>Evidence score</td><td>' + breakdown.evidenceScore + '%</td>' +
+          '<td class="detail">weighted ' + Math.round(breakdown.evidenceWeight * 100) + '%, model ' + breakdown.modelScore + '%</td></tr>' +
+          breakdown.factors.map(f =>
+            '<tr><td>' + escapeHtml(f.name) + '</td>' +
+            '<td>' + Math.round(f.score * 100) + '% × ' + Math.round(f.weight * 100) + '%</td>' +
+            '<td class="detail">' + escapeHtml(f.detail) + '</td></tr>'
+          ).join('')
+        : '';
+      
+      const usage = result.usage;
+      document.getElementById('usage').textContent = usage
+        ? 'Model usage: ' + usage.totalTokens.toLocaleString() + ' tokens over ' + usage.calls + ' calls' +
+          (usage.costUsd !== undefined ? ' · ~$' + usage.costUsd.toFixed(4) : '')
+        : '';
+
+      const failures = result.failures || [];
+      document.getElementById('failures').innerHTML = failures.length > 0
+        ? '⚠ Evidence not retrieved:<br>' + failures.map(f =>
+            escapeHtml(f.operation + ': ' + f.kind.replace('_', ' ') + ' (' + f.service + ') - ' + f.message)
+          ).join('<br>')
+        : '';
+      
       // Summary & Narrative
       document.getElementById('summary').textContent = result.summary;
       document.getElementById('narrative').textContent = result.narrative;
@@ -1779,6 +2138,11 @@ function getWebviewContent(
       return div.innerHTML;
     }
     
+    // A stored investigation arrives with its result
+    if (initialData.result) {
+      showResults(initialData.result);
+    }
+    
     // Export button
     document.getElementById('export-btn').addEventListener('click', () => {
       vscode.postMessage({ type: 'export' });
@@ -1957,12 +2321,16 @@ function getDeepDiveLoadingHtml(filePath: string, startLine: number): string {
 }
 
 
-function getDeepDiveResultsHtml(result: InvestigationResult, filePath: string): string {
+function getDeepDiveResultsHtml(deepDive: DeepDiveResult, filePath: string, graph: DeepDiveGraph): string {
+  const nonce = getNonce();
+  const result = deepDive.mainInvestigation;
+  const failures = [...(result.failures || []), ...deepDive.failures];
   const confidenceClass = result.confidence >= 70 ? 'high' : result.confidence >= 40 ? 'medium' : 'low';
   
   return `<!DOCTYPE html>
 <html>
 <head>
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
   <style>
     body { 
       font-family: var(--vscode-font-family); 
@@ -2017,15 +2385,50 @@ function getDeepDiveResultsHtml(result: InvestigationResult, filePath: string):
     .timeline-date { color: var(--vscode-descriptionForeground); font-size: 11px; }
     .timeline-title { font-weight: 500; }
     .timeline-author { color: var(--vscode-textLink-foreground); font-size: 12px; }
+    .graph { overflow: auto; max-height: 600px; }
+    .graph .node rect { fill: var(--vscode-sideBar-background); stroke: var(--vscode-input-border); rx: 6; }
+    .graph .node.root rect { stroke: var(--vscode-textLink-foreground); stroke-width: 2; }
+    .graph .node.investigated rect { stroke: var(--vscode-testing-iconPassed); }
+    .graph .node.referrer rect { stroke-dasharray: 4 2; }
+    .graph .node { cursor: pointer; }
+    .graph .node text { fill: var(--vscode-editor-foreground); font-size: 11px; }
+    .graph .node text.detail { fill: var(--vscode-descriptionForeground); font-size: 10px; }
+    .graph .edge { fill: none; stroke: var(--vscode-input-border); stroke-width: 1.5; }
+    .graph .edge.reference { stroke-dasharray: 5 3; }
+    .graph .edge-label { fill: var(--vscode-descriptionForeground); font-size: 10px; }
+    .graph.focused .edge, .graph.focused .edge-label { opacity: 0.15; }
+    .graph.focused .edge.active, .graph.focused .edge-label.active { opacity: 1; stroke: var(--vscode-textLink-foreground); }
+    .graph-actions button {
+      background: var(--vscode-button-secondaryBackground);
+      color: var(--vscode-button-secondaryForeground);
+      border: none;
+      padding: 4px 10px;
+      border-radius: 4px;
+      margin-right: 6px;
+      cursor: pointer;
+    }
   </style>
 </head>
 <body>
-  <h1>Deep Dive Complete</h1>
-  <p class="file">${filePath}</p>
+  <h1>${deepDive.cancelled ? 'Deep Dive Cancelled' : 'Deep Dive Complete'}</h1>
+  <p class="file">${filePath} • ${deepDive.totalFilesExplored} files explored in ${(deepDive.totalTimeMs / 1000).toFixed(1)}s${deepDive.resumed ? ' (resumed)' : ''}</p>
   
   <div class="section">
     <h2>Confidence</h2>
     <span class="confidence ${confidenceClass}">${result.confidence}%</span>
+    <p>Model usage: ${formatUsage(deepDive.usage)}</p>
+    ${result.cancelled ? `<p>Cancelled before the evidence was analyzed</p>` : ''}
+    ${deepDive.budgetExceeded ? `<p>Stopped early: ${escapeHtml(deepDive.budgetExceeded)}</p>` : ''}
+    ${(deepDive.cancelled || deepDive.budgetExceeded) && deepDive.runId ? `<p>Progress was saved; run <strong>Code Detective: Resume Last Deep Dive</strong> to continue.</p>` : ''}
+    ${failures.length > 0 ? `<p>Steps failed: ${failures.map(f => escapeHtml(formatFailure(f))).join('<br>')}</p>` : ''}
+    ${result.confidenceBreakdown ? `
+    <ul class="sources">
+      <li>Evidence ${result.confidenceBreakdown.evidenceScore}% (weight ${Math.round(result.confidenceBreakdown.evidenceWeight * 100)}%), model ${result.confidenceBreakdown.modelScore}%</li>
+      ${result.confidenceBreakdown.factors.map(f => `
+        <li><strong>${escapeHtml(f.name)}</strong> ${Math.round(f.score * 100)}% × ${Math.round(f.weight * 100)}%: ${escapeHtml(f.detail)}</li>
+      `).join('')}
+    </ul>
+    ` : ''}
   </div>
   
   <div class="section">
@@ -2038,6 +2441,27 @@ function getDeepDiveResultsHtml(result: InvestigationResult, filePath: string):
     <div class="narrative">${escapeHtml(result.narrative)}</div>
   </div>
   
+  <div class="section">
+    <h2>Dependency Graph</h2>
+    <p class="graph-actions">
+      <button data-format="mermaid">Export Mermaid</button>
+      <button data-format="dot">Export DOT</button>
+      <button data-format="json">Export JSON</button>
+    </p>
+    ${getDeepDiveGraphSvg(graph)}
+  </div>
+
+  ${deepDive.relatedInvestigations.size > 0 ? `
+  <div class="section">
+    <h2>Related Files</h2>
+    <ul class="sources">
+      ${Array.from(deepDive.relatedInvestigations.entries()).map(([file, inv]) => `
+        <li><strong>${escapeHtml(file)}</strong>: ${escapeHtml(inv.summary)}</li>
+      `).join('')}
+    </ul>
+  </div>
+  ` : ''}
+  
   ${result.sources.length > 0 ? `
   <div class="section">
     <h2>Sources</h2>
@@ -2064,10 +2488,128 @@ function getDeepDiveResultsHtml(result: InvestigationResult, filePath: string):
     `).join('')}
   </div>
   ` : ''}
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const graph = document.querySelector('.graph');
+
+    // Hovering a file highlights its edges; clicking opens it
+    document.querySelectorAll('.graph .node').forEach(node => {
+      const file = node.getAttribute('data-file');
+      node.addEventListener('mouseenter', () => {
+        graph.classList.add('focused');
+        document.querySelectorAll('.graph [data-from]').forEach(edge => {
+          if (edge.getAttribute('data-from') === file || edge.getAttribute('data-to') === file) {
+            edge.classList.add('active');
+          }
+        });
+      });
+      node.addEventListener('mouseleave', () => {
+        graph.classList.remove('focused');
+        document.querySelectorAll('.graph .active').forEach(edge => edge.classList.remove('active'));
+      });
+      node.addEventListener('click', () => vscode.postMessage({ type: 'openFile', file }));
+    });
+
+    document.querySelectorAll('.graph-actions button').forEach(button => {
+      button.addEventListener('click', () => vscode.postMessage({ type: 'exportGraph', format: button.getAttribute('data-format') }));
+    });
+  </script>
 </body>
 </html>`;
 }
 
+/**
+ * Deep dive graph as SVG, in columns: files referencing the selection on
+ * the left, then the selected file, then its imports by depth
+ */
+function getDeepDiveGraphSvg(graph: DeepDiveGraph): string {
+  const NODE_WIDTH = 220;
+  const NODE_HEIGHT = 40;
+  const GAP_X = 90;
+  const GAP_Y = 14;
+
+  // Column of each file: breadth-first along import edges from the root
+  const column = new Map<string, number>([[graph.root, 0]]);
+  const queue = [graph.root];
+  while (queue.length > 0) {
+    const file = queue.shift()!;
+    for (const edge of graph.edges) {
+      if (edge.kind === 'dependency' && edge.from === file && !column.has(edge.to)) {
+        column.set(edge.to, column.get(file)! + 1);
+        queue.push(edge.to);
+      }
+    }
+  }
+  for (const node of graph.nodes) {
+    if (!column.has(node.id)) column.set(node.id, -1);
+  }
+
+  const minColumn = Math.min(...column.values());
+  const rows = new Map<number, number>();
+  const position = new Map<string, { x: number; y: number }>();
+  for (const node of graph.nodes) {
+    const col = column.get(node.id)!;
+    const row = rows.get(col) || 0;
+    rows.set(col, row + 1);
+    position.set(node.id, {
+      x: (col - minColumn) * (NODE_WIDTH + GAP_X) + 10,
+      y: row * (NODE_HEIGHT + GAP_Y) + 10
+    });
+  }
+
+  const width = (Math.max(...column.values()) - minColumn + 1) * (NODE_WIDTH + GAP_X);
+  const height = Math.max(...rows.values()) * (NODE_HEIGHT + GAP_Y) + 20;
+
+  const edges = graph.edges.map(edge => {
+    const from = position.get(edge.from)!;
+    const to = position.get(edge.to)!;
+    const x1 = from.x + NODE_WIDTH;
+    const y1 = from.y + NODE_HEIGHT / 2;
+    const x2 = to.x;
+    const y2 = to.y + NODE_HEIGHT / 2;
+    const bend = Math.max(40, Math.abs(x2 - x1) / 2);
+    const ends = `data-from="${escapeHtml(edge.from)}" data-to="${escapeHtml(edge.to)}"`;
+    const title = `${edgeLabel(edge)}${edge.lines ? ` (lines ${edge.lines.join(', ')})` : ''}`;
+    const label = edge.kind === 'dependency'
+      ? ''
+      : `<text class="edge-label" ${ends} x="${(x1 + x2) / 2}" y="${(y1 + y2) / 2 - 4}" text-anchor="middle">${escapeHtml(edgeLabel(edge))}</text>`;
+    return `<path class="edge ${edge.kind}" ${ends} marker-end="url(#arrow)"
+      d="M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}"><title>${escapeHtml(title)}</title></path>${label}`;
+  }).join('\n');
+
+  const nodes = graph.nodes.map(node => {
+    const { x, y } = position.get(node.id)!;
+    const detail = [node.package, node.confidence !== undefined ? `${node.confidence}%` : undefined]
+      .filter(Boolean)
+      .join(' • ') || path.dirname(node.id);
+    const tooltip = [node.id, node.summary, node.unresolved?.length ? `Unresolved: ${node.unresolved.join(', ')}` : undefined]
+      .filter(Boolean)
+      .join('\n\n');
+    return `<g class="node ${node.role}${node.investigated ? ' investigated' : ''}" data-file="${escapeHtml(node.id)}" transform="translate(${x}, ${y})">
+      <title>${escapeHtml(tooltip)}</title>
+      <rect width="${NODE_WIDTH}" height="${NODE_HEIGHT}"></rect>
+      <text x="10" y="16">${escapeHtml(shorten(path.basename(node.id), 32))}</text>
+      <text class="detail" x="10" y="31">${escapeHtml(shorten(detail, 36))}</text>
+    </g>`;
+  }).join('\n');
+
+  return `<div class="graph">
+    <svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">
+      <defs>
+        <marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+          <path d="M 0 0 L 10 5 L 0 10 z" fill="var(--vscode-input-border)"></path>
+        </marker>
+      </defs>
+      ${edges}
+      ${nodes}
+    </svg>
+  </div>`;
+}
+
+function shorten(text: string, max: number): string {
+  return text.length > max ? text.substring(0, max - 1) + '…' : text;
+}
+
 function getDeepDiveErrorHtml(error: string): string {
   return `<!DOCTYPE html>
 <html>
@@ -2096,7 +2638,7 @@ function getDeepDiveErrorHtml(error: string): string {
   <div class="error">
     <h1>Investigation Failed</h1>
     <p>${escapeHtml(error)}</p>
-    <p class="hint">Please check your API key and try again.</p>
+    <p class="hint">Please check your API key and try again. Files investigated so far were checkpointed: <strong>Code Detective: Resume Last Deep Dive</strong> continues from there.</p>
   </div>
 </body>
 </html>`;
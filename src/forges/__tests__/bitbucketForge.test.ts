@@ -0,0 +1,94 @@
+import { BitbucketForge } from '../bitbucketForge';
+import { StubServer, startStub } from './stubServer';
+
+const repo = '/2.0/repositories/acme/app';
+
+describe('BitbucketForge', () => {
+  let stub: StubServer;
+  let forge: BitbucketForge;
+
+  beforeAll(async () => {
+    stub = await startStub({
+      [`${repo}/commit/abc123/pullrequests`]: { values: [{ id: 21 }] },
+      [`${repo}/pullrequests/21`]: {
+        id: 21,
+        title: 'Retry webhooks',
+        description: 'Fixes #5',
+        author: { nickname: 'ana' },
+        state: 'MERGED',
+        links: { html: { href: 'https://bitbucket.org/acme/app/pull-requests/21' } },
+        created_on: '2024-03-01T10:00:00Z',
+        updated_on: '2024-03-02T10:00:00Z',
+        participants: [
+          { user: { display_name: 'Ben B' }, approved: true, participated_on: '2024-03-02T09:00:00Z' },
+          { user: { nickname: 'cy' }, approved: false, state: 'changes_requested', participated_on: '2024-03-01T12:00:00Z' },
+          { user: { nickname: 'dee' }, approved: false, state: null }
+        ]
+      },
+      // Comments span two pages linked by "next"
+      [`${repo}/pullrequests/21/comments`]: (url: string) => ({
+        values: [{ id: 1, content: { raw: 'First' }, user: { nickname: 'ben' }, created_on: '2024-03-01T11:00:00Z' }],
+        next: `${url}${repo}/pullrequests/21/comments-page-2`
+      }),
+      [`${repo}/pullrequests/21/comments-page-2`]: {
+        values: [
+          { id: 2, content: { raw: 'Removed' }, user: { nickname: 'cy' }, created_on: '2024-03-01T12:00:00Z', deleted: true },
+          { id: 3, content: { raw: 'Second' }, user: { nickname: 'cy' }, created_on: '2024-03-01T13:00:00Z' }
+        ]
+      },
+      [`${repo}/issues/5`]: {
+        id: 5,
+        title: 'Webhooks get lost',
+        content: { raw: 'Deliveries fail silently' },
+        reporter: { display_name: 'Eve E' },
+        state: 'resolved',
+        kind: 'bug',
+        priority: 'major',
+        links: { html: { href: 'https://bitbucket.org/acme/app/issues/5' } },
+        created_on: '2024-02-20T08:00:00Z',
+        updated_on: '2024-03-02T10:00:00Z'
+      }
+    });
+    forge = new BitbucketForge({ baseUrl: `${stub.url}/2.0`, token: 'user:app-password' });
+  });
+
+  afterAll(() => stub.close());
+
+  it('finds pull requests by commit with basic auth for app passwords', async () => {
+    expect(await forge.findPullRequestsByCommit('acme', 'app', 'abc123')).toEqual([21]);
+    expect(stub.requests[0].headers.authorization).toBe(`Basic ${Buffer.from('user:app-password').toString('base64')}`);
+    expect(stub.requests[0].query).toEqual({ pagelen: '50' });
+  });
+
+  it('uses the last update as the merge time', async () => {
+    expect(await forge.getPullRequest('acme', 'app', 21)).toMatchObject({
+      number: 21,
+      author: 'ana',
+      state: 'merged',
+      url: 'https://bitbucket.org/acme/app/pull-requests/21',
+      mergedAt: new Date('2024-03-02T10:00:00Z')
+    });
+  });
+
+  it('reports participant states as reviews', async () => {
+    const reviews = await forge.getPullRequestReviews('acme', 'app', 21);
+
+    expect(reviews.map(r => [r.author, r.state])).toEqual([['Ben B', 'approved'], ['cy', 'changes_requested']]);
+  });
+
+  it('follows next links and drops deleted comments', async () => {
+    const comments = await forge.getPullRequestComments('acme', 'app', 21);
+
+    expect(comments.map(c => c.body)).toEqual(['First', 'Second']);
+  });
+
+  it('maps issue states and labels', async () => {
+    expect(await forge.getIssue('acme', 'app', 5)).toMatchObject({
+      number: 5,
+      author: 'Eve E',
+      state: 'closed',
+      closedAt: new Date('2024-03-02T10:00:00Z'),
+      labels: ['bug', 'major']
+    });
+  });
+});
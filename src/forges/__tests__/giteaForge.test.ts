@@ -0,0 +1,87 @@
+import { GiteaForge } from '../giteaForge';
+import { StubServer, startStub } from './stubServer';
+
+const repo = '/api/v1/repos/team/app';
+
+describe('GiteaForge', () => {
+  let stub: StubServer;
+  let forge: GiteaForge;
+
+  beforeAll(async () => {
+    stub = await startStub({
+      [`${repo}/commits/abc123/pull`]: { number: 12 },
+      [`${repo}/pulls/12`]: {
+        number: 12,
+        title: 'Cache avatars',
+        body: '',
+        user: { login: 'ana' },
+        state: 'closed',
+        merged: true,
+        html_url: 'https://gitea.example.com/team/app/pulls/12',
+        created_at: '2024-02-01T10:00:00Z',
+        merged_at: '2024-02-02T10:00:00Z'
+      },
+      [`${repo}/pulls/12/reviews`]: [
+        { id: 1, user: { login: 'ben' }, state: 'REQUEST_CHANGES', body: 'Needs a TTL', submitted_at: '2024-02-01T12:00:00Z' },
+        { id: 2, user: { login: 'ben' }, state: 'PENDING', body: '', submitted_at: null },
+        { id: 3, user: { login: 'cy' }, state: 'APPROVED', body: '', submitted_at: '2024-02-02T09:00:00Z' }
+      ],
+      [`${repo}/issues/12/comments`]: [
+        { id: 5, body: 'TTL added', user: { login: 'ana' }, created_at: '2024-02-01T15:00:00Z' }
+      ],
+      [`${repo}/issues/8`]: {
+        number: 8,
+        title: 'Avatars load slowly',
+        body: 'Every page fetches them again',
+        user: { login: 'dee' },
+        state: 'open',
+        html_url: 'https://gitea.example.com/team/app/issues/8',
+        created_at: '2024-01-20T08:00:00Z',
+        closed_at: null,
+        labels: [{ name: 'performance' }]
+      }
+    });
+    forge = new GiteaForge({ baseUrl: `${stub.url}/api/v1`, token: 'gitea-secret' });
+  });
+
+  afterAll(() => stub.close());
+
+  it('finds the pull request a commit came from, with the token header', async () => {
+    expect(await forge.findPullRequestsByCommit('team', 'app', 'abc123')).toEqual([12]);
+    expect(stub.requests[0].headers.authorization).toBe('token gitea-secret');
+  });
+
+  it('treats a 404 for the commit as no pull request', async () => {
+    expect(await forge.findPullRequestsByCommit('team', 'app', 'def456')).toEqual([]);
+  });
+
+  it('maps a merged pull request', async () => {
+    expect(await forge.getPullRequest('team', 'app', 12)).toMatchObject({
+      number: 12,
+      author: 'ana',
+      state: 'merged',
+      mergedAt: new Date('2024-02-02T10:00:00Z')
+    });
+  });
+
+  it('maps review states and skips pending reviews', async () => {
+    const reviews = await forge.getPullRequestReviews('team', 'app', 12);
+
+    expect(reviews.map(r => [r.author, r.state])).toEqual([['ben', 'changes_requested'], ['cy', 'approved']]);
+  });
+
+  it('reads pull request comments from the issue thread', async () => {
+    const comments = await forge.getPullRequestComments('team', 'app', 12);
+
+    expect(comments).toEqual([{ id: 5, author: 'ana', body: 'TTL added', createdAt: new Date('2024-02-01T15:00:00Z') }]);
+  });
+
+  it('maps issues with label names', async () => {
+    expect(await forge.getIssue('team', 'app', 8)).toMatchObject({
+      number: 8,
+      state: 'open',
+      closedAt: null,
+      labels: ['performance']
+    });
+  });
+});
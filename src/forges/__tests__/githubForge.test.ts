@@ -0,0 +1,91 @@
+import { GitHubForge } from '../githubForge';
+import { StubServer, startStub } from './stubServer';
+
+const repo = '/api/v3/repos/acme/app';
+
+// GitHub Enterprise Server: the same REST API under a custom base URL
+describe('GitHubForge', () => {
+  let stub: StubServer;
+  let forge: GitHubForge;
+
+  beforeAll(async () => {
+    stub = await startStub({
+      '/api/v3/search/issues': { total_count: 0, incomplete_results: false, items: [] },
+      [`${repo}/commits/abc123/pulls`]: [{ number: 31 }],
+      [`${repo}/pulls/31`]: {
+        number: 31,
+        title: 'Pin the TLS version',
+        body: null,
+        user: { login: 'ana' },
+        state: 'closed',
+        merged: true,
+        html_url: 'https://ghe.example.com/acme/app/pull/31',
+        created_at: '2024-04-01T10:00:00Z',
+        merged_at: '2024-04-02T10:00:00Z'
+      },
+      [`${repo}/issues/31/comments`]: [
+        { id: 1, user: { login: 'ben' }, body: 'Which clients break?', created_at: '2024-04-01T11:00:00Z' }
+      ],
+      [`${repo}/pulls/31/comments`]: [
+        { id: 2, user: { login: 'cy' }, body: 'Add a comment here', created_at: '2024-04-01T12:00:00Z' }
+      ],
+      [`${repo}/pulls/31/reviews`]: [
+        { id: 3, user: { login: 'cy' }, state: 'APPROVED', body: '', submitted_at: '2024-04-02T09:00:00Z' }
+      ],
+      [`${repo}/issues/30`]: {
+        number: 30,
+        title: 'Handshake fails on old clients',
+        body: 'TLS 1.0 clients cannot connect',
+        user: { login: 'dee' },
+        state: 'closed',
+        html_url: 'https://ghe.example.com/acme/app/issues/30',
+        created_at: '2024-03-30T08:00:00Z',
+        closed_at: '2024-04-02T10:00:00Z',
+        labels: ['bug', { name: 'security' }]
+      }
+    });
+    forge = new GitHubForge({ baseUrl: `${stub.url}/api/v3`, token: 'ghp-secret' });
+  });
+
+  afterAll(() => stub.close());
+
+  it('falls back to the commit pulls endpoint when search finds nothing', async () => {
+    expect(await forge.findPullRequestsByCommit('acme', 'app', 'abc123')).toEqual([31]);
+    expect(stub.requests.map(r => r.path)).toEqual(['/api/v3/search/issues', `${repo}/commits/abc123/pulls`]);
+    expect(stub.requests[0].query.q).toBe('abc123 repo:acme/app is:pr');
+    expect(stub.requests[0].headers.authorization).toBe('token ghp-secret');
+  });
+
+  it('maps a merged pull request', async () => {
+    expect(await forge.getPullRequest('acme', 'app', 31)).toEqual({
+      number: 31,
+      title: 'Pin the TLS version',
+      body: '',
+      author: 'ana',
+      state: 'merged',
+      url: 'https://ghe.example.com/acme/app/pull/31',
+      createdAt: new Date('2024-04-01T10:00:00Z'),
+      mergedAt: new Date('2024-04-02T10:00:00Z')
+    });
+  });
+
+  it('combines conversation and inline review comments', async () => {
+    const comments = await forge.getPullRequestComments('acme', 'app', 31);
+
+    expect(comments.map(c => [c.author, c.body])).toEqual([['ben', 'Which clients break?'], ['cy', 'Add a comment here']]);
+  });
+
+  it('lower-cases review states', async () => {
+    const reviews = await forge.getPullRequestReviews('acme', 'app', 31);
+
+    expect(reviews).toEqual([{ id: 3, author: 'cy', state: 'approved', body: '', createdAt: new Date('2024-04-02T09:00:00Z') }]);
+  });
+
+  it('maps issues with string and object labels', async () => {
+    expect(await forge.getIssue('acme', 'app', 30)).toMatchObject({
+      number: 30,
+      state: 'closed',
+      labels: ['bug', 'security']
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { GitLabForge } from '../gitlabForge';
+import { ServiceError } from '../../scheduler';
+import { StubServer, reply, startStub } from './stubServer';
+
+// Nested group paths are sent URL-encoded
+const project = '/api/v4/projects/group%2Fsub%2Fapp';
+
+describe('GitLabForge', () => {
+  let stub: StubServer;
+  let forge: GitLabForge;
+
+  beforeAll(async () => {
+    stub = await startStub({
+      [`${project}/repository/commits/abc123/merge_requests`]: [{ iid: 7 }],
+      [`${project}/merge_requests/7`]: {
+        iid: 7,
+        title: 'Add retry',
+        description: 'Closes #3',
+        author: { username: 'ana' },
+        state: 'merged',
+        web_url: 'https://gitlab.example.com/group/sub/app/-/merge_requests/7',
+        created_at: '2024-01-02T10:00:00Z',
+        merged_at: '2024-01-03T10:00:00Z'
+      },
+      [`${project}/merge_requests/7/notes`]: [
+        { id: 1, body: 'added 1 commit', author: { username: 'ana' }, created_at: '2024-01-02T11:00:00Z', system: true },
+        { id: 2, body: 'Why retry twice?', author: { username: 'ben' }, created_at: '2024-01-02T12:00:00Z', system: false }
+      ],
+      [`${project}/merge_requests/7/approvals`]: {
+        approved_by: [{ user: { id: 9, username: 'ben' } }],
+        updated_at: '2024-01-03T09:00:00Z'
+      },
+      [`${project}/issues/3`]: {
+        iid: 3,
+        title: 'Flaky upload',
+        description: 'Uploads time out',
+        author: { username: 'cy' },
+        state: 'closed',
+        web_url: 'https://gitlab.example.com/group/sub/app/-/issues/3',
+        created_at: '2024-01-01T08:00:00Z',
+        closed_at: '2024-01-03T10:00:00Z',
+        labels: ['bug']
+      },
+      [`${project}/issues/4`]: reply(403, { message: '403 Forbidden' })
+    });
+    forge = new GitLabForge({ baseUrl: `${stub.url}/api/v4`, token: 'glpat-secret' });
+  });
+
+  afterAll(() => stub.close());
+
+  it('finds merge requests by commit with the private token', async () => {
+    expect(await forge.findPullRequestsByCommit('group/sub', 'app', 'abc123')).toEqual([7]);
+    expect(stub.requests[0].headers['private-token']).toBe('glpat-secret');
+  });
+
+  it('maps merge request details', async () => {
+    expect(await forge.getPullRequest('group/sub', 'app', 7)).toEqual({
+      number: 7,
+      title: 'Add retry',
+      body: 'Closes #3',
+      author: 'ana',
+      state: 'merged',
+      url: 'https://gitlab.example.com/group/sub/app/-/merge_requests/7',
+      createdAt: new Date('2024-01-02T10:00:00Z'),
+      mergedAt: new Date('2024-01-03T10:00:00Z')
+    });
+  });
+
+  it('leaves system notes out of the comments', async () => {
+    const comments = await forge.getPullRequestComments('group/sub', 'app', 7);
+
+    expect(comments.map(c => [c.author, c.body])).toEqual([['ben', 'Why retry twice?']]);
+    expect(stub.requests[stub.requests.length - 1].query).toEqual({ per_page: '100', sort: 'asc' });
+  });
+
+  it('reports approvals as reviews', async () => {
+    expect(await forge.getPullRequestReviews('group/sub', 'app', 7)).toEqual([
+      { id: 9, author: 'ben', state: 'approved', body: '', createdAt: new Date('2024-01-03T09:00:00Z') }
+    ]);
+  });
+
+  it('maps issues', async () => {
+    const issue = await forge.getIssue('group/sub', 'app', 3);
+
+    expect(issue).toMatchObject({ number: 3, title: 'Flaky upload', author: 'cy', state: 'closed', labels: ['bug'] });
+    expect(issue.closedAt).toEqual(new Date('2024-01-03T10:00:00Z'));
+  });
+
+  it('surfaces a refused request as a rejected ServiceError', async () => {
+    const error = await forge.getIssue('group/sub', 'app', 4).catch(e => e);
+
+    expect(error).toBeInstanceOf(ServiceError);
+    expect(error).toMatchObject({ service: 'forge:gitlab', kind: 'rejected', status: 403 });
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Local HTTP stub for forge provider tests: answers GET requests from a
+ * route table keyed by path and records what was asked
+ */
+
+import { AddressInfo } from 'net';
+import * as http from 'http';
+
+export interface StubReply {
+  status: number;
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+export interface StubRequest {
+  method: string;
+  path: string;                          // Path as sent, without the query string
+  query: Record<string, string>;
+  headers: http.IncomingHttpHeaders;
+}
+
+export interface StubServer {
+  url: string;                           // http://127.0.0.1:<port>
+  requests: StubRequest[];
+  close(): Promise<void>;
+}
+
+/**
+ * A non-200 answer for a route; anything else in the table is sent as JSON
+ */
+export function reply(status: number, body: unknown, headers?: Record<string, string>): StubReply {
+  return { status, body, headers };
+}
+
+/**
+ * Start a stub on a free port. Routes map a path as sent, still URL-encoded
+ * (e.g. "/repos/o/r/pulls/1"), to a JSON body or a reply(); a function
+ * receives the server URL, for bodies that link back to it. Unknown paths
+ * answer 404.
+ */
+export async function startStub(
+  routes: Record<string, unknown | ((url: string) => unknown)>
+): Promise<StubServer> {
+  const requests: StubRequest[] = [];
+  let url = '';
+
+  const server = http.createServer((req, res) => {
+    const parsed = new URL(req.url || '/', url);
+    requests.push({
+      method: req.method || 'GET',
+      path: parsed.pathname,
+      query: Object.fromEntries(parsed.searchParams),
+      headers: req.headers
+    });
+
+    const route = routes[parsed.pathname];
+    const value = typeof route === 'function' ? route(url) : route;
+    const answer: StubReply = value === undefined
+      ? reply(404, { message: 'Not Found' })
+      : isReply(value) ? value : reply(200, value);
+
+    res.writeHead(answer.status, { 'Content-Type': 'application/json', ...answer.headers });
+    res.end(JSON.stringify(answer.body));
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    url,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()))
+  };
+}
+
+function isReply(value: unknown): value is StubReply {
+  return typeof value === 'object' && value !== null && 'status' in value && 'body' in value;
+}
@@ -0,0 +1,152 @@
+/**
+ * Bitbucket Forge
+ * Bitbucket Cloud via the REST API 2.0 (owner is the workspace)
+ */
+
+import { PRComment, PRReview, IssueComment } from '../agents/types';
+import { ForgeProvider, PullRequestDetails, IssueDetails } from './types';
+import { ForgeClient } from './http';
+
+export const BITBUCKET_API_URL = 'https://api.bitbucket.org/2.0';
+
+// Follow at most this many "next" links when listing
+const MAX_PAGES = 5;
+
+interface Page<T> {
+  values: T[];
+  next?: string;
+}
+
+interface BitbucketUser {
+  display_name?: string;
+  nickname?: string;
+}
+
+interface BitbucketComment {
+  id: number;
+  content?: { raw: string };
+  user?: BitbucketUser;
+  created_on: string;
+  deleted?: boolean;
+}
+
+export class BitbucketForge implements ForgeProvider {
+  readonly type = 'bitbucket';
+  private client: ForgeClient;
+
+  /**
+   * @param options.token Access token, or "username:app-password" for basic auth
+   */
+  constructor(options: { token?: string; baseUrl?: string } = {}) {
+    const headers: Record<string, string> = {};
+    if (options.token) {
+      headers['Authorization'] = options.token.includes(':')
+        ? `Basic ${Buffer.from(options.token).toString('base64')}`
+        : `Bearer ${options.token}`;
+    }
+
+    this.client = new ForgeClient('forge:bitbucket', options.baseUrl || BITBUCKET_API_URL, headers);
+  }
+
+  async findPullRequestsByCommit(owner: string, repo: string, commitHash: string): Promise<number[]> {
+    const prs = await this.getAll<{ id: number }>(
+      `${this.repoPath(owner, repo)}/commit/${commitHash}/pullrequests`
+    );
+    return prs.map(pr => pr.id);
+  }
+
+  async getPullRequest(owner: string, repo: string, number: number): Promise<PullRequestDetails> {
+    const pr = await this.client.get<any>(`${this.repoPath(owner, repo)}/pullrequests/${number}`);
+
+    return {
+      number: pr.id,
+      title: pr.title,
+      body: pr.description || '',
+      author: this.userName(pr.author),
+      state: pr.state === 'MERGED' ? 'merged' : pr.state === 'OPEN' ? 'open' : 'closed',
+      url: pr.links?.html?.href || '',
+      createdAt: new Date(pr.created_on),
+      // Bitbucket does not report a merge time; the last update is when it merged
+      mergedAt: pr.state === 'MERGED' ? new Date(pr.updated_on) : null
+    };
+  }
+
+  async getPullRequestComments(owner: string, repo: string, number: number): Promise<PRComment[]> {
+    return this.getComments(`${this.repoPath(owner, repo)}/pullrequests/${number}/comments`);
+  }
+
+  /**
+   * Reviews are participant states on the pull request itself
+   */
+  async getPullRequestReviews(owner: string, repo: string, number: number): Promise<PRReview[]> {
+    const pr = await this.client.get<any>(`${this.repoPath(owner, repo)}/pullrequests/${number}`);
+    const participants: any[] = pr.participants || [];
+
+    return participants
+      .filter(p => p.approved || p.state)
+      .map((p, i) => ({
+        id: i + 1,
+        author: this.userName(p.user),
+        state: p.approved || p.state === 'approved' ? 'approved'
+          : p.state === 'changes_requested' ? 'changes_requested'
+          : 'commented',
+        body: '',
+        createdAt: new Date(p.participated_on || pr.updated_on)
+      }));
+  }
+
+  async getIssue(owner: string, repo: string, number: number): Promise<IssueDetails> {
+    const issue = await this.client.get<any>(`${this.repoPath(owner, repo)}/issues/${number}`);
+    const open = ['new', 'open', 'on hold'].includes(issue.state);
+
+    return {
+      number: issue.id,
+      title: issue.title,
+      body: issue.content?.raw || '',
+      author: this.userName(issue.reporter),
+      state: open ? 'open' : 'closed',
+      url: issue.links?.html?.href || '',
+      createdAt: new Date(issue.created_on),
+      closedAt: open ? null : new Date(issue.updated_on),
+      labels: [issue.kind, issue.priority, issue.component?.name].filter(l => l)
+    };
+  }
+
+  async getIssueComments(owner: string, repo: string, number: number): Promise<IssueComment[]> {
+    return this.getComments(`${this.repoPath(owner, repo)}/issues/${number}/comments`);
+  }
+
+  private repoPath(owner: string, repo: string): string {
+    return `/repositories/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+  }
+
+  private userName(user?: BitbucketUser): string {
+    return user?.nickname || user?.display_name || 'unknown';
+  }
+
+  private async getComments(path: string): Promise<PRComment[]> {
+    const comments = await this.getAll<BitbucketComment>(path);
+
+    return comments
+      .filter(c => !c.deleted)
+      .map(c => ({
+        id: c.id,
+        author: this.userName(c.user),
+        body: c.content?.raw || '',
+        createdAt: new Date(c.created_on)
+      }));
+  }
+
+  private async getAll<T>(path: string): Promise<T[]> {
+    const values: T[] = [];
+    let page = await this.client.get<Page<T>>(path, { pagelen: 50 });
+
+    for (let i = 1; ; i++) {
+      values.push(...page.values);
+      if (!page.next || i >= MAX_PAGES) break;
+      page = await this.client.get<Page<T>>(page.next);
+    }
+
+    return values;
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Forge Detection
+ * Parses git remote URLs and infers which forge (and API URL) hosts them
+ */
+
+import { ForgeType, ForgeSettings, ForgeConfig, RemoteInfo } from './types';
+import { GITHUB_API_URL } from './githubForge';
+import { BITBUCKET_API_URL } from './bitbucketForge';
+
+export interface ParsedRemote {
+  protocol: 'http' | 'https';  // Scheme to reach the forge's web/API host
+  host: string;                // Includes the port for http(s) remotes
+  owner: string;
+  repo: string;
+}
+
+/**
+ * Parse https://host/owner/repo.git, ssh://git@host:22/owner/repo.git
+ * and scp-style git@host:owner/repo.git. The owner keeps every path segment
+ * but the last, so GitLab subgroups ("group/sub") survive.
+ */
+export function parseRemoteUrl(url: string): ParsedRemote | null {
+  let protocol: ParsedRemote['protocol'] = 'https';
+  let host: string;
+  let repoPath: string;
+
+  const urlMatch = url.match(/^(https?|ssh|git):\/\/(?:[^@/]+@)?([^/:]+)(?::(\d+))?\/(.+)$/);
+  const scpMatch = url.match(/^(?:[^@/]+@)?([^/:]+):(?!\/)(.+)$/);
+
+  if (urlMatch) {
+    const [, scheme, hostname, port, rest] = urlMatch;
+    if (scheme === 'http') protocol = 'http';
+    // SSH ports say nothing about where the web API lives
+    host = port && (scheme === 'http' || scheme === 'https') ? `${hostname}:${port}` : hostname;
+    repoPath = rest;
+  } else if (scpMatch) {
+    host = scpMatch[1];
+    repoPath = scpMatch[2];
+  } else {
+    return null;
+  }
+
+  const segments = repoPath.replace(/\.git\/?$/, '').replace(/\/+$/, '').split('/').filter(s => s);
+  if (segments.length < 2) return null;
+
+  return {
+    protocol,
+    host,
+    owner: segments.slice(0, -1).join('/'),
+    repo: segments[segments.length - 1]
+  };
+}
+
+/**
+ * Guess the forge from a host name; null for hosts we cannot recognize
+ * (configure the forge type explicitly for those)
+ */
+export function detectForgeType(host: string): ForgeType | null {
+  const hostname = host.toLowerCase().replace(/:\d+$/, '');
+
+  if (hostname === 'github.com' || /(^|[.-])github([.-]|$)/.test(hostname)) return 'github';
+  if (hostname === 'gitlab.com' || /(^|[.-])gitlab([.-]|$)/.test(hostname)) return 'gitlab';
+  if (hostname === 'codeberg.org' || /(^|[.-])(gitea|forgejo)([.-]|$)/.test(hostname)) return 'gitea';
+  if (hostname === 'bitbucket.org') return 'bitbucket';
+
+  return null;
+}
+
+/**
+ * Default API base URL for a forge served from a remote's host
+ */
+export function defaultApiUrl(type: ForgeType, remote: Pick<ParsedRemote, 'protocol' | 'host'>): string {
+  const origin = `${remote.protocol}://${remote.host}`;
+
+  switch (type) {
+    case 'github':
+      return remote.host === 'github.com' ? GITHUB_API_URL : `${origin}/api/v3`;
+    case 'gitlab':
+      return `${origin}/api/v4`;
+    case 'gitea':
+      return `${origin}/api/v1`;
+    case 'bitbucket':
+      return BITBUCKET_API_URL;
+  }
+}
+
+/**
+ * Combine a detected remote with user settings. Returns null when the
+ * forge cannot be determined.
+ */
+export function resolveForgeConfig(remote: RemoteInfo, settings: ForgeSettings = {}): ForgeConfig | null {
+  const type = settings.type || remote.forge;
+  if (!type) return null;
+
+  const parsed = parseRemoteUrl(remote.url);
+  return {
+    type,
+    baseUrl: settings.baseUrl || (parsed ? defaultApiUrl(type, parsed) : undefined),
+    token: settings.token
+  };
+}
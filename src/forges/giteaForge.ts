@@ -0,0 +1,117 @@
+/**
+ * Gitea Forge
+ * Gitea and Forgejo (including Codeberg) via the REST API v1
+ */
+
+import { PRComment, PRReview, IssueComment } from '../agents/types';
+import { ForgeProvider, PullRequestDetails, IssueDetails } from './types';
+import { ForgeClient } from './http';
+
+interface GiteaComment {
+  id: number;
+  body: string;
+  user?: { login: string };
+  created_at: string;
+}
+
+export class GiteaForge implements ForgeProvider {
+  readonly type = 'gitea';
+  private client: ForgeClient;
+
+  /**
+   * @param options.baseUrl API base URL, e.g. https://gitea.example.com/api/v1
+   */
+  constructor(options: { token?: string; baseUrl: string }) {
+    this.client = new ForgeClient(
+      'forge:gitea',
+      options.baseUrl,
+      options.token ? { Authorization: `token ${options.token}` } : {}
+    );
+  }
+
+  async findPullRequestsByCommit(owner: string, repo: string, commitHash: string): Promise<number[]> {
+    try {
+      const pr = await this.client.get<{ number: number }>(
+        `${this.repoPath(owner, repo)}/commits/${commitHash}/pull`
+      );
+      return [pr.number];
+    } catch (error: any) {
+      // 404 means the commit did not come from a pull request
+      if (error?.status === 404) return [];
+      throw error;
+    }
+  }
+
+  async getPullRequest(owner: string, repo: string, number: number): Promise<PullRequestDetails> {
+    const pr = await this.client.get<any>(`${this.repoPath(owner, repo)}/pulls/${number}`);
+
+    return {
+      number: pr.number,
+      title: pr.title,
+      body: pr.body || '',
+      author: pr.user?.login || 'unknown',
+      state: pr.merged ? 'merged' : pr.state as 'open' | 'closed',
+      url: pr.html_url,
+      createdAt: new Date(pr.created_at),
+      mergedAt: pr.merged_at ? new Date(pr.merged_at) : null
+    };
+  }
+
+  async getPullRequestComments(owner: string, repo: string, number: number): Promise<PRComment[]> {
+    // Pull requests share the issue comment thread
+    return this.getComments(owner, repo, number);
+  }
+
+  async getPullRequestReviews(owner: string, repo: string, number: number): Promise<PRReview[]> {
+    const reviews = await this.client.get<any[]>(`${this.repoPath(owner, repo)}/pulls/${number}/reviews`);
+
+    return reviews
+      .filter(r => r.state !== 'PENDING')
+      .map(r => ({
+        id: r.id,
+        author: r.user?.login || 'unknown',
+        state: r.state === 'APPROVED' ? 'approved'
+          : r.state === 'REQUEST_CHANGES' ? 'changes_requested'
+          : 'commented',
+        body: r.body || '',
+        createdAt: new Date(r.submitted_at || '')
+      }));
+  }
+
+  async getIssue(owner: string, repo: string, number: number): Promise<IssueDetails> {
+    const issue = await this.client.get<any>(`${this.repoPath(owner, repo)}/issues/${number}`);
+
+    return {
+      number: issue.number,
+      title: issue.title,
+      body: issue.body || '',
+      author: issue.user?.login || 'unknown',
+      state: issue.state as 'open' | 'closed',
+      url: issue.html_url,
+      createdAt: new Date(issue.created_at),
+      closedAt: issue.closed_at ? new Date(issue.closed_at) : null,
+      labels: (issue.labels || []).map((l: { name: string }) => l.name)
+    };
+  }
+
+  async getIssueComments(owner: string, repo: string, number: number): Promise<IssueComment[]> {
+    return this.getComments(owner, repo, number);
+  }
+
+  private repoPath(owner: string, repo: string): string {
+    return `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+  }
+
+  private async getComments(owner: string, repo: string, number: number): Promise<IssueComment[]> {
+    const comments = await this.client.get<GiteaComment[]>(
+      `${this.repoPath(owner, repo)}/issues/${number}/comments`
+    );
+
+    return comments.map(c => ({
+      id: c.id,
+      author: c.user?.login || 'unknown',
+      body: c.body || '',
+      createdAt: new Date(c.created_at)
+    }));
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * GitHub Forge
+ * GitHub.com and GitHub Enterprise Server (custom API base URL) via Octokit
+ */
+
+import { Octokit } from '@octokit/rest';
+import { getScheduler } from '../scheduler';
+import { PRComment, PRReview, IssueComment } from '../agents/types';
+import { ForgeProvider, PullRequestDetails, IssueDetails } from './types';
+
+export const GITHUB_API_URL = 'https://api.github.com';
+
+export class GitHubForge implements ForgeProvider {
+  readonly type = 'github';
+  private octokit: Octokit;
+
+  constructor(options: { token?: string; baseUrl?: string } = {}) {
+    this.octokit = new Octokit({
+      auth: options.token,
+      baseUrl: options.baseUrl || GITHUB_API_URL
+    });
+
+    // Every REST call shares the scheduler's rate limit and backoff
+    this.octokit.hook.wrap('request', (request, requestOptions) =>
+      getScheduler().run('forge:github', async () => request(requestOptions))
+    );
+  }
+
+  async findPullRequestsByCommit(owner: string, repo: string, commitHash: string): Promise<number[]> {
+    // Search for PRs containing this commit
+    const searchResult = await this.octokit.search.issuesAndPullRequests({
+      q: `${commitHash} repo:${owner}/${repo} is:pr`,
+      per_page: 5
+    });
+
+    if (searchResult.data.items.length > 0) {
+      return searchResult.data.items.map(item => item.number);
+    }
+
+    // Try alternative: list PRs that contain commit
+    const prList = await this.octokit.repos.listPullRequestsAssociatedWithCommit({
+      owner,
+      repo,
+      commit_sha: commitHash
+    });
+
+    return prList.data.map(pr => pr.number);
+  }
+
+  async getPullRequest(owner: string, repo: string, number: number): Promise<PullRequestDetails> {
+    const pr = await this.octokit.pulls.get({ owner, repo, pull_number: number });
+
+    return {
+      number: pr.data.number,
+      title: pr.data.title,
+      body: pr.data.body || '',
+      author: pr.data.user?.login || 'unknown',
+      state: pr.data.merged ? 'merged' : pr.data.state as 'open' | 'closed',
+      url: pr.data.html_url,
+      createdAt: new Date(pr.data.created_at),
+      mergedAt: pr.data.merged_at ? new Date(pr.data.merged_at) : null
+    };
+  }
+
+  /**
+   * Both conversation comments and inline review comments
+   */
+  async getPullRequestComments(owner: string, repo: string, number: number): Promise<PRComment[]> {
+    const [issueComments, reviewComments] = await Promise.all([
+      this.octokit.issues.listComments({
+        owner,
+        repo,
+        issue_number: number,
+        per_page: 100
+      }),
+      this.octokit.pulls.listReviewComments({
+        owner,
+        repo,
+        pull_number: number,
+        per_page: 100
+      })
+    ]);
+
+    return [
+      ...issueComments.data.map(c => ({
+        id: c.id,
+        author: c.user?.login || 'unknown',
+        body: c.body || '',
+        createdAt: new Date(c.created_at)
+      })),
+      ...reviewComments.data.map(c => ({
+        id: c.id,
+        author: c.user?.login || 'unknown',
+        body: c.body || '',
+        createdAt: new Date(c.created_at)
+      }))
+    ];
+  }
+
+  async getPullRequestReviews(owner: string, repo: string, number: number): Promise<PRReview[]> {
+    const reviews = await this.octokit.pulls.listReviews({
+      owner,
+      repo,
+      pull_number: number,
+      per_page: 100
+    });
+
+    return reviews.data.map(r => ({
+      id: r.id,
+      author: r.user?.login || 'unknown',
+      state: r.state.toLowerCase() as PRReview['state'],
+      body: r.body || '',
+      createdAt: new Date(r.submitted_at || '')
+    }));
+  }
+
+  async getIssue(owner: string, repo: string, number: number): Promise<IssueDetails> {
+    const issue = await this.octokit.issues.get({ owner, repo, issue_number: number });
+
+    return {
+      number: issue.data.number,
+      title: issue.data.title,
+      body: issue.data.body || '',
+      author: issue.data.user?.login || 'unknown',
+      state: issue.data.state as 'open' | 'closed',
+      url: issue.data.html_url,
+      createdAt: new Date(issue.data.created_at),
+      closedAt: issue.data.closed_at ? new Date(issue.data.closed_at) : null,
+      labels: issue.data.labels.map(l =>
+        typeof l === 'string' ? l : l.name || ''
+      )
+    };
+  }
+
+  async getIssueComments(owner: string, repo: string, number: number): Promise<IssueComment[]> {
+    const comments = await this.octokit.issues.listComments({
+      owner,
+      repo,
+      issue_number: number,
+      per_page: 100
+    });
+
+    return comments.data.map(c => ({
+      id: c.id,
+      author: c.user?.login || 'unknown',
+      body: c.body || '',
+      createdAt: new Date(c.created_at)
+    }));
+  }
+}
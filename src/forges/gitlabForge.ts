@@ -0,0 +1,120 @@
+/**
+ * GitLab Forge
+ * GitLab.com and self-managed GitLab via the REST API v4 (merge requests, issues, notes)
+ */
+
+import { PRComment, PRReview, IssueComment } from '../agents/types';
+import { ForgeProvider, PullRequestDetails, IssueDetails } from './types';
+import { ForgeClient } from './http';
+
+export const GITLAB_API_URL = 'https://gitlab.com/api/v4';
+
+interface GitLabUser {
+  username: string;
+}
+
+interface GitLabNote {
+  id: number;
+  body: string;
+  author: GitLabUser;
+  created_at: string;
+  system: boolean;
+}
+
+export class GitLabForge implements ForgeProvider {
+  readonly type = 'gitlab';
+  private client: ForgeClient;
+
+  constructor(options: { token?: string; baseUrl?: string } = {}) {
+    this.client = new ForgeClient(
+      'forge:gitlab',
+      options.baseUrl || GITLAB_API_URL,
+      options.token ? { 'PRIVATE-TOKEN': options.token } : {}
+    );
+  }
+
+  async findPullRequestsByCommit(owner: string, repo: string, commitHash: string): Promise<number[]> {
+    const mrs = await this.client.get<Array<{ iid: number }>>(
+      `${this.projectPath(owner, repo)}/repository/commits/${commitHash}/merge_requests`
+    );
+    return mrs.map(mr => mr.iid);
+  }
+
+  async getPullRequest(owner: string, repo: string, number: number): Promise<PullRequestDetails> {
+    const mr = await this.client.get<any>(`${this.projectPath(owner, repo)}/merge_requests/${number}`);
+
+    return {
+      number: mr.iid,
+      title: mr.title,
+      body: mr.description || '',
+      author: mr.author?.username || 'unknown',
+      state: mr.state === 'merged' ? 'merged' : mr.state === 'opened' ? 'open' : 'closed',
+      url: mr.web_url,
+      createdAt: new Date(mr.created_at),
+      mergedAt: mr.merged_at ? new Date(mr.merged_at) : null
+    };
+  }
+
+  async getPullRequestComments(owner: string, repo: string, number: number): Promise<PRComment[]> {
+    return this.getNotes(`${this.projectPath(owner, repo)}/merge_requests/${number}/notes`);
+  }
+
+  /**
+   * GitLab has no review objects; approvals are the closest equivalent
+   */
+  async getPullRequestReviews(owner: string, repo: string, number: number): Promise<PRReview[]> {
+    const approvals = await this.client.get<{ approved_by?: Array<{ user: GitLabUser & { id: number } }>; updated_at?: string }>(
+      `${this.projectPath(owner, repo)}/merge_requests/${number}/approvals`
+    );
+
+    return (approvals.approved_by || []).map(a => ({
+      id: a.user.id,
+      author: a.user.username,
+      state: 'approved',
+      body: '',
+      createdAt: new Date(approvals.updated_at || '')
+    }));
+  }
+
+  async getIssue(owner: string, repo: string, number: number): Promise<IssueDetails> {
+    const issue = await this.client.get<any>(`${this.projectPath(owner, repo)}/issues/${number}`);
+
+    return {
+      number: issue.iid,
+      title: issue.title,
+      body: issue.description || '',
+      author: issue.author?.username || 'unknown',
+      state: issue.state === 'opened' ? 'open' : 'closed',
+      url: issue.web_url,
+      createdAt: new Date(issue.created_at),
+      closedAt: issue.closed_at ? new Date(issue.closed_at) : null,
+      labels: issue.labels || []
+    };
+  }
+
+  async getIssueComments(owner: string, repo: string, number: number): Promise<IssueComment[]> {
+    return this.getNotes(`${this.projectPath(owner, repo)}/issues/${number}/notes`);
+  }
+
+  /**
+   * Projects are addressed by their URL-encoded full path, which may
+   * include nested groups ("group/subgroup/project")
+   */
+  private projectPath(owner: string, repo: string): string {
+    return `/projects/${encodeURIComponent(`${owner}/${repo}`)}`;
+  }
+
+  private async getNotes(path: string): Promise<PRComment[]> {
+    const notes = await this.client.get<GitLabNote[]>(path, { per_page: 100, sort: 'asc' });
+
+    // System notes are GitLab's own activity log ("added 1 commit", ...)
+    return notes
+      .filter(n => !n.system)
+      .map(n => ({
+        id: n.id,
+        author: n.author?.username || 'unknown',
+        body: n.body || '',
+        createdAt: new Date(n.created_at)
+      }));
+  }
+}
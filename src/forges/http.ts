@@ -0,0 +1,45 @@
+/**
+ * Forge HTTP Helper
+ * Minimal JSON client shared by the REST-based forge providers; every
+ * request goes through the shared scheduler
+ */
+
+import { getScheduler } from '../scheduler';
+
+export class ForgeClient {
+  private service: string;
+  private baseUrl: string;
+  private headers: Record<string, string>;
+
+  constructor(service: string, baseUrl: string, headers: Record<string, string> = {}) {
+    this.service = service;
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.headers = { Accept: 'application/json', ...headers };
+  }
+
+  /**
+   * GET a path relative to the API base URL (absolute URLs are used as-is,
+   * for pagination links)
+   */
+  async get<T>(pathOrUrl: string, query: Record<string, string | number> = {}): Promise<T> {
+    const url = new URL(/^https?:\/\//.test(pathOrUrl) ? pathOrUrl : `${this.baseUrl}${pathOrUrl}`);
+    for (const [key, value] of Object.entries(query)) {
+      url.searchParams.set(key, String(value));
+    }
+
+    return getScheduler().run(this.service, async () => {
+      const response = await fetch(url, { headers: this.headers });
+
+      if (!response.ok) {
+        const error: any = new Error(
+          `${url.origin}${url.pathname} returned ${response.status}: ${await response.text()}`
+        );
+        error.status = response.status;
+        error.headers = response.headers;
+        throw error;
+      }
+
+      return await response.json() as T;
+    });
+  }
+}
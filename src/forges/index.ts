@@ -0,0 +1,52 @@
+/**
+ * Forge Provider Exports
+ * Provider implementations and the factory used by the Archivist
+ */
+
+import { ForgeConfig, ForgeProvider, ForgeType } from './types';
+import { GitHubForge } from './githubForge';
+import { GitLabForge } from './gitlabForge';
+import { GiteaForge } from './giteaForge';
+import { BitbucketForge } from './bitbucketForge';
+
+export { GitHubForge, GITHUB_API_URL } from './githubForge';
+export { GitLabForge, GITLAB_API_URL } from './gitlabForge';
+export { GiteaForge } from './giteaForge';
+export { BitbucketForge, BITBUCKET_API_URL } from './bitbucketForge';
+export { parseRemoteUrl, detectForgeType, defaultApiUrl, resolveForgeConfig, ParsedRemote } from './detect';
+export * from './types';
+
+export const FORGE_TYPES = ['github', 'gitlab', 'gitea', 'bitbucket'] as const;
+
+// How each forge is named in evidence sources and messages
+export const FORGE_NAMES: Record<ForgeType, string> = {
+  github: 'GitHub',
+  gitlab: 'GitLab',
+  gitea: 'Gitea',
+  bitbucket: 'Bitbucket'
+};
+
+/**
+ * Create a forge provider from a resolved configuration
+ */
+export function createForgeProvider(config: ForgeConfig): ForgeProvider {
+  switch (config.type) {
+    case 'github':
+      return new GitHubForge({ token: config.token, baseUrl: config.baseUrl });
+
+    case 'gitlab':
+      return new GitLabForge({ token: config.token, baseUrl: config.baseUrl });
+
+    case 'gitea':
+      if (!config.baseUrl) {
+        throw new Error('Gitea provider requires an API base URL');
+      }
+      return new GiteaForge({ token: config.token, baseUrl: config.baseUrl });
+
+    case 'bitbucket':
+      return new BitbucketForge({ token: config.token, baseUrl: config.baseUrl });
+
+    default:
+      throw new Error(`Unknown forge: ${(config as ForgeConfig).type}`);
+  }
+}
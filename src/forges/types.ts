@@ -0,0 +1,58 @@
+/**
+ * Forge Provider Types
+ * Common interface over code hosting APIs (GitHub, GitLab, Gitea/Forgejo, Bitbucket)
+ */
+
+import { PRData, PRComment, PRReview, IssueData, IssueComment } from '../agents/types';
+
+export type ForgeType = 'github' | 'gitlab' | 'gitea' | 'bitbucket';
+
+/**
+ * User-facing forge settings; anything left unset is inferred from the remote
+ */
+export interface ForgeSettings {
+  type?: ForgeType;
+  baseUrl?: string;   // API base URL, e.g. https://ghe.example.com/api/v3
+  token?: string;
+}
+
+export interface ForgeConfig {
+  type: ForgeType;
+  baseUrl?: string;
+  token?: string;
+}
+
+/**
+ * A repository on a forge, as identified from a git remote
+ */
+export interface RemoteInfo {
+  name: string;       // Remote name, e.g. "origin"
+  url: string;
+  host: string;
+  owner: string;      // User, organization, workspace or (nested) group path
+  repo: string;
+  forge: ForgeType | null;  // Inferred from the host; null when unrecognized
+}
+
+/**
+ * Pull/merge request and issue details without comments or reviews,
+ * which are fetched separately
+ */
+export type PullRequestDetails = Omit<PRData, 'comments' | 'reviews' | 'linkedIssues'>;
+export type IssueDetails = Omit<IssueData, 'comments'>;
+
+export interface ForgeProvider {
+  readonly type: ForgeType;
+
+  /**
+   * Numbers of the pull/merge requests that contain a commit
+   */
+  findPullRequestsByCommit(owner: string, repo: string, commitHash: string): Promise<number[]>;
+
+  getPullRequest(owner: string, repo: string, number: number): Promise<PullRequestDetails>;
+  getPullRequestComments(owner: string, repo: string, number: number): Promise<PRComment[]>;
+  getPullRequestReviews(owner: string, repo: string, number: number): Promise<PRReview[]>;
+
+  getIssue(owner: string, repo: string, number: number): Promise<IssueDetails>;
+  getIssueComments(owner: string, repo: string, number: number): Promise<IssueComment[]>;
+}
@@ -0,0 +1,114 @@
+/**
+ * The Repo Archaeologist - Investigation Cache
+ * Reuses a previous result when the same lines are investigated again.
+ * Entries are keyed on the blamed commit set, so re-blaming any line in the
+ * range to a new commit produces a new key and the old entry is never hit.
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { InvestigationResult } from './agents/types';
+import { reviveDates } from './jsonDates';
+
+export interface CacheKeyParts {
+  filePath: string;
+  snippet: string;
+  commits: string[];        // Commits the selected lines are blamed to
+  model: string;
+  thinkingLevel: string;
+  contextBudget?: number;   // Prompt token budget; a larger one can change the answer
+}
+
+interface CacheEntry {
+  key: string;
+  filePath: string;
+  commits: string[];
+  cachedAt: Date;
+  result: InvestigationResult;
+}
+
+/**
+ * Fingerprint a snippet, ignoring line endings and trailing whitespace
+ */
+export function snippetHash(snippet: string): string {
+  const normalized = snippet
+    .replace(/\r\n/g, '\n')
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .trim();
+  return createHash('sha256').update(normalized).digest('hex');
+}
+
+export function investigationCacheKey(parts: CacheKeyParts): string {
+  return createHash('sha256').update(JSON.stringify({
+    filePath: parts.filePath.replace(/\\/g, '/'),
+    snippet: snippetHash(parts.snippet),
+    commits: [...new Set(parts.commits)].sort(),
+    model: parts.model,
+    thinkingLevel: parts.thinkingLevel,
+    contextBudget: parts.contextBudget
+  })).digest('hex');
+}
+
+export class InvestigationCache {
+  private dir: string;
+
+  /**
+   * @param dir Cache directory, e.g. <repo>/.codedetective/cache
+   */
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  /**
+   * Default per-repo cache under .codedetective/
+   */
+  static forRepo(repoPath: string): InvestigationCache {
+    return new InvestigationCache(path.join(repoPath, '.codedetective', 'cache'));
+  }
+
+  get(parts: CacheKeyParts): InvestigationResult | null {
+    const file = this.entryPath(investigationCacheKey(parts));
+    if (!fs.existsSync(file)) return null;
+
+    try {
+      const entry = JSON.parse(fs.readFileSync(file, 'utf-8'), reviveDates) as CacheEntry;
+      return entry.result;
+    } catch {
+      return null;
+    }
+  }
+
+  set(parts: CacheKeyParts, result: InvestigationResult): void {
+    const key = investigationCacheKey(parts);
+    const entry: CacheEntry = {
+      key,
+      filePath: parts.filePath,
+      commits: parts.commits,
+      cachedAt: new Date(),
+      result
+    };
+
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(this.entryPath(key), JSON.stringify(entry, null, 2));
+  }
+
+  /**
+   * Remove every cached result; returns how many were deleted
+   */
+  clear(): number {
+    if (!fs.existsSync(this.dir)) return 0;
+
+    const files = fs.readdirSync(this.dir).filter(f => f.endsWith('.json'));
+    for (const file of files) {
+      fs.rmSync(path.join(this.dir, file), { force: true });
+    }
+    return files.length;
+  }
+
+  private entryPath(key: string): string {
+    return path.join(this.dir, `${key}.json`);
+  }
+}
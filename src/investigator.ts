@@ -4,6 +4,8 @@
  */
 
 import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
 import {
   LeadDetectiveAgent,
   HistorianAgent,
@@ -15,40 +17,89 @@ import {
   StreamUpdate,
   StreamCallback,
   MarkdownExport,
+  BlameRange,
+  CommitInfo,
+  PRData,
+  IssueData,
   ADRExport,
+  TrackerArchiveAgent,
+  TrackerExportFormat,
+  DEFAULT_CONTEXT_BUDGET,
 } from './agents';
+import { LLMProvider, MeteredProvider, UsageMeter, formatUsage } from './llm';
+import { CaseFileStore } from './caseFileStore';
+import { FORGE_NAMES, ForgeSettings, createForgeProvider, resolveForgeConfig } from './forges';
+import { InvestigationCache, CacheKeyParts } from './investigationCache';
+import { ServiceFailure, formatFailure } from './scheduler';
+import { isCancellation, throwIfCancelled } from './cancellation';
+
+const TRACKER_SOURCE_NAMES: Record<TrackerExportFormat, string> = {
+  github: 'GitHub export',
+  jira: 'Jira export',
+  markdown: 'Markdown tickets'
+};
 
 export interface InvestigatorConfig {
-  geminiApiKey: string;
+  provider: LLMProvider;
   githubToken?: string;
+  forge?: ForgeSettings;       // Forge type/API URL/token; inferred from the git remote when unset
+  trackerExports?: string[];   // Local issue tracker exports (files or directories)
   thinkingLevel?: 'low' | 'medium' | 'high';
+  store?: CaseFileStore;       // Persist completed investigations
+  cache?: InvestigationCache;  // Reuse results for unchanged lines
+  refreshCache?: boolean;      // Ignore cached results but still update the cache
+  maxBlameCommits?: number;    // Top blamed commits to follow into PRs/issues (default 5)
+  contextBudget?: number;      // Prompt token budget for evidence (default DEFAULT_CONTEXT_BUDGET)
   onUpdate?: StreamCallback;
 }
 
 export class Investigator {
   private leadDetective: LeadDetectiveAgent;
   private historian: HistorianAgent | null = null;
-  private archivist: ArchivistAgent;
+  private forgeSettings: ForgeSettings;
+  private githubToken?: string;
+  private trackerExports: string[];
   private onUpdate: StreamCallback | null;
+  private store: CaseFileStore | null;
+  private cache: InvestigationCache | null;
+  private refreshCache: boolean;
+  private model: string;
+  private thinkingLevel: 'low' | 'medium' | 'high';
+  private maxBlameCommits: number;
+  private contextBudget: number;
+  private usage: UsageMeter = new UsageMeter();
   private currentCaseFile: CaseFile | null = null;
 
   constructor(config: InvestigatorConfig) {
-    this.leadDetective = new LeadDetectiveAgent(config.geminiApiKey, {
-      thinkingLevel: config.thinkingLevel || 'high'
+    this.thinkingLevel = config.thinkingLevel || 'high';
+    this.model = config.provider.model;
+    this.contextBudget = config.contextBudget || DEFAULT_CONTEXT_BUDGET;
+    // Per-investigation totals; any budget is enforced by the provider passed in
+    this.leadDetective = new LeadDetectiveAgent(new MeteredProvider(config.provider, this.usage), {
+      thinkingLevel: this.thinkingLevel,
+      contextBudget: this.contextBudget
     });
-    this.archivist = new ArchivistAgent(config.githubToken);
+    this.forgeSettings = config.forge || {};
+    this.githubToken = config.githubToken;
+    this.trackerExports = config.trackerExports || [];
     this.onUpdate = config.onUpdate || null;
+    this.store = config.store || null;
+    this.cache = config.cache || null;
+    this.refreshCache = config.refreshCache || false;
+    this.maxBlameCommits = config.maxBlameCommits || 5;
   }
 
   /**
-   * Main investigation entry point
+   * Main investigation entry point. Aborting the signal stops git and model
+   * calls; the result then holds only the evidence gathered so far.
    */
-  async investigate(codeSelection: CodeSelection): Promise<InvestigationResult> {
+  async investigate(codeSelection: CodeSelection, signal?: AbortSignal): Promise<InvestigationResult> {
     // Initialize historian with repo path
-    this.historian = new HistorianAgent(codeSelection.repoPath);
+    this.historian = new HistorianAgent(codeSelection.repoPath, signal);
 
-    // Reset lead detective's thought chain for new investigation
+    // Reset lead detective's thought chain and usage for new investigation
     this.leadDetective.resetThoughtChain();
+    this.usage.reset();
 
     // Initialize case file
     this.currentCaseFile = {
@@ -65,35 +116,93 @@ export class Investigator {
     try {
       this.emitUpdate('initializing', 'Starting investigation...', 0);
 
-      // Step 1: Git Blame
+      // Step 1: Git Blame (whole range)
       await this.gatherBlameData(codeSelection);
 
+      // Same lines, same blamed commits, same model: reuse the previous result
+      const cacheKey = this.getCacheKey(codeSelection);
+      if (cacheKey && !this.refreshCache) {
+        const cached = this.cache!.get(cacheKey);
+        if (cached) {
+          this.currentCaseFile.status = 'completed';
+          this.currentCaseFile.completedAt = new Date();
+          this.currentCaseFile.confidence = cached.confidence;
+          this.currentCaseFile.thoughtChain = cached.thoughtChain;
+          this.currentCaseFile.usage = this.usage.summary();
+
+          // Nothing was spent this time
+          const result = { ...cached, usage: this.currentCaseFile.usage };
+          this.emitUpdate('completed', 'Loaded cached investigation', 100, undefined, result);
+          return result;
+        }
+      }
+
       // Step 2: Commit Info
+      throwIfCancelled(signal);
       await this.gatherCommitInfo();
 
       // Step 3: PR Search
+      throwIfCancelled(signal);
       await this.gatherPRData(codeSelection);
 
       // Step 4: Issue Data
-      await this.gatherIssueData();
+      throwIfCancelled(signal);
+      await this.gatherIssueData(codeSelection);
+
+      // Step 4b: Tickets from local tracker exports
+      throwIfCancelled(signal);
+      await this.gatherTrackerEvidence(codeSelection);
 
       // Step 5: File History (for context)
+      throwIfCancelled(signal);
       await this.gatherFileHistory(codeSelection);
 
       // Step 6: Synthesize with Lead Detective
+      throwIfCancelled(signal);
       this.emitUpdate('synthesizing', 'Lead Detective analyzing evidence...', 80, 'HIGH');
       
-      const result = await this.leadDetective.investigate(this.currentCaseFile);
+      const result = await this.leadDetective.investigate(this.currentCaseFile, signal);
+      result.usage = this.usage.summary();
+      result.failures = this.currentCaseFile.failures;
 
       this.currentCaseFile.status = 'completed';
+      this.currentCaseFile.usage = result.usage;
       this.currentCaseFile.completedAt = new Date();
       this.currentCaseFile.confidence = result.confidence;
       this.currentCaseFile.thoughtChain = result.thoughtChain;
 
+      if (this.store) {
+        try {
+          this.store.save(this.currentCaseFile, result);
+        } catch (error) {
+          console.warn('Failed to persist case file:', error);
+        }
+      }
+
+      if (cacheKey) {
+        try {
+          this.cache!.set(cacheKey, result);
+        } catch (error) {
+          console.warn('Failed to cache investigation:', error);
+        }
+      }
+
       this.emitUpdate('completed', 'Investigation complete!', 100, 'HIGH', result);
 
       return result;
     } catch (error) {
+      this.currentCaseFile.usage = this.usage.summary();
+
+      // Cancelled runs return what they have; they are neither cached nor saved
+      if (isCancellation(error, signal)) {
+        this.currentCaseFile.status = 'cancelled';
+        const partial = this.leadDetective.partialResult(this.currentCaseFile);
+        partial.usage = this.currentCaseFile.usage;
+        partial.failures = this.currentCaseFile.failures;
+        this.emitUpdate('failed', 'Investigation cancelled', 0, undefined, partial);
+        return partial;
+      }
+
       this.currentCaseFile.status = 'failed';
       this.emitUpdate('failed', `Investigation failed: ${error}`, 0);
       throw error;
@@ -101,7 +210,26 @@ export class Investigator {
   }
 
   /**
-   * Gather git blame data for the selected lines
+   * Build the cache key for a selection; null when caching is off or the
+   * range could not be blamed (e.g. untracked file)
+   */
+  private getCacheKey(codeSelection: CodeSelection): CacheKeyParts | null {
+    const blameRange = this.getBlameRange();
+    if (!this.cache || !blameRange) return null;
+
+    return {
+      filePath: codeSelection.filePath,
+      snippet: codeSelection.text,
+      commits: blameRange.commits.map(c => c.commitHash),
+      model: this.model,
+      thinkingLevel: this.thinkingLevel,
+      contextBudget: this.contextBudget
+    };
+  }
+
+  /**
+   * Gather git blame data for every line of the selection, looking past
+   * formatting commits and file moves to the commits that wrote the logic
    */
   private async gatherBlameData(codeSelection: CodeSelection): Promise<void> {
     if (!this.historian || !this.currentCaseFile) return;
@@ -109,16 +237,13 @@ export class Investigator {
     this.emitUpdate('analyzing_blame', 'Analyzing git blame...', 10);
 
     try {
-      // Get blame for the middle line of selection
-      const targetLine = Math.floor((codeSelection.lineStart + codeSelection.lineEnd) / 2);
-      const blameResponse = await this.historian.getBlame(codeSelection.filePath, targetLine);
-
-      this.currentCaseFile.evidence.push({
-        type: 'blame',
-        data: blameResponse.data,
-        timestamp: new Date(),
-        source: 'git blame'
-      });
+      const blameResponse = await this.historian.walkAncestry(
+        codeSelection.filePath,
+        codeSelection.lineStart,
+        codeSelection.lineEnd
+      );
+
+      this.addEvidence('blame_range', blameResponse.data, 'git blame');
 
       if (blameResponse.thoughtSignature) {
         this.currentCaseFile.thoughtChain.signatures.push(blameResponse.thoughtSignature);
@@ -130,29 +255,35 @@ export class Investigator {
   }
 
   /**
-   * Gather commit information from blame data
+   * Gather commit information for the commits that own the most lines
    */
   private async gatherCommitInfo(): Promise<void> {
     if (!this.historian || !this.currentCaseFile) return;
 
-    this.emitUpdate('fetching_commits', 'Retrieving commit details...', 25);
+    const blameRange = this.getBlameRange();
+    if (!blameRange) return;
+
+    // Uncommitted lines are blamed to the all-zero hash
+    const commits = blameRange.commits
+      .filter(c => !/^0+$/.test(c.commitHash))
+      .slice(0, this.maxBlameCommits);
 
-    const blameEvidence = this.currentCaseFile.evidence.find(e => e.type === 'blame');
-    if (!blameEvidence) return;
+    this.emitUpdate(
+      'fetching_commits',
+      `Retrieving ${commits.length} of ${blameRange.commits.length} blamed commits...`,
+      25
+    );
 
     try {
-      const blame = blameEvidence.data as any;
-      const commitResponse = await this.historian.getCommitInfo(blame.commitHash);
-
-      this.currentCaseFile.evidence.push({
-        type: 'commit',
-        data: commitResponse.data,
-        timestamp: new Date(),
-        source: 'git log'
-      });
+      // One batched git log for all of them
+      const commitsResponse = await this.historian.getCommits(commits.map(c => c.commitHash));
+
+      for (const commit of commitsResponse.data) {
+        this.addEvidence('commit', commit, 'git log');
+      }
 
-      if (commitResponse.thoughtSignature) {
-        this.currentCaseFile.thoughtChain.signatures.push(commitResponse.thoughtSignature);
+      if (commitsResponse.thoughtSignature) {
+        this.currentCaseFile.thoughtChain.signatures.push(commitsResponse.thoughtSignature);
       }
     } catch (error) {
       console.warn('Commit info failed:', error);
@@ -160,86 +291,79 @@ export class Investigator {
   }
 
   /**
-   * Search for related PR
+   * Search for the PR behind each gathered commit
    */
   private async gatherPRData(codeSelection: CodeSelection): Promise<void> {
     if (!this.currentCaseFile) return;
 
-    const blameEvidence = this.currentCaseFile.evidence.find(e => e.type === 'blame');
-    if (!blameEvidence) return;
-
-    // Need repo owner/name for GitHub API
-    let owner = codeSelection.repoOwner;
-    let repo = codeSelection.repoName;
-
-    if (!owner || !repo) {
-      // Try to get from git remote
-      const remoteInfo = await this.historian?.getRemoteInfo();
-      if (remoteInfo) {
-        owner = remoteInfo.owner;
-        repo = remoteInfo.repo;
-      }
-    }
+    const commits = this.currentCaseFile.evidence
+      .filter(e => e.type === 'commit')
+      .map(e => e.data as CommitInfo);
+    if (commits.length === 0) return;
 
-    if (!owner || !repo) {
-      console.warn('Could not determine GitHub repo info, skipping PR lookup');
+    const forgeRepo = await this.resolveForgeRepo(codeSelection);
+    if (!forgeRepo) {
+      console.warn('Could not determine the forge hosting this repo, skipping PR lookup');
       return;
     }
+    const { archivist, owner, repo } = forgeRepo;
 
-    this.emitUpdate('searching_prs', `Searching for PRs in ${owner}/${repo}...`, 45);
+    this.emitUpdate('searching_prs', `Searching for PRs in ${owner}/${repo} (${archivist.forgeType})...`, 45);
 
-    try {
-      const blame = blameEvidence.data as any;
-      const prResponse = await this.archivist.findPRByCommit(owner, repo, blame.commitHash);
-
-      if (prResponse.data) {
-        this.currentCaseFile.evidence.push({
-          type: 'pr',
-          data: prResponse.data,
-          timestamp: new Date(),
-          source: 'GitHub API'
-        });
-      }
+    const seen = new Set<number>();
+    for (const commit of commits) {
+      try {
+        const prResponse = await archivist.findPRByCommit(owner, repo, commit.hash);
+
+        // Several blamed commits often land through the same PR
+        if (prResponse.error) {
+          this.recordFailure(prResponse.error);
+        }
 
-      if (prResponse.thoughtSignature) {
-        this.currentCaseFile.thoughtChain.signatures.push(prResponse.thoughtSignature);
+        if (prResponse.data && !seen.has(prResponse.data.number)) {
+          seen.add(prResponse.data.number);
+          this.addEvidence('pr', prResponse.data, `${FORGE_NAMES[archivist.forgeType]} API`);
+        }
+
+        if (prResponse.thoughtSignature) {
+          this.currentCaseFile.thoughtChain.signatures.push(prResponse.thoughtSignature);
+        }
+      } catch (error) {
+        console.warn('PR lookup failed:', error);
       }
-    } catch (error) {
-      console.warn('PR lookup failed:', error);
     }
   }
 
   /**
-   * Gather linked issue data from PR
+   * Gather linked issue data from the PRs
    */
-  private async gatherIssueData(): Promise<void> {
+  private async gatherIssueData(codeSelection: CodeSelection): Promise<void> {
     if (!this.currentCaseFile) return;
 
-    const prEvidence = this.currentCaseFile.evidence.find(e => e.type === 'pr');
-    if (!prEvidence) return;
+    const prs = this.currentCaseFile.evidence
+      .filter(e => e.type === 'pr')
+      .map(e => e.data as PRData);
 
-    const pr = prEvidence.data as any;
-    if (!pr.linkedIssues || pr.linkedIssues.length === 0) return;
+    // Issue references in a PR body point into the same repo
+    const issueNumbers = [...new Set(prs.flatMap(pr => pr.linkedIssues || []))];
+    if (issueNumbers.length === 0) return;
 
-    this.emitUpdate('reading_issues', `Found ${pr.linkedIssues.length} linked issues...`, 60);
+    const forgeRepo = await this.resolveForgeRepo(codeSelection);
+    if (!forgeRepo) return;
+    const { archivist, owner, repo } = forgeRepo;
 
-    // Get repo info from PR URL
-    const urlMatch = pr.url?.match(/github\.com\/([^/]+)\/([^/]+)/);
-    if (!urlMatch) return;
-
-    const [, owner, repo] = urlMatch;
+    this.emitUpdate('reading_issues', `Found ${issueNumbers.length} linked issues...`, 60);
 
     try {
-      for (const issueNum of pr.linkedIssues.slice(0, 5)) { // Limit to 5 issues
-        const issueResponse = await this.archivist.getIssue(owner, repo, issueNum);
-        
+      for (const number of issueNumbers.slice(0, 5)) { // Limit to 5 issues
+        const issueResponse = await archivist.getIssue(owner, repo, number);
+
+        if (issueResponse.error) {
+          this.recordFailure(issueResponse.error);
+        }
+
         if (issueResponse.data) {
-          this.currentCaseFile.evidence.push({
-            type: 'issue',
-            data: issueResponse.data,
-            timestamp: new Date(),
-            source: 'GitHub API'
-          });
+          this.addEvidence('issue', issueResponse.data, `${FORGE_NAMES[archivist.forgeType]} API`);
         }
       }
     } catch (error) {
@@ -247,6 +371,111 @@ export class Investigator {
     }
   }
 
+  /**
+   * Resolve commit message references (#123, PROJ-456) against local
+   * tracker exports: the configured paths plus .codedetective/tracker/
+   */
+  private async gatherTrackerEvidence(codeSelection: CodeSelection): Promise<void> {
+    if (!this.currentCaseFile) return;
+
+    const exportPaths = [
+      ...this.trackerExports.map(p => path.resolve(codeSelection.repoPath, p)),
+      path.join(codeSelection.repoPath, '.codedetective', 'tracker')
+    ].filter(p => fs.existsSync(p));
+    if (exportPaths.length === 0) return;
+
+    const commits = this.currentCaseFile.evidence
+      .filter(e => e.type === 'commit')
+      .map(e => e.data as CommitInfo);
+    if (commits.length === 0) return;
+
+    this.emitUpdate('reading_issues', 'Checking local tracker exports...', 65);
+
+    const tracker = new TrackerArchiveAgent(exportPaths);
+    const ticketId = (issue: IssueData) => issue.key || `#${issue.number}`;
+    const seen = new Set(
+      this.currentCaseFile.evidence
+        .filter(e => e.type === 'issue')
+        .map(e => ticketId(e.data as IssueData))
+    );
+
+    for (const commit of commits) {
+      try {
+        const response = await tracker.resolveReferences(commit.message);
+
+        // Tickets the forge already returned are not attached twice
+        for (const ticket of response.data) {
+          if (seen.has(ticketId(ticket.issue))) continue;
+          seen.add(ticketId(ticket.issue));
+
+          this.addEvidence(
+            'issue',
+            ticket.issue,
+            `${TRACKER_SOURCE_NAMES[ticket.format]} (${path.basename(ticket.file)})`
+          );
+        }
+
+        if (response.data.length > 0 && response.thoughtSignature) {
+          this.currentCaseFile.thoughtChain.signatures.push(response.thoughtSignature);
+        }
+      } catch (error) {
+        console.warn('Tracker export lookup failed:', error);
+      }
+    }
+  }
+
+  /**
+   * Work out which forge hosts the repo and build an Archivist for it.
+   * An explicit repoOwner/repoName on the selection overrides the remote.
+   */
+  private async resolveForgeRepo(
+    codeSelection: CodeSelection
+  ): Promise<{ archivist: ArchivistAgent; owner: string; repo: string } | null> {
+    const remote = await this.historian?.getRemoteInfo();
+    const owner = codeSelection.repoOwner || remote?.owner;
+    const repo = codeSelection.repoName || remote?.repo;
+    if (!owner || !repo) return null;
+
+    const forgeConfig = remote
+      ? resolveForgeConfig(remote, this.forgeSettings)
+      : this.forgeSettings.type ? { ...this.forgeSettings, type: this.forgeSettings.type } : null;
+    if (!forgeConfig) return null;
+
+    if (forgeConfig.type === 'github' && !forgeConfig.token) {
+      forgeConfig.token = this.githubToken;
+    }
+
+    return { archivist: new ArchivistAgent(createForgeProvider(forgeConfig)), owner, repo };
+  }
+
+  /**
+   * Attach evidence to the case file under the next sequential ID (E1, E2, ...)
+   */
+  private addEvidence(type: Evidence['type'], data: Evidence['data'], source: string): void {
+    if (!this.currentCaseFile) return;
+
+    this.currentCaseFile.evidence.push({
+      id: `E${this.currentCaseFile.evidence.length + 1}`,
+      type,
+      data,
+      timestamp: new Date(),
+      source
+    });
+  }
+
+  /**
+   * Note a forge call that failed, so the result says what evidence is missing
+   */
+  private recordFailure(failure: ServiceFailure): void {
+    if (!this.currentCaseFile) return;
+    this.currentCaseFile.failures = [...(this.currentCaseFile.failures || []), failure];
+  }
+
+  private getBlameRange(): BlameRange | null {
+    const evidence = this.currentCaseFile?.evidence.find(e => e.type === 'blame_range');
+    return evidence ? evidence.data as BlameRange : null;
+  }
+
   /**
    * Gather file history for additional context
    */
@@ -261,12 +490,7 @@ export class Investigator {
         25 // Last 25 commits
       );
 
-      this.currentCaseFile.evidence.push({
-        type: 'file_history',
-        data: historyResponse.data,
-        timestamp: new Date(),
-        source: 'git log --follow'
-      });
+      this.addEvidence('file_history', historyResponse.data, 'git log --follow');
     } catch (error) {
       console.warn('File history failed:', error);
     }
@@ -304,11 +528,49 @@ export class Investigator {
    * Generate Markdown export from investigation result
    */
   generateMarkdownExport(result: InvestigationResult): MarkdownExport {
-    const content = `# Code Archaeology Investigation Report
+    return generateMarkdownExport(result);
+  }
+
+  /**
+   * Generate ADR (Architecture Decision Record) export
+   */
+  generateADRExport(result: InvestigationResult, title: string): ADRExport {
+    const keepRec = result.recommendations.find(r => r.action === 'keep');
+    const status = keepRec ? 'accepted' : 'proposed';
+
+    return {
+      title,
+      status,
+      context: result.summary,
+      decision: result.narrative.substring(0, 1000),
+      consequences: result.recommendations.map(r => 
+        `- ${r.action}: ${r.reason}`
+      ).join('\n')
+    };
+  }
+}
+
+/**
+ * Render an investigation result as a Markdown report
+ * (standalone so stored investigations can be exported without an Investigator)
+ */
+export function generateMarkdownExport(result: InvestigationResult): MarkdownExport {
+  const content = `# Code Archaeology Investigation Report
 
 **Generated:** ${new Date().toISOString()}
 **Confidence:** ${result.confidence}%
+${result.usage ? `**Model Usage:** ${formatUsage(result.usage)}
+` : ''}${result.confidenceBreakdown ? `
+## Confidence Breakdown
+
+Evidence score ${result.confidenceBreakdown.evidenceScore}% weighted ${Math.round(result.confidenceBreakdown.evidenceWeight * 100)}%, model self-assessment ${result.confidenceBreakdown.modelScore}%.
 
+| Factor | Weight | Score | Detail |
+|--------|--------|-------|--------|
+${result.confidenceBreakdown.factors.map(f =>
+  `| ${f.name} | ${Math.round(f.weight * 100)}% | ${Math.round(f.score * 100)}% | ${f.detail} |`
+).join('\n')}
+` : ''}
 ## Summary
 
 ${result.summary}
@@ -316,7 +578,19 @@ ${result.summary}
 ## Investigation Narrative
 
 ${result.narrative}
+${result.contextPacking && result.contextPacking.dropped.length > 0 ? `
+## Evidence Omitted
+
+${result.contextPacking.dropped.length} lower-relevance pieces of evidence (~${result.contextPacking.dropped.reduce((sum, d) => sum + d.tokens, 0)} tokens) did not fit the ${result.contextPacking.budgetTokens}-token context budget:
 
+${result.contextPacking.dropped.map(d => `- [${d.evidenceId}] ${d.kind}: ${d.label} (~${d.tokens} tokens)`).join('\n')}
+` : ''}${result.failures && result.failures.length > 0 ? `
+## Evidence Not Retrieved
+
+These calls failed, so the analysis is missing what they would have returned:
+
+${result.failures.map(f => `- ${formatFailure(f)}`).join('\n')}
+` : ''}
 ## Timeline
 
 | Date | Event | Author | Source |
@@ -328,7 +602,7 @@ ${result.timeline.map(e =>
 ## Sources
 
 ${result.sources.map(s => 
-  `- **${s.type.toUpperCase()}** ${s.url ? `[${s.id}](${s.url})` : s.id}: ${s.description}`
+  `- **${s.type.toUpperCase()}** ${s.url ? `[${s.id}](${s.url})` : s.id}: ${s.description}${s.evidenceId ? ` [${s.evidenceId}]` : ''}`
 ).join('\n')}
 
 ## Recommendations
@@ -342,29 +616,10 @@ ${result.recommendations.map(r =>
 *Generated by The Repo Archaeologist*
 `;
 
-    return {
-      content,
-      filename: `investigation-${Date.now()}.md`
-    };
-  }
-
-  /**
-   * Generate ADR (Architecture Decision Record) export
-   */
-  generateADRExport(result: InvestigationResult, title: string): ADRExport {
-    const keepRec = result.recommendations.find(r => r.action === 'keep');
-    const status = keepRec ? 'accepted' : 'proposed';
-
-    return {
-      title,
-      status,
-      context: result.summary,
-      decision: result.narrative.substring(0, 1000),
-      consequences: result.recommendations.map(r => 
-        `- ${r.action}: ${r.reason}`
-      ).join('\n')
-    };
-  }
+  return {
+    content,
+    filename: `investigation-${Date.now()}.md`
+  };
 }
 
 export default Investigator;
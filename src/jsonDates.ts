@@ -0,0 +1,22 @@
+/**
+ * The Repo Archaeologist - JSON Dates
+ * The on-disk stores write Dates as ISO timestamps; these revivers turn
+ * them back into Date objects when a file is read
+ */
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z$/;
+
+/**
+ * JSON reviver that turns ISO timestamps back into Date objects
+ */
+export function reviveDates(_key: string, value: unknown): unknown {
+  return typeof value === 'string' && ISO_DATE.test(value) ? new Date(value) : value;
+}
+
+/**
+ * A reviver limited to the given keys, for files that also hold arbitrary
+ * text which may happen to look like a date
+ */
+export function reviveDatesAt(...keys: string[]): (key: string, value: unknown) => unknown {
+  return (key, value) => keys.includes(key) ? reviveDates(key, value) : value;
+}
@@ -0,0 +1,65 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CassetteProvider, cassetteKey, normalizePrompt } from '../cassetteProvider';
+import { JsonSchema } from '../schema';
+import { GenerateRequest, LLMProvider } from '../types';
+
+function liveProvider(model: string): LLMProvider & { calls: GenerateRequest[] } {
+  const calls: GenerateRequest[] = [];
+  return {
+    name: 'live',
+    model,
+    calls,
+    async generate(request) {
+      calls.push(request);
+      return { text: `answer ${calls.length}`, model, usage: { promptTokens: 10, thinkingTokens: 0, outputTokens: 2, totalTokens: 12 } };
+    },
+    async *stream() { yield 'streamed'; },
+    async countTokens(text) { return text.length; }
+  };
+}
+
+const SCHEMA: JsonSchema = { type: 'object', properties: { summary: { type: 'string' } }, required: ['summary'] };
+
+describe('CassetteProvider', () => {
+  let dir: string;
+
+  beforeEach(() => { dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cassettes-')); });
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('replays what was recorded without calling a live provider', async () => {
+    const live = liveProvider('model-a');
+    await new CassetteProvider({ mode: 'record', dir }, live).generate({ prompt: 'Why is this here?', responseSchema: SCHEMA });
+
+    const replay = new CassetteProvider({ mode: 'replay', dir, model: 'model-a' });
+    const result = await replay.generate({ prompt: 'Why  is this\r\nhere?', responseSchema: SCHEMA });
+
+    expect(result).toEqual({ text: 'answer 1', model: 'model-a', usage: { promptTokens: 10, thinkingTokens: 0, outputTokens: 2, totalTokens: 12 } });
+    expect(live.calls).toHaveLength(1);
+  });
+
+  it('keeps recordings apart by model and response schema', async () => {
+    const recorder = new CassetteProvider({ mode: 'record', dir }, liveProvider('model-a'));
+    await recorder.generate({ prompt: 'Why?' });
+    await recorder.generate({ prompt: 'Why?', responseSchema: SCHEMA });
+
+    expect(fs.readdirSync(dir)).toHaveLength(2);
+    await expect(new CassetteProvider({ mode: 'replay', dir, model: 'model-a' }).generate({ prompt: 'Why?', responseSchema: SCHEMA }))
+      .resolves.toMatchObject({ text: 'answer 2' });
+    await expect(new CassetteProvider({ mode: 'replay', dir, model: 'model-b' }).generate({ prompt: 'Why?' }))
+      .rejects.toThrow(/No cassette recording for prompt/);
+  });
+
+  it('needs the recording model to replay', () => {
+    expect(() => new CassetteProvider({ mode: 'replay', dir })).toThrow(/requires the model/);
+    expect(() => new CassetteProvider({ mode: 'record', dir })).toThrow(/requires a live provider/);
+  });
+
+  it('folds away whitespace and generated signatures in the key', () => {
+    expect(normalizePrompt('a\r\n  b historian-1700000000000-3')).toBe('a b historian-<signature>');
+    expect(cassetteKey('a  b', 'm')).toBe(cassetteKey('a b', 'm'));
+    expect(cassetteKey('a b', 'm')).not.toBe(cassetteKey('a b', 'n'));
+    expect(cassetteKey('a b', 'm', SCHEMA)).not.toBe(cassetteKey('a b', 'm'));
+  });
+});
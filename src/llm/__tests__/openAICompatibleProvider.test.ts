@@ -0,0 +1,49 @@
+import { reply, startStub, StubServer } from '../../forges/__tests__/stubServer';
+import { OpenAICompatibleProvider } from '../openAICompatibleProvider';
+
+describe('OpenAICompatibleProvider', () => {
+  let stub: StubServer;
+
+  afterEach(() => stub.close());
+
+  it('reads the answer, model and usage from a chat completion', async () => {
+    stub = await startStub({
+      '/v1/chat/completions': {
+        model: 'qwen3-32b',
+        choices: [{ message: { role: 'assistant', content: 'Because of #412' } }],
+        usage: { prompt_tokens: 120, completion_tokens: 900, total_tokens: 1020, completion_tokens_details: { reasoning_tokens: 700 } }
+      }
+    });
+    const provider = new OpenAICompatibleProvider({ baseUrl: `${stub.url}/v1/`, model: 'qwen3', apiKey: 'secret' });
+
+    const result = await provider.generate({ prompt: 'Why?' });
+
+    expect(result).toEqual({
+      text: 'Because of #412',
+      model: 'qwen3-32b',
+      usage: { promptTokens: 120, thinkingTokens: 700, outputTokens: 200, totalTokens: 1020 }
+    });
+    expect(stub.requests[0]).toMatchObject({ method: 'POST', path: '/v1/chat/completions' });
+    expect(stub.requests[0].headers.authorization).toBe('Bearer secret');
+  });
+
+  it('tolerates servers that leave out the model and usage', async () => {
+    stub = await startStub({ '/chat/completions': { choices: [{ message: { content: null } }] } });
+    const provider = new OpenAICompatibleProvider({ baseUrl: stub.url, model: 'local' });
+
+    await expect(provider.generate({ prompt: 'Why?' })).resolves.toEqual({ text: '', model: 'local', usage: undefined });
+  });
+
+  it('throws with the status and headers the scheduler classifies', async () => {
+    stub = await startStub({
+      '/chat/completions': reply(429, { error: 'slow down' }, { 'Retry-After': '3' })
+    });
+    const provider = new OpenAICompatibleProvider({ baseUrl: stub.url, model: 'local' });
+
+    const error = await provider.generate({ prompt: 'Why?' }).catch(e => e);
+
+    expect(error.message).toBe(`${stub.url} returned 429: {"error":"slow down"}`);
+    expect(error.status).toBe(429);
+    expect(error.headers.get('retry-after')).toBe('3');
+  });
+});
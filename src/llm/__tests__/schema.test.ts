@@ -0,0 +1,58 @@
+import { JsonSchema, parseJsonResponse, validateJson } from '../schema';
+
+describe('parseJsonResponse', () => {
+  it('parses plain JSON', () => {
+    expect(parseJsonResponse('{"a": 1}')).toEqual({ a: 1 });
+  });
+
+  it('strips a fence that wraps the whole response', () => {
+    expect(parseJsonResponse('```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+    expect(parseJsonResponse('  ```\n[1, 2]\n```\n')).toEqual([1, 2]);
+  });
+
+  it('keeps fenced code inside string values', () => {
+    const text = JSON.stringify({ summary: 'Use it like this:\n```ts\nretry(3)\n```\nand done' });
+
+    expect(parseJsonResponse(text)).toEqual({ summary: 'Use it like this:\n```ts\nretry(3)\n```\nand done' });
+  });
+
+  it('keeps fenced code inside a fenced response', () => {
+    const inner = JSON.stringify({ summary: 'See:\n```\nx = 1\n```' }, null, 2);
+
+    expect(parseJsonResponse(`\`\`\`json\n${inner}\n\`\`\``)).toEqual({ summary: 'See:\n```\nx = 1\n```' });
+  });
+
+  it('throws on text that is not JSON', () => {
+    expect(() => parseJsonResponse('Here is the answer: {"a": 1}')).toThrow(SyntaxError);
+  });
+});
+
+describe('validateJson', () => {
+  const schema: JsonSchema = {
+    type: 'object',
+    properties: {
+      confidence: { type: 'integer', minimum: 0, maximum: 100 },
+      tags: { type: 'array', items: { type: 'string', enum: ['a', 'b'] } }
+    },
+    required: ['confidence']
+  };
+
+  it('accepts a matching value', () => {
+    expect(validateJson({ confidence: 80, tags: ['a'] }, schema)).toEqual([]);
+  });
+
+  it('reports each mismatch with its path', () => {
+    expect(validateJson({ confidence: 101, tags: ['a', 'c'] }, schema)).toEqual([
+      '$.confidence: must be <= 100',
+      '$.tags[1]: expected one of a, b'
+    ]);
+    expect(validateJson({}, schema)).toEqual(['$.confidence: required']);
+  });
+
+  it('enforces minItems on arrays', () => {
+    const cited: JsonSchema = { type: 'array', items: { type: 'string' }, minItems: 1 };
+
+    expect(validateJson(['ev-1'], cited)).toEqual([]);
+    expect(validateJson([], cited)).toEqual(['$: expected at least 1 item']);
+  });
+});
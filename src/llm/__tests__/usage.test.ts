@@ -0,0 +1,63 @@
+import { BudgetExceededError } from '../errors';
+import { LLMProvider, GenerateRequest } from '../types';
+import { MeteredProvider, UsageMeter, estimateCost, formatUsage } from '../usage';
+
+function fakeProvider(): LLMProvider & { calls: GenerateRequest[] } {
+  const calls: GenerateRequest[] = [];
+  return {
+    name: 'fake',
+    model: 'gemini-3-pro-preview',
+    calls,
+    async generate(request) {
+      calls.push(request);
+      return {
+        text: 'ok',
+        model: 'gemini-3-pro-preview',
+        usage: { promptTokens: 100, thinkingTokens: 3000, outputTokens: 400, totalTokens: 3500 }
+      };
+    },
+    async *stream() { yield 'ok'; },
+    async countTokens(text) { return text.length; }
+  };
+}
+
+describe('MeteredProvider', () => {
+  it('records reported usage and cost', async () => {
+    const meter = new UsageMeter();
+    await new MeteredProvider(fakeProvider(), meter).generate({ prompt: 'why?' });
+
+    const summary = meter.summary();
+    expect(summary).toMatchObject({ calls: 1, promptTokens: 100, thinkingTokens: 3000, outputTokens: 400, totalTokens: 3500 });
+    expect(summary.costUsd).toBeCloseTo(estimateCost('gemini-3-pro-preview', { promptTokens: 100, thinkingTokens: 3000, outputTokens: 400, totalTokens: 3500 })!);
+    expect(formatUsage(summary)).toBe('3,500 tokens over 1 call (prompt 100, thinking 3,000, output 400) · ~$0.0410');
+  });
+
+  it('reserves the thinking budget and output cap before calling', async () => {
+    const inner = fakeProvider();
+    const provider = new MeteredProvider(inner, new UsageMeter({ maxTokens: 10_000 }));
+
+    // A 25-token prompt fits, but not with 8,192 thinking and 2,000 output tokens
+    const error = await provider.generate({ prompt: 'x'.repeat(100), thinkingBudget: 8192, maxOutputTokens: 2000 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(BudgetExceededError);
+    expect(error.requestedTokens).toBe(25 + 8192 + 2000);
+    expect(error.message).toBe('Token budget exceeded: 0 of 10,000 tokens used, the next call could use up to 10,217');
+    expect(inner.calls).toHaveLength(0);
+  });
+
+  it('reserves a default output allowance when the call sets no cap', async () => {
+    const provider = new MeteredProvider(fakeProvider(), new UsageMeter({ maxTokens: 2_000 }));
+
+    await expect(provider.generate({ prompt: 'short' })).rejects.toThrow(BudgetExceededError);
+  });
+
+  it('stops once earlier calls used up the budget', async () => {
+    const provider = new MeteredProvider(fakeProvider(), new UsageMeter({ maxTokens: 8_000 }));
+
+    await provider.generate({ prompt: 'first', maxOutputTokens: 500 });
+    await expect(provider.generate({ prompt: 'second', maxOutputTokens: 500, thinkingBudget: 1024 }))
+      .resolves.toMatchObject({ text: 'ok' });
+    await expect(provider.generate({ prompt: 'third', maxOutputTokens: 500, thinkingBudget: 1024 }))
+      .rejects.toThrow('Token budget exceeded: 7,000 of 8,000 tokens used');
+  });
+});
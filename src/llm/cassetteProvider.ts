@@ -0,0 +1,150 @@
+/**
+ * Cassette Provider - Record/Replay for LLM calls
+ * Records prompt → response pairs to a fixtures directory and replays them
+ * without network access, for offline demos and deterministic tests
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { JsonSchema } from './schema';
+import { LLMProvider, GenerateRequest, GenerateResult, TokenUsage } from './types';
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface CassetteConfig {
+  mode: CassetteMode;
+  dir: string;
+  model?: string;  // Model the recordings were made with; required for replay, taken from the live provider when recording
+}
+
+interface CassetteEntry {
+  key: string;
+  model: string;
+  recordedAt: string;
+  prompt: string;
+  response: {
+    text: string;
+    thoughtSignature?: string;
+    usage?: TokenUsage; // What the recorded call cost; replays report it again
+  };
+}
+
+/**
+ * Normalize a prompt so that cosmetic differences do not change its key:
+ * line endings, whitespace runs and locally generated thought signatures
+ * (which embed Date.now()) are all folded away
+ */
+export function normalizePrompt(prompt: string): string {
+  return prompt
+    .replace(/\r\n/g, '\n')
+    .replace(/\b(historian|archivist|lead-detective)-\d+-\d+\b/g, '$1-<signature>')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * The same prompt sent to another model, or asking for another response
+ * schema, is a different recording
+ */
+export function cassetteKey(prompt: string, model: string, schema?: JsonSchema): string {
+  return createHash('sha256')
+    .update(JSON.stringify([model, schema ?? null, normalizePrompt(prompt)]))
+    .digest('hex');
+}
+
+export class CassetteProvider implements LLMProvider {
+  readonly name = 'cassette';
+  readonly model: string;
+  private mode: CassetteMode;
+  private dir: string;
+  private inner: LLMProvider | null;
+
+  /**
+   * @param inner Provider to record from; not needed (and never called) in replay mode
+   */
+  constructor(config: CassetteConfig, inner: LLMProvider | null = null) {
+    if (config.mode === 'record' && !inner) {
+      throw new Error('Cassette record mode requires a live provider to record from');
+    }
+    const model = inner?.model || config.model;
+    if (!model) {
+      throw new Error('Cassette replay mode requires the model the recordings were made with');
+    }
+
+    this.mode = config.mode;
+    this.dir = config.dir;
+    this.inner = inner;
+    this.model = model;
+  }
+
+  async generate(request: GenerateRequest): Promise<GenerateResult> {
+    if (this.mode === 'replay') {
+      const entry = this.load(request);
+      return {
+        text: entry.response.text,
+        model: entry.model,
+        thoughtSignature: entry.response.thoughtSignature,
+        usage: entry.response.usage
+      };
+    }
+
+    const result = await this.inner!.generate(request);
+    this.save(request, result);
+    return result;
+  }
+
+  async *stream(request: GenerateRequest): AsyncIterable<string> {
+    if (this.mode === 'replay') {
+      yield this.load(request).response.text;
+      return;
+    }
+
+    let text = '';
+    for await (const chunk of this.inner!.stream(request)) {
+      text += chunk;
+      yield chunk;
+    }
+    this.save(request, { text, model: this.model });
+  }
+
+  async countTokens(text: string): Promise<number> {
+    if (this.mode === 'replay') {
+      return Math.ceil(text.length / 4);
+    }
+    return this.inner!.countTokens(text);
+  }
+
+  private fixturePath(key: string): string {
+    return path.join(this.dir, `${key}.json`);
+  }
+
+  private load(request: GenerateRequest): CassetteEntry {
+    const key = cassetteKey(request.prompt, this.model, request.responseSchema);
+    const file = this.fixturePath(key);
+
+    if (!fs.existsSync(file)) {
+      throw new Error(`No cassette recording for prompt ${key.substring(0, 12)} in ${this.dir}`);
+    }
+
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as CassetteEntry;
+  }
+
+  private save(request: GenerateRequest, result: GenerateResult): void {
+    const key = cassetteKey(request.prompt, this.model, request.responseSchema);
+    const entry: CassetteEntry = {
+      key,
+      model: result.model,
+      recordedAt: new Date().toISOString(),
+      prompt: request.prompt,
+      response: {
+        text: result.text,
+        thoughtSignature: result.thoughtSignature,
+        usage: result.usage
+      }
+    };
+
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(this.fixturePath(key), JSON.stringify(entry, null, 2));
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * LLM Errors
+ * Errors callers need to tell apart from ordinary provider failures
+ */
+
+/**
+ * Thrown before a model call that would take a run past its token budget.
+ * Runs catch it to stop early and report what they have so far.
+ */
+export class BudgetExceededError extends Error {
+  readonly usedTokens: number;
+  readonly maxTokens: number;
+  readonly requestedTokens?: number; // What the refused call could have spent
+
+  constructor(usedTokens: number, maxTokens: number, requestedTokens?: number) {
+    const n = (value: number) => value.toLocaleString('en-US');
+    super(`Token budget exceeded: ${n(usedTokens)} of ${n(maxTokens)} tokens used${
+      requestedTokens !== undefined ? `, the next call could use up to ${n(requestedTokens)}` : ''}`);
+    this.name = 'BudgetExceededError';
+    this.usedTokens = usedTokens;
+    this.maxTokens = maxTokens;
+    this.requestedTokens = requestedTokens;
+  }
+}
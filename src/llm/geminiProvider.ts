@@ -0,0 +1,95 @@
+/**
+ * Gemini Provider
+ * LLMProvider backed by the Google GenAI SDK
+ */
+
+import { GoogleGenAI, GenerateContentResponse } from '@google/genai';
+import { LLMProvider, GenerateRequest, GenerateResult, TokenUsage } from './types';
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-3-flash-preview';
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini';
+  readonly model: string;
+  private genai: GoogleGenAI;
+
+  constructor(options: { apiKey: string; model?: string }) {
+    this.genai = new GoogleGenAI({ apiKey: options.apiKey });
+    this.model = options.model || DEFAULT_GEMINI_MODEL;
+  }
+
+  async generate(request: GenerateRequest): Promise<GenerateResult> {
+    const response = await this.genai.models.generateContent({
+      model: this.model,
+      contents: request.prompt,
+      config: this.buildConfig(request)
+    });
+
+    return {
+      text: response.text || '',
+      model: this.model,
+      thoughtSignature: this.extractThoughtSignature(response),
+      usage: this.extractUsage(response)
+    };
+  }
+
+  async *stream(request: GenerateRequest): AsyncIterable<string> {
+    const stream = await this.genai.models.generateContentStream({
+      model: this.model,
+      contents: request.prompt,
+      config: this.buildConfig(request)
+    });
+
+    for await (const chunk of stream) {
+      if (chunk.text) {
+        yield chunk.text;
+      }
+    }
+  }
+
+  async countTokens(text: string): Promise<number> {
+    const response = await this.genai.models.countTokens({
+      model: this.model,
+      contents: text
+    });
+    return response.totalTokens || 0;
+  }
+
+  private buildConfig(request: GenerateRequest) {
+    return {
+      temperature: request.temperature,
+      maxOutputTokens: request.maxOutputTokens,
+      abortSignal: request.signal,
+      ...(request.responseSchema && {
+        responseMimeType: 'application/json',
+        responseJsonSchema: request.responseSchema
+      }),
+      ...(request.thinkingBudget !== undefined && {
+        thinkingConfig: { thinkingBudget: request.thinkingBudget }
+      })
+    };
+  }
+
+  private extractUsage(response: GenerateContentResponse): TokenUsage | undefined {
+    const metadata = response.usageMetadata;
+    if (!metadata) return undefined;
+
+    const promptTokens = metadata.promptTokenCount || 0;
+    const thinkingTokens = metadata.thoughtsTokenCount || 0;
+    const outputTokens = metadata.candidatesTokenCount || 0;
+    return {
+      promptTokens,
+      thinkingTokens,
+      outputTokens,
+      totalTokens: metadata.totalTokenCount || promptTokens + thinkingTokens + outputTokens
+    };
+  }
+
+  /**
+   * Gemini 3 attaches thought signatures to response parts
+   */
+  private extractThoughtSignature(response: GenerateContentResponse): string | undefined {
+    const parts = response.candidates?.[0]?.content?.parts || [];
+    return parts.find(p => p.thoughtSignature)?.thoughtSignature;
+  }
+}
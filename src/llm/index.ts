@@ -0,0 +1,49 @@
+/**
+ * LLM Provider Exports
+ * Provider implementations and the factory used by the CLI and extension
+ */
+
+import { LLMProvider, LLMProviderConfig } from './types';
+import { GeminiProvider } from './geminiProvider';
+import { OpenAICompatibleProvider } from './openAICompatibleProvider';
+import { ScheduledProvider } from './scheduledProvider';
+
+export { GeminiProvider, DEFAULT_GEMINI_MODEL } from './geminiProvider';
+export { OpenAICompatibleProvider } from './openAICompatibleProvider';
+export { CassetteProvider, CassetteConfig, CassetteMode, normalizePrompt, cassetteKey } from './cassetteProvider';
+export { JsonSchema, validateJson, parseJsonResponse } from './schema';
+export { UsageMeter, UsageSummary, MeteredProvider, estimateCost, formatUsage } from './usage';
+export { ScheduledProvider } from './scheduledProvider';
+export { BudgetExceededError } from './errors';
+export * from './types';
+
+/**
+ * Create a provider from user configuration; its calls go through the
+ * shared request scheduler
+ */
+export function createLLMProvider(config: LLMProviderConfig): LLMProvider {
+  return new ScheduledProvider(createBaseProvider(config));
+}
+
+function createBaseProvider(config: LLMProviderConfig): LLMProvider {
+  switch (config.type) {
+    case 'gemini':
+      if (!config.apiKey) {
+        throw new Error('Gemini provider requires an API key');
+      }
+      return new GeminiProvider({ apiKey: config.apiKey, model: config.model });
+
+    case 'openai-compatible':
+      if (!config.baseUrl || !config.model) {
+        throw new Error('OpenAI-compatible provider requires a base URL and a model name');
+      }
+      return new OpenAICompatibleProvider({
+        baseUrl: config.baseUrl,
+        model: config.model,
+        apiKey: config.apiKey
+      });
+
+    default:
+      throw new Error(`Unknown LLM provider: ${(config as LLMProviderConfig).type}`);
+  }
+}
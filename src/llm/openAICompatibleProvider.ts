@@ -0,0 +1,142 @@
+/**
+ * OpenAI-Compatible Provider
+ * LLMProvider for any server speaking the /chat/completions protocol
+ * (vLLM, Ollama, LM Studio, llama.cpp server, Azure/OpenAI proxies, ...)
+ */
+
+import { LLMProvider, GenerateRequest, GenerateResult, TokenUsage } from './types';
+
+// The parts of the /chat/completions response we read; servers differ in
+// what else they send and some leave out usage entirely
+interface ChatCompletion {
+  model?: string;
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: ChatUsage;
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{ delta?: { content?: string | null } }>;
+}
+
+interface ChatUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  completion_tokens_details?: { reasoning_tokens?: number };  // Reasoning models only
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai-compatible';
+  readonly model: string;
+  private baseUrl: string;
+  private apiKey?: string;
+
+  constructor(options: { baseUrl: string; model: string; apiKey?: string }) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.model = options.model;
+    this.apiKey = options.apiKey;
+  }
+
+  async generate(request: GenerateRequest): Promise<GenerateResult> {
+    const response = await this.post(request, false);
+    const body: ChatCompletion | null = await response.json();
+
+    return {
+      text: body?.choices?.[0]?.message?.content || '',
+      model: body?.model || this.model,
+      usage: this.parseUsage(body?.usage)
+    };
+  }
+
+  async *stream(request: GenerateRequest): AsyncIterable<string> {
+    const response = await this.post(request, true);
+    if (!response.body) return;
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    // Server-sent events: "data: {...}\n\n", terminated by "data: [DONE]"
+    for await (const bytes of response.body as unknown as AsyncIterable<Uint8Array>) {
+      buffer += decoder.decode(bytes, { stream: true });
+
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) >= 0) {
+        const line = buffer.substring(0, newline).trim();
+        buffer = buffer.substring(newline + 1);
+
+        if (!line.startsWith('data:')) continue;
+        const payload = line.substring(5).trim();
+        if (payload === '[DONE]') return;
+
+        try {
+          const chunk: ChatCompletionChunk | null = JSON.parse(payload);
+          const delta = chunk?.choices?.[0]?.delta?.content;
+          if (delta) yield delta;
+        } catch {
+          // Ignore keep-alive or malformed chunks
+        }
+      }
+    }
+  }
+
+  /**
+   * Reasoning models count their reasoning inside completion_tokens
+   */
+  private parseUsage(usage: ChatUsage | undefined): TokenUsage | undefined {
+    if (!usage) return undefined;
+
+    const promptTokens = usage.prompt_tokens || 0;
+    const thinkingTokens = usage.completion_tokens_details?.reasoning_tokens || 0;
+    const outputTokens = Math.max(0, (usage.completion_tokens || 0) - thinkingTokens);
+    return {
+      promptTokens,
+      thinkingTokens,
+      outputTokens,
+      totalTokens: usage.total_tokens || promptTokens + thinkingTokens + outputTokens
+    };
+  }
+
+  /**
+   * The chat completions protocol has no token counting endpoint,
+   * so estimate with the usual ~4 characters per token heuristic
+   */
+  async countTokens(text: string): Promise<number> {
+    return Math.ceil(text.length / 4);
+  }
+
+  private async post(request: GenerateRequest, stream: boolean): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      signal: request.signal,
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'user', content: request.prompt }],
+        temperature: request.temperature,
+        max_tokens: request.maxOutputTokens,
+        ...(request.responseSchema && {
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: 'response', schema: request.responseSchema }
+          }
+        }),
+        stream
+      })
+    });
+
+    if (!response.ok) {
+      // status and headers are what the scheduler reads to classify and back off
+      throw Object.assign(
+        new Error(`${this.baseUrl} returned ${response.status}: ${await response.text()}`),
+        { status: response.status, headers: response.headers }
+      );
+    }
+
+    return response;
+  }
+}
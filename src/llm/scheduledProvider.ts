@@ -0,0 +1,60 @@
+/**
+ * Scheduled Provider
+ * Routes a provider's calls through the request scheduler so every agent
+ * shares one concurrency cap, rate limit, backoff and circuit breaker
+ */
+
+import { LLMProvider, GenerateRequest, GenerateResult } from './types';
+import { RequestScheduler, getScheduler } from '../scheduler';
+
+export class ScheduledProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  private inner: LLMProvider;
+  private scheduler: RequestScheduler | null;
+
+  /**
+   * Without an explicit scheduler the shared one is looked up per call,
+   * so reconfiguring it applies to providers that already exist
+   */
+  constructor(inner: LLMProvider, scheduler?: RequestScheduler) {
+    this.inner = inner;
+    this.scheduler = scheduler || null;
+    this.name = inner.name;
+    this.model = inner.model;
+  }
+
+  private get service(): string {
+    return `model:${this.name}`;
+  }
+
+  generate(request: GenerateRequest): Promise<GenerateResult> {
+    return this.getScheduler().run(this.service, () => this.inner.generate(request), request.signal);
+  }
+
+  /**
+   * Only opening the stream is scheduled and retried; once chunks have
+   * been yielded a failure cannot be replayed
+   */
+  async *stream(request: GenerateRequest): AsyncIterable<string> {
+    let iterator!: AsyncIterator<string>;
+    const first = await this.getScheduler().run(this.service, () => {
+      iterator = this.inner.stream(request)[Symbol.asyncIterator]();
+      return iterator.next();
+    }, request.signal);
+    if (first.done) return;
+    yield first.value;
+
+    for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+      yield next.value;
+    }
+  }
+
+  countTokens(text: string): Promise<number> {
+    return this.getScheduler().run(this.service, () => this.inner.countTokens(text));
+  }
+
+  private getScheduler(): RequestScheduler {
+    return this.scheduler || getScheduler();
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * JSON Schema Support
+ * The subset of JSON Schema used for structured model output, plus a
+ * validator so responses are checked the same way whichever provider ran
+ */
+
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  minItems?: number;
+  enum?: string[];
+  minimum?: number;
+  maximum?: number;
+}
+
+/**
+ * Validate a parsed value against a schema.
+ * Returns human-readable errors with JSON paths; empty when valid.
+ */
+export function validateJson(value: unknown, schema: JsonSchema, at: string = '$'): string[] {
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${at}: expected object`];
+      }
+      const obj = value as Record<string, unknown>;
+      const errors: string[] = [];
+      for (const key of schema.required || []) {
+        if (obj[key] === undefined) errors.push(`${at}.${key}: required`);
+      }
+      for (const [key, propSchema] of Object.entries(schema.properties || {})) {
+        if (obj[key] !== undefined) errors.push(...validateJson(obj[key], propSchema, `${at}.${key}`));
+      }
+      return errors;
+    }
+
+    case 'array':
+      if (!Array.isArray(value)) return [`${at}: expected array`];
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        return [`${at}: expected at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}`];
+      }
+      return schema.items
+        ? value.flatMap((item, i) => validateJson(item, schema.items!, `${at}[${i}]`))
+        : [];
+
+    case 'string':
+      if (typeof value !== 'string') return [`${at}: expected string`];
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [`${at}: expected one of ${schema.enum.join(', ')}`];
+      }
+      return [];
+
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || isNaN(value)) return [`${at}: expected ${schema.type}`];
+      if (schema.type === 'integer' && !Number.isInteger(value)) return [`${at}: expected integer`];
+      if (schema.minimum !== undefined && value < schema.minimum) return [`${at}: must be >= ${schema.minimum}`];
+      if (schema.maximum !== undefined && value > schema.maximum) return [`${at}: must be <= ${schema.maximum}`];
+      return [];
+
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${at}: expected boolean`];
+  }
+}
+
+/**
+ * Parse model output as JSON, tolerating a markdown code fence around it
+ * (models without native schema support often add one). Only a fence that
+ * wraps the whole response is stripped: string values may contain fenced
+ * code of their own.
+ */
+export function parseJsonResponse(text: string): unknown {
+  const fenced = text.match(/^\s*```(?:json)?\s*\n([\s\S]*)\n```\s*$/);
+  return JSON.parse((fenced ? fenced[1] : text).trim());
+}
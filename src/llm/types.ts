@@ -0,0 +1,61 @@
+/**
+ * LLM Provider - Type Definitions
+ * Vendor-neutral contract every agent uses to talk to a model
+ */
+
+import { JsonSchema } from './schema';
+
+// ============================================
+// Requests & Responses
+// ============================================
+
+export interface GenerateRequest {
+  prompt: string;
+  temperature?: number;
+  thinkingBudget?: number;   // Ignored by providers without a thinking mode
+  maxOutputTokens?: number;
+  responseSchema?: JsonSchema; // Ask for JSON output matching this schema
+  signal?: AbortSignal;        // Aborts the in-flight request
+}
+
+export interface GenerateResult {
+  text: string;
+  model: string;
+  thoughtSignature?: string; // Gemini 3 thought signature, when the provider exposes one
+  usage?: TokenUsage;        // As reported by the backend; absent when it does not say
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  thinkingTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+// ============================================
+// Provider Interface
+// ============================================
+
+export interface LLMProvider {
+  /** Short provider id, e.g. "gemini" or "openai-compatible" */
+  readonly name: string;
+  /** Model used for every call made through this provider */
+  readonly model: string;
+
+  generate(request: GenerateRequest): Promise<GenerateResult>;
+  stream(request: GenerateRequest): AsyncIterable<string>;
+  countTokens(text: string): Promise<number>;
+}
+
+// ============================================
+// Provider Configuration
+// ============================================
+
+export type LLMProviderType = 'gemini' | 'openai-compatible';
+
+export interface LLMProviderConfig {
+  type: LLMProviderType;
+  apiKey?: string;
+  model?: string;
+  baseUrl?: string;          // Required for openai-compatible (e.g. http://localhost:11434/v1)
+}
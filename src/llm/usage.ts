@@ -0,0 +1,191 @@
+/**
+ * Token Usage & Cost Accounting
+ * Meters every model call made through a provider, estimates cost from
+ * published prices, and enforces a hard per-run token budget
+ */
+
+import { LLMProvider, GenerateRequest, GenerateResult, TokenUsage } from './types';
+import { BudgetExceededError } from './errors';
+
+// USD per million tokens; thinking tokens are billed as output
+interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// Output assumed for a call that sets no maxOutputTokens: room for a
+// structured answer, which is what most of our calls ask for
+const DEFAULT_OUTPUT_RESERVE = 2048;
+
+// Matched by longest model-name prefix
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-3-pro': { input: 2.00, output: 12.00 },
+  'gemini-3-flash': { input: 0.50, output: 3.00 },
+  'gemini-2.5-pro': { input: 1.25, output: 10.00 },
+  'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+  'gemini-2.5-flash-lite': { input: 0.10, output: 0.40 },
+};
+
+export interface UsageSummary {
+  calls: number;
+  promptTokens: number;
+  thinkingTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd?: number;     // Undefined when no call used a model with a known price
+  estimated: boolean;   // Some calls had no provider-reported usage and were estimated
+}
+
+export function priceFor(model: string): ModelPrice | null {
+  const prefix = Object.keys(MODEL_PRICES)
+    .filter(p => model.startsWith(p))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? MODEL_PRICES[prefix] : null;
+}
+
+export function estimateCost(model: string, usage: TokenUsage): number | null {
+  const price = priceFor(model);
+  if (!price) return null;
+  return (usage.promptTokens * price.input + (usage.thinkingTokens + usage.outputTokens) * price.output) / 1_000_000;
+}
+
+/**
+ * One-line usage description for CLI output and reports
+ */
+export function formatUsage(summary: UsageSummary): string {
+  const n = (value: number) => value.toLocaleString('en-US');
+  const cost = summary.costUsd !== undefined ? ` · ~$${summary.costUsd.toFixed(4)}` : '';
+  return `${n(summary.totalTokens)}${summary.estimated ? ' (estimated)' : ''} tokens over ${summary.calls} call${summary.calls === 1 ? '' : 's'} ` +
+    `(prompt ${n(summary.promptTokens)}, thinking ${n(summary.thinkingTokens)}, output ${n(summary.outputTokens)})${cost}`;
+}
+
+/**
+ * Running token and cost totals for one run (an investigation, deep dive,
+ * conflict resolution or watch session)
+ */
+export class UsageMeter {
+  private maxTokens?: number;
+  private totals: UsageSummary = emptySummary();
+
+  constructor(options: { maxTokens?: number } = {}) {
+    this.maxTokens = options.maxTokens;
+  }
+
+  /**
+   * Refuse a call that could take the run past its budget
+   * @param reservedTokens The most the call can spend: prompt, thinking and output
+   */
+  check(reservedTokens: number): void {
+    if (this.maxTokens && this.totals.totalTokens + reservedTokens > this.maxTokens) {
+      throw new BudgetExceededError(this.totals.totalTokens, this.maxTokens, reservedTokens);
+    }
+  }
+
+  record(model: string, usage: TokenUsage, estimated: boolean = false): void {
+    this.totals.calls++;
+    this.totals.promptTokens += usage.promptTokens;
+    this.totals.thinkingTokens += usage.thinkingTokens;
+    this.totals.outputTokens += usage.outputTokens;
+    this.totals.totalTokens += usage.totalTokens;
+    this.totals.estimated = this.totals.estimated || estimated;
+
+    const cost = estimateCost(model, usage);
+    if (cost !== null) {
+      this.totals.costUsd = (this.totals.costUsd || 0) + cost;
+    }
+  }
+
+  summary(): UsageSummary {
+    return { ...this.totals };
+  }
+
+  reset(): void {
+    this.totals = emptySummary();
+  }
+
+  /**
+   * Continue from earlier totals, e.g. those of a resumed run
+   */
+  restore(totals: UsageSummary): void {
+    this.totals = { ...totals };
+  }
+}
+
+/**
+ * Provider decorator that records usage on a meter and enforces its budget.
+ * Metered providers nest, so a run can keep its own totals while the
+ * session-wide meter underneath still enforces the budget.
+ */
+export class MeteredProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly meter: UsageMeter;
+  private inner: LLMProvider;
+
+  constructor(inner: LLMProvider, meter: UsageMeter) {
+    this.inner = inner;
+    this.meter = meter;
+    this.name = inner.name;
+    this.model = inner.model;
+  }
+
+  async generate(request: GenerateRequest): Promise<GenerateResult> {
+    this.meter.check(reservedTokens(request));
+
+    const result = await this.inner.generate(request);
+    if (result.usage) {
+      this.meter.record(result.model, result.usage);
+    } else {
+      this.meter.record(result.model, estimateUsage(request.prompt, result.text), true);
+    }
+    return result;
+  }
+
+  async *stream(request: GenerateRequest): AsyncIterable<string> {
+    this.meter.check(reservedTokens(request));
+
+    // Streams only carry text, so usage is estimated from it
+    let text = '';
+    try {
+      for await (const chunk of this.inner.stream(request)) {
+        text += chunk;
+        yield chunk;
+      }
+    } finally {
+      this.meter.record(this.model, estimateUsage(request.prompt, text), true);
+    }
+  }
+
+  countTokens(text: string): Promise<number> {
+    return this.inner.countTokens(text);
+  }
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * The most a call can spend: its prompt, its thinking budget and its
+ * output cap (or a default reserve when it sets none)
+ */
+function reservedTokens(request: GenerateRequest): number {
+  return estimateTokens(request.prompt) + (request.thinkingBudget || 0) + (request.maxOutputTokens ?? DEFAULT_OUTPUT_RESERVE);
+}
+
+function estimateUsage(prompt: string, output: string): TokenUsage {
+  const promptTokens = estimateTokens(prompt);
+  const outputTokens = estimateTokens(output);
+  return { promptTokens, thinkingTokens: 0, outputTokens, totalTokens: promptTokens + outputTokens };
+}
+
+function emptySummary(): UsageSummary {
+  return {
+    calls: 0,
+    promptTokens: 0,
+    thinkingTokens: 0,
+    outputTokens: 0,
+    totalTokens: 0,
+    estimated: false
+  };
+}
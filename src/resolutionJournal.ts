@@ -0,0 +1,209 @@
+/**
+ * The Repo Archaeologist - Resolution Journal
+ * Records every file the conflict resolver writes - the original marker
+ * blocks, what replaced them and the file exactly as it was - under
+ * .git/codedetective/ so an AI merge can be undone without redoing the merge
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import simpleGit from 'simple-git';
+import { ConflictResolution } from './agents/conflictResolver';
+import { reviveDatesAt } from './jsonDates';
+
+export interface JournalBlock {
+  startLine: number;          // Opening marker, 1-based, in the original file
+  endLine: number;            // Closing marker
+  markers: string;            // The conflict block as it was, markers included
+  resolution: string;         // What replaced it
+  strategy: ConflictResolution['strategy'];
+  confidence: number;
+  deterministic?: boolean;
+}
+
+export interface JournalEntry {
+  file: string;               // Repo-relative path
+  appliedAt: Date;
+  original: string;           // Whole file before the resolutions were written
+  applied: string;            // Whole file right after, to notice later edits
+  blocks: JournalBlock[];
+  head?: string;              // HEAD when applied; once it moves the operation has gone on and undo refuses
+  index?: string;             // The file's conflict stages (`git ls-files -s`), put back if it was staged since
+}
+
+export interface UndoResult {
+  file: string;
+  restored: boolean;
+  appliedAt?: Date;
+  blocks: number;
+  reason?: string;            // Why nothing was restored
+  edited?: boolean;           // Refused only because the file changed since; forcing restores it
+}
+
+// File content is left alone even when it happens to look like a date
+const reviveAppliedAt = reviveDatesAt('appliedAt');
+
+export class ResolutionJournal {
+  private dir: string;
+
+  /**
+   * @param dir Journal directory, e.g. <repo>/.git/codedetective/resolutions
+   */
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  /**
+   * Default per-repo journal inside the git directory, so it is never
+   * committed and follows linked worktrees
+   */
+  static forRepo(repoPath: string): ResolutionJournal {
+    return new ResolutionJournal(path.join(gitDir(repoPath), 'codedetective', 'resolutions'));
+  }
+
+  /**
+   * Add an application to the file's history; must succeed before the file
+   * itself is written
+   */
+  record(entry: JournalEntry): void {
+    const entries = this.entries(entry.file);
+    entries.push(entry);
+    this.write(entry.file, entries);
+  }
+
+  /**
+   * Applications recorded for a file, oldest first
+   */
+  entries(file: string): JournalEntry[] {
+    try {
+      return JSON.parse(fs.readFileSync(this.journalPath(file), 'utf-8'), reviveAppliedAt) as JournalEntry[];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * The latest application of every file that can still be undone, most
+   * recent first
+   */
+  latest(): JournalEntry[] {
+    if (!fs.existsSync(this.dir)) return [];
+
+    const latest: JournalEntry[] = [];
+    for (const name of fs.readdirSync(this.dir).filter(name => name.endsWith('.json'))) {
+      try {
+        const entries = JSON.parse(fs.readFileSync(path.join(this.dir, name), 'utf-8'), reviveAppliedAt) as JournalEntry[];
+        if (entries.length > 0) latest.push(entries[entries.length - 1]);
+      } catch {
+        // Skip unreadable journals
+      }
+    }
+    return latest.sort((a, b) => b.appliedAt.getTime() - a.appliedAt.getTime());
+  }
+
+  /**
+   * Put a file back exactly as it was before its latest application, with
+   * its conflict stages back in the index if it was staged since.
+   * Refuses when the file changed since, unless forced, and always once
+   * HEAD has moved (the merge was committed or the rebase went on), since
+   * the conflict no longer belongs to the current state. Repeated undos
+   * step further back through earlier applications.
+   */
+  async undo(repoPath: string, file: string, force = false): Promise<UndoResult> {
+    const entries = this.entries(file);
+    const entry = entries[entries.length - 1];
+    if (!entry) {
+      return { file, restored: false, blocks: 0, reason: 'No applied resolutions recorded for this file' };
+    }
+
+    const refuse = (reason: string, edited?: boolean): UndoResult => ({
+      file,
+      restored: false,
+      appliedAt: entry.appliedAt,
+      blocks: entry.blocks.length,
+      reason,
+      edited
+    });
+
+    const git = simpleGit(repoPath);
+    if (entry.head) {
+      const head = await git.revparse(['HEAD']).catch(() => null);
+      if (head !== entry.head) {
+        return refuse(`HEAD moved from ${entry.head.substring(0, 7)} after the resolutions were applied; the operation has gone on`);
+      }
+    }
+
+    const fullPath = path.join(repoPath, file);
+    const current = fs.existsSync(fullPath) ? fs.readFileSync(fullPath, 'utf-8') : null;
+    if (current !== entry.applied && !force) {
+      return refuse(current === null
+        ? 'File was deleted after the resolutions were applied'
+        : 'File changed after the resolutions were applied', true);
+    }
+
+    // Staging the file replaced its conflict stages; git keeps them for
+    // `checkout -m` to bring back
+    const gitPath = file.split(path.sep).join('/');
+    if (entry.index && await git.raw(['ls-files', '-s', '--', gitPath]) !== entry.index) {
+      try {
+        await git.raw(['checkout', '-m', '--', gitPath]);
+      } catch {
+        return refuse('File was staged after the resolutions were applied and its conflict stages could not be restored');
+      }
+    }
+
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, entry.original);
+    this.write(file, entries.slice(0, -1));
+    return { file, restored: true, appliedAt: entry.appliedAt, blocks: entry.blocks.length };
+  }
+
+  /**
+   * Undo the latest application of every journaled file
+   */
+  async undoAll(repoPath: string, force = false): Promise<UndoResult[]> {
+    const results: UndoResult[] = [];
+    for (const entry of this.latest()) {
+      results.push(await this.undo(repoPath, entry.file, force));
+    }
+    return results;
+  }
+
+  // ============================================
+  // Private Helpers
+  // ============================================
+
+  private write(file: string, entries: JournalEntry[]): void {
+    const journalPath = this.journalPath(file);
+    if (entries.length === 0) {
+      fs.rmSync(journalPath, { force: true });
+      return;
+    }
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(`${journalPath}.tmp`, JSON.stringify(entries, null, 2));
+    fs.renameSync(`${journalPath}.tmp`, journalPath);
+  }
+
+  private journalPath(file: string): string {
+    const key = createHash('sha1').update(file.split(path.sep).join('/')).digest('hex');
+    return path.join(this.dir, `${key}.json`);
+  }
+}
+
+/**
+ * The repository's git directory; `.git` is a file pointing elsewhere in
+ * linked worktrees and submodules
+ */
+function gitDir(repoPath: string): string {
+  const dotGit = path.join(repoPath, '.git');
+  try {
+    if (fs.statSync(dotGit).isFile()) {
+      const match = fs.readFileSync(dotGit, 'utf-8').match(/^gitdir:\s*(.+)$/m);
+      if (match) return path.resolve(repoPath, match[1].trim());
+    }
+  } catch {
+    // No .git yet; fall through to the conventional location
+  }
+  return dotGit;
+}
@@ -0,0 +1,429 @@
+/**
+ * Request Scheduler
+ * One retry, rate-limit and backoff policy for every model and forge call:
+ * a shared concurrency cap, a token bucket per service, jittered exponential
+ * backoff that honors Retry-After and GitHub rate-limit headers, and a
+ * circuit breaker per service
+ */
+
+import { CancelledError, isCancellation, sleep } from './cancellation';
+
+export type ServiceErrorKind =
+  | 'rate_limited'   // 429, or the forge's rate limit is exhausted
+  | 'unavailable'    // 5xx, timeouts and network errors, after retries
+  | 'circuit_open'   // Too many recent failures; the service is not being called
+  | 'rejected'       // Other 4xx: bad credentials, not found, invalid request
+  | 'failed';        // The call succeeded but its response was unusable
+
+/**
+ * A failed call as recorded in results, so callers can show what is
+ * missing instead of quietly lowering confidence
+ */
+export interface ServiceFailure {
+  service: string;     // e.g. "model:gemini", "forge:github"
+  operation: string;   // What was being done, e.g. "find PR for commit abc1234"
+  kind: ServiceErrorKind;
+  status?: number;
+  message: string;
+}
+
+export class ServiceError extends Error {
+  readonly service: string;
+  readonly kind: ServiceErrorKind;
+  readonly status?: number;
+  readonly attempts: number;
+
+  constructor(service: string, kind: ServiceErrorKind, message: string, options: { status?: number; attempts?: number; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'ServiceError';
+    this.service = service;
+    this.kind = kind;
+    this.status = options.status;
+    this.attempts = options.attempts || 0;
+  }
+}
+
+export interface RateLimit {
+  perMinute: number;   // Sustained request rate
+  burst: number;       // Requests allowed back to back
+}
+
+export interface SchedulerOptions {
+  concurrency?: number;        // Requests in flight across all services (default 4)
+  maxRetries?: number;         // Retries after the first attempt (default 4)
+  baseDelayMs?: number;        // First backoff step (default 1000)
+  maxDelayMs?: number;         // Longest single wait; longer Retry-After values fail fast (default 60000)
+  failureThreshold?: number;   // Consecutive transient failures that open a circuit (default 5)
+  cooldownMs?: number;         // How long an open circuit rejects calls (default 30000)
+  rateLimits?: Record<string, RateLimit>;  // By service prefix ("model", "forge:github"); longest match wins
+}
+
+const DEFAULT_RATE_LIMITS: Record<string, RateLimit> = {
+  model: { perMinute: 60, burst: 10 },
+  forge: { perMinute: 60, burst: 10 },
+  'forge:github': { perMinute: 80, burst: 10 },  // 5,000/hour for authenticated REST calls
+};
+
+const TRANSIENT_STATUS = new Set([408, 500, 502, 503, 504]);
+const NETWORK_ERROR_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT']);
+
+interface ServiceState {
+  limit: RateLimit;
+  tokens: number;
+  refilledAt: number;
+  blockedUntil: number;   // From Retry-After or rate-limit reset headers
+  failures: number;       // Consecutive transient failures
+  openUntil: number;      // Circuit open until this time; 0 when closed
+  probing: boolean;       // Half-open: one trial call in flight
+}
+
+type Classified =
+  | { kind: 'rate_limited' | 'unavailable' | 'rejected'; status?: number; retryAfterMs: number | null }
+  | null;  // Not a service failure (e.g. a budget or programming error); passed through untouched
+
+export class RequestScheduler {
+  private concurrency: number;
+  private maxRetries: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private failureThreshold: number;
+  private cooldownMs: number;
+  private rateLimits: Record<string, RateLimit>;
+  private services: Map<string, ServiceState> = new Map();
+  private active: number = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(options: SchedulerOptions = {}) {
+    this.concurrency = Math.max(1, options.concurrency || 4);
+    this.maxRetries = options.maxRetries ?? 4;
+    this.baseDelayMs = options.baseDelayMs ?? 1000;
+    this.maxDelayMs = options.maxDelayMs ?? 60000;
+    this.failureThreshold = options.failureThreshold || 5;
+    this.cooldownMs = options.cooldownMs ?? 30000;
+    this.rateLimits = { ...DEFAULT_RATE_LIMITS, ...options.rateLimits };
+  }
+
+  /**
+   * Run a call against a service, retrying transient failures.
+   * Failures surface as ServiceError; anything else the call throws is
+   * rethrown as-is without retrying. Aborting the signal ends any wait
+   * with a CancelledError.
+   */
+  async run<T>(service: string, call: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const state = this.getState(service);
+
+    for (let attempt = 1; ; attempt++) {
+      const probe = this.checkCircuit(service, state, attempt);
+      try {
+        await this.takeToken(service, state, attempt, signal);
+        await this.acquire();
+      } catch (e) {
+        // The trial call never ran; let the next caller probe instead
+        if (probe) state.probing = false;
+        throw e;
+      }
+
+      if (signal?.aborted) {
+        this.release();
+        if (probe) state.probing = false;
+        throw new CancelledError();
+      }
+
+      let error: unknown;
+      try {
+        const result = await call();
+        this.recordSuccess(state);
+        return result;
+      } catch (e) {
+        error = e;
+      } finally {
+        this.release();
+      }
+
+      if (isCancellation(error, signal)) {
+        state.probing = false;
+        throw error instanceof CancelledError ? error : new CancelledError();
+      }
+
+      const failure = classifyError(error);
+      if (!failure) {
+        state.probing = false;
+        throw error;
+      }
+
+      if (failure.retryAfterMs !== null) {
+        state.blockedUntil = Math.max(state.blockedUntil, Date.now() + failure.retryAfterMs);
+      }
+
+      // A 404 or a rate limit says nothing about whether the service is healthy
+      if (failure.kind === 'unavailable') {
+        this.recordFailure(state);
+      } else {
+        this.recordSuccess(state);
+      }
+
+      const waitMs = failure.retryAfterMs ?? this.backoff(attempt);
+      if (failure.kind === 'rejected' || attempt > this.maxRetries || waitMs > this.maxDelayMs) {
+        throw new ServiceError(service, failure.kind, describeError(error), {
+          status: failure.status,
+          attempts: attempt,
+          cause: error
+        });
+      }
+
+      await sleep(failure.retryAfterMs !== null ? waitMs + Math.random() * this.baseDelayMs : waitMs, signal);
+    }
+  }
+
+  /**
+   * Exponential backoff with equal jitter: half the step is fixed, half random
+   */
+  private backoff(attempt: number): number {
+    const step = Math.min(this.maxDelayMs, this.baseDelayMs * Math.pow(2, attempt - 1));
+    return step / 2 + Math.random() * step / 2;
+  }
+
+  /**
+   * Throw while the circuit is open. Returns true when this call is the
+   * half-open trial, which must clear `probing` if it never gets to run.
+   */
+  private checkCircuit(service: string, state: ServiceState, attempt: number): boolean {
+    if (state.openUntil === 0) return false;
+
+    if (Date.now() < state.openUntil || state.probing) {
+      const seconds = Math.ceil(Math.max(0, state.openUntil - Date.now()) / 1000);
+      throw new ServiceError(
+        service,
+        'circuit_open',
+        `${service} is failing repeatedly; not calling it for another ${seconds}s`,
+        { attempts: attempt - 1 }
+      );
+    }
+
+    // Cooldown over: let one call through to see whether the service recovered
+    state.probing = true;
+    return true;
+  }
+
+  private recordSuccess(state: ServiceState): void {
+    state.failures = 0;
+    state.openUntil = 0;
+    state.probing = false;
+  }
+
+  private recordFailure(state: ServiceState): void {
+    state.failures++;
+    if (state.probing || state.failures >= this.failureThreshold) {
+      state.openUntil = Date.now() + this.cooldownMs;
+      state.probing = false;
+    }
+  }
+
+  /**
+   * Wait for the service's token bucket (and any Retry-After block) to allow a call
+   */
+  private async takeToken(service: string, state: ServiceState, attempt: number, signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      const blockedMs = state.blockedUntil - now;
+      if (blockedMs > this.maxDelayMs) {
+        throw new ServiceError(
+          service,
+          'rate_limited',
+          `${service} rate limit exhausted; resets in ${Math.ceil(blockedMs / 1000)}s`,
+          { status: 429, attempts: attempt - 1 }
+        );
+      }
+      if (blockedMs > 0) {
+        await sleep(blockedMs, signal);
+        continue;
+      }
+
+      const perMs = state.limit.perMinute / 60000;
+      state.tokens = Math.min(state.limit.burst, state.tokens + (now - state.refilledAt) * perMs);
+      state.refilledAt = now;
+
+      if (state.tokens >= 1) {
+        state.tokens--;
+        return;
+      }
+      await sleep((1 - state.tokens) / perMs, signal);
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.concurrency) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.waiting.push(resolve));
+  }
+
+  /**
+   * Hand the slot straight to the next waiter, if any
+   */
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  private getState(service: string): ServiceState {
+    let state = this.services.get(service);
+    if (!state) {
+      const limit = this.rateLimitFor(service);
+      state = {
+        limit,
+        tokens: limit.burst,
+        refilledAt: Date.now(),
+        blockedUntil: 0,
+        failures: 0,
+        openUntil: 0,
+        probing: false
+      };
+      this.services.set(service, state);
+    }
+    return state;
+  }
+
+  private rateLimitFor(service: string): RateLimit {
+    const prefix = Object.keys(this.rateLimits)
+      .filter(p => service === p || service.startsWith(`${p}:`))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix ? this.rateLimits[prefix] : { perMinute: 60, burst: 10 };
+  }
+}
+
+let sharedScheduler: RequestScheduler | null = null;
+
+/**
+ * The process-wide scheduler every provider and forge goes through
+ */
+export function getScheduler(): RequestScheduler {
+  if (!sharedScheduler) {
+    sharedScheduler = new RequestScheduler();
+  }
+  return sharedScheduler;
+}
+
+/**
+ * Replace the shared scheduler (e.g. when settings change). Providers
+ * created afterwards use the new one.
+ */
+export function configureScheduler(options: SchedulerOptions): RequestScheduler {
+  sharedScheduler = new RequestScheduler(options);
+  return sharedScheduler;
+}
+
+/**
+ * Describe any error as a ServiceFailure for results and reports
+ */
+export function toServiceFailure(error: unknown, operation: string, service: string = 'unknown'): ServiceFailure {
+  if (error instanceof ServiceError) {
+    return {
+      service: error.service,
+      operation,
+      kind: error.kind,
+      status: error.status,
+      message: error.message
+    };
+  }
+  return { service, operation, kind: 'failed', message: describeError(error) };
+}
+
+export function formatFailure(failure: ServiceFailure): string {
+  const status = failure.status ? ` ${failure.status}` : '';
+  return `${failure.operation}: ${failure.kind.replace('_', ' ')}${status} (${failure.service}) - ${failure.message}`;
+}
+
+function classifyError(error: unknown): Classified {
+  if (typeof error !== 'object' || error === null) return null;
+  if (error instanceof ServiceError) return null;
+
+  const message = error instanceof Error ? error.message : undefined;
+  const status = statusOf(error);
+  if (status === undefined) {
+    const code = field(error, 'code') || field(field(error, 'cause'), 'code');
+    const network = (typeof code === 'string' && NETWORK_ERROR_CODES.has(code))
+      || (error instanceof TypeError && /fetch failed/i.test(error.message));
+    return network ? { kind: 'unavailable', retryAfterMs: null } : null;
+  }
+
+  const headers = headersOf(error);
+  const retryAfterMs = parseRetryAfter(headers, message);
+
+  // GitHub answers 403 when the primary limit is exhausted, and sends
+  // Retry-After with 403 for secondary (abuse) limits
+  const limited = status === 429
+    || (status === 403 && (headers['x-ratelimit-remaining'] === '0' || headers['retry-after'] !== undefined));
+  if (limited) return { kind: 'rate_limited', status, retryAfterMs };
+
+  if (TRANSIENT_STATUS.has(status)) return { kind: 'unavailable', status, retryAfterMs };
+  return { kind: 'rejected', status, retryAfterMs: null };
+}
+
+/**
+ * A property of an error we know nothing about, e.g. Octokit's
+ * `response.status` or undici's `cause.code`
+ */
+function field(value: unknown, key: string): unknown {
+  if (typeof value !== 'object' || value === null || !(key in value)) return undefined;
+  return Reflect.get(value, key);
+}
+
+function statusOf(error: object): number | undefined {
+  const candidates = [field(error, 'status'), field(field(error, 'response'), 'status'), field(error, 'code')];
+  return candidates.find((value): value is number => typeof value === 'number' && value >= 400 && value < 600);
+}
+
+/**
+ * Response headers as a lower-cased plain object, from a fetch Headers
+ * instance (our providers) or Octokit's plain object
+ */
+function headersOf(error: object): Record<string, string> {
+  const raw = field(error, 'headers') || field(field(error, 'response'), 'headers');
+  const headers: Record<string, string> = {};
+  if (typeof raw !== 'object' || raw === null) return headers;
+
+  if (raw instanceof Headers) {
+    raw.forEach((value, key) => { headers[key.toLowerCase()] = value; });
+    return headers;
+  }
+  for (const [key, value] of Object.entries(raw)) {
+    headers[key.toLowerCase()] = String(value);
+  }
+  return headers;
+}
+
+/**
+ * How long the service asked us to wait: Retry-After (seconds or a date),
+ * GitHub's X-RateLimit-Reset once the limit is spent, or the retryDelay
+ * Gemini puts in its error body
+ */
+function parseRetryAfter(headers: Record<string, string>, message: string = ''): number | null {
+  const retryAfter = headers['retry-after'];
+  if (retryAfter !== undefined) {
+    const seconds = Number(retryAfter);
+    if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  if (headers['x-ratelimit-remaining'] === '0' && headers['x-ratelimit-reset']) {
+    const reset = Number(headers['x-ratelimit-reset']) * 1000;
+    if (!isNaN(reset)) return Math.max(0, reset - Date.now());
+  }
+
+  const delay = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  if (delay) return parseFloat(delay[1]) * 1000;
+
+  return null;
+}
+
+function describeError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.length > 300 ? `${message.substring(0, 300)}...` : message;
+}